@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "Slot" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SlotSeries" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "byWeekday" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER,
+    "until" TIMESTAMP(3),
+    "exceptionDates" TIMESTAMP(3)[] DEFAULT ARRAY[]::TIMESTAMP(3)[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlotSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SlotSeries_hostId_idx" ON "SlotSeries"("hostId");
+
+-- CreateIndex
+CREATE INDEX "Slot_seriesId_startTime_idx" ON "Slot"("seriesId", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "Slot" ADD CONSTRAINT "Slot_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "SlotSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlotSeries" ADD CONSTRAINT "SlotSeries_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
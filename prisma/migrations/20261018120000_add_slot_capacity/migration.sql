@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Slot" ADD COLUMN     "capacity" INTEGER NOT NULL DEFAULT 1;
+
+-- A slot must offer at least one seat
+ALTER TABLE "Slot" ADD CONSTRAINT "slot_capacity_positive" CHECK ("capacity" >= 1);
+
+-- Group slots allow several CONFIRMED bookings per slot, so replace the
+-- one-confirmed-booking-per-slot index with one confirmed booking per user per slot.
+-- Seat counting itself happens under the slot row lock in the booking transaction.
+DROP INDEX "unique_confirmed_booking_per_slot";
+
+CREATE UNIQUE INDEX "unique_confirmed_booking_per_slot_user"
+ON "Booking" ("slotId", "userId")
+WHERE status = 'CONFIRMED';
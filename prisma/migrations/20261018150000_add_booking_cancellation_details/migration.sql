@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "CancellationActor" AS ENUM ('GUEST', 'HOST');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "cancelledBy" "CancellationActor",
+ADD COLUMN "cancellationReason" TEXT;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('BOOKING_CONFIRMED', 'BOOKING_CANCELLED', 'SLOT_CANCELLED_BY_HOST', 'BOOKING_REMINDER');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('SENT', 'SKIPPED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "notificationOptOuts" "NotificationType"[] DEFAULT ARRAY[]::"NotificationType"[];
+
+-- CreateTable
+CREATE TABLE "NotificationLog" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "type" "NotificationType" NOT NULL,
+    "status" "NotificationStatus" NOT NULL,
+    "transport" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_bookingId_createdAt_idx" ON "NotificationLog"("bookingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_userId_createdAt_idx" ON "NotificationLog"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "NotificationLog" ADD CONSTRAINT "NotificationLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationLog" ADD CONSTRAINT "NotificationLog_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
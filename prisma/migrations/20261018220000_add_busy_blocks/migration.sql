@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "BusyBlock" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "uid" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "summary" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BusyBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BusyBlock_hostId_uid_startTime_key" ON "BusyBlock"("hostId", "uid", "startTime");
+
+-- CreateIndex
+CREATE INDEX "BusyBlock_hostId_startTime_idx" ON "BusyBlock"("hostId", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "BusyBlock" ADD CONSTRAINT "BusyBlock_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
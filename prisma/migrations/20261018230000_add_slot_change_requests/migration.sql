@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SLOT_CHANGE_PROPOSED';
+ALTER TYPE "NotificationType" ADD VALUE 'SLOT_TIME_CHANGED';
+
+-- CreateEnum
+CREATE TYPE "SlotChangeStatus" AS ENUM ('PENDING', 'APPLIED', 'WITHDRAWN');
+
+-- CreateTable
+CREATE TABLE "SlotChangeRequest" (
+    "id" TEXT NOT NULL,
+    "slotId" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "status" "SlotChangeStatus" NOT NULL DEFAULT 'PENDING',
+    "acceptedBookingIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlotChangeRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SlotChangeRequest_slotId_status_idx" ON "SlotChangeRequest"("slotId", "status");
+
+-- At most one change per slot waits for its guests (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "SlotChangeRequest_slotId_pending_key" ON "SlotChangeRequest"("slotId") WHERE "status" = 'PENDING';
+
+-- AddForeignKey
+ALTER TABLE "SlotChangeRequest" ADD CONSTRAINT "SlotChangeRequest_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "Slot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "bufferBeforeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bufferAfterMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "minNoticeHours" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "maxHorizonDays" INTEGER;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "HostPolicy" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "maxActiveBookings" INTEGER,
+    "cancellationWindowHours" INTEGER,
+    "allowMultipleBookings" BOOLEAN NOT NULL DEFAULT false,
+    "maxBookingsPerDay" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HostPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HostPolicy_hostId_key" ON "HostPolicy"("hostId");
+
+-- AddForeignKey
+ALTER TABLE "HostPolicy" ADD CONSTRAINT "HostPolicy_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'PENDING' BEFORE 'CONFIRMED';
+ALTER TYPE "CancellationActor" ADD VALUE 'SYSTEM';
+ALTER TYPE "NotificationType" ADD VALUE 'BOOKING_DECLINED';
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "approvalExpiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "HostPolicy" ADD COLUMN     "requiresApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- A pending booking request holds its seat like a confirmed booking, so a guest
+-- may have only one of either per slot. The predicate avoids the new enum value,
+-- which cannot be used in the transaction that adds it.
+DROP INDEX "unique_confirmed_booking_per_slot_user";
+
+CREATE UNIQUE INDEX "unique_active_booking_per_slot_user"
+ON "Booking" ("slotId", "userId")
+WHERE status <> 'CANCELLED';
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "SlotStatus" ADD VALUE 'HELD' BEFORE 'BOOKED';
+
+-- AlterTable
+ALTER TABLE "Slot" ADD COLUMN     "heldById" TEXT,
+ADD COLUMN     "holdExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Slot_heldById_idx" ON "Slot"("heldById");
+
+-- AddForeignKey
+ALTER TABLE "Slot" ADD CONSTRAINT "Slot_heldById_fkey" FOREIGN KEY ("heldById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "IntakeQuestionType" AS ENUM ('TEXT', 'CHOICE');
+
+-- CreateTable
+CREATE TABLE "IntakeQuestion" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "slotId" TEXT,
+    "label" TEXT NOT NULL,
+    "type" "IntakeQuestionType" NOT NULL DEFAULT 'TEXT',
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IntakeQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingAnswer" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "questionId" TEXT,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IntakeQuestion_hostId_position_idx" ON "IntakeQuestion"("hostId", "position");
+
+-- CreateIndex
+CREATE INDEX "IntakeQuestion_slotId_position_idx" ON "IntakeQuestion"("slotId", "position");
+
+-- CreateIndex
+CREATE INDEX "BookingAnswer_bookingId_position_idx" ON "BookingAnswer"("bookingId", "position");
+
+-- CreateIndex
+CREATE INDEX "BookingAnswer_questionId_idx" ON "BookingAnswer"("questionId");
+
+-- AddForeignKey
+ALTER TABLE "IntakeQuestion" ADD CONSTRAINT "IntakeQuestion_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IntakeQuestion" ADD CONSTRAINT "IntakeQuestion_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "Slot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingAnswer" ADD CONSTRAINT "BookingAnswer_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingAnswer" ADD CONSTRAINT "BookingAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "IntakeQuestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
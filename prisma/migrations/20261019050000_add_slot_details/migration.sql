@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "LocationType" AS ENUM ('IN_PERSON', 'PHONE', 'VIDEO');
+
+-- AlterTable
+ALTER TABLE "Slot" ADD COLUMN     "title" TEXT,
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "locationType" "LocationType",
+ADD COLUMN     "location" TEXT,
+ADD COLUMN     "meetingUrl" TEXT;
+
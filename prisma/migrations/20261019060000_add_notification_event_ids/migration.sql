@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "NotificationLog" ADD COLUMN     "eventId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_eventId_bookingId_idx" ON "NotificationLog"("eventId", "bookingId");
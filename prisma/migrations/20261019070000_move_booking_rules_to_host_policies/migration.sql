@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "HostPolicy" ADD COLUMN     "bufferBeforeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bufferAfterMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "minNoticeHours" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "maxHorizonDays" INTEGER;
+
+-- Move the booking rules of hosts that set any into their policy
+INSERT INTO "HostPolicy" ("id", "hostId", "bufferBeforeMinutes", "bufferAfterMinutes", "minNoticeHours", "maxHorizonDays", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "bufferBeforeMinutes", "bufferAfterMinutes", "minNoticeHours", "maxHorizonDays", CURRENT_TIMESTAMP
+FROM "User"
+WHERE "bufferBeforeMinutes" > 0 OR "bufferAfterMinutes" > 0 OR "minNoticeHours" > 0 OR "maxHorizonDays" IS NOT NULL
+ON CONFLICT ("hostId") DO UPDATE SET
+"bufferBeforeMinutes" = EXCLUDED."bufferBeforeMinutes",
+"bufferAfterMinutes" = EXCLUDED."bufferAfterMinutes",
+"minNoticeHours" = EXCLUDED."minNoticeHours",
+"maxHorizonDays" = EXCLUDED."maxHorizonDays";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "bufferBeforeMinutes",
+DROP COLUMN "bufferAfterMinutes",
+DROP COLUMN "minNoticeHours",
+DROP COLUMN "maxHorizonDays";
@@ -1,4 +1,5 @@
 import { PrismaClient, UserRole, SlotStatus, BookingStatus, Slot } from '@prisma/client';
+import { hashPassword } from '../src/utils/crypto';
 
 type SlotInput = {
   hostId: string;
@@ -9,9 +10,14 @@ type SlotInput = {
 
 const prisma = new PrismaClient();
 
+// All seeded users sign in with this password via POST /api/auth/login
+const SEED_PASSWORD = 'password123';
+
 async function main() {
   console.log('🌱 Seeding database...');
 
+  const passwordHash = await hashPassword(SEED_PASSWORD);
+
   // Create sample users
   const host1 = await prisma.user.upsert({
     where: { email: 'host1@example.com' },
@@ -20,6 +26,7 @@ async function main() {
       email: 'host1@example.com',
       name: 'Alice Host',
       roles: [UserRole.HOST, UserRole.GUEST],
+      passwordHash,
     },
   });
 
@@ -30,6 +37,7 @@ async function main() {
       email: 'host2@example.com',
       name: 'Bob Host',
       roles: [UserRole.HOST],
+      passwordHash,
     },
   });
 
@@ -40,6 +48,7 @@ async function main() {
       email: 'host3@example.com',
       name: 'Eve Host',
       roles: [UserRole.HOST],
+      passwordHash,
     },
   });
 
@@ -50,6 +59,7 @@ async function main() {
       email: 'host4@example.com',
       name: 'Frank Host',
       roles: [UserRole.HOST],
+      passwordHash,
     },
   });
 
@@ -60,6 +70,7 @@ async function main() {
       email: 'host5@example.com',
       name: 'Grace Host',
       roles: [UserRole.HOST],
+      passwordHash,
     },
   });
 
@@ -70,6 +81,7 @@ async function main() {
       email: 'host6@example.com',
       name: 'Henry Host',
       roles: [UserRole.HOST],
+      passwordHash,
     },
   });
 
@@ -80,6 +92,7 @@ async function main() {
       email: 'guest1@example.com',
       name: 'Charlie Guest',
       roles: [UserRole.GUEST],
+      passwordHash,
     },
   });
 
@@ -90,6 +103,7 @@ async function main() {
       email: 'guest2@example.com',
       name: 'Diana Guest',
       roles: [UserRole.GUEST],
+      passwordHash,
     },
   });
 
@@ -100,10 +114,23 @@ async function main() {
       email: 'guest3@example.com',
       name: 'Ivan Guest',
       roles: [UserRole.GUEST],
+      passwordHash,
+    },
+  });
+
+  const admin = await prisma.user.upsert({
+    where: { email: 'admin@example.com' },
+    update: {},
+    create: {
+      email: 'admin@example.com',
+      name: 'Ada Admin',
+      roles: [UserRole.ADMIN],
+      passwordHash,
     },
   });
 
   console.log('✅ Created users:', { 
+    admin: admin.id,
     host1: host1.id, host2: host2.id, host3: host3.id, host4: host4.id, host5: host5.id, host6: host6.id,
     guest1: guest1.id, guest2: guest2.id, guest3: guest3.id 
   });
@@ -218,6 +245,7 @@ async function main() {
 
   console.log(`✅ Created 4 bookings for guest3`);
 
+  console.log(`🔑 All users sign in with password "${SEED_PASSWORD}"`);
   console.log('🎉 Seeding completed!');
 }
 
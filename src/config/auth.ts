@@ -0,0 +1,41 @@
+// Fallback secret for local development and tests only
+const DEV_JWT_SECRET = 'dev-only-insecure-jwt-secret';
+
+// Environments that may use the fallback secret; NODE_ENV must name one explicitly
+const DEV_ENVIRONMENTS = ['development', 'test'];
+
+export interface AuthConfig {
+  /** HS256 signing secret for access and refresh tokens */
+  jwtSecret: string;
+  /** Accept the legacy x-user-id header (never in production) */
+  allowUserIdHeader: boolean;
+  /** Base URL that magic sign-in links point to */
+  magicLinkUrl: string;
+}
+
+/**
+ * Whether NODE_ENV is explicitly set to development or test
+ */
+export function isDevEnvironment(): boolean {
+  return DEV_ENVIRONMENTS.includes(process.env.NODE_ENV ?? '');
+}
+
+/**
+ * Read auth settings from the environment
+ * Read on every call so tests can toggle settings per case. Throws when JWT_SECRET
+ * is missing outside development and test, so the server fails at startup.
+ */
+export function getAuthConfig(): AuthConfig {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const jwtSecret = process.env.JWT_SECRET;
+
+  if (!jwtSecret && !isDevEnvironment()) {
+    throw new Error('JWT_SECRET must be set unless NODE_ENV is development or test');
+  }
+
+  return {
+    jwtSecret: jwtSecret || DEV_JWT_SECRET,
+    allowUserIdHeader: !isProduction && process.env.AUTH_ALLOW_USER_ID_HEADER === 'true',
+    magicLinkUrl: process.env.MAGIC_LINK_URL || 'http://localhost:3000/api/auth/magic-link/verify',
+  };
+}
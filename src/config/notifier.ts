@@ -0,0 +1,56 @@
+export type NotifierTransport = 'console' | 'file' | 'memory' | 'smtp';
+
+const NOTIFIER_TRANSPORTS: readonly NotifierTransport[] = ['console', 'file', 'memory', 'smtp'];
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect with TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Send credentials over a plaintext connection when the server offers no STARTTLS */
+  allowInsecureAuth: boolean;
+}
+
+export interface NotifierConfig {
+  /** How notifications are delivered */
+  transport: NotifierTransport;
+  /** Sender address, e.g. "Slot Booking <no-reply@example.com>" */
+  from: string;
+  /** File that the file transport appends to */
+  filePath: string;
+  smtp: SmtpConfig;
+}
+
+/**
+ * Read notifier settings from the environment
+ * Read on every call so tests can toggle settings per case.
+ */
+export function getNotifierConfig(): NotifierConfig {
+  const transport = (process.env.NOTIFIER_TRANSPORT || 'console') as NotifierTransport;
+
+  if (!NOTIFIER_TRANSPORTS.includes(transport)) {
+    throw new Error(`NOTIFIER_TRANSPORT must be one of ${NOTIFIER_TRANSPORTS.join(', ')}`);
+  }
+
+  if (transport === 'smtp' && !process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST must be set for the smtp notifier transport');
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+
+  return {
+    transport,
+    from: process.env.NOTIFIER_FROM || 'Slot Booking <no-reply@localhost>',
+    filePath: process.env.NOTIFIER_FILE_PATH || 'notifications.log',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '') || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    },
+  };
+}
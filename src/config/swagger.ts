@@ -16,19 +16,24 @@ and users can browse and book these slots.
 
 - **Slot Management**: Hosts create, view, and manage available time slots
 - **Booking System**: Users browse and book available slots with concurrency protection
-- **Analytics**: Administrators can view booking statistics
+- **Analytics**: Administrators (ADMIN role) can view booking statistics
 
 ## Authentication
 
-This API uses a simplified header-based authentication for testing purposes.
-Include the \`x-user-id\` header with a valid user UUID in all authenticated requests.
+Authenticated requests send a JWT access token as \`Authorization: Bearer <accessToken>\`.
+Sign in with \`POST /api/auth/login\` (email and password) or a magic link
+(\`POST /api/auth/magic-link\`), refresh with \`POST /api/auth/refresh\`, and revoke the
+session with \`POST /api/auth/logout\`.
+
+In development, setting \`AUTH_ALLOW_USER_ID_HEADER=true\` also accepts an \`x-user-id\`
+header with a user UUID instead of a token. It is always disabled in production.
 
 ## Testing Tips
 
-1. **Create a user first** using \`POST /api/users\` to get a user ID
-2. **Copy the user ID** from the response
-3. **Set the x-user-id header** by clicking "Authorize" button above
-4. **Test the endpoints** - the header will be automatically included
+1. **Create a user first** using \`POST /api/users\` with a \`password\`
+2. **Sign in** with \`POST /api/auth/login\` and copy the \`accessToken\`
+3. **Paste the token** by clicking the "Authorize" button above
+4. **Test the endpoints** - the token will be automatically included
 
 ## Business Rules
 
@@ -36,6 +41,12 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
 - Maximum 5 active bookings per user
 - Cancellation only allowed >1 hour before slot start time
 - Slots cannot overlap for the same host
+
+## Time Zones
+
+Slot, booking and analytics endpoints accept a \`tz\` query parameter (IANA name, e.g. \`Asia/Singapore\`).
+Date filters without an explicit offset are read as wall time in that zone, and response dates are
+rendered with its offset. It defaults to the user's profile time zone, which defaults to UTC.
       `,
       contact: {
         name: 'API Support',
@@ -49,11 +60,31 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
     ],
     components: {
       securitySchemes: {
+        BearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Access token from POST /auth/login, /auth/magic-link/verify or /auth/refresh.',
+        },
         UserIdHeader: {
           type: 'apiKey',
           in: 'header',
           name: 'x-user-id',
-          description: 'User ID (UUID) for authentication. Create a user first, then use their ID here.',
+          description: 'Development only (AUTH_ALLOW_USER_ID_HEADER=true): user ID (UUID) instead of a token.',
+        },
+      },
+      parameters: {
+        TimeZone: {
+          in: 'query',
+          name: 'tz',
+          schema: { type: 'string', example: 'Asia/Singapore' },
+          description: 'IANA time zone for date filters and response dates. Defaults to the user\'s time zone.',
+        },
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          schema: { type: 'string', maxLength: 255, example: '8e03978e-40d5-43e8-bc93-6894a57f9324' },
+          description: 'Unique key for safely retrying the request. Retries with the same key and body replay the first response (with `Idempotent-Replayed: true`); reusing the key with a different body returns 422. Ignored for requests without a signed-in user.',
         },
       },
       schemas: {
@@ -66,9 +97,10 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
             name: { type: 'string', example: 'John Doe' },
             roles: { 
               type: 'array', 
-              items: { type: 'string', enum: ['HOST', 'GUEST'] },
+              items: { type: 'string', enum: ['HOST', 'GUEST', 'ADMIN'] },
               example: ['GUEST']
             },
+            timeZone: { type: 'string', example: 'UTC' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
@@ -81,12 +113,44 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
             name: { type: 'string', example: 'Jane Smith' },
             roles: { 
               type: 'array', 
-              items: { type: 'string', enum: ['HOST', 'GUEST'] },
+              items: { type: 'string', enum: ['HOST', 'GUEST', 'ADMIN'] },
               default: ['GUEST'],
-              description: 'User roles. Use ["HOST", "GUEST"] if the user should be able to create slots.'
+              description: 'User roles. Use ["HOST", "GUEST"] if the user should be able to create slots. Roles other than GUEST require an admin.'
+            },
+            timeZone: { type: 'string', default: 'UTC', description: 'IANA time zone', example: 'Asia/Singapore' },
+            password: {
+              type: 'string',
+              minLength: 8,
+              description: 'Enables password sign-in; omit to sign in with magic links only',
             },
           },
         },
+        UpdateUserRequest: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', example: 'Jane Smith' },
+            timeZone: { type: 'string', description: 'IANA time zone', example: 'America/New_York' },
+          },
+        },
+
+        // Auth Schemas
+        LoginRequest: {
+          type: 'object',
+          required: ['email', 'password'],
+          properties: {
+            email: { type: 'string', format: 'email', example: 'guest@example.com' },
+            password: { type: 'string', example: 'correct horse battery staple' },
+          },
+        },
+        AuthTokens: {
+          type: 'object',
+          properties: {
+            tokenType: { type: 'string', example: 'Bearer' },
+            accessToken: { type: 'string', description: 'JWT to send as Authorization: Bearer <token>' },
+            expiresIn: { type: 'integer', example: 900, description: 'Access token lifetime in seconds' },
+            refreshToken: { type: 'string', description: 'Single-use token for POST /auth/refresh' },
+          },
+        },
 
         // Slot Schemas
         Slot: {
@@ -97,7 +161,16 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
             hostName: { type: 'string', example: 'Alice Host' },
             startTime: { type: 'string', format: 'date-time' },
             endTime: { type: 'string', format: 'date-time' },
-            status: { type: 'string', enum: ['AVAILABLE', 'BOOKED', 'CANCELLED'] },
+            durationMinutes: { type: 'integer', example: 60 },
+            status: { type: 'string', enum: ['AVAILABLE', 'HELD', 'BOOKED', 'CANCELLED'], description: 'HELD while a guest holds it; BOOKED once all seats are taken' },
+            capacity: { type: 'integer', example: 1, description: 'Number of seats' },
+            bookedCount: { type: 'integer', example: 0, description: 'Seats taken by confirmed bookings (listings only)' },
+            seriesId: { type: 'string', format: 'uuid', nullable: true },
+            title: { type: 'string', nullable: true, example: 'Intro call' },
+            description: { type: 'string', nullable: true },
+            locationType: { type: 'string', enum: ['IN_PERSON', 'PHONE', 'VIDEO'], nullable: true },
+            location: { type: 'string', nullable: true, description: 'Address (IN_PERSON) or phone number (PHONE)' },
+            meetingUrl: { type: 'string', nullable: true, description: 'Video call link (VIDEO)' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
@@ -118,6 +191,396 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
               description: 'End time (must be after start time)',
               example: '2026-02-01T11:00:00Z'
             },
+            capacity: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 100,
+              default: 1,
+              description: 'Number of guests that can book the slot',
+            },
+            title: { type: 'string', maxLength: 200, example: 'Intro call' },
+            description: { type: 'string', maxLength: 2000 },
+            locationType: { type: 'string', enum: ['IN_PERSON', 'PHONE', 'VIDEO'] },
+            location: {
+              type: 'string',
+              maxLength: 500,
+              description: 'Address (required for IN_PERSON) or phone number (PHONE only)',
+            },
+            meetingUrl: {
+              type: 'string',
+              format: 'uri',
+              description: 'Video call link (VIDEO only); generated when omitted',
+            },
+          },
+        },
+        BulkCreateSlotsRequest: {
+          type: 'object',
+          required: ['slots'],
+          properties: {
+            slots: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 100,
+              items: { $ref: '#/components/schemas/CreateSlotRequest' },
+            },
+            atomic: {
+              type: 'boolean',
+              default: false,
+              description: 'Create the slots only if every entry succeeds',
+            },
+          },
+        },
+        BulkSlotResponse: {
+          type: 'object',
+          properties: {
+            created: { type: 'integer', description: 'Number of slots created', example: 2 },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer', description: 'Position of the entry in the request' },
+                  status: { type: 'string', enum: ['CREATED', 'INVALID', 'OVERLAP', 'ABORTED'] },
+                  slot: { $ref: '#/components/schemas/Slot' },
+                  errors: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        path: { type: 'string', example: 'startTime' },
+                        message: { type: 'string', example: 'Start time must be in the future' },
+                      },
+                    },
+                  },
+                  overlapsIndex: { type: 'integer', description: 'Earlier entry of the batch this entry overlaps' },
+                },
+              },
+            },
+          },
+        },
+        UpdateSlotRequest: {
+          type: 'object',
+          required: ['startTime', 'endTime'],
+          properties: {
+            startTime: { type: 'string', format: 'date-time', description: 'New start time (must be in the future)' },
+            endTime: { type: 'string', format: 'date-time', description: 'New end time (must be after start time)' },
+            requestConsent: {
+              type: 'boolean',
+              default: false,
+              description: 'Propose the new time to the guests of a slot with confirmed bookings',
+            },
+          },
+        },
+        SlotChange: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            slotId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['PENDING', 'APPLIED', 'WITHDRAWN'] },
+            startTime: { type: 'string', format: 'date-time', description: 'Proposed start' },
+            endTime: { type: 'string', format: 'date-time', description: 'Proposed end' },
+            acceptedBookingIds: { type: 'array', items: { type: 'string', format: 'uuid' } },
+            resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        SlotUpdate: {
+          type: 'object',
+          properties: {
+            slot: { $ref: '#/components/schemas/Slot' },
+            pendingChange: {
+              allOf: [{ $ref: '#/components/schemas/SlotChange' }],
+              nullable: true,
+              description: 'Set when the new time waits for the guests to accept it',
+            },
+          },
+        },
+        SlotAttendee: {
+          type: 'object',
+          properties: {
+            bookingId: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', format: 'uuid' },
+            userName: { type: 'string', example: 'Bob Guest' },
+          },
+        },
+
+        CancelSlotRequest: {
+          type: 'object',
+          required: ['reason'],
+          properties: {
+            reason: { type: 'string', maxLength: 500, description: 'Shown to the guests whose bookings are cancelled' },
+          },
+        },
+
+        // Intake Question Schemas
+        IntakeQuestion: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            hostId: { type: 'string', format: 'uuid' },
+            slotId: { type: 'string', format: 'uuid', nullable: true, description: "null for the host's profile questions" },
+            label: { type: 'string', example: 'What would you like to discuss?' },
+            type: { type: 'string', enum: ['TEXT', 'CHOICE'] },
+            required: { type: 'boolean', example: true },
+            options: { type: 'array', items: { type: 'string' }, description: 'Allowed answers of CHOICE questions' },
+            position: { type: 'integer', example: 0 },
+          },
+        },
+        IntakeQuestionsRequest: {
+          type: 'object',
+          required: ['questions'],
+          properties: {
+            questions: {
+              type: 'array',
+              maxItems: 20,
+              items: {
+                type: 'object',
+                required: ['label'],
+                properties: {
+                  label: { type: 'string', maxLength: 200, example: 'Which plan are you on?' },
+                  type: { type: 'string', enum: ['TEXT', 'CHOICE'], default: 'TEXT' },
+                  required: { type: 'boolean', default: false },
+                  options: {
+                    type: 'array',
+                    maxItems: 20,
+                    items: { type: 'string', maxLength: 200 },
+                    description: 'At least 2 unique options for CHOICE questions; none for TEXT',
+                    example: ['Free', 'Pro'],
+                  },
+                },
+              },
+            },
+          },
+        },
+
+        // Slot Hold Schemas
+        SlotHold: {
+          type: 'object',
+          properties: {
+            slotId: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', format: 'uuid', description: 'Guest holding the slot' },
+            expiresAt: { type: 'string', format: 'date-time', description: 'When the slot becomes AVAILABLE again' },
+          },
+        },
+
+        // Waitlist Schemas
+        WaitlistEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            slotId: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['WAITING', 'PROMOTED', 'REMOVED'] },
+            position: {
+              type: 'integer',
+              example: 1,
+              description: 'Place in line (1 = next), only while WAITING',
+            },
+            bookingId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Booking created when the entry was promoted',
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Slot Series Schemas
+        SlotSeries: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            hostId: { type: 'string', format: 'uuid' },
+            frequency: { type: 'string', enum: ['DAILY', 'WEEKLY', 'MONTHLY'] },
+            interval: { type: 'integer', example: 1 },
+            byWeekday: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, example: [1, 3] },
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: 'string', format: 'date-time' },
+            count: { type: 'integer', nullable: true, example: 8 },
+            until: { type: 'string', format: 'date-time', nullable: true },
+            exceptionDates: { type: 'array', items: { type: 'string', format: 'date-time' } },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateSlotSeriesRequest: {
+          type: 'object',
+          required: ['startTime', 'endTime', 'frequency'],
+          properties: {
+            startTime: { type: 'string', format: 'date-time', description: 'Start of the first occurrence' },
+            endTime: { type: 'string', format: 'date-time', description: 'End of the first occurrence' },
+            frequency: { type: 'string', enum: ['DAILY', 'WEEKLY', 'MONTHLY'] },
+            interval: { type: 'integer', default: 1, minimum: 1 },
+            byWeekday: {
+              type: 'array',
+              items: { type: 'integer', minimum: 0, maximum: 6 },
+              description: 'WEEKLY only: days of the week (0 = Sunday)',
+            },
+            count: { type: 'integer', minimum: 1, maximum: 200, description: 'Number of occurrences (exclusive with until)' },
+            until: { type: 'string', format: 'date-time', description: 'Last possible occurrence start (exclusive with count)' },
+            exceptionDates: { type: 'array', items: { type: 'string', format: 'date' }, description: 'Days to skip' },
+          },
+        },
+        UpdateSlotSeriesRequest: {
+          type: 'object',
+          required: ['fromSlotId'],
+          properties: {
+            fromSlotId: { type: 'string', format: 'uuid', description: 'First occurrence the changes apply to' },
+            startTime: { type: 'string', format: 'date-time', description: 'New start of the fromSlotId occurrence' },
+            endTime: { type: 'string', format: 'date-time', description: 'New end of the fromSlotId occurrence' },
+            frequency: { type: 'string', enum: ['DAILY', 'WEEKLY', 'MONTHLY'] },
+            interval: { type: 'integer', minimum: 1 },
+            byWeekday: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 } },
+            count: { type: 'integer', minimum: 1, description: 'Occurrences from fromSlotId on' },
+            until: { type: 'string', format: 'date-time' },
+            exceptionDates: { type: 'array', items: { type: 'string', format: 'date' } },
+          },
+        },
+        SlotSeriesResult: {
+          type: 'object',
+          properties: {
+            series: { $ref: '#/components/schemas/SlotSeries' },
+            created: { type: 'array', items: { $ref: '#/components/schemas/Slot' } },
+            skipped: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  startTime: { type: 'string', format: 'date-time' },
+                  endTime: { type: 'string', format: 'date-time' },
+                  reason: { type: 'string', enum: ['OVERLAP', 'IN_PAST'] },
+                },
+              },
+            },
+            kept: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/Slot' },
+              description: 'Booked occurrences left untouched (edits and cancellations only)',
+            },
+          },
+        },
+
+        // Availability Schemas
+        AvailabilityRule: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            hostId: { type: 'string', format: 'uuid' },
+            timeZone: { type: 'string', description: 'Host time zone the rule is interpreted in', example: 'Asia/Singapore' },
+            weekday: { type: 'integer', minimum: 0, maximum: 6, example: 1 },
+            startTime: { type: 'string', example: '09:00' },
+            endTime: { type: 'string', example: '17:00' },
+            slotDurationMinutes: { type: 'integer', example: 30 },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateAvailabilityRulesRequest: {
+          type: 'object',
+          required: ['weekdays', 'startTime', 'endTime'],
+          properties: {
+            weekdays: {
+              type: 'array',
+              items: { type: 'integer', minimum: 0, maximum: 6 },
+              description: 'Days of the week (0 = Sunday)',
+              example: [1, 2, 3, 4, 5],
+            },
+            startTime: { type: 'string', pattern: '^\\d{2}:\\d{2}$', description: 'Start of working hours (HH:MM, host time zone)', example: '09:00' },
+            endTime: { type: 'string', pattern: '^\\d{2}:\\d{2}$', description: 'End of working hours (HH:MM, host time zone)', example: '17:00' },
+            slotDurationMinutes: { type: 'integer', default: 30, minimum: 5, maximum: 480 },
+          },
+        },
+        HostPolicy: {
+          type: 'object',
+          description: 'Booking limits and rules in effect for a host, with platform defaults filled in',
+          properties: {
+            id: { type: 'string', format: 'uuid', nullable: true, description: 'null while the host uses the platform defaults' },
+            hostId: { type: 'string', format: 'uuid' },
+            maxActiveBookings: { type: 'integer', example: 5, description: 'Active bookings a guest may have when booking this host' },
+            cancellationWindowHours: { type: 'integer', example: 1, description: 'Guests cannot cancel or reschedule later than this before the slot' },
+            allowMultipleBookings: { type: 'boolean', example: false, description: 'Whether a guest may hold several active bookings with this host' },
+            maxBookingsPerDay: { type: 'integer', nullable: true, example: 8, description: "Bookings the host takes per day (host's time zone); null for no limit" },
+            requiresApproval: { type: 'boolean', example: false, description: 'Whether new bookings stay PENDING until the host approves them' },
+            bufferBeforeMinutes: { type: 'integer', example: 0, description: 'Free time kept before each booked slot' },
+            bufferAfterMinutes: { type: 'integer', example: 15, description: 'Free time kept after each booked slot' },
+            minNoticeHours: { type: 'integer', example: 24, description: 'Minimum time between booking and slot start' },
+            maxHorizonDays: { type: 'integer', nullable: true, example: 60, description: 'How far ahead slots can be booked; null for no limit' },
+            createdAt: { type: 'string', format: 'date-time', nullable: true },
+            updatedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        HostPolicyRequest: {
+          type: 'object',
+          description: 'Omitted or null limits fall back to the platform defaults',
+          properties: {
+            maxActiveBookings: { type: 'integer', minimum: 1, maximum: 100, nullable: true, example: 10 },
+            cancellationWindowHours: { type: 'integer', minimum: 0, maximum: 720, nullable: true, example: 24 },
+            allowMultipleBookings: { type: 'boolean', example: true },
+            maxBookingsPerDay: { type: 'integer', minimum: 1, maximum: 100, nullable: true, example: 8 },
+            requiresApproval: { type: 'boolean', example: true },
+            bufferBeforeMinutes: { type: 'integer', minimum: 0, maximum: 1440, example: 0 },
+            bufferAfterMinutes: { type: 'integer', minimum: 0, maximum: 1440, example: 15 },
+            minNoticeHours: { type: 'integer', minimum: 0, maximum: 2160, example: 24 },
+            maxHorizonDays: { type: 'integer', minimum: 1, maximum: 730, nullable: true, example: 60, description: 'null for no limit' },
+          },
+        },
+        BusyBlock: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            hostId: { type: 'string', format: 'uuid' },
+            uid: { type: 'string', description: 'UID of the imported event', example: '040000008200E00074C5B7101A82E008@example.com' },
+            summary: { type: 'string', nullable: true, example: 'Dentist' },
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: 'string', format: 'date-time' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ImportCalendarRequest: {
+          type: 'object',
+          description: 'Exactly one of `ics` and `url` is required',
+          properties: {
+            ics: { type: 'string', description: 'Content of the .ics file', example: 'BEGIN:VCALENDAR\r\n...\r\nEND:VCALENDAR' },
+            url: { type: 'string', format: 'uri', description: 'http(s) URL to download the .ics file from', example: 'http://localhost:8080/calendar.ics' },
+            mode: { type: 'string', enum: ['BUSY', 'SLOTS'], default: 'BUSY' },
+            dryRun: { type: 'boolean', default: false, description: 'Preview the import without writing anything' },
+            capacity: { type: 'integer', minimum: 1, description: 'Seats of the created slots (SLOTS mode)' },
+          },
+        },
+        CalendarImport: {
+          type: 'object',
+          properties: {
+            mode: { type: 'string', enum: ['BUSY', 'SLOTS'] },
+            dryRun: { type: 'boolean' },
+            created: {
+              type: 'array',
+              description: 'Busy blocks or slots created (or that would be created in a dry run)',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid', nullable: true, description: 'Busy block or slot ID; null in a dry run' },
+                  uid: { type: 'string' },
+                  summary: { type: 'string', nullable: true },
+                  startTime: { type: 'string', format: 'date-time' },
+                  endTime: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+            skipped: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  uid: { type: 'string' },
+                  summary: { type: 'string', nullable: true },
+                  startTime: { type: 'string', format: 'date-time' },
+                  endTime: { type: 'string', format: 'date-time' },
+                  reason: { type: 'string', enum: ['OVERLAP', 'IN_PAST', 'DUPLICATE', 'UNSUPPORTED_RECURRENCE'] },
+                },
+              },
+            },
           },
         },
 
@@ -128,15 +591,50 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
             id: { type: 'string', format: 'uuid' },
             slotId: { type: 'string', format: 'uuid' },
             userId: { type: 'string', format: 'uuid' },
-            status: { type: 'string', enum: ['CONFIRMED', 'CANCELLED'] },
+            status: { type: 'string', enum: ['PENDING', 'CONFIRMED', 'CANCELLED'] },
             slot: { $ref: '#/components/schemas/Slot' },
+            rescheduledFromId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Booking this one replaced when it was rescheduled',
+            },
+            cancelledBy: {
+              type: 'string',
+              enum: ['GUEST', 'HOST', 'SYSTEM'],
+              nullable: true,
+              description: 'Who cancelled the booking (SYSTEM when a booking request expired)',
+            },
+            cancellationReason: {
+              type: 'string',
+              nullable: true,
+              description: 'Reason given by the host when cancelling',
+            },
+            approvalExpiresAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When a PENDING booking request expires if the host has not answered it',
+            },
+            answers: {
+              type: 'array',
+              description: 'Answers to the intake questions, in question order',
+              items: {
+                type: 'object',
+                properties: {
+                  questionId: { type: 'string', format: 'uuid', nullable: true, description: 'null once the question was removed' },
+                  question: { type: 'string', example: 'What would you like to discuss?' },
+                  answer: { type: 'string', example: 'Quarterly planning' },
+                },
+              },
+            },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
         },
         CreateBookingRequest: {
           type: 'object',
-          required: ['slotId'],
+          description: 'Provide either slotId, or hostId with startTime and endTime of an open availability window',
           properties: {
             slotId: { 
               type: 'string', 
@@ -144,6 +642,142 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
               description: 'ID of the slot to book',
               example: '550e8400-e29b-41d4-a716-446655440000'
             },
+            hostId: { type: 'string', format: 'uuid', description: 'Host of the open window to book' },
+            startTime: { type: 'string', format: 'date-time', description: 'Start of the open window' },
+            endTime: { type: 'string', format: 'date-time', description: 'End of the open window' },
+            answers: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: "Answers to the slot's intake questions, keyed by question ID",
+              example: { '7c9e6679-7425-40de-944b-e07fc1f90ae7': 'Quarterly planning' },
+            },
+          },
+        },
+        BookingJob: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', example: '42' },
+            status: { type: 'string', enum: ['pending', 'processing', 'succeeded', 'failed'] },
+            position: {
+              type: 'integer',
+              description: 'Rank among the waiting jobs, 1 being next to run (only while pending)',
+              example: 3,
+            },
+            result: {
+              type: 'object',
+              description: 'Outcome of a finished job',
+              properties: {
+                success: { type: 'boolean' },
+                data: { $ref: '#/components/schemas/Booking' },
+                error: {
+                  type: 'object',
+                  properties: {
+                    code: { type: 'string', example: 'CONFLICT' },
+                    message: { type: 'string', example: 'Slot is no longer available' },
+                    statusCode: { type: 'integer', example: 409 },
+                  },
+                },
+              },
+            },
+          },
+        },
+        RescheduleBookingRequest: {
+          type: 'object',
+          required: ['slotId'],
+          properties: {
+            slotId: { type: 'string', format: 'uuid', description: 'ID of the slot to move the booking to' },
+            answers: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: "Answers to the new slot's intake questions, keyed by question ID; defaults to the original booking's answers",
+              example: { '7c9e6679-7425-40de-944b-e07fc1f90ae7': 'Quarterly planning' },
+            },
+          },
+        },
+
+        // Webhook Schemas
+        WebhookSubscription: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            url: { type: 'string', format: 'uri', example: 'https://crm.example.com/hooks/bookings' },
+            eventTypes: {
+              type: 'array',
+              items: { type: 'string', enum: ['booking.created', 'booking.cancelled', 'booking.requested', 'booking.declined', 'slot.created', 'slot.deleted', 'slot.updated'] },
+            },
+            secret: { type: 'string', description: 'Signing secret; only returned on creation' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateWebhookSubscriptionRequest: {
+          type: 'object',
+          required: ['url', 'eventTypes'],
+          properties: {
+            url: { type: 'string', format: 'uri', example: 'https://crm.example.com/hooks/bookings' },
+            eventTypes: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string', enum: ['booking.created', 'booking.cancelled', 'booking.requested', 'booking.declined', 'slot.created', 'slot.deleted', 'slot.updated'] },
+              example: ['booking.created', 'booking.cancelled'],
+            },
+            secret: { type: 'string', minLength: 16, description: 'Signing secret; generated if omitted' },
+          },
+        },
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            subscriptionId: { type: 'string', format: 'uuid' },
+            eventType: { type: 'string', example: 'booking.created' },
+            payload: {
+              type: 'object',
+              description: 'Request body sent to the receiver',
+              properties: {
+                id: { type: 'string', format: 'uuid', description: 'Outbox event ID, the same for repeats of the event' },
+                type: { type: 'string', example: 'booking.created' },
+                createdAt: { type: 'string', format: 'date-time' },
+                data: { type: 'object' },
+              },
+            },
+            status: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'FAILED'] },
+            attempts: { type: 'integer', example: 1 },
+            responseStatus: { type: 'integer', nullable: true, example: 200 },
+            lastError: { type: 'string', nullable: true },
+            deliveredAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Notification Schemas
+        NotificationPreferences: {
+          type: 'object',
+          description: '`true` to receive a notification type, `false` to opt out',
+          properties: {
+            BOOKING_CONFIRMED: { type: 'boolean', example: true },
+            BOOKING_CANCELLED: { type: 'boolean', example: true },
+            SLOT_CANCELLED_BY_HOST: { type: 'boolean', example: true },
+            BOOKING_REMINDER: { type: 'boolean', example: false },
+            SLOT_CHANGE_PROPOSED: { type: 'boolean', example: true },
+            SLOT_TIME_CHANGED: { type: 'boolean', example: true },
+            BOOKING_DECLINED: { type: 'boolean', example: true },
+          },
+        },
+        NotificationLog: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', format: 'uuid' },
+            bookingId: { type: 'string', format: 'uuid', nullable: true },
+            type: { type: 'string', enum: ['BOOKING_CONFIRMED', 'BOOKING_CANCELLED', 'SLOT_CANCELLED_BY_HOST', 'BOOKING_REMINDER', 'SLOT_CHANGE_PROPOSED', 'SLOT_TIME_CHANGED', 'BOOKING_DECLINED'] },
+            status: { type: 'string', enum: ['SENT', 'SKIPPED', 'FAILED'] },
+            transport: { type: 'string', enum: ['console', 'file', 'memory', 'smtp'] },
+            recipient: { type: 'string', format: 'email' },
+            subject: { type: 'string', example: 'Booking confirmed with Dr. Smith' },
+            body: { type: 'string' },
+            error: { type: 'string', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
           },
         },
 
@@ -214,6 +848,10 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
         name: 'Health',
         description: 'API health check endpoints',
       },
+      {
+        name: 'Auth',
+        description: 'Sign in with a password or magic link, refresh tokens, and sign out.',
+      },
       {
         name: 'Users',
         description: 'User management endpoints. Create users to get user IDs for testing.',
@@ -222,6 +860,18 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
         name: 'Slots',
         description: 'Time slot management. Hosts can create slots, all users can view available slots.',
       },
+      {
+        name: 'Slot Series',
+        description: 'Recurring slot series. Hosts define a recurrence rule that materializes individual slots.',
+      },
+      {
+        name: 'Availability',
+        description: 'Weekly working hours. Hosts declare rules that generate bookable windows on demand.',
+      },
+      {
+        name: 'Host Policy',
+        description: 'Per-host booking limits overriding the platform defaults.',
+      },
       {
         name: 'Bookings',
         description: 'Booking management. Users can book available slots and manage their bookings.',
@@ -230,6 +880,14 @@ Include the \`x-user-id\` header with a valid user UUID in all authenticated req
         name: 'Analytics',
         description: 'Administrator analytics and statistics.',
       },
+      {
+        name: 'Webhooks',
+        description: 'Signed outbound webhooks for booking and slot lifecycle events.',
+      },
+      {
+        name: 'Calendar',
+        description: 'iCalendar (.ics) booking invites and subscribable calendar feeds.',
+      },
     ],
   },
   apis: ['./src/routes/*.ts'],
@@ -13,6 +13,7 @@ export class AnalyticsController {
     const filters = analyticsFiltersSchema.parse({
       startDate: req.query.start_date,
       endDate: req.query.end_date,
+      tz: req.query.tz,
     });
 
     const analytics = await analyticsService.getAnalytics(filters);
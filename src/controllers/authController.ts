@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { authService } from '../services';
+import { AuthenticatedRequest, ApiResponse, BadRequestError } from '../types';
+import {
+  loginSchema,
+  logoutSchema,
+  magicLinkRequestSchema,
+  magicLinkVerifySchema,
+  refreshTokenSchema,
+} from '../utils/validation';
+import { StatusCodes } from 'http-status-codes';
+
+export class AuthController {
+  /**
+   * POST /auth/login
+   * Sign in with email and password
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    const { email, password } = loginSchema.parse(req.body);
+
+    const tokens = await authService.loginWithPassword(email, password);
+
+    const response: ApiResponse = {
+      success: true,
+      data: tokens,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /auth/magic-link
+   * Send a single-use sign-in link to an email address
+   */
+  async requestMagicLink(req: Request, res: Response): Promise<void> {
+    const { email } = magicLinkRequestSchema.parse(req.body);
+
+    await authService.requestMagicLink(email);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'If the email belongs to an account, a sign-in link has been sent' },
+    };
+
+    res.status(StatusCodes.ACCEPTED).json(response);
+  }
+
+  /**
+   * GET|POST /auth/magic-link/verify
+   * Exchange a sign-in link token for access and refresh tokens
+   * The emailed link opens the GET route with the token in the query string.
+   */
+  async verifyMagicLink(req: Request, res: Response): Promise<void> {
+    const { token } = magicLinkVerifySchema.parse(req.method === 'GET' ? req.query : req.body);
+
+    const tokens = await authService.verifyMagicLink(token);
+
+    const response: ApiResponse = {
+      success: true,
+      data: tokens,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /auth/refresh
+   * Rotate a refresh token into a new token pair
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    const tokens = await authService.refresh(refreshToken);
+
+    const response: ApiResponse = {
+      success: true,
+      data: tokens,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /auth/logout
+   * Revoke the current session, or all sessions of the user
+   */
+  async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId, sessionId } = req.user;
+    const { allSessions } = logoutSchema.parse(req.body ?? {});
+
+    if (allSessions) {
+      await authService.logoutAll(userId);
+    } else if (sessionId) {
+      await authService.logout(sessionId);
+    } else {
+      throw new BadRequestError('Only bearer token sessions can be signed out');
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'Signed out successfully' },
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const authController = new AuthController();
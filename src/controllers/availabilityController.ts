@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import { availabilityService, calendarImportService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import {
+  availabilityRuleFiltersSchema,
+  createAvailabilityRulesSchema,
+  importCalendarSchema,
+} from '../utils/validation';
+import { StatusCodes } from 'http-status-codes';
+
+export class AvailabilityController {
+  /**
+   * POST /availability
+   * Declare weekly working hours (Host only)
+   */
+  async createRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const input = createAvailabilityRulesSchema.parse(req.body);
+
+    const rules = await availabilityService.createRules(req.user, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: rules,
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * GET /availability
+   * List availability rules of a host (defaults to the current user)
+   */
+  async getRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const { hostId } = availabilityRuleFiltersSchema.parse(req.query);
+
+    const rules = await availabilityService.getRules(hostId ?? userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: rules,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * DELETE /availability/:id
+   * Delete an availability rule (owner only)
+   */
+  async deleteRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+
+    await availabilityService.deleteRule(userId, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'Availability rule deleted successfully' },
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /availability/import
+   * Import busy time or slots from an iCalendar file or URL (Host only)
+   */
+  async importCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    // Raw text/calendar uploads carry the options in the query string
+    const input = importCalendarSchema.parse(
+      typeof req.body === 'string' ? { ...req.query, ics: req.body } : req.body
+    );
+
+    const result = await calendarImportService.importCalendar(req.user, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+
+    res.status(result.dryRun ? StatusCodes.OK : StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * GET /availability/busy-blocks
+   * List the current user's current and upcoming busy blocks
+   */
+  async getBusyBlocks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+
+    const blocks = await calendarImportService.getBusyBlocks(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: blocks,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * DELETE /availability/busy-blocks/:id
+   * Delete a busy block (owner only)
+   */
+  async deleteBusyBlock(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+
+    await calendarImportService.deleteBusyBlock(userId, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'Busy block deleted successfully' },
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const availabilityController = new AvailabilityController();
@@ -1,26 +1,65 @@
-import { Response } from 'express';
-import { bookingService } from '../services';
-import { AuthenticatedRequest, ApiResponse, AppError, NotFoundError } from '../types';
-import { createBookingSchema, bookingFiltersSchema } from '../utils/validation';
+import { Request, Response } from 'express';
+import { bookingService, notificationService, slotChangeService } from '../services';
+import { AuthenticatedRequest, ApiResponse, AppError, BookingResponse, NotFoundError } from '../types';
+import {
+  createBookingSchema,
+  bookingFiltersSchema,
+  declineBookingSchema,
+  rescheduleBookingSchema,
+  timeZoneQuerySchema,
+} from '../utils/validation';
+import { serializeDates } from '../utils/timezone';
 import { StatusCodes } from 'http-status-codes';
-import { addBookingJob } from '../queues';
+import { addBookingJob, BookingTarget, enqueueBookingJob, getBookingJobStatus } from '../queues';
 
 // Check if queue is enabled
 const USE_QUEUE = process.env.USE_BOOKING_QUEUE === 'true';
 
+/**
+ * Whether the client sent `Prefer: respond-async` (RFC 7240)
+ */
+function prefersAsync(req: Request): boolean {
+  const prefer = req.get('Prefer');
+  if (!prefer) {
+    return false;
+  }
+  return prefer
+    .split(',')
+    .some((preference) => preference.split(';')[0].trim().toLowerCase() === 'respond-async');
+}
+
 export class BookingController {
   /**
    * POST /bookings
-   * Book an available slot
-   * Uses queue for FCFS ordering when USE_BOOKING_QUEUE=true
+   * Book an available slot, or an open availability window by host and time
+   * Uses queue for FCFS ordering when USE_BOOKING_QUEUE=true; with `Prefer: respond-async`
+   * the job is only queued and 202 is returned with its ID for polling
    */
   async createBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { userId } = req.user;
     const input = createBookingSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+    const target: BookingTarget = input.slotId
+      ? { slotId: input.slotId }
+      : { window: { hostId: input.hostId!, startTime: input.startTime!, endTime: input.endTime! } };
+
+    if (USE_QUEUE && prefersAsync(req)) {
+      // Async booking: respond right away and let the client poll the job
+      const job = await enqueueBookingJob(userId, target, input.answers);
 
-    if (USE_QUEUE) {
+      const response: ApiResponse = {
+        success: true,
+        data: job,
+      };
+
+      res
+        .status(StatusCodes.ACCEPTED)
+        .set('Preference-Applied', 'respond-async')
+        .location(`${req.baseUrl}/jobs/${job.jobId}`)
+        .json(response);
+    } else if (USE_QUEUE) {
       // Queue-based booking for true FCFS
-      const result = await addBookingJob(userId, input.slotId);
+      const result = await addBookingJob(userId, target, input.answers);
 
       if (!result.success && result.error) {
         throw new AppError(
@@ -30,38 +69,66 @@ export class BookingController {
         );
       }
 
+      // Job results come back from Redis with their dates as strings; reload the booking
+      // so it is serialized in the caller's time zone like every other response
+      const booking = await bookingService.getBookingById(userId, (result.data as BookingResponse).id);
+
       const response: ApiResponse = {
         success: true,
-        data: result.data,
+        data: serializeDates(booking, tz),
       };
 
       res.status(StatusCodes.CREATED).json(response);
     } else {
       // Direct booking (original behavior)
-      const booking = await bookingService.createBooking(userId, input.slotId);
+      const booking = 'slotId' in target
+        ? await bookingService.createBooking(userId, target.slotId, input.answers)
+        : await bookingService.createBookingForWindow(userId, target.window, input.answers);
 
       const response: ApiResponse = {
         success: true,
-        data: booking,
+        data: serializeDates(booking, tz),
       };
 
       res.status(StatusCodes.CREATED).json(response);
     }
   }
 
+  /**
+   * GET /bookings/jobs/:jobId
+   * Get the status and result of an async booking job
+   */
+  async getBookingJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const jobId = req.params.jobId as string;
+
+    const job = USE_QUEUE ? await getBookingJobStatus(jobId, userId) : null;
+
+    if (!job) {
+      throw new NotFoundError('Booking job');
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: job,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
   /**
    * GET /bookings
    * List user's bookings
    */
   async getUserBookings(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { userId } = req.user;
-    const filters = bookingFiltersSchema.parse(req.query);
+    const filters = bookingFiltersSchema.parse({ tz: req.user.timeZone, ...req.query });
 
     const result = await bookingService.getUserBookings(userId, filters);
 
     const response: ApiResponse = {
       success: true,
-      data: result.bookings,
+      data: serializeDates(result.bookings, filters.tz),
       meta: {
         page: result.page,
         limit: result.limit,
@@ -79,6 +146,7 @@ export class BookingController {
   async getBookingById(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { userId } = req.user;
     const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
 
     const booking = await bookingService.getBookingById(userId, id);
 
@@ -88,7 +156,25 @@ export class BookingController {
 
     const response: ApiResponse = {
       success: true,
-      data: booking,
+      data: serializeDates(booking, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * GET /bookings/:id/notifications
+   * List the notifications sent about a booking (Admin only)
+   */
+  async getBookingNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const notifications = await notificationService.getBookingNotifications(id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(notifications, tz),
     };
 
     res.status(StatusCodes.OK).json(response);
@@ -101,12 +187,110 @@ export class BookingController {
   async cancelBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { userId } = req.user;
     const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
 
     const booking = await bookingService.cancelBooking(userId, id);
 
     const response: ApiResponse = {
       success: true,
-      data: booking,
+      data: serializeDates(booking, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /bookings/:id/approve
+   * Approve a pending booking request for one of the host's slots
+   */
+  async approveBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const booking = await bookingService.approveBooking(userId, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(booking, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /bookings/:id/decline
+   * Decline a pending booking request, freeing its seat
+   */
+  async declineBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+    const { reason } = declineBookingSchema.parse(req.body ?? {});
+
+    const booking = await bookingService.declineBooking(userId, id, reason);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(booking, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /bookings/:id/reschedule
+   * Move a booking to another slot atomically
+   */
+  async rescheduleBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { slotId, answers } = rescheduleBookingSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const booking = await bookingService.rescheduleBooking(userId, id, slotId, answers);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(booking, tz),
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * POST /bookings/:id/slot-change/accept
+   * Accept the new time the host proposed for the booked slot
+   */
+  async acceptSlotChange(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const change = await slotChangeService.acceptChange(userId, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(change, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /bookings/:id/slot-change/decline
+   * Decline the new time the host proposed, cancelling the booking
+   */
+  async declineSlotChange(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const booking = await slotChangeService.declineChange(userId, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(booking, tz),
     };
 
     res.status(StatusCodes.OK).json(response);
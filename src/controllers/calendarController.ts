@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { calendarService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { StatusCodes } from 'http-status-codes';
+
+const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+export class CalendarController {
+  /**
+   * GET /bookings/:id/ics
+   * Download a booking as an iCalendar invite
+   */
+  async getBookingInvite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+
+    const ics = await calendarService.getBookingInvite(userId, id);
+
+    res
+      .status(StatusCodes.OK)
+      .type(ICS_CONTENT_TYPE)
+      .attachment(`booking-${id}.ics`)
+      .send(ics);
+  }
+
+  /**
+   * POST /users/me/calendar-feed
+   * Create or rotate the authenticated user's calendar feed URL
+   */
+  async createFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+
+    const token = await calendarService.createFeedToken(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { url: `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics` },
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * GET /calendar/:token.ics
+   * Subscribable calendar feed; the token in the URL is the only credential
+   */
+  async getFeed(req: Request, res: Response): Promise<void> {
+    const token = req.params.token as string;
+
+    const ics = await calendarService.getFeed(token);
+
+    res.status(StatusCodes.OK).type(ICS_CONTENT_TYPE).send(ics);
+  }
+}
+
+export const calendarController = new CalendarController();
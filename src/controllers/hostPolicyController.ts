@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { hostPolicyService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import {
+  createHostPolicySchema,
+  hostPolicyFiltersSchema,
+  timeZoneQuerySchema,
+  updateHostPolicySchema,
+} from '../utils/validation';
+import { serializeDates } from '../utils/timezone';
+import { StatusCodes } from 'http-status-codes';
+
+export class HostPolicyController {
+  /**
+   * POST /host-policy
+   * Create the current host's policy (Host only)
+   */
+  async createPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const input = createHostPolicySchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const policy = await hostPolicyService.createPolicy(req.user, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(policy, tz),
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * GET /host-policy
+   * Get the policy in effect for a host (defaults to the current user)
+   */
+  async getPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const { hostId } = hostPolicyFiltersSchema.parse(req.query);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const policy = await hostPolicyService.getPolicy(hostId ?? userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(policy, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * PATCH /host-policy
+   * Update the current host's policy (Host only)
+   */
+  async updatePolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const input = updateHostPolicySchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const policy = await hostPolicyService.updatePolicy(req.user, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(policy, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * DELETE /host-policy
+   * Delete the current host's policy, reverting to the platform defaults (Host only)
+   */
+  async deletePolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await hostPolicyService.deletePolicy(req.user);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'Host policy deleted successfully' },
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const hostPolicyController = new HostPolicyController();
@@ -3,3 +3,12 @@ export { bookingController, BookingController } from './bookingController';
 export { analyticsController, AnalyticsController } from './analyticsController';
 export { userController, UserController } from './userController';
 
+export { slotSeriesController, SlotSeriesController } from './slotSeriesController';
+export { availabilityController, AvailabilityController } from './availabilityController';
+export { waitlistController, WaitlistController } from './waitlistController';
+export { authController, AuthController } from './authController';
+export { webhookController, WebhookController } from './webhookController';
+export { calendarController, CalendarController } from './calendarController';
+export { hostPolicyController, HostPolicyController } from './hostPolicyController';
+export { slotHoldController, SlotHoldController } from './slotHoldController';
+export { intakeQuestionController, IntakeQuestionController } from './intakeQuestionController';
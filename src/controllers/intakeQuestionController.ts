@@ -0,0 +1,77 @@
+import { Response } from 'express';
+import { intakeQuestionService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { setIntakeQuestionsSchema } from '../utils/validation';
+import { StatusCodes } from 'http-status-codes';
+
+export class IntakeQuestionController {
+  /**
+   * GET /users/me/intake-questions
+   * Get the current host's profile questions
+   */
+  async getMyQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const questions = await intakeQuestionService.getHostQuestions(req.user.userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: questions,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * PUT /users/me/intake-questions
+   * Replace the current host's profile questions (Host only)
+   */
+  async setMyQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const input = setIntakeQuestionsSchema.parse(req.body);
+
+    const questions = await intakeQuestionService.setHostQuestions(req.user, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: questions,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * GET /slots/:id/intake-questions
+   * Get the questions to answer when booking a slot
+   */
+  async getSlotQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const slotId = req.params.id as string;
+
+    const questions = await intakeQuestionService.getSlotQuestions(slotId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: questions,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * PUT /slots/:id/intake-questions
+   * Replace the questions of a slot (owner only)
+   */
+  async setSlotQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const slotId = req.params.id as string;
+    const input = setIntakeQuestionsSchema.parse(req.body);
+
+    const questions = await intakeQuestionService.setSlotQuestions(userId, slotId, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: questions,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const intakeQuestionController = new IntakeQuestionController();
@@ -1,7 +1,15 @@
 import { Response } from 'express';
-import { slotService } from '../services';
+import { bookingService, slotService } from '../services';
 import { AuthenticatedRequest, ApiResponse, NotFoundError } from '../types';
-import { createSlotSchema, slotFiltersSchema } from '../utils/validation';
+import {
+  bulkCreateSlotsSchema,
+  cancelSlotSchema,
+  createSlotSchema,
+  slotFiltersSchema,
+  timeZoneQuerySchema,
+  updateSlotSchema,
+} from '../utils/validation';
+import { serializeDates } from '../utils/timezone';
 import { StatusCodes } from 'http-status-codes';
 
 export class SlotController {
@@ -10,14 +18,39 @@ export class SlotController {
    * Create a new available slot
    */
   async createSlot(req: AuthenticatedRequest, res: Response): Promise<void> {
-    const { userId } = req.user;
     const input = createSlotSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
 
-    const slot = await slotService.createSlot(userId, input);
+    const slot = await slotService.createSlot(req.user, input);
 
     const response: ApiResponse = {
       success: true,
-      data: slot,
+      data: serializeDates(slot, tz),
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * POST /slots/bulk
+   * Create many slots at once, with a result per entry
+   */
+  async createSlots(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { slots, atomic } = bulkCreateSlotsSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const entries = slots.map((slot) => {
+      const parsed = createSlotSchema.safeParse(slot);
+      return parsed.success
+        ? { input: parsed.data }
+        : { errors: parsed.error.errors.map((e) => ({ path: e.path.join('.'), message: e.message })) };
+    });
+
+    const result = await slotService.createSlots(req.user, entries, atomic);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(result, tz),
     };
 
     res.status(StatusCodes.CREATED).json(response);
@@ -28,13 +61,13 @@ export class SlotController {
    * List available slots with optional filters
    */
   async getAvailableSlots(req: AuthenticatedRequest, res: Response): Promise<void> {
-    const filters = slotFiltersSchema.parse(req.query);
+    const filters = slotFiltersSchema.parse({ tz: req.user.timeZone, ...req.query });
 
     const result = await slotService.getAvailableSlots(filters);
 
     const response: ApiResponse = {
       success: true,
-      data: result.slots,
+      data: serializeDates(result.slots, filters.tz),
       meta: {
         page: result.page,
         limit: result.limit,
@@ -51,13 +84,13 @@ export class SlotController {
    */
   async getHostSlots(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { userId } = req.user;
-    const filters = slotFiltersSchema.parse(req.query);
+    const filters = slotFiltersSchema.parse({ tz: req.user.timeZone, ...req.query });
 
     const result = await slotService.getHostSlots(userId, filters);
 
     const response: ApiResponse = {
       success: true,
-      data: result.slots,
+      data: serializeDates(result.slots, filters.tz),
       meta: {
         page: result.page,
         limit: result.limit,
@@ -74,6 +107,7 @@ export class SlotController {
    */
   async getSlotById(req: AuthenticatedRequest, res: Response): Promise<void> {
     const id = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
 
     const slot = await slotService.getSlotById(id);
 
@@ -83,12 +117,32 @@ export class SlotController {
 
     const response: ApiResponse = {
       success: true,
-      data: slot,
+      data: serializeDates(slot, tz),
     };
 
     res.status(StatusCodes.OK).json(response);
   }
 
+  /**
+   * PATCH /slots/:id
+   * Change the time of a slot (owner only); booked slots need the guests' consent
+   */
+  async updateSlot(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = req.params.id as string;
+    const input = updateSlotSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const result = await slotService.updateSlot(req.user, id, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(result, tz),
+    };
+
+    // A proposed change is only applied once the guests accept it
+    res.status(result.pendingChange ? StatusCodes.ACCEPTED : StatusCodes.OK).json(response);
+  }
+
   /**
    * DELETE /slots/:id
    * Delete/cancel an unbooked slot
@@ -106,6 +160,26 @@ export class SlotController {
 
     res.status(StatusCodes.OK).json(response);
   }
+
+  /**
+   * POST /slots/:id/cancel
+   * Cancel a slot and its bookings as the host (owner only)
+   */
+  async cancelSlot(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { reason } = cancelSlotSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const bookings = await bookingService.cancelSlotAsHost(userId, id, reason);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates({ cancelledBookings: bookings }, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
 }
 
 export const slotController = new SlotController();
@@ -0,0 +1,48 @@
+import { Response } from 'express';
+import { slotHoldService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { timeZoneQuerySchema } from '../utils/validation';
+import { serializeDates } from '../utils/timezone';
+import { StatusCodes } from 'http-status-codes';
+
+export class SlotHoldController {
+  /**
+   * POST /slots/:id/hold
+   * Hold a slot for a few minutes while completing the booking
+   */
+  async holdSlot(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const slotId = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const hold = await slotHoldService.holdSlot(userId, slotId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(hold, tz),
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * DELETE /slots/:id/hold
+   * Release the current user's hold of a slot
+   */
+  async releaseHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const slotId = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const hold = await slotHoldService.releaseHold(userId, slotId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(hold, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const slotHoldController = new SlotHoldController();
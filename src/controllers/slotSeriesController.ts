@@ -0,0 +1,86 @@
+import { Response } from 'express';
+import { slotSeriesService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import {
+  cancelSlotSeriesSchema,
+  createSlotSeriesSchema,
+  updateSlotSeriesSchema,
+} from '../utils/validation';
+import { StatusCodes } from 'http-status-codes';
+
+export class SlotSeriesController {
+  /**
+   * POST /slots/series
+   * Create a recurring slot series and materialize its slots
+   */
+  async createSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const input = createSlotSeriesSchema.parse(req.body);
+
+    const result = await slotSeriesService.createSeries(req.user, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * GET /slots/series/:id
+   * Get a series with its slots
+   */
+  async getSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+
+    const series = await slotSeriesService.getSeries(userId, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: series,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * PATCH /slots/series/:id
+   * Edit "this and following" occurrences of a series
+   */
+  async updateSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const input = updateSlotSeriesSchema.parse(req.body);
+
+    const result = await slotSeriesService.updateSeriesFrom(userId, id, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * DELETE /slots/series/:id
+   * Cancel "this and following" occurrences, or the whole series
+   */
+  async cancelSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const id = req.params.id as string;
+    const { fromSlotId } = cancelSlotSeriesSchema.parse(req.query);
+
+    const result = await slotSeriesService.cancelSeriesFrom(userId, id, fromSlotId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const slotSeriesController = new SlotSeriesController();
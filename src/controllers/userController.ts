@@ -1,7 +1,13 @@
 import { Request, Response } from 'express';
 import { userService } from '../services';
 import { AuthenticatedRequest, ApiResponse, NotFoundError } from '../types';
-import { createUserSchema, paginationSchema } from '../utils/validation';
+import {
+  addRoleSchema,
+  createUserSchema,
+  paginationSchema,
+  updateNotificationPreferencesSchema,
+  updateUserSchema,
+} from '../utils/validation';
 import { StatusCodes } from 'http-status-codes';
 
 export class UserController {
@@ -65,6 +71,59 @@ export class UserController {
     res.status(StatusCodes.OK).json(response);
   }
 
+  /**
+   * PATCH /users/me
+   * Update the authenticated user's profile
+   */
+  async updateMe(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const input = updateUserSchema.parse(req.body);
+
+    const user = await userService.updateUser(userId, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: user,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * GET /users/me/notification-preferences
+   * Get which notification types the authenticated user receives
+   */
+  async getNotificationPreferences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+
+    const preferences = await userService.getNotificationPreferences(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: preferences,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * PATCH /users/me/notification-preferences
+   * Opt the authenticated user in to or out of notification types
+   */
+  async updateNotificationPreferences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const input = updateNotificationPreferencesSchema.parse(req.body);
+
+    const preferences = await userService.updateNotificationPreferences(userId, input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: preferences,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
   /**
    * GET /users/:id
    * Get a user by ID
@@ -85,6 +144,24 @@ export class UserController {
 
     res.status(StatusCodes.OK).json(response);
   }
+
+  /**
+   * POST /users/:id/roles
+   * Add a role to a user (Admin only)
+   */
+  async addRole(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = req.params.id as string;
+    const { role } = addRoleSchema.parse(req.body);
+
+    const user = await userService.addRoleToUser(id, role);
+
+    const response: ApiResponse = {
+      success: true,
+      data: user,
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
 }
 
 export const userController = new UserController();
@@ -0,0 +1,48 @@
+import { Response } from 'express';
+import { waitlistService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { timeZoneQuerySchema } from '../utils/validation';
+import { serializeDates } from '../utils/timezone';
+import { StatusCodes } from 'http-status-codes';
+
+export class WaitlistController {
+  /**
+   * POST /slots/:id/waitlist
+   * Join the waitlist of a fully booked slot
+   */
+  async joinWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const slotId = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const entry = await waitlistService.joinWaitlist(userId, slotId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(entry, tz),
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * DELETE /slots/:id/waitlist
+   * Leave the waitlist of a slot
+   */
+  async leaveWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { userId } = req.user;
+    const slotId = req.params.id as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const entry = await waitlistService.leaveWaitlist(userId, slotId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(entry, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+}
+
+export const waitlistController = new WaitlistController();
@@ -0,0 +1,108 @@
+import { Response } from 'express';
+import { webhookService } from '../services';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import {
+  createWebhookSubscriptionSchema,
+  paginationSchema,
+  timeZoneQuerySchema,
+} from '../utils/validation';
+import { serializeDates } from '../utils/timezone';
+import { StatusCodes } from 'http-status-codes';
+
+export class WebhookController {
+  /**
+   * POST /webhooks
+   * Subscribe an endpoint to booking lifecycle events
+   */
+  async createSubscription(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const input = createWebhookSubscriptionSchema.parse(req.body);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const subscription = await webhookService.createSubscription(input);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(subscription, tz),
+    };
+
+    res.status(StatusCodes.CREATED).json(response);
+  }
+
+  /**
+   * GET /webhooks
+   * List webhook subscriptions
+   */
+  async getSubscriptions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const subscriptions = await webhookService.getSubscriptions();
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(subscriptions, tz),
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * DELETE /webhooks/:id
+   * Delete a webhook subscription
+   */
+  async deleteSubscription(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = req.params.id as string;
+
+    await webhookService.deleteSubscription(id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'Webhook subscription deleted successfully' },
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * GET /webhooks/:id/deliveries
+   * Delivery log of a subscription
+   */
+  async getDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = req.params.id as string;
+    const { page, limit } = paginationSchema.parse(req.query);
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const result = await webhookService.getDeliveries(id, { page, limit });
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(result.deliveries, tz),
+      meta: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+      },
+    };
+
+    res.status(StatusCodes.OK).json(response);
+  }
+
+  /**
+   * POST /webhooks/deliveries/:deliveryId/replay
+   * Send a delivery again
+   */
+  async replayDelivery(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const deliveryId = req.params.deliveryId as string;
+    const { tz } = timeZoneQuerySchema.parse({ tz: req.user.timeZone, ...req.query });
+
+    const delivery = await webhookService.replayDelivery(deliveryId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: serializeDates(delivery, tz),
+    };
+
+    res.status(StatusCodes.ACCEPTED).json(response);
+  }
+}
+
+export const webhookController = new WebhookController();
@@ -0,0 +1,22 @@
+import { removeApprovalExpiryJob, scheduleApprovalExpiryJob } from '../queues';
+import { eventBus } from './eventBus';
+
+let registered = false;
+
+/**
+ * Expire unanswered booking requests (idempotent)
+ * The expiry job is removed once the request is approved (booking.created),
+ * declined or withdrawn by the guest.
+ */
+export function registerApprovalExpiryScheduling(): void {
+  if (registered) {
+    return;
+  }
+  eventBus.on('booking.requested', (event) =>
+    scheduleApprovalExpiryJob(event.bookingId, event.approvalExpiresAt)
+  );
+  eventBus.on('booking.created', (event) => removeApprovalExpiryJob(event.bookingId));
+  eventBus.on('booking.declined', (event) => removeApprovalExpiryJob(event.bookingId));
+  eventBus.on('booking.cancelled', (event) => removeApprovalExpiryJob(event.bookingId));
+  registered = true;
+}
@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { CancellationActor } from '@prisma/client';
+
+// ============================================================================
+// Event Payloads
+// ============================================================================
+
+export interface BookingCreatedEvent {
+  bookingId: string;
+  slotId: string;
+  guestId: string;
+  hostId: string;
+  /** Booking this one replaced, if it was created by a reschedule */
+  rescheduledFromId: string | null;
+  slotStartTime: Date;
+  slotEndTime: Date;
+}
+
+export interface BookingCancelledEvent {
+  bookingId: string;
+  slotId: string;
+  guestId: string;
+  hostId: string;
+  cancelledBy: CancellationActor;
+  reason: string | null;
+  slotStartTime: Date;
+  slotEndTime: Date;
+}
+
+export interface BookingRequestedEvent {
+  bookingId: string;
+  slotId: string;
+  guestId: string;
+  hostId: string;
+  rescheduledFromId: string | null;
+  slotStartTime: Date;
+  slotEndTime: Date;
+  /** When the request is cancelled if the host has not answered */
+  approvalExpiresAt: Date;
+}
+
+export interface BookingDeclinedEvent {
+  bookingId: string;
+  slotId: string;
+  guestId: string;
+  hostId: string;
+  reason: string | null;
+  /** Whether the request expired instead of being declined by the host */
+  expired: boolean;
+  slotStartTime: Date;
+  slotEndTime: Date;
+}
+
+export interface SlotCreatedEvent {
+  slotId: string;
+  hostId: string;
+  seriesId: string | null;
+  capacity: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface SlotDeletedEvent {
+  slotId: string;
+  hostId: string;
+}
+
+export interface SlotUpdatedEvent {
+  slotId: string;
+  hostId: string;
+  startTime: Date;
+  endTime: Date;
+  previousStartTime: Date;
+  previousEndTime: Date;
+  /** Confirmed bookings moved with the slot */
+  bookingIds: string[];
+}
+
+export interface SlotChangeProposedEvent {
+  changeId: string;
+  slotId: string;
+  hostId: string;
+  /** Proposed new time */
+  startTime: Date;
+  endTime: Date;
+  /** Confirmed bookings whose guests are asked to accept */
+  bookingIds: string[];
+}
+
+export interface MagicLinkRequestedEvent {
+  userId: string;
+  email: string;
+  /** Raw sign-in token; only its hash is stored */
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Domain events and their payloads
+ */
+export interface DomainEvents {
+  'booking.created': BookingCreatedEvent;
+  'booking.cancelled': BookingCancelledEvent;
+  'booking.requested': BookingRequestedEvent;
+  'booking.declined': BookingDeclinedEvent;
+  'slot.created': SlotCreatedEvent;
+  'slot.deleted': SlotDeletedEvent;
+  'slot.updated': SlotUpdatedEvent;
+  'slot.change_proposed': SlotChangeProposedEvent;
+  'auth.magic_link_requested': MagicLinkRequestedEvent;
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+/**
+ * Events recorded in the transactional outbox and emitted by the outbox worker
+ * Events carrying secrets (the magic link token) are emitted in-process instead,
+ * so the secret is never persisted.
+ */
+export type OutboxEventName = Exclude<DomainEventName, 'auth.magic_link_requested'>;
+
+/**
+ * Delivery details passed to listeners alongside the payload
+ * `eventId` is the outbox event ID for outbox events, so it stays the same when
+ * an event is emitted again; in-process events get a fresh ID.
+ */
+export interface DomainEventContext {
+  eventId: string;
+}
+
+export type DomainEventListener<K extends DomainEventName> =
+  (payload: DomainEvents[K], context: DomainEventContext) => void | Promise<void>;
+
+/**
+ * Typed in-process event bus
+ *
+ * Events are emitted after the transaction that caused them has committed: most
+ * are written to the outbox in that transaction and emitted by the outbox worker,
+ * which waits for the listeners with emitAndWait and retries the event when one
+ * failed. Every listener then runs again, so listeners of outbox events must skip
+ * work already done for the same event ID. Listener failures of a plain emit are
+ * logged and never propagate.
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+
+  emit<K extends DomainEventName>(
+    event: K,
+    payload: DomainEvents[K],
+    eventId: string = randomUUID()
+  ): void {
+    for (const listener of this.emitter.listeners(event)) {
+      try {
+        Promise.resolve((listener as DomainEventListener<K>)(payload, { eventId })).catch((error) => {
+          console.error(`Listener for ${event} failed:`, error);
+        });
+      } catch (error) {
+        console.error(`Listener for ${event} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run every listener of the event and wait for them
+   * Rejects once all listeners have settled if any of them failed, so a queued
+   * emitter can retry the event.
+   */
+  async emitAndWait<K extends DomainEventName>(
+    event: K,
+    payload: DomainEvents[K],
+    eventId: string = randomUUID()
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      this.emitter.listeners(event).map(async (listener) =>
+        (listener as DomainEventListener<K>)(payload, { eventId })
+      )
+    );
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  on<K extends DomainEventName>(event: K, listener: DomainEventListener<K>): void {
+    this.emitter.on(event, listener);
+  }
+
+  off<K extends DomainEventName>(event: K, listener: DomainEventListener<K>): void {
+    this.emitter.off(event, listener);
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,92 @@
+import { CancellationActor, NotificationType } from '@prisma/client';
+import { notificationService } from '../services/notificationService';
+import {
+  eventBus,
+  DomainEventContext,
+  BookingCancelledEvent,
+  BookingCreatedEvent,
+  BookingDeclinedEvent,
+  SlotChangeProposedEvent,
+  SlotUpdatedEvent,
+} from './eventBus';
+
+/**
+ * Confirm a new (or rescheduled) booking to its guest
+ *
+ * Every listener passes the event ID on, so a retried event does not notify a
+ * guest twice.
+ */
+async function notifyGuestOfBooking(event: BookingCreatedEvent, { eventId }: DomainEventContext): Promise<void> {
+  await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, event.bookingId, { eventId });
+}
+
+/**
+ * Tell the guest that their booking was cancelled, and by whom
+ */
+async function notifyGuestOfCancellation(
+  event: BookingCancelledEvent,
+  { eventId }: DomainEventContext
+): Promise<void> {
+  if (event.cancelledBy === CancellationActor.HOST) {
+    await notificationService.notifyGuest(NotificationType.SLOT_CANCELLED_BY_HOST, event.bookingId, {
+      reason: event.reason,
+      eventId,
+    });
+    return;
+  }
+
+  await notificationService.notifyGuest(NotificationType.BOOKING_CANCELLED, event.bookingId, { eventId });
+}
+
+/**
+ * Tell the guest that the host declined their booking request, or that it expired
+ */
+async function notifyGuestOfDecline(event: BookingDeclinedEvent, { eventId }: DomainEventContext): Promise<void> {
+  await notificationService.notifyGuest(NotificationType.BOOKING_DECLINED, event.bookingId, {
+    reason: event.reason,
+    expired: event.expired,
+    eventId,
+  });
+}
+
+/**
+ * Ask the guests of a booked slot to accept the host's proposed new time
+ */
+async function notifyGuestsOfProposedChange(
+  event: SlotChangeProposedEvent,
+  { eventId }: DomainEventContext
+): Promise<void> {
+  for (const bookingId of event.bookingIds) {
+    await notificationService.notifyGuest(NotificationType.SLOT_CHANGE_PROPOSED, bookingId, {
+      newStartTime: event.startTime,
+      newEndTime: event.endTime,
+      eventId,
+    });
+  }
+}
+
+/**
+ * Tell the guests of a moved slot about its new time
+ */
+async function notifyGuestsOfNewTime(event: SlotUpdatedEvent, { eventId }: DomainEventContext): Promise<void> {
+  for (const bookingId of event.bookingIds) {
+    await notificationService.notifyGuest(NotificationType.SLOT_TIME_CHANGED, bookingId, { eventId });
+  }
+}
+
+let registered = false;
+
+/**
+ * Subscribe guest notifications to the event bus (idempotent)
+ */
+export function registerGuestNotifications(): void {
+  if (registered) {
+    return;
+  }
+  eventBus.on('booking.created', notifyGuestOfBooking);
+  eventBus.on('booking.cancelled', notifyGuestOfCancellation);
+  eventBus.on('booking.declined', notifyGuestOfDecline);
+  eventBus.on('slot.change_proposed', notifyGuestsOfProposedChange);
+  eventBus.on('slot.updated', notifyGuestsOfNewTime);
+  registered = true;
+}
@@ -0,0 +1,25 @@
+export {
+  eventBus,
+  EventBus,
+  type BookingCreatedEvent,
+  type BookingCancelledEvent,
+  type BookingRequestedEvent,
+  type BookingDeclinedEvent,
+  type SlotCreatedEvent,
+  type SlotDeletedEvent,
+  type SlotUpdatedEvent,
+  type SlotChangeProposedEvent,
+  type MagicLinkRequestedEvent,
+  type DomainEvents,
+  type DomainEventName,
+  type OutboxEventName,
+  type DomainEventContext,
+  type DomainEventListener,
+} from './eventBus';
+
+export { registerGuestNotifications } from './guestNotifications';
+export { registerMagicLinkDelivery } from './magicLinkDelivery';
+export { registerWebhookDispatcher } from './webhookDispatcher';
+export { registerReminderScheduling } from './reminderScheduling';
+export { registerSlotChangeResolution } from './slotChangeResolution';
+export { registerApprovalExpiryScheduling } from './approvalExpiryScheduling';
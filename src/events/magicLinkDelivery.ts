@@ -0,0 +1,49 @@
+import { getAuthConfig, isDevEnvironment } from '../config/auth';
+import { getNotifierConfig } from '../config/notifier';
+import { getNotifier } from '../notifiers';
+import { eventBus, MagicLinkRequestedEvent } from './eventBus';
+
+/**
+ * Email a magic sign-in link to the user through the configured notifier
+ *
+ * The console transport writes messages to the logs, where anyone with log access
+ * could use the live token, so outside development and test the link is not sent
+ * through it; configure another NOTIFIER_TRANSPORT instead.
+ */
+async function deliverMagicLink(event: MagicLinkRequestedEvent): Promise<void> {
+  if (getNotifierConfig().transport === 'console' && !isDevEnvironment()) {
+    console.warn(
+      `[MagicLink] Sign-in link for user ${event.userId} not delivered: ` +
+      'the console notifier is only used in development and test'
+    );
+    return;
+  }
+
+  const url = new URL(getAuthConfig().magicLinkUrl);
+  url.searchParams.set('token', event.token);
+
+  await getNotifier().send({
+    to: event.email,
+    subject: 'Your sign-in link',
+    text: [
+      'Use this link to sign in:',
+      url.toString(),
+      '',
+      `It can be used once and expires at ${event.expiresAt.toISOString()}.`,
+      'If you did not ask to sign in, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+let registered = false;
+
+/**
+ * Subscribe magic link delivery to the event bus (idempotent)
+ */
+export function registerMagicLinkDelivery(): void {
+  if (registered) {
+    return;
+  }
+  eventBus.on('auth.magic_link_requested', deliverMagicLink);
+  registered = true;
+}
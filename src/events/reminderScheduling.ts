@@ -0,0 +1,25 @@
+import { reminderService } from '../services/reminderService';
+import { eventBus } from './eventBus';
+
+let registered = false;
+
+/**
+ * Keep booking reminders in step with bookings (idempotent)
+ * A rescheduled booking is cancelled and a new one created, so its reminders move with it;
+ * bookings of a slot moved by its host are rescheduled for the new start.
+ */
+export function registerReminderScheduling(): void {
+  if (registered) {
+    return;
+  }
+  eventBus.on('booking.created', (event) =>
+    reminderService.scheduleReminders(event.bookingId, event.slotStartTime)
+  );
+  eventBus.on('booking.cancelled', (event) => reminderService.cancelReminders(event.bookingId));
+  eventBus.on('slot.updated', async (event) => {
+    for (const bookingId of event.bookingIds) {
+      await reminderService.scheduleReminders(bookingId, event.startTime);
+    }
+  });
+  registered = true;
+}
@@ -0,0 +1,22 @@
+import { slotChangeService } from '../services/slotChangeService';
+import { eventBus } from './eventBus';
+
+let registered = false;
+
+/**
+ * Re-check pending slot changes when a booking is cancelled or a booking request
+ * declined (idempotent)
+ * The change may now be accepted by every guest still booked, or its slot cancelled.
+ */
+export function registerSlotChangeResolution(): void {
+  if (registered) {
+    return;
+  }
+  eventBus.on('booking.cancelled', async (event) => {
+    await slotChangeService.applyIfAccepted(event.slotId);
+  });
+  eventBus.on('booking.declined', async (event) => {
+    await slotChangeService.applyIfAccepted(event.slotId);
+  });
+  registered = true;
+}
@@ -0,0 +1,20 @@
+import { webhookService } from '../services/webhookService';
+import { WEBHOOK_EVENT_TYPES } from '../utils/constants';
+import { eventBus } from './eventBus';
+
+let registered = false;
+
+/**
+ * Forward webhook-enabled domain events to their subscriptions (idempotent)
+ * Only WEBHOOK_EVENT_TYPES leave the process; events carrying secrets, such as
+ * auth.magic_link_requested, must never be added there.
+ */
+export function registerWebhookDispatcher(): void {
+  if (registered) {
+    return;
+  }
+  for (const eventType of WEBHOOK_EVENT_TYPES) {
+    eventBus.on(eventType, (payload, { eventId }) => webhookService.dispatch(eventType, payload, eventId));
+  }
+  registered = true;
+}
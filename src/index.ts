@@ -7,12 +7,51 @@ import swaggerUi from 'swagger-ui-express';
 import routes from './routes';
 import { errorHandler, notFoundHandler, requestLogger } from './middlewares';
 import { swaggerSpec } from './config/swagger';
-import { startBookingWorker, stopBookingWorker } from './workers';
-import { closeBookingQueue } from './queues';
+import { getAuthConfig } from './config/auth';
+import {
+  startBookingWorker,
+  stopBookingWorker,
+  startWebhookWorker,
+  stopWebhookWorker,
+  startOutboxRelay,
+  stopOutboxRelay,
+  startOutboxWorker,
+  stopOutboxWorker,
+  startReminderWorker,
+  stopReminderWorker,
+  startApprovalWorker,
+  stopApprovalWorker,
+  startSlotHoldWorker,
+  stopSlotHoldWorker,
+} from './workers';
+import {
+  closeBookingQueue,
+  closeOutboxQueue,
+  closeApprovalQueue,
+  closeReminderQueue,
+  closeSlotHoldQueue,
+  closeWebhookQueue,
+} from './queues';
+import {
+  registerGuestNotifications,
+  registerMagicLinkDelivery,
+  registerWebhookDispatcher,
+  registerReminderScheduling,
+  registerSlotChangeResolution,
+  registerApprovalExpiryScheduling,
+} from './events';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Domain event listeners
+registerGuestNotifications();
+registerMagicLinkDelivery();
+registerWebhookDispatcher();
+registerReminderScheduling();
+registerSlotChangeResolution();
+registerApprovalExpiryScheduling();
+
 // Security middleware - configure helmet to allow Swagger UI
 app.use(helmet({
   contentSecurityPolicy: {
@@ -68,12 +107,26 @@ const USE_QUEUE = process.env.USE_BOOKING_QUEUE === 'true';
 
 // Start server (only if not in test mode)
 if (process.env.NODE_ENV !== 'test') {
+  // Fail fast on missing auth settings (e.g. JWT_SECRET outside development)
+  getAuthConfig();
+
   // Start booking worker if queue is enabled
   if (USE_QUEUE) {
     startBookingWorker();
     console.log('Queue mode enabled for bookings');
   }
 
+  // Domain events are relayed from the outbox table to listeners via their queue
+  startOutboxRelay();
+  startOutboxWorker();
+
+  // Webhook deliveries, booking reminders, request expiries and slot hold expiries
+  // always go through their queues
+  startWebhookWorker();
+  startReminderWorker();
+  startApprovalWorker();
+  startSlotHoldWorker();
+
   const server = app.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT}`);
     console.log(`API documentation at http://localhost:${PORT}/docs`);
@@ -88,6 +141,17 @@ if (process.env.NODE_ENV !== 'test') {
         await stopBookingWorker();
         await closeBookingQueue();
       }
+      await stopOutboxRelay();
+      await stopOutboxWorker();
+      await closeOutboxQueue();
+      await stopWebhookWorker();
+      await closeWebhookQueue();
+      await stopReminderWorker();
+      await closeReminderQueue();
+      await stopApprovalWorker();
+      await closeApprovalQueue();
+      await stopSlotHoldWorker();
+      await closeSlotHoldQueue();
       console.log('Server closed');
       process.exit(0);
     });
@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { StatusCodes } from 'http-status-codes';
+import {
+  AuthenticatedRequest,
+  BadRequestError,
+  ConflictError,
+  UnprocessableEntityError,
+} from '../types';
+import { IDEMPOTENCY_KEY_TTL_SECONDS, MAX_IDEMPOTENCY_KEY_LENGTH } from '../utils/constants';
+import { getRedisClient } from './rateLimit';
+
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Stored per key: the request fingerprint and, once the request finished, its response
+interface IdempotencyRecord {
+  fingerprint: string;
+  response?: {
+    statusCode: number;
+    body: unknown;
+  };
+}
+
+/**
+ * Hash what makes two requests "the same": method, URL and body
+ */
+function fingerprintRequest(req: Request): string {
+  return createHash('sha256')
+    .update(JSON.stringify([req.method, req.originalUrl, req.body ?? null]))
+    .digest('hex');
+}
+
+/**
+ * Responses that are replayed on retries. Rate limiting and server errors are
+ * transient, so the key is released and the retry is processed again.
+ */
+function isReplayable(statusCode: number): boolean {
+  return statusCode < StatusCodes.INTERNAL_SERVER_ERROR && statusCode !== StatusCodes.TOO_MANY_REQUESTS;
+}
+
+/**
+ * Honor the `Idempotency-Key` header: the first response for a key is stored in
+ * Redis and replayed for retries with the same request, while reusing the key for
+ * a different request is rejected. Keys are scoped to the authenticated user, so
+ * this must run after the user context middleware. Requests without a user (e.g.
+ * sign-up) are processed without idempotency: their callers cannot be told apart,
+ * so one caller's key would replay or block another's request.
+ */
+export const idempotency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  const userId = (req as Partial<AuthenticatedRequest>).user?.userId;
+
+  if (key === undefined || !userId) {
+    next();
+    return;
+  }
+
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    next(new BadRequestError(`${IDEMPOTENCY_HEADER} must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`));
+    return;
+  }
+
+  const redisKey = `idempotency:${userId}:${key}`;
+  const fingerprint = fingerprintRequest(req);
+
+  try {
+    const redis = await getRedisClient();
+    const pending: IdempotencyRecord = { fingerprint };
+
+    // Claim the key; if it is taken, this is a retry (or a misuse) of an earlier request
+    const claimed = await redis.set(redisKey, JSON.stringify(pending), 'EX', IDEMPOTENCY_KEY_TTL_SECONDS, 'NX');
+
+    if (!claimed) {
+      const stored = await redis.get(redisKey);
+      const record = stored ? JSON.parse(stored) as IdempotencyRecord : null;
+
+      if (record && record.fingerprint !== fingerprint) {
+        next(new UnprocessableEntityError(`${IDEMPOTENCY_HEADER} was already used for a different request`));
+        return;
+      }
+
+      if (record && !record.response) {
+        next(new ConflictError(`A request with this ${IDEMPOTENCY_HEADER} is still being processed`));
+        return;
+      }
+
+      if (record?.response) {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(record.response.statusCode).json(record.response.body);
+        return;
+      }
+
+      // The key expired in between; process the request without idempotency
+      next();
+      return;
+    }
+
+    // Capture the response body so it can be stored once the response is sent
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('close', () => {
+      const store = res.writableFinished && isReplayable(res.statusCode)
+        ? redis.set(
+          redisKey,
+          JSON.stringify({ fingerprint, response: { statusCode: res.statusCode, body: responseBody } }),
+          'EX',
+          IDEMPOTENCY_KEY_TTL_SECONDS
+        )
+        : redis.del(redisKey);
+
+      store.catch((error) => {
+        console.error('[Idempotency] Failed to store response:', error);
+      });
+    });
+
+    next();
+  } catch (error) {
+    // Fail open - if Redis is down, process the request without idempotency
+    console.error('[Idempotency] Redis error, processing request:', error);
+    next();
+  }
+};
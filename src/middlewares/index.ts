@@ -1,5 +1,7 @@
 export { userContextMiddleware, optionalUserContextMiddleware } from './userContext';
+export { requireRole } from './requireRole';
 export { errorHandler, notFoundHandler } from './errorHandler';
 export { requestLogger } from './requestLogger';
 export { bookingRateLimiter, createRateLimiter, closeRateLimitRedis } from './rateLimit';
+export { idempotency } from './idempotency';
 
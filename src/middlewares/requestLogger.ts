@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types';
 
 /**
  * Simple request logging middleware for development and debugging.
@@ -20,7 +21,7 @@ export const requestLogger = (
       url: req.originalUrl,
       status: res.statusCode,
       duration: `${duration}ms`,
-      userId: req.headers['x-user-id'] || 'anonymous',
+      userId: (req as Partial<AuthenticatedRequest>).user?.userId || 'anonymous',
     };
 
     if (logLevel === 'error') {
@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest, ForbiddenError } from '../types';
+import { userContextMiddleware } from './userContext';
+
+/**
+ * Middleware factory that authenticates the request (via userContextMiddleware,
+ * unless a previous middleware already did) and requires at least one of `roles`.
+ */
+export const requireRole = (...roles: UserRole[]): RequestHandler => {
+  const checkRoles = (req: Request, next: NextFunction): void => {
+    const { user } = req as AuthenticatedRequest;
+
+    if (!roles.some((role) => user.roles.includes(role))) {
+      next(new ForbiddenError(`This action requires the ${roles.join(' or ')} role`));
+      return;
+    }
+
+    next();
+  };
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if ((req as Partial<AuthenticatedRequest>).user) {
+      checkRoles(req, next);
+      return;
+    }
+
+    userContextMiddleware(req, res, (error?: unknown) => {
+      if (error) {
+        next(error);
+        return;
+      }
+      checkRoles(req, next);
+    });
+  };
+};
@@ -1,12 +1,49 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthenticatedRequest, UnauthorizedError } from '../types';
+import { AuthenticatedRequest, UnauthorizedError, UserContext } from '../types';
+import { getAuthConfig } from '../config/auth';
+import { authService } from '../services';
 import prisma from '../utils/prisma';
 
+const BEARER_PREFIX = 'Bearer ';
+
 /**
- * Middleware to extract and validate user context from request headers.
- * 
- * For this simplified implementation, the user_id is passed in the headers.
- * In a production system, this would validate a JWT token or session.
+ * Resolve the user context of a request, or null if it carries no credentials.
+ *
+ * Requests authenticate with an `Authorization: Bearer <access token>` header.
+ * When AUTH_ALLOW_USER_ID_HEADER is enabled (development and tests only), the
+ * legacy `x-user-id` header is accepted as well.
+ */
+async function resolveUserContext(req: Request): Promise<UserContext | null> {
+  const authorization = req.headers.authorization;
+
+  if (authorization) {
+    if (!authorization.startsWith(BEARER_PREFIX)) {
+      throw new UnauthorizedError('Authorization header must use the Bearer scheme');
+    }
+    return authService.authenticate(authorization.slice(BEARER_PREFIX.length).trim());
+  }
+
+  const userId = req.headers['x-user-id'] as string | undefined;
+
+  if (!userId || !getAuthConfig().allowUserIdHeader) {
+    return null;
+  }
+
+  // Verify user exists in database
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, roles: true, timeZone: true },
+  });
+
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  return { userId: user.id, roles: user.roles, timeZone: user.timeZone };
+}
+
+/**
+ * Middleware to authenticate the request and attach the user context.
  */
 export const userContextMiddleware = async (
   req: Request,
@@ -14,25 +51,15 @@ export const userContextMiddleware = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const userId = req.headers['x-user-id'] as string | undefined;
-    
-    if (!userId) {
-      throw new UnauthorizedError('Missing x-user-id header');
-    }
-
-    // Verify user exists in database
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true },
-    });
+    const user = await resolveUserContext(req);
 
     if (!user) {
-      throw new UnauthorizedError('User not found');
+      throw new UnauthorizedError('Missing bearer token');
     }
 
     // Attach user context to request
-    (req as AuthenticatedRequest).user = { userId };
-    
+    (req as AuthenticatedRequest).user = user;
+
     next();
   } catch (error) {
     next(error);
@@ -41,7 +68,7 @@ export const userContextMiddleware = async (
 
 /**
  * Optional user context middleware - doesn't require authentication
- * but will attach user context if header is present
+ * but will attach user context if valid credentials are present
  */
 export const optionalUserContextMiddleware = async (
   req: Request,
@@ -49,22 +76,14 @@ export const optionalUserContextMiddleware = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const userId = req.headers['x-user-id'] as string | undefined;
-    
-    if (userId) {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { id: true },
-      });
+    const user = await resolveUserContext(req).catch(() => null);
 
-      if (user) {
-        (req as AuthenticatedRequest).user = { userId };
-      }
+    if (user) {
+      (req as AuthenticatedRequest).user = user;
     }
-    
+
     next();
   } catch (error) {
     next(error);
   }
 };
-
@@ -0,0 +1,10 @@
+import type { NotificationMessage, Notifier } from './notifier';
+
+/**
+ * Log notifications to stdout, for local runs
+ */
+export class ConsoleNotifier implements Notifier {
+  async send(message: NotificationMessage): Promise<void> {
+    console.log(`[Notification] To ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
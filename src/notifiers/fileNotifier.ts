@@ -0,0 +1,14 @@
+import { appendFile } from 'fs/promises';
+import type { NotificationMessage, Notifier } from './notifier';
+
+/**
+ * Append notifications to a file as JSON lines, for local runs and tests
+ */
+export class FileNotifier implements Notifier {
+  constructor(private readonly filePath: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const line = JSON.stringify({ sentAt: new Date().toISOString(), ...message });
+    await appendFile(this.filePath, `${line}\n`, 'utf8');
+  }
+}
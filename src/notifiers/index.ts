@@ -0,0 +1,6 @@
+export { getNotifier, type Notifier, type NotificationMessage } from './notifier';
+export { ConsoleNotifier } from './consoleNotifier';
+export { FileNotifier } from './fileNotifier';
+export { MemoryNotifier, memoryNotifier } from './memoryNotifier';
+export { SmtpNotifier } from './smtpNotifier';
+export { NOTIFICATION_TEMPLATES, type NotificationTemplate } from './templates';
@@ -0,0 +1,19 @@
+import type { NotificationMessage, Notifier } from './notifier';
+
+/**
+ * Keep notifications in memory, for offline runs and tests
+ */
+export class MemoryNotifier implements Notifier {
+  readonly messages: NotificationMessage[] = [];
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+// Shared instance, so messages can be read back after they were sent
+export const memoryNotifier = new MemoryNotifier();
@@ -0,0 +1,38 @@
+import { getNotifierConfig } from '../config/notifier';
+import { ConsoleNotifier } from './consoleNotifier';
+import { FileNotifier } from './fileNotifier';
+import { memoryNotifier } from './memoryNotifier';
+import { SmtpNotifier } from './smtpNotifier';
+
+export interface NotificationMessage {
+  /** Recipient email address */
+  to: string;
+  subject: string;
+  /** Plain-text body */
+  text: string;
+}
+
+/**
+ * Delivery channel for notifications; implementations throw when delivery fails
+ */
+export interface Notifier {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Create the notifier selected by NOTIFIER_TRANSPORT
+ */
+export function getNotifier(): Notifier {
+  const config = getNotifierConfig();
+
+  switch (config.transport) {
+    case 'file':
+      return new FileNotifier(config.filePath);
+    case 'memory':
+      return memoryNotifier;
+    case 'smtp':
+      return new SmtpNotifier(config.smtp, config.from);
+    default:
+      return new ConsoleNotifier();
+  }
+}
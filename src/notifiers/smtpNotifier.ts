@@ -0,0 +1,241 @@
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { SmtpConfig } from '../config/notifier';
+import { SMTP_TIMEOUT_MS } from '../utils/constants';
+import type { NotificationMessage, Notifier } from './notifier';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-based SMTP conversation over a (possibly upgraded) socket
+ * Complete replies are queued so none is lost between commands.
+ */
+class SmtpSession {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    this.parse();
+  };
+
+  private readonly onError = (error: Error) => this.fail(error);
+
+  private readonly onClose = () => this.fail(new Error('SMTP connection closed'));
+
+  private readonly onTimeout = () => {
+    this.socket.destroy(new Error('SMTP server timed out'));
+  };
+
+  constructor(private socket: net.Socket) {
+    this.listen(socket);
+  }
+
+  /**
+   * Stop reading the current socket, e.g. before it is upgraded by STARTTLS
+   */
+  detach(): net.Socket {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  /**
+   * Continue the conversation on a new socket
+   */
+  attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.listen(socket);
+  }
+
+  private listen(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS, this.onTimeout);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  get currentSocket(): net.Socket {
+    return this.socket;
+  }
+
+  async read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return reply;
+    }
+    if (this.error) {
+      throw this.error;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and require a reply with the expected code
+   */
+  async command(line: string, expectedCode: number): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCode, line.split(' ')[0]);
+  }
+
+  async expect(expectedCode: number, step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (reply.code !== expectedCode) {
+      throw new Error(`SMTP ${step} failed: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  private parse(): void {
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.replyLines.push(line);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiter) {
+      this.waiter.resolve(reply);
+      this.waiter = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiter) {
+      this.waiter.reject(error);
+      this.waiter = null;
+    }
+  }
+}
+
+/**
+ * Extract the bare address from "Name <address>"
+ */
+function toAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Encode a header value that is not plain ASCII (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function connect(options: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once('error', reject);
+  });
+}
+
+/**
+ * Send notifications as plain-text email through an SMTP relay
+ *
+ * Supports implicit TLS, STARTTLS when the server offers it, and AUTH PLAIN.
+ * Credentials are only sent over TLS unless allowInsecureAuth is set.
+ * One connection is opened per message.
+ */
+export class SmtpNotifier implements Notifier {
+  constructor(
+    private readonly config: SmtpConfig,
+    private readonly from: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const session = new SmtpSession(await connect(this.config));
+
+    try {
+      await session.expect(220, 'greeting');
+      const ehlo = await session.command(`EHLO ${hostname()}`, 250);
+      let encrypted = this.config.secure;
+
+      if (!encrypted && ehlo.lines.some((line) => /^\d{3}[- ]STARTTLS\b/i.test(line))) {
+        await session.command('STARTTLS', 220);
+        session.attach(await upgradeToTls(session.detach(), this.config.host));
+        await session.command(`EHLO ${hostname()}`, 250);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        if (!encrypted && !this.config.allowInsecureAuth) {
+          throw new Error(
+            'SMTP server offers no STARTTLS; refusing to send credentials in plaintext ' +
+            '(set SMTP_ALLOW_INSECURE_AUTH=true to allow)'
+          );
+        }
+
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`, 'utf8');
+        await session.command(`AUTH PLAIN ${credentials.toString('base64')}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${toAddress(this.from)}>`, 250);
+      await session.command(`RCPT TO:<${toAddress(message.to)}>`, 250);
+      await session.command('DATA', 354);
+      await session.command(`${this.formatMessage(message)}\r\n.`, 250);
+      // The message is accepted at this point, so a failed QUIT must not trigger a resend
+      await session.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      session.currentSocket.end();
+    }
+  }
+
+  private formatMessage(message: NotificationMessage): string {
+    const domain = toAddress(this.from).split('@')[1] ?? 'localhost';
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+
+    // Normalize line endings and escape lines starting with a dot
+    const body = message.text
+      .split(/\r?\n/)
+      .map((line) => (line.startsWith('.') ? `.${line}` : line))
+      .join('\r\n');
+
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+}
@@ -0,0 +1,92 @@
+import { NotificationType } from '@prisma/client';
+
+export interface NotificationTemplate {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Templates of guest notifications about a booking
+ *
+ * Context: guestName, hostName, startTime, endTime (in the guest's time zone),
+ * bookingId, the slot's title, description and location when set, and per type:
+ * rescheduled, reason, leadTime, newStartTime, newEndTime, expired.
+ */
+export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  BOOKING_CONFIRMED: {
+    subject: 'Booking confirmed with {{hostName}}',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      '{{#if rescheduled}}Your booking with {{hostName}} was moved to a new time.' +
+        '{{else}}Your booking with {{hostName}} is confirmed.{{/if}}',
+      '{{#if title}}Meeting: {{title}}\n{{/if}}Starts: {{startTime}}',
+      'Ends: {{endTime}}{{#if location}}\nLocation: {{location}}{{/if}}',
+      'Booking ID: {{bookingId}}{{#if description}}\n\n{{description}}{{/if}}',
+    ].join('\n'),
+  },
+  BOOKING_CANCELLED: {
+    subject: 'Booking cancelled with {{hostName}}',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      'Your booking with {{hostName}} starting {{startTime}} has been cancelled.',
+      'Booking ID: {{bookingId}}',
+    ].join('\n'),
+  },
+  SLOT_CANCELLED_BY_HOST: {
+    subject: '{{hostName}} cancelled your booking',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      '{{hostName}} cancelled the slot starting {{startTime}}, so your booking is cancelled.',
+      '{{#if reason}}Reason: {{reason}}{{/if}}',
+      'Booking ID: {{bookingId}}',
+    ].join('\n'),
+  },
+  BOOKING_REMINDER: {
+    subject: 'Reminder: your booking with {{hostName}} starts in {{leadTime}}',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      'This is a reminder of your booking with {{hostName}}.',
+      '{{#if title}}Meeting: {{title}}\n{{/if}}Starts: {{startTime}}',
+      'Ends: {{endTime}}{{#if location}}\nLocation: {{location}}{{/if}}',
+      'Booking ID: {{bookingId}}',
+    ].join('\n'),
+  },
+  SLOT_CHANGE_PROPOSED: {
+    subject: '{{hostName}} asks to move your booking',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      '{{hostName}} would like to move your booking starting {{startTime}} to a new time.',
+      'New start: {{newStartTime}}',
+      'New end: {{newEndTime}}',
+      'Please accept the new time, or decline it to cancel your booking.',
+      'Booking ID: {{bookingId}}',
+    ].join('\n'),
+  },
+  SLOT_TIME_CHANGED: {
+    subject: 'Your booking with {{hostName}} has a new time',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      'Your booking with {{hostName}} was moved to a new time.',
+      'Starts: {{startTime}}',
+      'Ends: {{endTime}}',
+      'Booking ID: {{bookingId}}',
+    ].join('\n'),
+  },
+  BOOKING_DECLINED: {
+    subject: 'Booking request not accepted by {{hostName}}',
+    text: [
+      'Hi {{guestName}},',
+      '',
+      '{{#if expired}}Your booking request with {{hostName}} starting {{startTime}} expired before they answered it.' +
+        '{{else}}{{hostName}} declined your booking request starting {{startTime}}.{{/if}}',
+      '{{#if reason}}Reason: {{reason}}{{/if}}',
+      'Booking ID: {{bookingId}}',
+    ].join('\n'),
+  },
+};
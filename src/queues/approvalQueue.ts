@@ -0,0 +1,61 @@
+import { Queue } from 'bullmq';
+import { APPROVAL_EXPIRY_MAX_ATTEMPTS } from '../utils/constants';
+import { MINUTE_MS } from '../utils/time';
+
+// Redis connection config for BullMQ
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Approval expiry job data interface
+export interface ApprovalExpiryJobData {
+  bookingId: string;
+}
+
+// Create the approval expiry queue
+export const approvalQueue = new Queue<ApprovalExpiryJobData>('approval-expiry', {
+  connection,
+  defaultJobOptions: {
+    attempts: APPROVAL_EXPIRY_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: MINUTE_MS },
+    removeOnComplete: true,
+    removeOnFail: 1000,
+  },
+});
+
+// One job per booking request, so scheduling again replaces it
+export function getApprovalExpiryJobId(bookingId: string): string {
+  return `${bookingId}-approval-expiry`;
+}
+
+/**
+ * Schedule the expiry of a booking request as a delayed job, replacing any scheduled before
+ * A request that has already expired is expired right away
+ */
+export async function scheduleApprovalExpiryJob(bookingId: string, expiresAt: Date): Promise<void> {
+  const jobId = getApprovalExpiryJobId(bookingId);
+  await approvalQueue.remove(jobId);
+
+  await approvalQueue.add(
+    'approval-expiry',
+    { bookingId },
+    { jobId, delay: Math.max(expiresAt.getTime() - Date.now(), 0) }
+  );
+}
+
+/**
+ * Remove the pending expiry of a booking request once it was answered
+ */
+export async function removeApprovalExpiryJob(bookingId: string): Promise<void> {
+  await approvalQueue.remove(getApprovalExpiryJobId(bookingId));
+}
+
+// Graceful shutdown
+export async function closeApprovalQueue(): Promise<void> {
+  await approvalQueue.close();
+}
@@ -1,4 +1,7 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Job, Queue, QueueEvents } from 'bullmq';
+import { BookingWindowInput } from '../types';
+import { DEFAULT_BOOKING_JOB_TTL_SECONDS } from '../utils/constants';
+import { IntakeAnswersInput } from '../utils/validation';
 
 // Redis connection config for BullMQ
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
@@ -10,13 +13,26 @@ const connection = {
   maxRetriesPerRequest: null,
 };
 
+// Finished jobs are kept this long so async clients can poll for their result
+const jobTtlSeconds = parseInt(process.env.BOOKING_JOB_TTL_SECONDS || '') || DEFAULT_BOOKING_JOB_TTL_SECONDS;
+
 // Booking job data interface
+// Either slotId or window is set; window times are ISO strings once serialized
 export interface BookingJobData {
   userId: string;
-  slotId: string;
+  slotId?: string;
+  window?: {
+    hostId: string;
+    startTime: string;
+    endTime: string;
+  };
+  answers?: IntakeAnswersInput;
   timestamp: number;
 }
 
+// What a booking job books: an existing slot or an open availability window
+export type BookingTarget = { slotId: string } | { window: BookingWindowInput };
+
 // Booking job result interface
 export interface BookingJobResult {
   success: boolean;
@@ -28,36 +44,131 @@ export interface BookingJobResult {
   };
 }
 
+// Booking job status reported to clients polling an async booking
+export type BookingJobState = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+export interface BookingJobStatus {
+  jobId: string;
+  status: BookingJobState;
+  // 1-based rank among the waiting jobs (1 = next to run); only set while pending
+  position?: number;
+  result?: BookingJobResult;
+}
+
 // Create the booking queue
 export const bookingQueue = new Queue<BookingJobData, BookingJobResult>('booking', {
   connection,
   defaultJobOptions: {
     attempts: 1, // No retries - booking should succeed or fail immediately
-    removeOnComplete: true,
-    removeOnFail: true,
+    removeOnComplete: { age: jobTtlSeconds },
+    removeOnFail: { age: jobTtlSeconds },
   },
 });
 
 // Queue events for waiting on job completion
 export const bookingQueueEvents = new QueueEvents('booking', { connection });
 
+// Add a booking job to the queue
+function queueBookingJob(
+  userId: string,
+  target: BookingTarget,
+  answers: IntakeAnswersInput
+): Promise<Job<BookingJobData, BookingJobResult>> {
+  return bookingQueue.add('create-booking', {
+    userId,
+    ...('slotId' in target
+      ? { slotId: target.slotId }
+      : {
+        window: {
+          hostId: target.window.hostId,
+          startTime: target.window.startTime.toISOString(),
+          endTime: target.window.endTime.toISOString(),
+        },
+      }),
+    answers,
+    timestamp: Date.now(),
+  });
+}
+
 // Helper to add a booking job and wait for result
 export async function addBookingJob(
   userId: string,
-  slotId: string,
+  target: BookingTarget,
+  answers: IntakeAnswersInput = {},
   timeout = 30000 // 30 second timeout
 ): Promise<BookingJobResult> {
-  const job = await bookingQueue.add('create-booking', {
-    userId,
-    slotId,
-    timestamp: Date.now(),
-  });
+  const job = await queueBookingJob(userId, target, answers);
 
   // Wait for the job to complete
   const result = await job.waitUntilFinished(bookingQueueEvents, timeout) as BookingJobResult;
   return result;
 }
 
+// Rank of a job among the waiting jobs, oldest first; undefined once it left the wait list
+async function getWaitingPosition(jobId: string): Promise<number | undefined> {
+  const waiting = await bookingQueue.getRanges(['wait'], 0, -1, true);
+  const index = waiting.indexOf(jobId);
+  return index >= 0 ? index + 1 : undefined;
+}
+
+// Helper to add a booking job without waiting; the result is polled with getBookingJobStatus
+export async function enqueueBookingJob(
+  userId: string,
+  target: BookingTarget,
+  answers: IntakeAnswersInput = {}
+): Promise<BookingJobStatus> {
+  const job = await queueBookingJob(userId, target, answers);
+
+  return {
+    jobId: job.id!,
+    status: 'pending',
+    position: await getWaitingPosition(job.id!),
+  };
+}
+
+// Look up a booking job of the given user; null if unknown, expired or someone else's
+export async function getBookingJobStatus(
+  jobId: string,
+  userId: string
+): Promise<BookingJobStatus | null> {
+  const job = await bookingQueue.getJob(jobId);
+
+  if (!job || job.data.userId !== userId) {
+    return null;
+  }
+
+  const state = await job.getState();
+
+  switch (state) {
+    case 'unknown':
+      return null;
+    case 'active':
+      return { jobId, status: 'processing' };
+    case 'completed':
+      return {
+        jobId,
+        status: job.returnvalue.success ? 'succeeded' : 'failed',
+        result: job.returnvalue,
+      };
+    case 'failed':
+      // The worker reports booking errors as results, so this is an unexpected crash
+      return {
+        jobId,
+        status: 'failed',
+        result: {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: job.failedReason || 'An unexpected error occurred',
+            statusCode: 500,
+          },
+        },
+      };
+    default:
+      return { jobId, status: 'pending', position: await getWaitingPosition(jobId) };
+  }
+}
+
 // Graceful shutdown
 export async function closeBookingQueue(): Promise<void> {
   await bookingQueueEvents.close();
@@ -2,8 +2,53 @@ export {
   bookingQueue, 
   bookingQueueEvents, 
   addBookingJob, 
+  enqueueBookingJob,
+  getBookingJobStatus,
   closeBookingQueue,
   type BookingJobData,
   type BookingJobResult,
+  type BookingJobState,
+  type BookingJobStatus,
+  type BookingTarget,
 } from './bookingQueue';
 
+export {
+  webhookQueue,
+  addWebhookDeliveryJob,
+  closeWebhookQueue,
+  type WebhookJobData,
+} from './webhookQueue';
+
+export {
+  outboxQueue,
+  publishOutboxEvent,
+  closeOutboxQueue,
+  type OutboxJobData,
+} from './outboxQueue';
+
+export {
+  reminderQueue,
+  getReminderJobId,
+  scheduleReminderJobs,
+  removeReminderJobs,
+  closeReminderQueue,
+  type ReminderJobData,
+} from './reminderQueue';
+
+export {
+  approvalQueue,
+  getApprovalExpiryJobId,
+  scheduleApprovalExpiryJob,
+  removeApprovalExpiryJob,
+  closeApprovalQueue,
+  type ApprovalExpiryJobData,
+} from './approvalQueue';
+
+export {
+  slotHoldQueue,
+  getSlotHoldExpiryJobId,
+  scheduleSlotHoldExpiryJob,
+  removeSlotHoldExpiryJob,
+  closeSlotHoldQueue,
+  type SlotHoldExpiryJobData,
+} from './slotHoldQueue';
@@ -0,0 +1,47 @@
+import { Queue } from 'bullmq';
+import { OutboxEvent } from '@prisma/client';
+import { OUTBOX_MAX_ATTEMPTS, OUTBOX_RETRY_BASE_DELAY_MS } from '../utils/constants';
+
+// Redis connection config for BullMQ
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Outbox job data interface; the payload is the stored JSON of the event
+export interface OutboxJobData {
+  outboxEventId: string;
+  eventType: string;
+  payload: unknown;
+}
+
+// Create the outbox queue
+export const outboxQueue = new Queue<OutboxJobData>('outbox', {
+  connection,
+  defaultJobOptions: {
+    attempts: OUTBOX_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: OUTBOX_RETRY_BASE_DELAY_MS },
+    removeOnComplete: true,
+    // An event out of attempts goes back to the relay, which needs its job ID free
+    removeOnFail: true,
+  },
+});
+
+// Helper to publish an outbox event
+// The outbox ID is the job ID, so an event republished while still queued is not added twice
+export async function publishOutboxEvent(event: OutboxEvent): Promise<void> {
+  await outboxQueue.add(
+    event.eventType,
+    { outboxEventId: event.id, eventType: event.eventType, payload: event.payload },
+    { jobId: event.id }
+  );
+}
+
+// Graceful shutdown
+export async function closeOutboxQueue(): Promise<void> {
+  await outboxQueue.close();
+}
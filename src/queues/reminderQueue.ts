@@ -0,0 +1,73 @@
+import { Queue } from 'bullmq';
+import { BOOKING_REMINDER_LEAD_MINUTES, REMINDER_MAX_ATTEMPTS } from '../utils/constants';
+import { MINUTE_MS } from '../utils/time';
+
+// Redis connection config for BullMQ
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Reminder job data interface
+export interface ReminderJobData {
+  bookingId: string;
+  // Slot start the reminder was scheduled for (ISO string); stale if the booking moved
+  slotStartTime: string;
+  leadMinutes: number;
+}
+
+// Create the reminder queue
+export const reminderQueue = new Queue<ReminderJobData>('reminder', {
+  connection,
+  defaultJobOptions: {
+    attempts: REMINDER_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: MINUTE_MS },
+    removeOnComplete: true,
+    removeOnFail: 1000,
+  },
+});
+
+// One job per booking and lead time, so scheduling again replaces it
+export function getReminderJobId(bookingId: string, leadMinutes: number): string {
+  return `${bookingId}-${leadMinutes}`;
+}
+
+/**
+ * Schedule the reminders of a booking as delayed jobs, replacing any scheduled before
+ * Lead times that have already passed are skipped
+ */
+export async function scheduleReminderJobs(bookingId: string, slotStartTime: Date): Promise<void> {
+  for (const leadMinutes of BOOKING_REMINDER_LEAD_MINUTES) {
+    const jobId = getReminderJobId(bookingId, leadMinutes);
+    await reminderQueue.remove(jobId);
+
+    const delay = slotStartTime.getTime() - leadMinutes * MINUTE_MS - Date.now();
+    if (delay <= 0) {
+      continue;
+    }
+
+    await reminderQueue.add(
+      'booking-reminder',
+      { bookingId, slotStartTime: slotStartTime.toISOString(), leadMinutes },
+      { jobId, delay }
+    );
+  }
+}
+
+/**
+ * Remove the pending reminders of a booking
+ */
+export async function removeReminderJobs(bookingId: string): Promise<void> {
+  for (const leadMinutes of BOOKING_REMINDER_LEAD_MINUTES) {
+    await reminderQueue.remove(getReminderJobId(bookingId, leadMinutes));
+  }
+}
+
+// Graceful shutdown
+export async function closeReminderQueue(): Promise<void> {
+  await reminderQueue.close();
+}
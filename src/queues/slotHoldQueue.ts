@@ -0,0 +1,60 @@
+import { Queue } from 'bullmq';
+import { SLOT_HOLD_EXPIRY_MAX_ATTEMPTS } from '../utils/constants';
+import { MINUTE_MS } from '../utils/time';
+
+// Redis connection config for BullMQ
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Slot hold expiry job data interface
+export interface SlotHoldExpiryJobData {
+  slotId: string;
+}
+
+// Create the slot hold expiry queue
+export const slotHoldQueue = new Queue<SlotHoldExpiryJobData>('slot-hold-expiry', {
+  connection,
+  defaultJobOptions: {
+    attempts: SLOT_HOLD_EXPIRY_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: MINUTE_MS },
+    removeOnComplete: true,
+    removeOnFail: 1000,
+  },
+});
+
+// One job per slot, so holding it again replaces the previous hold's job
+export function getSlotHoldExpiryJobId(slotId: string): string {
+  return `${slotId}-hold-expiry`;
+}
+
+/**
+ * Schedule the release of a slot hold as a delayed job, replacing any scheduled before
+ */
+export async function scheduleSlotHoldExpiryJob(slotId: string, expiresAt: Date): Promise<void> {
+  const jobId = getSlotHoldExpiryJobId(slotId);
+  await slotHoldQueue.remove(jobId);
+
+  await slotHoldQueue.add(
+    'slot-hold-expiry',
+    { slotId },
+    { jobId, delay: Math.max(expiresAt.getTime() - Date.now(), 0) }
+  );
+}
+
+/**
+ * Remove the pending release of a slot hold once the guest released it
+ */
+export async function removeSlotHoldExpiryJob(slotId: string): Promise<void> {
+  await slotHoldQueue.remove(getSlotHoldExpiryJobId(slotId));
+}
+
+// Graceful shutdown
+export async function closeSlotHoldQueue(): Promise<void> {
+  await slotHoldQueue.close();
+}
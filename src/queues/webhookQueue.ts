@@ -0,0 +1,38 @@
+import { Queue } from 'bullmq';
+import { WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_BASE_DELAY_MS } from '../utils/constants';
+
+// Redis connection config for BullMQ
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Webhook job data interface; the payload is read from the delivery record
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+// Create the webhook delivery queue
+export const webhookQueue = new Queue<WebhookJobData>('webhook', {
+  connection,
+  defaultJobOptions: {
+    attempts: WEBHOOK_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: WEBHOOK_RETRY_BASE_DELAY_MS },
+    removeOnComplete: true,
+    removeOnFail: true, // The delivery log keeps the outcome
+  },
+});
+
+// Helper to queue a delivery attempt
+export async function addWebhookDeliveryJob(deliveryId: string): Promise<void> {
+  await webhookQueue.add('deliver-webhook', { deliveryId });
+}
+
+// Graceful shutdown
+export async function closeWebhookQueue(): Promise<void> {
+  await webhookQueue.close();
+}
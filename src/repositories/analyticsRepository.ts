@@ -5,8 +5,9 @@ export class AnalyticsRepository {
   /**
    * Get booking analytics for a date range
    * Optimized for performance with 50K+ bookings
+   * Bookings are grouped by their calendar day in `timeZone`
    */
-  async getAnalytics(startDate: Date, endDate: Date): Promise<AnalyticsResponse> {
+  async getAnalytics(startDate: Date, endDate: Date, timeZone: string): Promise<AnalyticsResponse> {
     // Run all queries in parallel for efficiency
     const [
       totalBookings,
@@ -36,15 +37,16 @@ export class AnalyticsRepository {
       }),
 
       // Bookings per day using raw SQL for efficiency
+      // "createdAt" is stored as UTC without a zone, so convert it before taking the day
       prisma.$queryRaw<Array<{ date: string; count: bigint }>>`
         SELECT 
-          DATE("createdAt") as date,
+          TO_CHAR(("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') as date,
           COUNT(*) as count
         FROM "Booking"
         WHERE "createdAt" >= ${startDate}
           AND "createdAt" <= ${endDate}
-        GROUP BY DATE("createdAt")
-        ORDER BY date ASC
+        GROUP BY 1
+        ORDER BY 1 ASC
       `,
 
       // Top 5 busiest hosts
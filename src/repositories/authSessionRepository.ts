@@ -0,0 +1,79 @@
+import { AuthSession, Prisma, User } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export type AuthSessionWithUser = AuthSession & {
+  user: Pick<User, 'id' | 'roles' | 'timeZone'>;
+};
+
+export class AuthSessionRepository {
+  /**
+   * Start a session for a user
+   */
+  async create(
+    data: { userId: string; refreshTokenId: string; expiresAt: Date },
+    tx?: TransactionClient
+  ): Promise<AuthSession> {
+    const client = tx ?? prisma;
+    return client.authSession.create({ data });
+  }
+
+  /**
+   * Find a session that is neither revoked nor expired, with the user's auth context
+   */
+  async findActiveWithUser(id: string): Promise<AuthSessionWithUser | null> {
+    return prisma.authSession.findFirst({
+      where: {
+        id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      include: {
+        user: {
+          select: { id: true, roles: true, timeZone: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Replace the refresh token of a session, if `currentTokenId` is still the current one
+   * Returns false when another refresh already rotated the token.
+   */
+  async rotateRefreshToken(
+    id: string,
+    currentTokenId: string,
+    nextTokenId: string
+  ): Promise<boolean> {
+    const result = await prisma.authSession.updateMany({
+      where: { id, refreshTokenId: currentTokenId, revokedAt: null },
+      data: { refreshTokenId: nextTokenId },
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Revoke a session, invalidating its access and refresh tokens
+   */
+  async revoke(id: string): Promise<void> {
+    await prisma.authSession.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Revoke every active session of a user
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const result = await prisma.authSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+}
+
+export const authSessionRepository = new AuthSessionRepository();
@@ -0,0 +1,78 @@
+import { AvailabilityRule, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export type AvailabilityRuleWithHost = AvailabilityRule & {
+  host: {
+    id: string;
+    name: string;
+    timeZone: string;
+  };
+};
+
+// Host fields needed to list rules and generate windows in the host's time zone
+const hostSelect = {
+  select: { id: true, name: true, timeZone: true },
+} as const;
+
+export class AvailabilityRepository {
+  /**
+   * Find a rule by ID
+   */
+  async findById(id: string): Promise<AvailabilityRule | null> {
+    return prisma.availabilityRule.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find rules, optionally restricted to a host and weekday
+   */
+  async findRules(
+    filters: { hostId?: string; weekday?: number },
+    tx?: TransactionClient
+  ): Promise<AvailabilityRuleWithHost[]> {
+    const client = tx ?? prisma;
+    return client.availabilityRule.findMany({
+      where: {
+        ...(filters.hostId && { hostId: filters.hostId }),
+        ...(filters.weekday !== undefined && { weekday: filters.weekday }),
+      },
+      include: { host: hostSelect },
+      orderBy: [{ weekday: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  /**
+   * Create rules for several weekdays at once
+   */
+  async createMany(
+    hostId: string,
+    data: Array<{
+      weekday: number;
+      startTime: string;
+      endTime: string;
+      slotDurationMinutes: number;
+    }>
+  ): Promise<AvailabilityRuleWithHost[]> {
+    return prisma.$transaction(
+      data.map((rule) => prisma.availabilityRule.create({
+        data: { hostId, ...rule },
+        include: { host: hostSelect },
+      }))
+    );
+  }
+
+  /**
+   * Delete a rule
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.availabilityRule.delete({
+      where: { id },
+    });
+  }
+}
+
+export const availabilityRepository = new AvailabilityRepository();
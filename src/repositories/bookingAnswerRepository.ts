@@ -0,0 +1,40 @@
+import { BookingAnswer, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export type BookingAnswerData = Pick<BookingAnswer, 'questionId' | 'question' | 'answer' | 'position'>;
+
+export class BookingAnswerRepository {
+  /**
+   * Find the answers of a booking, in question order
+   */
+  async findByBooking(bookingId: string, tx?: TransactionClient): Promise<BookingAnswer[]> {
+    const client = tx ?? prisma;
+    return client.bookingAnswer.findMany({
+      where: { bookingId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Save the answers given with a booking
+   * Must be called within the booking transaction
+   */
+  async createMany(
+    bookingId: string,
+    answers: BookingAnswerData[],
+    tx: TransactionClient
+  ): Promise<void> {
+    if (answers.length === 0) {
+      return;
+    }
+
+    await tx.bookingAnswer.createMany({
+      data: answers.map((answer) => ({ ...answer, bookingId })),
+    });
+  }
+}
+
+export const bookingAnswerRepository = new BookingAnswerRepository();
@@ -1,13 +1,19 @@
-import { Booking, BookingStatus, Prisma } from '@prisma/client';
+import { Booking, BookingAnswer, BookingStatus, CancellationActor, Prisma, Slot } from '@prisma/client';
 import prisma from '../utils/prisma';
 import { BookingFilters } from '../types';
 
 // Type for transaction client
 type TransactionClient = Prisma.TransactionClient;
 
+// Type for booking with its guest and the slot's host, as shown in calendars
+export type BookingWithParticipants = Booking & {
+  user: { name: string; email: string };
+  slot: Slot & { host: { name: string; email: string } };
+};
+
 // Type for booking with slot and host info
 export type BookingWithDetails = Booking & {
-  slot: {
+  slot: Pick<Slot, 'title' | 'description' | 'locationType' | 'location' | 'meetingUrl'> & {
     id: string;
     hostId: string;
     startTime: Date;
@@ -18,14 +24,24 @@ export type BookingWithDetails = Booking & {
       name: string;
     };
   };
+  answers: BookingAnswer[];
 };
 
+// Bookings that hold a seat: confirmed ones and requests waiting for the host's approval
+const ACTIVE_BOOKING_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+const calendarInclude = {
+  user: { select: { name: true, email: true } },
+  slot: { include: { host: { select: { name: true, email: true } } } },
+} satisfies Prisma.BookingInclude;
+
 export class BookingRepository {
   /**
    * Find a booking by ID
    */
-  async findById(id: string): Promise<Booking | null> {
-    return prisma.booking.findUnique({
+  async findById(id: string, tx?: TransactionClient): Promise<Booking | null> {
+    const client = tx ?? prisma;
+    return client.booking.findUnique({
       where: { id },
     });
   }
@@ -44,12 +60,13 @@ export class BookingRepository {
             },
           },
         },
+        answers: { orderBy: { position: 'asc' } },
       },
     });
   }
 
   /**
-   * Create a new booking
+   * Create a new booking, CONFIRMED unless it is a request with an `approvalExpiresAt`
    * Must be called within a transaction
    */
   async create(
@@ -57,13 +74,32 @@ export class BookingRepository {
     data: {
       slotId: string;
       userId: string;
+      rescheduledFromId?: string;
+      approvalExpiresAt?: Date;
     }
   ): Promise<Booking> {
     return tx.booking.create({
       data: {
         slotId: data.slotId,
         userId: data.userId,
+        status: data.approvalExpiresAt ? BookingStatus.PENDING : BookingStatus.CONFIRMED,
+        rescheduledFromId: data.rescheduledFromId,
+        approvalExpiresAt: data.approvalExpiresAt,
+      },
+    });
+  }
+
+  /**
+   * Confirm a PENDING booking request approved by the host
+   */
+  async confirm(id: string, tx?: TransactionClient): Promise<Booking> {
+    const client = tx ?? prisma;
+    return client.booking.update({
+      where: { id },
+      data: {
         status: BookingStatus.CONFIRMED,
+        approvalExpiresAt: null,
+        icalSequence: { increment: 1 },
       },
     });
   }
@@ -79,13 +115,122 @@ export class BookingRepository {
     const client = tx ?? prisma;
     return client.booking.update({
       where: { id },
-      data: { status },
+      data: { status, icalSequence: { increment: 1 } },
     });
   }
 
+  /**
+   * Cancel a booking, recording who cancelled it and why
+   */
+  async cancel(
+    id: string,
+    data: { cancelledBy: CancellationActor; cancellationReason?: string },
+    tx?: TransactionClient
+  ): Promise<Booking> {
+    const client = tx ?? prisma;
+    return client.booking.update({
+      where: { id },
+      data: {
+        status: BookingStatus.CANCELLED,
+        cancelledBy: data.cancelledBy,
+        cancellationReason: data.cancellationReason,
+        icalSequence: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * Increment the iCalendar SEQUENCE of a slot's confirmed bookings after the slot moved
+   */
+  async touchConfirmedBySlot(slotId: string, tx?: TransactionClient): Promise<number> {
+    const client = tx ?? prisma;
+    const result = await client.booking.updateMany({
+      where: { slotId, status: BookingStatus.CONFIRMED },
+      data: { icalSequence: { increment: 1 } },
+    });
+    return result.count;
+  }
+
+  /**
+   * Find the confirmed bookings of a slot
+   */
+  async findConfirmedBySlot(slotId: string, tx?: TransactionClient): Promise<Booking[]> {
+    const client = tx ?? prisma;
+    return client.booking.findMany({
+      where: {
+        slotId,
+        status: BookingStatus.CONFIRMED,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find the confirmed bookings and pending requests (taken seats) of a slot
+   */
+  async findActiveBySlot(slotId: string, tx?: TransactionClient): Promise<Booking[]> {
+    const client = tx ?? prisma;
+    return client.booking.findMany({
+      where: {
+        slotId,
+        status: { in: ACTIVE_BOOKING_STATUSES },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Count confirmed bookings and pending requests (taken seats) of a slot
+   */
+  async countTakenSeatsBySlot(
+    slotId: string,
+    tx?: TransactionClient
+  ): Promise<number> {
+    const client = tx ?? prisma;
+    return client.booking.count({
+      where: {
+        slotId,
+        status: { in: ACTIVE_BOOKING_STATUSES },
+      },
+    });
+  }
+
+  /**
+   * Count the booking requests of a slot waiting for the host's approval
+   */
+  async countPendingBySlot(slotId: string, tx?: TransactionClient): Promise<number> {
+    const client = tx ?? prisma;
+    return client.booking.count({
+      where: {
+        slotId,
+        status: BookingStatus.PENDING,
+      },
+    });
+  }
+
+  /**
+   * Check whether a user holds a seat (confirmed booking or pending request) of a slot
+   */
+  async hasActiveBooking(
+    slotId: string,
+    userId: string,
+    tx?: TransactionClient
+  ): Promise<boolean> {
+    const client = tx ?? prisma;
+    const booking = await client.booking.findFirst({
+      where: {
+        slotId,
+        userId,
+        status: { in: ACTIVE_BOOKING_STATUSES },
+      },
+      select: { id: true },
+    });
+    return booking !== null;
+  }
+
   /**
    * Count active bookings for a user
-   * Active = CONFIRMED and slot start time is in the future
+   * Active = CONFIRMED or PENDING, and slot start time is in the future
    */
   async countActiveBookings(
     userId: string,
@@ -95,7 +240,7 @@ export class BookingRepository {
     return client.booking.count({
       where: {
         userId,
-        status: BookingStatus.CONFIRMED,
+        status: { in: ACTIVE_BOOKING_STATUSES },
         slot: {
           startTime: { gt: new Date() },
         },
@@ -116,7 +261,7 @@ export class BookingRepository {
     return client.booking.count({
       where: {
         userId,
-        status: BookingStatus.CONFIRMED,
+        status: { in: ACTIVE_BOOKING_STATUSES },
         slot: {
           hostId,
           startTime: { gt: new Date() },
@@ -125,6 +270,28 @@ export class BookingRepository {
     });
   }
 
+  /**
+   * Count confirmed bookings and pending requests on a host's slots starting in a time range
+   * Used to enforce a host's maximum bookings per day
+   */
+  async countActiveByHostInRange(
+    hostId: string,
+    startTime: Date,
+    endTime: Date,
+    tx?: TransactionClient
+  ): Promise<number> {
+    const client = tx ?? prisma;
+    return client.booking.count({
+      where: {
+        status: { in: ACTIVE_BOOKING_STATUSES },
+        slot: {
+          hostId,
+          startTime: { gte: startTime, lte: endTime },
+        },
+      },
+    });
+  }
+
   /**
    * Find bookings for a user
    */
@@ -160,6 +327,7 @@ export class BookingRepository {
               },
             },
           },
+          answers: { orderBy: { position: 'asc' } },
         },
         orderBy: { createdAt: 'desc' },
         skip,
@@ -171,6 +339,28 @@ export class BookingRepository {
     return { bookings, total };
   }
 
+  /**
+   * Find a booking by ID with its guest and host, for calendar invites
+   */
+  async findByIdWithParticipants(id: string): Promise<BookingWithParticipants | null> {
+    return prisma.booking.findUnique({
+      where: { id },
+      include: calendarInclude,
+    });
+  }
+
+  /**
+   * Find a user's bookings (any status) whose slot ends after a given time,
+   * for calendar feeds
+   */
+  async findForCalendar(userId: string, endsAfter: Date): Promise<BookingWithParticipants[]> {
+    return prisma.booking.findMany({
+      where: { userId, slot: { endTime: { gt: endsAfter } } },
+      include: calendarInclude,
+      orderBy: { slot: { startTime: 'asc' } },
+    });
+  }
+
   /**
    * Find confirmed booking by slot ID
    */
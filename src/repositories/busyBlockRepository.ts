@@ -0,0 +1,91 @@
+import { BusyBlock, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export class BusyBlockRepository {
+  /**
+   * Find a busy block by ID
+   */
+  async findById(id: string): Promise<BusyBlock | null> {
+    return prisma.busyBlock.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Create busy blocks, skipping ones that were already imported (same UID and start)
+   * Returns only the newly created blocks
+   */
+  async createMany(
+    hostId: string,
+    blocks: Array<{ uid: string; startTime: Date; endTime: Date; summary: string | null }>
+  ): Promise<BusyBlock[]> {
+    return prisma.busyBlock.createManyAndReturn({
+      data: blocks.map((block) => ({ ...block, hostId })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Find a host's busy blocks that end after a given time, in start order
+   */
+  async findByHost(hostId: string, endsAfter: Date): Promise<BusyBlock[]> {
+    return prisma.busyBlock.findMany({
+      where: { hostId, endTime: { gt: endsAfter } },
+      orderBy: { startTime: 'asc' },
+    });
+  }
+
+  /**
+   * Find busy blocks of the given hosts that overlap a time range
+   * Used to subtract busy time from generated availability windows
+   */
+  async findInRange(
+    hostIds: string[],
+    startTime: Date,
+    endTime: Date
+  ): Promise<Array<Pick<BusyBlock, 'hostId' | 'startTime' | 'endTime'>>> {
+    return prisma.busyBlock.findMany({
+      where: {
+        hostId: { in: hostIds },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      select: { hostId: true, startTime: true, endTime: true },
+    });
+  }
+
+  /**
+   * Check whether a host is busy at any point of a time range
+   */
+  async hasOverlap(
+    hostId: string,
+    startTime: Date,
+    endTime: Date,
+    tx?: TransactionClient
+  ): Promise<boolean> {
+    const client = tx ?? prisma;
+    const block = await client.busyBlock.findFirst({
+      where: {
+        hostId,
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      select: { id: true },
+    });
+    return block !== null;
+  }
+
+  /**
+   * Delete a busy block
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.busyBlock.delete({
+      where: { id },
+    });
+  }
+}
+
+export const busyBlockRepository = new BusyBlockRepository();
@@ -0,0 +1,88 @@
+import { HostPolicy, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+type HostPolicyData = Partial<Pick<
+  HostPolicy,
+  | 'maxActiveBookings'
+  | 'cancellationWindowHours'
+  | 'allowMultipleBookings'
+  | 'maxBookingsPerDay'
+  | 'requiresApproval'
+  | 'bufferBeforeMinutes'
+  | 'bufferAfterMinutes'
+  | 'minNoticeHours'
+  | 'maxHorizonDays'
+>>;
+
+export class HostPolicyRepository {
+  /**
+   * Find the policy of a host
+   */
+  async findByHost(hostId: string, tx?: TransactionClient): Promise<HostPolicy | null> {
+    const client = tx ?? prisma;
+    return client.hostPolicy.findUnique({
+      where: { hostId },
+    });
+  }
+
+  /**
+   * Find the policies of the hosts (optionally among `hostIds`) that restrict when
+   * their slots can be booked; every other host has no such rules
+   */
+  async findWithBookingRules(hostIds?: string[]): Promise<Array<Pick<
+    HostPolicy,
+    'hostId' | 'bufferBeforeMinutes' | 'bufferAfterMinutes' | 'minNoticeHours' | 'maxHorizonDays'
+  >>> {
+    return prisma.hostPolicy.findMany({
+      where: {
+        ...(hostIds && { hostId: { in: hostIds } }),
+        OR: [
+          { bufferBeforeMinutes: { gt: 0 } },
+          { bufferAfterMinutes: { gt: 0 } },
+          { minNoticeHours: { gt: 0 } },
+          { maxHorizonDays: { not: null } },
+        ],
+      },
+      select: {
+        hostId: true,
+        bufferBeforeMinutes: true,
+        bufferAfterMinutes: true,
+        minNoticeHours: true,
+        maxHorizonDays: true,
+      },
+    });
+  }
+
+  /**
+   * Create the policy of a host
+   */
+  async create(hostId: string, data: HostPolicyData): Promise<HostPolicy> {
+    return prisma.hostPolicy.create({
+      data: { ...data, hostId },
+    });
+  }
+
+  /**
+   * Update the policy of a host
+   */
+  async update(hostId: string, data: HostPolicyData): Promise<HostPolicy> {
+    return prisma.hostPolicy.update({
+      where: { hostId },
+      data,
+    });
+  }
+
+  /**
+   * Delete the policy of a host
+   */
+  async delete(hostId: string): Promise<void> {
+    await prisma.hostPolicy.delete({
+      where: { hostId },
+    });
+  }
+}
+
+export const hostPolicyRepository = new HostPolicyRepository();
@@ -1,5 +1,19 @@
 export { userRepository, UserRepository } from './userRepository';
 export { slotRepository, SlotRepository } from './slotRepository';
-export { bookingRepository, BookingRepository, BookingWithDetails } from './bookingRepository';
+export { bookingRepository, BookingRepository, BookingWithDetails, BookingWithParticipants } from './bookingRepository';
 export { analyticsRepository, AnalyticsRepository } from './analyticsRepository';
 
+export { slotSeriesRepository, SlotSeriesRepository } from './slotSeriesRepository';
+export { availabilityRepository, AvailabilityRepository, AvailabilityRuleWithHost } from './availabilityRepository';
+export { waitlistRepository, WaitlistRepository } from './waitlistRepository';
+export { authSessionRepository, AuthSessionRepository, AuthSessionWithUser } from './authSessionRepository';
+export { magicLinkTokenRepository, MagicLinkTokenRepository } from './magicLinkTokenRepository';
+export { webhookSubscriptionRepository, WebhookSubscriptionRepository } from './webhookSubscriptionRepository';
+export { webhookDeliveryRepository, WebhookDeliveryRepository, WebhookDeliveryWithSubscription } from './webhookDeliveryRepository';
+export { outboxEventRepository, OutboxEventRepository } from './outboxEventRepository';
+export { notificationLogRepository, NotificationLogRepository } from './notificationLogRepository';
+export { busyBlockRepository, BusyBlockRepository } from './busyBlockRepository';
+export { slotChangeRequestRepository, SlotChangeRequestRepository } from './slotChangeRequestRepository';
+export { hostPolicyRepository, HostPolicyRepository } from './hostPolicyRepository';
+export { intakeQuestionRepository, IntakeQuestionRepository } from './intakeQuestionRepository';
+export { bookingAnswerRepository, BookingAnswerRepository, BookingAnswerData } from './bookingAnswerRepository';
@@ -0,0 +1,56 @@
+import { IntakeQuestion, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+type IntakeQuestionData = Pick<IntakeQuestion, 'label' | 'type' | 'required' | 'options'>;
+
+export class IntakeQuestionRepository {
+  /**
+   * Find the profile questions of a host (the ones not tied to a slot), in order
+   */
+  async findByHost(hostId: string, tx?: TransactionClient): Promise<IntakeQuestion[]> {
+    const client = tx ?? prisma;
+    return client.intakeQuestion.findMany({
+      where: { hostId, slotId: null },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Find the questions of a slot, in order
+   */
+  async findBySlot(slotId: string, tx?: TransactionClient): Promise<IntakeQuestion[]> {
+    const client = tx ?? prisma;
+    return client.intakeQuestion.findMany({
+      where: { slotId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Replace the profile questions of a host (slotId null) or the questions of a slot
+   * Answers to removed questions keep their copy of the question.
+   * Must be called within a transaction
+   */
+  async replace(
+    tx: TransactionClient,
+    hostId: string,
+    slotId: string | null,
+    questions: IntakeQuestionData[]
+  ): Promise<void> {
+    await tx.intakeQuestion.deleteMany({ where: { hostId, slotId } });
+
+    await tx.intakeQuestion.createMany({
+      data: questions.map((question, position) => ({
+        ...question,
+        hostId,
+        slotId,
+        position,
+      })),
+    });
+  }
+}
+
+export const intakeQuestionRepository = new IntakeQuestionRepository();
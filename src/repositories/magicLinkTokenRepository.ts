@@ -0,0 +1,36 @@
+import { MagicLinkToken } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+export class MagicLinkTokenRepository {
+  /**
+   * Store a new sign-in link by its token hash
+   */
+  async create(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<MagicLinkToken> {
+    return prisma.magicLinkToken.create({ data });
+  }
+
+  /**
+   * Mark an unused, unexpired link as used
+   * Returns the link, or null if it was unknown, expired, or already used.
+   * The conditional update makes concurrent uses of one link fail except for one.
+   */
+  async consume(tokenHash: string): Promise<MagicLinkToken | null> {
+    const now = new Date();
+    const result = await prisma.magicLinkToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return prisma.magicLinkToken.findUnique({ where: { tokenHash } });
+  }
+}
+
+export const magicLinkTokenRepository = new MagicLinkTokenRepository();
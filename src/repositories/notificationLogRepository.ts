@@ -0,0 +1,47 @@
+import { NotificationLog, NotificationStatus, NotificationType } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+export class NotificationLogRepository {
+  /**
+   * Record a notification sent (or skipped) to a user
+   */
+  async create(data: {
+    userId: string;
+    bookingId?: string | null;
+    type: NotificationType;
+    status: NotificationStatus;
+    transport: string;
+    recipient: string;
+    subject: string;
+    body: string;
+    error?: string | null;
+    eventId?: string | null;
+  }): Promise<NotificationLog> {
+    return prisma.notificationLog.create({ data });
+  }
+
+  /**
+   * Find the notification already sent (or skipped) about a booking for an event
+   */
+  async findDelivered(eventId: string, bookingId: string): Promise<NotificationLog | null> {
+    return prisma.notificationLog.findFirst({
+      where: {
+        eventId,
+        bookingId,
+        status: { in: [NotificationStatus.SENT, NotificationStatus.SKIPPED] },
+      },
+    });
+  }
+
+  /**
+   * List the notifications about a booking, oldest first
+   */
+  async findByBooking(bookingId: string): Promise<NotificationLog[]> {
+    return prisma.notificationLog.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
+
+export const notificationLogRepository = new NotificationLogRepository();
@@ -0,0 +1,59 @@
+import { OutboxEvent, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import type { DomainEvents, OutboxEventName } from '../events';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export class OutboxEventRepository {
+  /**
+   * Record a domain event in the transaction that caused it
+   */
+  async create<K extends OutboxEventName>(
+    tx: TransactionClient,
+    eventType: K,
+    payload: DomainEvents[K]
+  ): Promise<OutboxEvent> {
+    return tx.outboxEvent.create({
+      data: {
+        eventType,
+        // Round-trip through JSON so Dates are stored as ISO strings
+        payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Find the oldest pending events, in the order they were recorded
+   */
+  async findPending(limit: number): Promise<OutboxEvent[]> {
+    return prisma.outboxEvent.findMany({
+      where: { dispatchedAt: null },
+      orderBy: { sequence: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Mark events as published
+   */
+  async markDispatched(ids: string[], tx?: TransactionClient): Promise<void> {
+    const client = tx ?? prisma;
+    await client.outboxEvent.updateMany({
+      where: { id: { in: ids }, dispatchedAt: null },
+      data: { dispatchedAt: new Date() },
+    });
+  }
+
+  /**
+   * Mark an event as pending again, so the relay publishes it on its next pass
+   */
+  async markPending(id: string): Promise<void> {
+    await prisma.outboxEvent.updateMany({
+      where: { id },
+      data: { dispatchedAt: null },
+    });
+  }
+}
+
+export const outboxEventRepository = new OutboxEventRepository();
@@ -0,0 +1,78 @@
+import { Prisma, SlotChangeRequest, SlotChangeStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export class SlotChangeRequestRepository {
+  /**
+   * Find the PENDING change of a slot
+   */
+  async findPendingBySlot(
+    slotId: string,
+    tx?: TransactionClient
+  ): Promise<SlotChangeRequest | null> {
+    const client = tx ?? prisma;
+    return client.slotChangeRequest.findFirst({
+      where: { slotId, status: SlotChangeStatus.PENDING },
+    });
+  }
+
+  /**
+   * Propose a new time for a slot
+   */
+  async create(
+    data: { slotId: string; startTime: Date; endTime: Date },
+    tx?: TransactionClient
+  ): Promise<SlotChangeRequest> {
+    const client = tx ?? prisma;
+    return client.slotChangeRequest.create({
+      data,
+    });
+  }
+
+  /**
+   * Record that the guest of a booking accepted a change
+   */
+  async addAcceptance(
+    id: string,
+    bookingId: string,
+    tx?: TransactionClient
+  ): Promise<SlotChangeRequest> {
+    const client = tx ?? prisma;
+    return client.slotChangeRequest.update({
+      where: { id },
+      data: { acceptedBookingIds: { push: bookingId } },
+    });
+  }
+
+  /**
+   * Resolve a change as APPLIED or WITHDRAWN
+   */
+  async resolve(
+    id: string,
+    status: SlotChangeStatus,
+    tx?: TransactionClient
+  ): Promise<SlotChangeRequest> {
+    const client = tx ?? prisma;
+    return client.slotChangeRequest.update({
+      where: { id },
+      data: { status, resolvedAt: new Date() },
+    });
+  }
+
+  /**
+   * Withdraw the PENDING change of a slot, if any
+   * Returns the number of withdrawn changes (0 or 1)
+   */
+  async withdrawPendingBySlot(slotId: string, tx?: TransactionClient): Promise<number> {
+    const client = tx ?? prisma;
+    const result = await client.slotChangeRequest.updateMany({
+      where: { slotId, status: SlotChangeStatus.PENDING },
+      data: { status: SlotChangeStatus.WITHDRAWN, resolvedAt: new Date() },
+    });
+    return result.count;
+  }
+}
+
+export const slotChangeRequestRepository = new SlotChangeRequestRepository();
@@ -1,6 +1,6 @@
-import { Slot, SlotStatus, Prisma } from '@prisma/client';
+import { BookingStatus, Slot, SlotStatus, Prisma } from '@prisma/client';
 import prisma from '../utils/prisma';
-import { SlotFilters } from '../types';
+import { SlotDetails, SlotFilters } from '../types';
 
 // Type for transaction client
 type TransactionClient = Prisma.TransactionClient;
@@ -43,21 +43,55 @@ export class SlotRepository {
     return result[0] ?? null;
   }
 
+  /**
+   * Find a non-cancelled slot with the exact time range with pessimistic lock (FOR UPDATE)
+   * Must be called within a transaction
+   */
+  async findByHostAndTimeForUpdate(
+    tx: TransactionClient,
+    hostId: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<Slot | null> {
+    const result = await tx.$queryRaw<Slot[]>`
+      SELECT * FROM "Slot"
+      WHERE "hostId" = ${hostId}
+        AND "startTime" = ${startTime}
+        AND "endTime" = ${endTime}
+        AND status <> 'CANCELLED'
+      FOR UPDATE
+    `;
+    return result[0] ?? null;
+  }
+
   /**
    * Create a new slot
    */
-  async create(data: {
-    hostId: string;
-    startTime: Date;
-    endTime: Date;
-    status?: SlotStatus;
-  }): Promise<Slot> {
-    return prisma.slot.create({
+  async create(
+    data: Partial<SlotDetails> & {
+      hostId: string;
+      startTime: Date;
+      endTime: Date;
+      status?: SlotStatus;
+      capacity?: number;
+      seriesId?: string;
+    },
+    tx?: TransactionClient
+  ): Promise<Slot> {
+    const client = tx ?? prisma;
+    return client.slot.create({
       data: {
         hostId: data.hostId,
         startTime: data.startTime,
         endTime: data.endTime,
         status: data.status ?? SlotStatus.AVAILABLE,
+        capacity: data.capacity,
+        seriesId: data.seriesId,
+        title: data.title,
+        description: data.description,
+        locationType: data.locationType,
+        location: data.location,
+        meetingUrl: data.meetingUrl,
       },
     });
   }
@@ -73,64 +107,327 @@ export class SlotRepository {
     const client = tx ?? prisma;
     return client.slot.update({
       where: { id },
-      data: { status },
+      data: { status, icalSequence: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Hold an available slot for a guest until the given time
+   */
+  async hold(
+    id: string,
+    userId: string,
+    expiresAt: Date,
+    tx?: TransactionClient
+  ): Promise<Slot> {
+    const client = tx ?? prisma;
+    return client.slot.update({
+      where: { id },
+      data: { status: SlotStatus.HELD, heldById: userId, holdExpiresAt: expiresAt },
+    });
+  }
+
+  /**
+   * Release the hold of a slot, making it AVAILABLE again
+   * Holds are not shown in calendars, so the iCalendar sequence is kept.
+   */
+  async releaseHold(id: string, tx?: TransactionClient): Promise<Slot> {
+    const client = tx ?? prisma;
+    return client.slot.update({
+      where: { id },
+      data: { status: SlotStatus.AVAILABLE, heldById: null, holdExpiresAt: null },
+    });
+  }
+
+  /**
+   * Find a slot a guest holds that has not expired yet
+   */
+  async findActiveHoldByUser(userId: string, tx?: TransactionClient): Promise<Slot | null> {
+    const client = tx ?? prisma;
+    return client.slot.findFirst({
+      where: {
+        heldById: userId,
+        status: SlotStatus.HELD,
+        holdExpiresAt: { gt: new Date() },
+      },
+    });
+  }
+
+  /**
+   * Move a slot to a new time range
+   */
+  async updateTimes(
+    id: string,
+    startTime: Date,
+    endTime: Date,
+    tx?: TransactionClient
+  ): Promise<Slot> {
+    const client = tx ?? prisma;
+    return client.slot.update({
+      where: { id },
+      data: { startTime, endTime, icalSequence: { increment: 1 } },
     });
   }
 
   /**
    * Delete a slot
    */
-  async delete(id: string): Promise<void> {
-    await prisma.slot.delete({
+  async delete(id: string, tx?: TransactionClient): Promise<void> {
+    const client = tx ?? prisma;
+    await client.slot.delete({
       where: { id },
     });
   }
 
+  /**
+   * Delete multiple slots
+   */
+  async deleteMany(ids: string[], tx?: TransactionClient): Promise<number> {
+    const client = tx ?? prisma;
+    const result = await client.slot.deleteMany({
+      where: { id: { in: ids } },
+    });
+    return result.count;
+  }
+
+  /**
+   * Find non-cancelled slots of a series, optionally starting at or after a given time
+   */
+  async findBySeries(
+    seriesId: string,
+    from?: Date
+  ): Promise<Array<Slot & { host: { id: string; name: string } }>> {
+    return prisma.slot.findMany({
+      where: {
+        seriesId,
+        status: { not: SlotStatus.CANCELLED },
+        ...(from && { startTime: { gte: from } }),
+      },
+      include: {
+        host: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+  }
+
+  /**
+   * Find non-cancelled slots of a series starting at or after a given time, with
+   * pessimistic locks (FOR UPDATE) and their number of taken seats
+   * Must be called within a transaction; locked slots cannot be booked or held
+   * until it ends.
+   */
+  async findBySeriesForUpdate(
+    tx: TransactionClient,
+    seriesId: string,
+    from: Date
+  ): Promise<Array<Slot & { host: { id: string; name: string }; _count: { bookings: number } }>> {
+    await tx.$queryRaw`
+      SELECT id FROM "Slot"
+      WHERE "seriesId" = ${seriesId}
+        AND "startTime" >= ${from}
+        AND status <> 'CANCELLED'
+      FOR UPDATE
+    `;
+
+    return tx.slot.findMany({
+      where: {
+        seriesId,
+        status: { not: SlotStatus.CANCELLED },
+        startTime: { gte: from },
+      },
+      include: {
+        host: {
+          select: { id: true, name: true },
+        },
+        // Confirmed bookings and pending requests
+        _count: {
+          select: { bookings: { where: { status: { in: ['PENDING', 'CONFIRMED'] } } } },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+  }
+
+  /**
+   * Find non-cancelled slots of the given hosts that overlap a time range
+   * Used to subtract existing slots from generated availability windows
+   */
+  async findActiveInRange(
+    hostIds: string[],
+    startTime: Date,
+    endTime: Date
+  ): Promise<Array<Pick<Slot, 'hostId' | 'startTime' | 'endTime'>>> {
+    return prisma.slot.findMany({
+      where: {
+        hostId: { in: hostIds },
+        status: { not: SlotStatus.CANCELLED },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      select: { hostId: true, startTime: true, endTime: true },
+    });
+  }
+
+  /**
+   * Find non-cancelled slots of the given hosts with confirmed bookings (or pending
+   * requests) that overlap a time range
+   * Used to keep the hosts' buffers around booked slots free
+   */
+  async findBookedInRange(
+    hostIds: string[],
+    startTime: Date,
+    endTime: Date,
+    tx?: TransactionClient
+  ): Promise<Array<Pick<Slot, 'id' | 'hostId' | 'startTime' | 'endTime'>>> {
+    const client = tx ?? prisma;
+    return client.slot.findMany({
+      where: {
+        hostId: { in: hostIds },
+        status: { not: SlotStatus.CANCELLED },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+        bookings: { some: { status: { in: ['PENDING', 'CONFIRMED'] } } },
+      },
+      select: { id: true, hostId: true, startTime: true, endTime: true },
+    });
+  }
+
+  /**
+   * SQL condition on "Slot" rows matching slots within the buffers of another
+   * booked slot of their host, as set in the host policy
+   * A host's slots never overlap, so a slot is within the buffers exactly when its
+   * gap to the booked slot is shorter than the larger buffer.
+   */
+  withinBookedBuffersCondition(): Prisma.Sql {
+    const margin = Prisma.sql`make_interval(mins => GREATEST(policy."bufferBeforeMinutes", policy."bufferAfterMinutes"))`;
+
+    return Prisma.sql`EXISTS (
+      SELECT 1
+      FROM "HostPolicy" policy
+      JOIN "Slot" booked ON booked."hostId" = policy."hostId"
+      WHERE policy."hostId" = "Slot"."hostId"
+        AND booked.id <> "Slot".id
+        AND booked.status <> 'CANCELLED'
+        AND booked."startTime" < "Slot"."endTime" + ${margin}
+        AND booked."endTime" > "Slot"."startTime" - ${margin}
+        AND EXISTS (
+          SELECT 1 FROM "Booking"
+          WHERE "Booking"."slotId" = booked.id AND "Booking".status IN ('PENDING', 'CONFIRMED')
+        )
+    )`;
+  }
+
   /**
    * Find available slots with filters
+   * `exclude` lists conditions of slots to leave out (e.g. ones that cannot be booked).
+   * Prisma cannot compare two columns, so the page is selected in SQL, where the
+   * duration is computed, and then loaded with its host and taken seats.
    */
-  async findAvailable(filters: SlotFilters & { page?: number; limit?: number }): Promise<{
-    slots: Array<Slot & { host: { id: string; name: string } }>;
+  async findAvailable(filters: SlotFilters & {
+    page?: number;
+    limit?: number;
+    exclude?: Prisma.Sql[];
+  }): Promise<{
+    slots: Array<Slot & { host: { id: string; name: string }; _count: { bookings: number } }>;
     total: number;
   }> {
-    const { hostId, startDate, endDate, status, page = 1, limit = 20 } = filters;
+    const {
+      hostId,
+      startDate,
+      endDate,
+      status,
+      locationType,
+      minDuration,
+      maxDuration,
+      exclude = [],
+      page = 1,
+      limit = 20,
+    } = filters;
     const skip = (page - 1) * limit;
+    const minutes = Prisma.sql`EXTRACT(EPOCH FROM ("endTime" - "startTime")) / 60`;
+    const conditions = [
+      ...(status ? [Prisma.sql`status = ${status}::"SlotStatus"`] : []),
+      ...(startDate ? [Prisma.sql`"startTime" >= ${startDate}`] : []),
+      ...(endDate ? [Prisma.sql`"startTime" <= ${endDate}`] : []),
+      ...(hostId ? [Prisma.sql`"hostId" = ${hostId}`] : []),
+      ...(locationType ? [Prisma.sql`"locationType" = ${locationType}::"LocationType"`] : []),
+      ...(minDuration !== undefined ? [Prisma.sql`${minutes} >= ${minDuration}`] : []),
+      // Whole minutes are rounded down, so 30.5 minutes still matches a maximum of 30
+      ...(maxDuration !== undefined ? [Prisma.sql`${minutes} < ${maxDuration + 1}`] : []),
+      ...exclude.map((condition) => Prisma.sql`NOT (${condition})`),
+    ];
+    const where = conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
 
-    const where: Prisma.SlotWhereInput = {
-      ...(status && { status }),
-      startTime: {
-        ...(startDate && { gte: startDate }),
-        ...(endDate && { lte: endDate }),
-      },
-      ...(hostId && { hostId }),
-    };
+    const [rows, [{ total }]] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string }>>`
+        SELECT id FROM "Slot" ${where}
+        ORDER BY "startTime" ASC, id ASC
+        LIMIT ${limit} OFFSET ${skip}
+      `,
+      prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total FROM "Slot" ${where}
+      `,
+    ]);
 
-    const [slots, total] = await Promise.all([
-      prisma.slot.findMany({
-        where,
-        include: {
-          host: {
-            select: { id: true, name: true },
-          },
+    const slots = await prisma.slot.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: {
+        host: {
+          select: { id: true, name: true },
         },
-        orderBy: { startTime: 'asc' },
-        skip,
-        take: limit,
-      }),
-      prisma.slot.count({ where }),
-    ]);
+        // Confirmed bookings and pending requests, to report taken seats of group slots
+        _count: {
+          select: { bookings: { where: { status: { in: ['PENDING', 'CONFIRMED'] } } } },
+        },
+      },
+      orderBy: [{ startTime: 'asc' }, { id: 'asc' }],
+    });
 
     return { slots, total };
   }
 
   /**
-   * Find all slots for a host (including non-available)
+   * Find a host's slots (any status) that end after a given time, with their
+   * confirmed guests, for calendar feeds
+   */
+  async findForCalendar(
+    hostId: string,
+    endsAfter: Date
+  ): Promise<Array<Slot & { bookings: Array<{ user: { name: string } }> }>> {
+    return prisma.slot.findMany({
+      where: { hostId, endTime: { gt: endsAfter } },
+      include: {
+        bookings: {
+          select: { user: { select: { name: true } } },
+          where: { status: 'CONFIRMED' },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+  }
+
+  /**
+   * Find all slots for a host (including non-available), with their confirmed
+   * bookings and pending booking requests
    */
   async findByHost(
     hostId: string,
     filters: { status?: SlotStatus; page?: number; limit?: number }
   ): Promise<{
-    slots: Array<Slot & { bookings: Array<{ id: string; userId: string; status: string }> }>;
+    slots: Array<Slot & {
+      bookings: Array<{
+        id: string;
+        userId: string;
+        status: BookingStatus;
+        approvalExpiresAt: Date | null;
+        user: { name: string };
+      }>;
+    }>;
     total: number;
   }> {
     const { status, page = 1, limit = 20 } = filters;
@@ -146,8 +443,15 @@ export class SlotRepository {
         where,
         include: {
           bookings: {
-            select: { id: true, userId: true, status: true },
-            where: { status: 'CONFIRMED' },
+            select: {
+              id: true,
+              userId: true,
+              status: true,
+              approvalExpiresAt: true,
+              user: { select: { name: true } },
+            },
+            where: { status: { in: ['PENDING', 'CONFIRMED'] } },
+            orderBy: { createdAt: 'asc' },
           },
         },
         orderBy: { startTime: 'asc' },
@@ -161,18 +465,21 @@ export class SlotRepository {
   }
 
   /**
-   * Check if a slot overlaps with existing slots for a host
-   * This is a fallback check in addition to the database constraint
+   * Check if a slot overlaps with existing slots or busy blocks for a host
+   * This is a fallback check in addition to the database constraint (which
+   * only covers slots). Pass `excludeSlotId` when moving an existing slot.
    */
   async hasOverlap(
     hostId: string,
     startTime: Date,
     endTime: Date,
+    excludeSlotId?: string,
   ): Promise<boolean> {
     const overlapping = await prisma.slot.findFirst({
       where: {
         hostId,
         status: { not: SlotStatus.CANCELLED },
+        ...(excludeSlotId && { id: { not: excludeSlotId } }),
         OR: [
           {
             // New slot starts during existing slot
@@ -193,7 +500,21 @@ export class SlotRepository {
       },
     });
 
-    return overlapping !== null;
+    if (overlapping) {
+      return true;
+    }
+
+    // Time the host imported as busy from another calendar
+    const busy = await prisma.busyBlock.findFirst({
+      where: {
+        hostId,
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      select: { id: true },
+    });
+
+    return busy !== null;
   }
 }
 
@@ -0,0 +1,65 @@
+import { Prisma, RecurrenceFrequency, SlotSeries } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export class SlotSeriesRepository {
+  /**
+   * Find a series by ID
+   */
+  async findById(id: string): Promise<SlotSeries | null> {
+    return prisma.slotSeries.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Create a new series
+   */
+  async create(
+    data: {
+      hostId: string;
+      frequency: RecurrenceFrequency;
+      interval: number;
+      byWeekday: number[];
+      startTime: Date;
+      endTime: Date;
+      count: number | null;
+      until: Date | null;
+      exceptionDates: Date[];
+    },
+    tx?: TransactionClient
+  ): Promise<SlotSeries> {
+    const client = tx ?? prisma;
+    return client.slotSeries.create({ data });
+  }
+
+  /**
+   * Update a series' recurrence rule
+   */
+  async update(
+    id: string,
+    data: Prisma.SlotSeriesUpdateInput,
+    tx?: TransactionClient
+  ): Promise<SlotSeries> {
+    const client = tx ?? prisma;
+    return client.slotSeries.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Delete a series
+   * Materialized slots are kept and detached (seriesId set to NULL)
+   */
+  async delete(id: string, tx?: TransactionClient): Promise<void> {
+    const client = tx ?? prisma;
+    await client.slotSeries.delete({
+      where: { id },
+    });
+  }
+}
+
+export const slotSeriesRepository = new SlotSeriesRepository();
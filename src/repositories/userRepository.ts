@@ -22,8 +22,9 @@ export class UserRepository {
     return { users, total };
   }
 
-  async findById(id: string): Promise<User | null> {
-    return prisma.user.findUnique({
+  async findById(id: string, tx?: Prisma.TransactionClient): Promise<User | null> {
+    const client = tx ?? prisma;
+    return client.user.findUnique({
       where: { id },
     });
   }
@@ -34,16 +35,26 @@ export class UserRepository {
     });
   }
 
+  async findByCalendarFeedTokenHash(tokenHash: string): Promise<User | null> {
+    return prisma.user.findUnique({
+      where: { calendarFeedTokenHash: tokenHash },
+    });
+  }
+
   async create(data: {
     email: string;
     name: string;
     roles?: UserRole[];
+    timeZone?: string;
+    passwordHash?: string;
   }): Promise<User> {
     return prisma.user.create({
       data: {
         email: data.email,
         name: data.name,
         roles: data.roles ?? [UserRole.GUEST],
+        timeZone: data.timeZone,
+        passwordHash: data.passwordHash,
       },
     });
   }
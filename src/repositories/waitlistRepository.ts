@@ -0,0 +1,94 @@
+import { Prisma, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export class WaitlistRepository {
+  /**
+   * Find a user's WAITING entry for a slot
+   */
+  async findWaitingEntry(
+    slotId: string,
+    userId: string,
+    tx?: TransactionClient
+  ): Promise<WaitlistEntry | null> {
+    const client = tx ?? prisma;
+    return client.waitlistEntry.findFirst({
+      where: { slotId, userId, status: WaitlistStatus.WAITING },
+    });
+  }
+
+  /**
+   * Find the WAITING entries of a slot in FIFO order
+   */
+  async findWaitingBySlot(
+    slotId: string,
+    tx?: TransactionClient
+  ): Promise<WaitlistEntry[]> {
+    const client = tx ?? prisma;
+    return client.waitlistEntry.findMany({
+      where: { slotId, status: WaitlistStatus.WAITING },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Count WAITING entries of a slot created before a given entry (its position - 1)
+   */
+  async countWaitingBefore(
+    slotId: string,
+    createdAt: Date,
+    tx?: TransactionClient
+  ): Promise<number> {
+    const client = tx ?? prisma;
+    return client.waitlistEntry.count({
+      where: {
+        slotId,
+        status: WaitlistStatus.WAITING,
+        createdAt: { lt: createdAt },
+      },
+    });
+  }
+
+  /**
+   * Add a user to a slot's waitlist
+   */
+  async create(
+    data: { slotId: string; userId: string },
+    tx?: TransactionClient
+  ): Promise<WaitlistEntry> {
+    const client = tx ?? prisma;
+    return client.waitlistEntry.create({ data });
+  }
+
+  /**
+   * Update an entry's status (and the booking it was promoted to)
+   */
+  async updateStatus(
+    id: string,
+    status: WaitlistStatus,
+    bookingId?: string,
+    tx?: TransactionClient
+  ): Promise<WaitlistEntry> {
+    const client = tx ?? prisma;
+    return client.waitlistEntry.update({
+      where: { id },
+      data: { status, ...(bookingId && { bookingId }) },
+    });
+  }
+
+  /**
+   * Remove everyone still waiting for a slot (e.g. when the slot is cancelled)
+   */
+  async removeWaitingBySlot(slotId: string, tx?: TransactionClient): Promise<number> {
+    const client = tx ?? prisma;
+    const result = await client.waitlistEntry.updateMany({
+      where: { slotId, status: WaitlistStatus.WAITING },
+      data: { status: WaitlistStatus.REMOVED },
+    });
+    return result.count;
+  }
+}
+
+export const waitlistRepository = new WaitlistRepository();
@@ -0,0 +1,107 @@
+import { Prisma, WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export type WebhookDeliveryWithSubscription = WebhookDelivery & {
+  subscription: WebhookSubscription;
+};
+
+export class WebhookDeliveryRepository {
+  /**
+   * Record a pending delivery of an event to a subscription
+   */
+  async create(
+    data: { subscriptionId: string; eventType: string; payload: Prisma.InputJsonValue },
+    tx?: TransactionClient
+  ): Promise<WebhookDelivery> {
+    const client = tx ?? prisma;
+    return client.webhookDelivery.create({ data });
+  }
+
+  /**
+   * Whether a delivery of the event (by envelope ID) to the subscription was recorded
+   */
+  async existsForEvent(subscriptionId: string, eventId: string): Promise<boolean> {
+    const count = await prisma.webhookDelivery.count({
+      where: { subscriptionId, payload: { path: ['id'], equals: eventId } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Find a delivery by ID
+   */
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    return prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find a delivery by ID with the subscription it goes to
+   */
+  async findByIdWithSubscription(id: string): Promise<WebhookDeliveryWithSubscription | null> {
+    return prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { subscription: true },
+    });
+  }
+
+  /**
+   * List the deliveries of a subscription, newest first
+   */
+  async findBySubscription(
+    subscriptionId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const { page, limit } = options;
+    const where: Prisma.WebhookDeliveryWhereInput = { subscriptionId };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { deliveries, total };
+  }
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(
+    id: string,
+    data: {
+      status: WebhookDeliveryStatus;
+      responseStatus: number | null;
+      lastError: string | null;
+    }
+  ): Promise<WebhookDelivery> {
+    return prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        ...data,
+        attempts: { increment: 1 },
+        ...(data.status === WebhookDeliveryStatus.SUCCEEDED && { deliveredAt: new Date() }),
+      },
+    });
+  }
+
+  /**
+   * Mark a delivery as pending again so it can be replayed
+   */
+  async markPending(id: string): Promise<WebhookDelivery> {
+    return prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: WebhookDeliveryStatus.PENDING },
+    });
+  }
+}
+
+export const webhookDeliveryRepository = new WebhookDeliveryRepository();
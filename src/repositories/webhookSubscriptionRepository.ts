@@ -0,0 +1,56 @@
+import { Prisma, WebhookSubscription } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+// Type for transaction client
+type TransactionClient = Prisma.TransactionClient;
+
+export class WebhookSubscriptionRepository {
+  /**
+   * Create a subscription
+   */
+  async create(
+    data: { url: string; secret: string; eventTypes: string[] },
+    tx?: TransactionClient
+  ): Promise<WebhookSubscription> {
+    const client = tx ?? prisma;
+    return client.webhookSubscription.create({ data });
+  }
+
+  /**
+   * Find a subscription by ID
+   */
+  async findById(id: string): Promise<WebhookSubscription | null> {
+    return prisma.webhookSubscription.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * List all subscriptions, newest first
+   */
+  async findAll(): Promise<WebhookSubscription[]> {
+    return prisma.webhookSubscription.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Find the subscriptions to an event type
+   */
+  async findByEventType(eventType: string): Promise<WebhookSubscription[]> {
+    return prisma.webhookSubscription.findMany({
+      where: { eventTypes: { has: eventType } },
+    });
+  }
+
+  /**
+   * Delete a subscription and its delivery log
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.webhookSubscription.delete({
+      where: { id },
+    });
+  }
+}
+
+export const webhookSubscriptionRepository = new WebhookSubscriptionRepository();
@@ -1,8 +1,13 @@
 import { Router } from 'express';
+import { UserRole } from '@prisma/client';
 import { analyticsController } from '../controllers';
+import { requireRole } from '../middlewares';
 
 const router = Router();
 
+// Analytics are restricted to admins
+router.use(requireRole(UserRole.ADMIN));
+
 /**
  * @swagger
  * /admin/analytics:
@@ -19,7 +24,10 @@ const router = Router();
  *       - Daily booking counts
  *       - Top 5 busiest hosts
  *       
- *       **Note:** In production, this endpoint would require admin authentication.
+ *       **Requires the ADMIN role.**
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
  *     parameters:
  *       - in: query
  *         name: start_date
@@ -37,6 +45,7 @@ const router = Router();
  *           format: date
  *         description: End date for the analytics period
  *         example: "2026-01-31"
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: Analytics data
@@ -67,6 +76,18 @@ const router = Router();
  *                   - hostId: "550e8400-e29b-41d4-a716-446655440001"
  *                     hostName: "Bob Host"
  *                     bookingCount: 32
+ *       401:
+ *         description: Not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       400:
  *         description: Missing or invalid date parameters
  *         content:
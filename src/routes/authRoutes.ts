@@ -0,0 +1,230 @@
+import { Router } from 'express';
+import { authController } from '../controllers';
+import { userContextMiddleware } from '../middlewares';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /auth/login:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sign in with email and password
+ *     description: |
+ *       Returns a short-lived access token and a refresh token. Send the access token as
+ *       `Authorization: Bearer <accessToken>` on authenticated requests.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoginRequest'
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Invalid email or password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/login', (req, res, next) => {
+  authController.login(req, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /auth/magic-link:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Request a magic sign-in link
+ *     description: |
+ *       Sends a single-use sign-in link to the email address if it belongs to an account.
+ *       The response is the same either way, so it does not reveal which emails exist.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       202:
+ *         description: Link sent if the account exists
+ */
+router.post('/magic-link', (req, res, next) => {
+  authController.requestMagicLink(req, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /auth/magic-link/verify:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sign in with a magic link token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the sign-in link
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Link is invalid, expired, or already used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/magic-link/verify', (req, res, next) => {
+  authController.verifyMagicLink(req, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /auth/magic-link/verify:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Sign in by opening a magic link
+ *     description: The link emailed by `POST /auth/magic-link` points here with its token.
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token from the sign-in link
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Link is invalid, expired, or already used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/magic-link/verify', (req, res, next) => {
+  authController.verifyMagicLink(req, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Refresh the access token
+ *     description: |
+ *       Exchanges a refresh token for a new access and refresh token. Refresh tokens are
+ *       single-use; reusing an old one revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New token pair
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Refresh token is invalid, reused, or its session was revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/refresh', (req, res, next) => {
+  authController.refresh(req, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sign out
+ *     description: |
+ *       Revokes the session of the bearer token, invalidating its access and refresh tokens
+ *       immediately. Set `allSessions` to sign out on every device.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               allSessions:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Signed out
+ *       401:
+ *         description: Not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/logout', userContextMiddleware, (req, res, next) => {
+  authController.logout(req as any, res).catch(next);
+});
+
+export default router;
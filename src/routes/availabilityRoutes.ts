@@ -0,0 +1,314 @@
+import express, { Router } from 'express';
+import { availabilityController } from '../controllers';
+import { userContextMiddleware } from '../middlewares';
+import { CALENDAR_IMPORT_MAX_BYTES } from '../utils/constants';
+
+const router = Router();
+
+// All availability routes require authentication
+router.use(userContextMiddleware);
+
+/**
+ * @swagger
+ * /availability:
+ *   post:
+ *     tags: [Availability]
+ *     summary: Declare weekly working hours (Host only)
+ *     description: |
+ *       Create one availability rule per weekday. Rules do not create Slot rows; instead
+ *       they generate open windows of `slotDurationMinutes` that appear in `GET /slots`
+ *       (with `id: null`) for the next 14 days.
+ *       
+ *       A window becomes a real slot only when it is booked via `POST /bookings` with
+ *       `hostId`, `startTime` and `endTime`.
+ *       
+ *       Times of day are `HH:MM` and weekdays (0 = Sunday ... 6 = Saturday) are interpreted
+ *       in the host's profile time zone, so windows keep their local time across DST changes.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateAvailabilityRulesRequest'
+ *           example:
+ *             weekdays: [1, 2, 3, 4, 5]
+ *             startTime: "09:00"
+ *             endTime: "17:00"
+ *             slotDurationMinutes: 30
+ *     responses:
+ *       201:
+ *         description: Availability rules created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AvailabilityRule'
+ *       400:
+ *         description: Invalid working hours
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Working hours overlap an existing rule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', (req, res, next) => {
+  availabilityController.createRules(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /availability:
+ *   get:
+ *     tags: [Availability]
+ *     summary: List availability rules
+ *     description: List the weekly availability rules of a host. Defaults to the current user.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: query
+ *         name: hostId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Host whose rules to list
+ *     responses:
+ *       200:
+ *         description: List of availability rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AvailabilityRule'
+ */
+router.get('/', (req, res, next) => {
+  availabilityController.getRules(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /availability/import:
+ *   post:
+ *     tags: [Availability, Calendar]
+ *     summary: Import an iCalendar file (Host only)
+ *     description: |
+ *       Import events from an `.ics` file, either uploaded (JSON `ics` field, or the raw file
+ *       with `Content-Type: text/calendar` and the options as query parameters) or downloaded
+ *       from an http(s) `url`. Events from now up to 90 days ahead are imported; recurring
+ *       events (DAILY, WEEKLY or MONTHLY RRULEs, with EXDATE and overridden occurrences) are
+ *       expanded into their occurrences.
+ *       
+ *       **Modes:**
+ *       - `BUSY` (default): busy events become busy blocks. Slot creation, series and
+ *         availability windows treat them like existing slots. Re-importing a calendar skips
+ *         occurrences imported before (`DUPLICATE`).
+ *       - `SLOTS`: free events (`TRANSP:TRANSPARENT`) become available slots; occurrences that
+ *         overlap existing slots, busy blocks or each other are skipped (`OVERLAP`).
+ *       
+ *       With `dryRun`, nothing is written and the response previews the result (`id` is null).
+ *       Recurring events with other RRULEs are reported as `UNSUPPORTED_RECURRENCE`.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [BUSY, SLOTS]
+ *         description: Import mode (raw uploads only)
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Preview without importing (raw uploads only)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ImportCalendarRequest'
+ *         text/calendar:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Dry run preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarImport'
+ *       201:
+ *         description: Calendar imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarImport'
+ *       400:
+ *         description: Invalid iCalendar file, or the URL could not be downloaded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/import',
+  express.text({ type: 'text/calendar', limit: CALENDAR_IMPORT_MAX_BYTES }),
+  (req, res, next) => {
+    availabilityController.importCalendar(req as any, res).catch(next);
+  }
+);
+
+/**
+ * @swagger
+ * /availability/busy-blocks:
+ *   get:
+ *     tags: [Availability]
+ *     summary: List busy blocks
+ *     description: Current and upcoming busy time of the current user, imported from other calendars.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     responses:
+ *       200:
+ *         description: List of busy blocks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BusyBlock'
+ */
+router.get('/busy-blocks', (req, res, next) => {
+  availabilityController.getBusyBlocks(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /availability/busy-blocks/{id}:
+ *   delete:
+ *     tags: [Availability]
+ *     summary: Delete a busy block (owner only)
+ *     description: Free the time of an imported busy block again.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Busy block ID
+ *     responses:
+ *       200:
+ *         description: Busy block deleted
+ *       403:
+ *         description: Not the busy block owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Busy block not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/busy-blocks/:id', (req, res, next) => {
+  availabilityController.deleteBusyBlock(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /availability/{id}:
+ *   delete:
+ *     tags: [Availability]
+ *     summary: Delete an availability rule (owner only)
+ *     description: Stop generating windows from a rule. Slots already booked from it are kept.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Availability rule ID
+ *     responses:
+ *       200:
+ *         description: Rule deleted
+ *       403:
+ *         description: Not the rule owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id', (req, res, next) => {
+  availabilityController.deleteRule(req as any, res).catch(next);
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
-import { bookingController } from '../controllers';
-import { userContextMiddleware, bookingRateLimiter } from '../middlewares';
+import { UserRole } from '@prisma/client';
+import { bookingController, calendarController } from '../controllers';
+import { userContextMiddleware, bookingRateLimiter, idempotency, requireRole } from '../middlewares';
 
 const router = Router();
 
@@ -22,11 +23,31 @@ router.use(userContextMiddleware);
  *       - Maximum 5 active (upcoming) bookings per user
  *       - Slot must be available and in the future
  *       
+ *       **Open windows:**
+ *       Instead of `slotId`, pass `hostId`, `startTime` and `endTime` of an open window
+ *       generated from the host's availability rules. The slot is created and booked in
+ *       a single transaction.
+ *       
  *       **Concurrency Handling:**
  *       Uses pessimistic locking (SELECT FOR UPDATE) to prevent double-booking.
  *       If another user books the slot first, you'll receive a 409 Conflict error.
+ *       
+ *       **Async Mode:**
+ *       When queue mode is enabled (`USE_BOOKING_QUEUE=true`), send `Prefer: respond-async`
+ *       to get `202 Accepted` with the queued job instead of waiting for it. Poll
+ *       `GET /bookings/jobs/{jobId}` (also in the `Location` header) for the outcome.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *       - in: header
+ *         name: Prefer
+ *         schema:
+ *           type: string
+ *           example: respond-async
+ *         description: Set to `respond-async` to queue the booking and poll for the result (queue mode only)
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -46,6 +67,23 @@ router.use(userContextMiddleware);
  *                   example: true
  *                 data:
  *                   $ref: '#/components/schemas/Booking'
+ *       202:
+ *         description: Booking queued (async mode); poll the job for the result
+ *         headers:
+ *           Location:
+ *             schema:
+ *               type: string
+ *             description: URL of the booking job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BookingJob'
  *       400:
  *         description: |
  *           Bad request:
@@ -85,8 +123,14 @@ router.use(userContextMiddleware);
  *                   error:
  *                     code: CONFLICT
  *                     message: You have reached the maximum of 5 active bookings
+ *       422:
+ *         description: Idempotency-Key was already used for a different request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/', bookingRateLimiter, (req, res, next) => {
+router.post('/', idempotency, bookingRateLimiter, (req, res, next) => {
   bookingController.createBooking(req as any, res).catch(next);
 });
 
@@ -98,13 +142,14 @@ router.post('/', bookingRateLimiter, (req, res, next) => {
  *     summary: List user's bookings
  *     description: Get all bookings for the authenticated user with optional filters.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: query
  *         name: status
  *         schema:
  *           type: string
- *           enum: [CONFIRMED, CANCELLED]
+ *           enum: [PENDING, CONFIRMED, CANCELLED]
  *         description: Filter by booking status
  *       - in: query
  *         name: startDate
@@ -130,6 +175,7 @@ router.post('/', bookingRateLimiter, (req, res, next) => {
  *           type: integer
  *           default: 20
  *         description: Items per page
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: List of user's bookings
@@ -159,14 +205,61 @@ router.get('/', (req, res, next) => {
   bookingController.getUserBookings(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /bookings/jobs/{jobId}:
+ *   get:
+ *     tags: [Bookings]
+ *     summary: Get an async booking job
+ *     description: |
+ *       Poll a booking queued with `Prefer: respond-async`. The status is `pending`,
+ *       `processing`, `succeeded` or `failed`; finished jobs include the booking result
+ *       and are kept for `BOOKING_JOB_TTL_SECONDS` (default 1 hour).
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking job ID
+ *     responses:
+ *       200:
+ *         description: Booking job status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BookingJob'
+ *       404:
+ *         description: Job not found, expired, or queued by another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/jobs/:jobId', (req, res, next) => {
+  bookingController.getBookingJob(req as any, res).catch(next);
+});
+
 /**
  * @swagger
  * /bookings/{id}:
  *   get:
  *     tags: [Bookings]
  *     summary: Get booking by ID
- *     description: Retrieve detailed information about a specific booking. Users can only view their own bookings.
+ *     description: |
+ *       Retrieve detailed information about a specific booking, including the answers to the
+ *       intake questions. Only the guest and the host of the slot can view a booking.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: path
@@ -176,6 +269,7 @@ router.get('/', (req, res, next) => {
  *           type: string
  *           format: uuid
  *         description: Booking ID
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: Booking details
@@ -206,6 +300,104 @@ router.get('/:id', (req, res, next) => {
   bookingController.getBookingById(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /bookings/{id}/notifications:
+ *   get:
+ *     tags: [Bookings]
+ *     summary: List notifications sent about a booking (Admin only)
+ *     description: |
+ *       Notification log of a booking, oldest first, so support can see what the guest was told.
+ *       Entries are `SENT`, `SKIPPED` (the guest opted out of the type) or `FAILED`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Notification log
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/NotificationLog'
+ *       403:
+ *         description: User is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/notifications', requireRole(UserRole.ADMIN), (req, res, next) => {
+  bookingController.getBookingNotifications(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/ics:
+ *   get:
+ *     tags: [Bookings, Calendar]
+ *     summary: Download a booking as an iCalendar invite
+ *     description: |
+ *       Returns the booking as a `.ics` file that the guest or the host can import into any
+ *       calendar app.
+ *       
+ *       The event keeps the same `UID` for the lifetime of the booking and its `SEQUENCE`
+ *       increases on every change. After the booking is cancelled, the file is a
+ *       `METHOD:CANCEL` with `STATUS:CANCELLED`, which removes the previously imported event.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID
+ *     responses:
+ *       200:
+ *         description: iCalendar invite
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: User is neither the guest nor the host of the booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/ics', (req, res, next) => {
+  calendarController.getBookingInvite(req as any, res).catch(next);
+});
+
 /**
  * @swagger
  * /bookings/{id}:
@@ -220,6 +412,7 @@ router.get('/:id', (req, res, next) => {
  *       - Cancellation must be at least **1 hour before** the slot start time
  *       - Already cancelled bookings cannot be cancelled again
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: path
@@ -229,6 +422,7 @@ router.get('/:id', (req, res, next) => {
  *           type: string
  *           format: uuid
  *         description: Booking ID to cancel
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: Booking cancelled successfully
@@ -276,4 +470,336 @@ router.delete('/:id', (req, res, next) => {
   bookingController.cancelBooking(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /bookings/{id}/approve:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Approve a booking request (Host only)
+ *     description: |
+ *       Confirm a `PENDING` booking for one of your slots. Requests are only created for
+ *       hosts whose policy sets `requiresApproval`. The guest is notified as for any new booking.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Booking confirmed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Booking'
+ *       403:
+ *         description: The booking is not for one of your slots
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Booking is not pending, or the request has expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/approve', (req, res, next) => {
+  bookingController.approveBooking(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/decline:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Decline a booking request (Host only)
+ *     description: |
+ *       Decline a `PENDING` booking for one of your slots. The booking is cancelled by
+ *       `HOST`, the guest is notified and the seat is offered to the waitlist.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Shared with the guest
+ *     responses:
+ *       200:
+ *         description: Booking request declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Invalid reason
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: The booking is not for one of your slots
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Booking is not pending, or the request has expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/decline', (req, res, next) => {
+  bookingController.declineBooking(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/reschedule:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Reschedule a booking to another slot
+ *     description: |
+ *       Move a booking to another slot in one transaction. The original booking is cancelled
+ *       and a new booking is created for the target slot, with `rescheduledFromId` pointing to
+ *       the original. If the target slot cannot be booked, the original booking is kept.
+ *       
+ *       **Rules:**
+ *       - Only the user who made the booking can reschedule it
+ *       - The original slot must start at least **1 hour** from now (cancellation window)
+ *       - The target slot must be bookable; the booking being replaced does not count
+ *         towards the active booking limits
+ *       - The target slot's host must not require approval (`requiresApproval`)
+ *       - The original answers are carried over unless `answers` are given; either must
+ *         satisfy the target slot's intake questions
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID to reschedule
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RescheduleBookingRequest'
+ *     responses:
+ *       201:
+ *         description: Booking rescheduled; returns the new booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Within the cancellation window, same slot, target slot in the past or your own, or invalid answers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Cannot reschedule another user's booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking or target slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Booking not confirmed, target slot unavailable or needing approval, or booking limits reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/reschedule', bookingRateLimiter, (req, res, next) => {
+  bookingController.rescheduleBooking(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/slot-change/accept:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Accept a new time proposed by the host
+ *     description: |
+ *       Accept the new time the host proposed for the slot of this booking. The slot moves
+ *       once every guest still booked on it has accepted; until then the change stays
+ *       PENDING. If the new time has passed or was taken meanwhile, the change is
+ *       WITHDRAWN and the booking keeps its current time.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Acceptance recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotChange'
+ *       403:
+ *         description: Cannot respond for another user's booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found, or no change pending for its slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Booking is not confirmed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/slot-change/accept', (req, res, next) => {
+  bookingController.acceptSlotChange(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/slot-change/decline:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Decline a new time proposed by the host
+ *     description: |
+ *       Decline the new time the host proposed for the slot of this booking, cancelling
+ *       the booking. The usual cancellation rules apply (at least **1 hour** before the
+ *       slot starts). If every remaining guest accepted, the slot moves.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Booking ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Booking cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Within the cancellation window
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Cannot respond for another user's booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found, or no change pending for its slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Booking is not confirmed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/slot-change/decline', (req, res, next) => {
+  bookingController.declineSlotChange(req as any, res).catch(next);
+});
+
 export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { calendarController } from '../controllers';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /calendar/{token}.ics:
+ *   get:
+ *     tags: [Calendar]
+ *     summary: Subscribable calendar feed
+ *     description: |
+ *       iCalendar feed of a user's bookings and, for hosts, their slots. Subscribe to the URL
+ *       returned by `POST /users/me/calendar-feed`; the token in the URL is the only credential.
+ *       
+ *       Cancelled bookings and slots stay in the feed with `STATUS:CANCELLED` and a higher
+ *       `SEQUENCE`, so subscribed calendars update the existing event instead of keeping it.
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Calendar feed token
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown or rotated feed token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:token.ics', (req, res, next) => {
+  calendarController.getFeed(req, res).catch(next);
+});
+
+export default router;
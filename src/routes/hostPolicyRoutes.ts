@@ -0,0 +1,209 @@
+import { Router } from 'express';
+import { hostPolicyController } from '../controllers';
+import { userContextMiddleware } from '../middlewares';
+
+const router = Router();
+
+// All host policy routes require authentication
+router.use(userContextMiddleware);
+
+/**
+ * @swagger
+ * /host-policy:
+ *   post:
+ *     tags: [Host Policy]
+ *     summary: Create your host policy (Host only)
+ *     description: |
+ *       Override the platform's booking limits for your slots. Omitted limits keep the defaults.
+ *
+ *       - `maxActiveBookings`: active bookings a guest may have when booking one of your slots
+ *         (default 5)
+ *       - `cancellationWindowHours`: guests cannot cancel or reschedule later than this before
+ *         the slot starts (default 1)
+ *       - `allowMultipleBookings`: let a guest hold several active bookings with you (default false)
+ *       - `maxBookingsPerDay`: bookings you take per day, in your time zone (default no limit)
+ *       - `requiresApproval`: new bookings stay `PENDING` until you approve or decline them;
+ *         unanswered requests expire after 24 hours or when the slot starts (default false)
+ *       - `bufferBeforeMinutes` / `bufferAfterMinutes`: free time kept before and after each
+ *         booked slot; slots within these buffers of a booked slot cannot be booked (default 0)
+ *       - `minNoticeHours`: slots cannot be booked later than this before they start (default 0)
+ *       - `maxHorizonDays`: slots cannot be booked more than this many days ahead (default no limit)
+ *
+ *       Limits are checked inside the booking transaction, so they only apply to new bookings;
+ *       the cancellation window is checked when a guest cancels, so it also applies to existing ones.
+ *       Slots (and open windows) that cannot be booked under the buffers, notice and horizon are
+ *       left out of `GET /slots`.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/HostPolicyRequest'
+ *     responses:
+ *       201:
+ *         description: Policy created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/HostPolicy'
+ *       400:
+ *         description: Invalid limits, or minimum notice not shorter than the horizon
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: You already have a host policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', (req, res, next) => {
+  hostPolicyController.createPolicy(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /host-policy:
+ *   get:
+ *     tags: [Host Policy]
+ *     summary: Get a host policy
+ *     description: The limits in effect for a host (defaults to the current user), with platform defaults filled in.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: query
+ *         name: hostId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Host whose policy to get
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Host policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/HostPolicy'
+ *       404:
+ *         description: Host not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', (req, res, next) => {
+  hostPolicyController.getPolicy(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /host-policy:
+ *   patch:
+ *     tags: [Host Policy]
+ *     summary: Update your host policy (Host only)
+ *     description: Only the given limits change; `null` reverts a limit to the platform default.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/HostPolicyRequest'
+ *     responses:
+ *       200:
+ *         description: Updated policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/HostPolicy'
+ *       400:
+ *         description: Invalid limits, or minimum notice not shorter than the horizon
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: You have no host policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/', (req, res, next) => {
+  hostPolicyController.updatePolicy(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /host-policy:
+ *   delete:
+ *     tags: [Host Policy]
+ *     summary: Delete your host policy (Host only)
+ *     description: Revert to the platform defaults.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     responses:
+ *       200:
+ *         description: Policy deleted
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: You have no host policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/', (req, res, next) => {
+  hostPolicyController.deletePolicy(req as any, res).catch(next);
+});
+
+export default router;
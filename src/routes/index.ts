@@ -1,8 +1,14 @@
 import { Router } from 'express';
 import slotRoutes from './slotRoutes';
+import slotSeriesRoutes from './slotSeriesRoutes';
+import availabilityRoutes from './availabilityRoutes';
+import hostPolicyRoutes from './hostPolicyRoutes';
 import bookingRoutes from './bookingRoutes';
 import analyticsRoutes from './analyticsRoutes';
 import userRoutes from './userRoutes';
+import authRoutes from './authRoutes';
+import webhookRoutes from './webhookRoutes';
+import calendarRoutes from './calendarRoutes';
 
 const router = Router();
 
@@ -45,9 +51,15 @@ router.get('/health', (_req, res) => {
 });
 
 // Mount routes
+router.use('/slots/series', slotSeriesRoutes);
 router.use('/slots', slotRoutes);
+router.use('/availability', availabilityRoutes);
+router.use('/host-policy', hostPolicyRoutes);
 router.use('/bookings', bookingRoutes);
 router.use('/admin', analyticsRoutes);
 router.use('/users', userRoutes);
+router.use('/auth', authRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/calendar', calendarRoutes);
 
 export default router;
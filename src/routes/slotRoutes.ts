@@ -1,6 +1,11 @@
 import { Router } from 'express';
-import { slotController } from '../controllers';
-import { userContextMiddleware } from '../middlewares';
+import {
+  intakeQuestionController,
+  slotController,
+  slotHoldController,
+  waitlistController,
+} from '../controllers';
+import { idempotency, userContextMiddleware } from '../middlewares';
 
 const router = Router();
 
@@ -21,8 +26,19 @@ router.use(userContextMiddleware);
  *       - Start time must be in the future
  *       - End time must be after start time
  *       - Slot cannot overlap with existing slots for the same host
+ *       
+ *       **Group slots:** set `capacity` above 1 to let several guests book the same slot.
+ *       The slot stays AVAILABLE until all seats are taken.
+ *       
+ *       **Meeting details:** an optional `title`, `description` and `locationType`. In-person
+ *       slots need an address (`location`), phone slots may give a number to call, and video
+ *       slots get a generated `meetingUrl` unless you provide one.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -46,7 +62,7 @@ router.use(userContextMiddleware);
  *                 data:
  *                   $ref: '#/components/schemas/Slot'
  *       400:
- *         description: Invalid time range or slot in the past
+ *         description: Invalid time range, slot in the past or invalid meeting details
  *         content:
  *           application/json:
  *             schema:
@@ -58,16 +74,101 @@ router.use(userContextMiddleware);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       409:
- *         description: Slot overlaps with existing slot
+ *         description: Slot overlaps with existing slot, or a request with the same Idempotency-Key is in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Idempotency-Key was already used for a different request
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/', (req, res, next) => {
+router.post('/', idempotency, (req, res, next) => {
   slotController.createSlot(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /slots/bulk:
+ *   post:
+ *     tags: [Slots]
+ *     summary: Create many slots at once (Host only)
+ *     description: |
+ *       Create up to 100 slots in one request. Each entry is validated like `POST /slots`
+ *       and gets its own result:
+ *       - `CREATED`: the slot was created
+ *       - `INVALID`: the entry failed validation (see `errors`)
+ *       - `OVERLAP`: the entry overlaps an existing slot, a busy block, or an earlier entry
+ *         of the batch (`overlapsIndex`)
+ *       
+ *       By default every valid entry is created. With `atomic: true`, slots are only created
+ *       if every entry is valid, in a single transaction; otherwise the request fails with
+ *       422 and `error.details` holds the results, with valid entries as `ABORTED`.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BulkCreateSlotsRequest'
+ *           example:
+ *             atomic: false
+ *             slots:
+ *               - startTime: "2026-02-02T09:00:00Z"
+ *                 endTime: "2026-02-02T10:00:00Z"
+ *               - startTime: "2026-02-03T09:00:00Z"
+ *                 endTime: "2026-02-03T10:00:00Z"
+ *                 capacity: 5
+ *     responses:
+ *       201:
+ *         description: Batch processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkSlotResponse'
+ *       400:
+ *         description: Missing `slots` or more than 100 entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: An atomic batch lost a race with another request creating an overlapping slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: An atomic batch had failing entries (nothing was created), or the Idempotency-Key was reused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/bulk', idempotency, (req, res, next) => {
+  slotController.createSlots(req as any, res).catch(next);
+});
+
 /**
  * @swagger
  * /slots:
@@ -76,14 +177,19 @@ router.post('/', (req, res, next) => {
  *     summary: List slots
  *     description: |
  *       Get a paginated list of slots. Use filters to narrow down results.
+ *       
+ *       Unless filtering by another status or by location type, open windows generated from
+ *       hosts' availability rules are merged in. They have `id: null` and an `availabilityRuleId`,
+ *       and are booked via `POST /bookings` with `hostId`, `startTime` and `endTime`.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: query
  *         name: status
  *         schema:
  *           type: string
- *           enum: [AVAILABLE, BOOKED, CANCELLED]
+ *           enum: [AVAILABLE, HELD, BOOKED, CANCELLED]
  *         description: Filter by slot status
  *       - in: query
  *         name: hostId
@@ -104,6 +210,24 @@ router.post('/', (req, res, next) => {
  *           format: date-time
  *         description: Filter slots ending before this date
  *       - in: query
+ *         name: locationType
+ *         schema:
+ *           type: string
+ *           enum: [IN_PERSON, PHONE, VIDEO]
+ *         description: Filter by where the meeting takes place
+ *       - in: query
+ *         name: minDuration
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Only slots lasting at least this many minutes
+ *       - in: query
+ *         name: maxDuration
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Only slots lasting at most this many minutes
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -118,6 +242,7 @@ router.post('/', (req, res, next) => {
  *           minimum: 1
  *           maximum: 100
  *         description: Items per page
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: List of slots
@@ -155,15 +280,18 @@ router.get('/', (req, res, next) => {
  *     summary: List host's own slots
  *     description: |
  *       Get all slots created by the authenticated host, including booked and cancelled slots.
- *       This is useful for hosts to manage their availability.
+ *       This is useful for hosts to manage their availability. Each slot includes its
+ *       `attendees` (one per confirmed booking; group slots can have several) and its
+ *       `pendingRequests` awaiting your approval.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: query
  *         name: status
  *         schema:
  *           type: string
- *           enum: [AVAILABLE, BOOKED, CANCELLED]
+ *           enum: [AVAILABLE, HELD, BOOKED, CANCELLED]
  *         description: Filter by slot status
  *       - in: query
  *         name: page
@@ -177,6 +305,7 @@ router.get('/', (req, res, next) => {
  *           type: integer
  *           default: 20
  *         description: Items per page
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: List of host's slots
@@ -195,14 +324,22 @@ router.get('/', (req, res, next) => {
  *                       - $ref: '#/components/schemas/Slot'
  *                       - type: object
  *                         properties:
- *                           bookingId:
- *                             type: string
- *                             format: uuid
- *                             nullable: true
- *                           bookedByUserId:
- *                             type: string
- *                             format: uuid
- *                             nullable: true
+ *                           attendees:
+ *                             type: array
+ *                             description: Guests with a confirmed booking, in booking order
+ *                             items:
+ *                               $ref: '#/components/schemas/SlotAttendee'
+ *                           pendingRequests:
+ *                             type: array
+ *                             description: Booking requests awaiting approval, in booking order
+ *                             items:
+ *                               allOf:
+ *                                 - $ref: '#/components/schemas/SlotAttendee'
+ *                                 - type: object
+ *                                   properties:
+ *                                     approvalExpiresAt:
+ *                                       type: string
+ *                                       format: date-time
  */
 router.get('/host', (req, res, next) => {
   slotController.getHostSlots(req as any, res).catch(next);
@@ -216,6 +353,7 @@ router.get('/host', (req, res, next) => {
  *     summary: Get slot by ID
  *     description: Retrieve detailed information about a specific slot.
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: path
@@ -225,6 +363,7 @@ router.get('/host', (req, res, next) => {
  *           type: string
  *           format: uuid
  *         description: Slot ID
+ *       - $ref: '#/components/parameters/TimeZone'
  *     responses:
  *       200:
  *         description: Slot details
@@ -249,6 +388,102 @@ router.get('/:id', (req, res, next) => {
   slotController.getSlotById(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /slots/{id}:
+ *   patch:
+ *     tags: [Slots]
+ *     summary: Change the time of a slot (Host only)
+ *     description: |
+ *       Move a slot to a new time, keeping its id. The new time is checked against the
+ *       host's other slots and busy blocks.
+ *       
+ *       **Slots with confirmed bookings** are not moved right away. Without
+ *       `requestConsent` the request is rejected; with it, the new time is proposed to
+ *       the guests, who are notified and can accept it
+ *       (`POST /bookings/{id}/slot-change/accept`) or decline it, cancelling their booking
+ *       (`POST /bookings/{id}/slot-change/decline`). The slot moves once every guest still
+ *       booked has accepted. Another edit withdraws a pending change.
+ *       
+ *       **Restrictions:**
+ *       - Only the slot owner can update it
+ *       - The slot must not be cancelled or have started yet
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID to update
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateSlotRequest'
+ *           example:
+ *             startTime: "2026-02-01T14:00:00Z"
+ *             endTime: "2026-02-01T15:00:00Z"
+ *             requestConsent: true
+ *     responses:
+ *       200:
+ *         description: Slot moved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotUpdate'
+ *       202:
+ *         description: New time proposed to the guests; see `pendingChange`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotUpdate'
+ *       400:
+ *         description: Invalid time range, or the slot or new time is in the past
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not the slot owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Overlaps another slot or busy time, slot cancelled, or booked without requestConsent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/:id', (req, res, next) => {
+  slotController.updateSlot(req as any, res).catch(next);
+});
+
 /**
  * @swagger
  * /slots/{id}:
@@ -260,8 +495,10 @@ router.get('/:id', (req, res, next) => {
  *       
  *       **Restrictions:**
  *       - Only the slot owner can delete it
- *       - Cannot delete a booked slot (cancel the booking first)
+ *       - Cannot delete a booked slot (use `POST /slots/{id}/cancel` instead)
+ *       - Cannot delete a slot a guest is holding until the hold is released or lapses
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     parameters:
  *       - in: path
@@ -301,7 +538,7 @@ router.get('/:id', (req, res, next) => {
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       409:
- *         description: Cannot delete booked slot
+ *         description: Cannot delete a booked or held slot
  *         content:
  *           application/json:
  *             schema:
@@ -311,4 +548,406 @@ router.delete('/:id', (req, res, next) => {
   slotController.deleteSlot(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /slots/{id}/cancel:
+ *   post:
+ *     tags: [Slots]
+ *     summary: Cancel a slot and its bookings (Host only)
+ *     description: |
+ *       Cancel a slot as its host. Every confirmed booking on the slot is cancelled with
+ *       `cancelledBy: HOST` and the given reason, the slot is marked CANCELLED, and the
+ *       waitlist is cleared. Each affected guest is notified.
+ *       
+ *       **Restrictions:**
+ *       - Only the slot owner can cancel it
+ *       - The slot must not have started yet
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID to cancel
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CancelSlotRequest'
+ *           example:
+ *             reason: "I'm ill, sorry!"
+ *     responses:
+ *       200:
+ *         description: Slot cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     cancelledBookings:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Missing reason or slot already started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not the slot owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Slot is already cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/cancel', (req, res, next) => {
+  slotController.cancelSlot(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/{id}/waitlist:
+ *   post:
+ *     tags: [Slots]
+ *     summary: Join the waitlist of a fully booked slot
+ *     description: |
+ *       Join the first-come, first-served waitlist of a fully booked slot. When a guest
+ *       cancels, the freed seat is booked automatically for the first waitlisted guest
+ *       who is still eligible (respecting the active booking limit and the
+ *       one-booking-per-host rule). Ineligible guests are skipped but keep their place.
+ *       
+ *       **Requirements:**
+ *       - Slot must be fully booked (otherwise book it directly)
+ *       - Slot must be in the future and not cancelled
+ *       - Cannot join the waitlist of your own slot, or of a slot you already booked
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       201:
+ *         description: Joined the waitlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/WaitlistEntry'
+ *       400:
+ *         description: Slot has free seats, is in the past, cancelled, or your own
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Already booked or already on the waitlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/waitlist', (req, res, next) => {
+  waitlistController.joinWaitlist(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/{id}/waitlist:
+ *   delete:
+ *     tags: [Slots]
+ *     summary: Leave the waitlist of a slot
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Left the waitlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/WaitlistEntry'
+ *       404:
+ *         description: Not on the waitlist of this slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id/waitlist', (req, res, next) => {
+  waitlistController.leaveWaitlist(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/{id}/hold:
+ *   post:
+ *     tags: [Slots]
+ *     summary: Hold a slot while completing a booking
+ *     description: |
+ *       Reserve a slot for 10 minutes, e.g. while filling in an intake form. The slot becomes
+ *       `HELD` and only you can book it until the hold expires; then it is `AVAILABLE` again.
+ *       Group slots (capacity above 1) cannot be held.
+ *       
+ *       **Requirements:**
+ *       - Slot must be available, in the future and bookable under the host's booking rules
+ *       - Cannot hold your own slot, or a slot you already booked
+ *       - You can hold one slot at a time, and holds cannot be extended
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       201:
+ *         description: Slot held
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotHold'
+ *       400:
+ *         description: Slot is in the past, your own, a group slot, or outside the host's booking rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Slot is not available, already held, or you hold another slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/hold', (req, res, next) => {
+  slotHoldController.holdSlot(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/{id}/hold:
+ *   delete:
+ *     tags: [Slots]
+ *     summary: Release your hold of a slot
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Hold released
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotHold'
+ *       404:
+ *         description: You do not hold this slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id/hold', (req, res, next) => {
+  slotHoldController.releaseHold(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/{id}/intake-questions:
+ *   get:
+ *     tags: [Slots]
+ *     summary: Get the intake questions of a slot
+ *     description: |
+ *       The questions to answer when booking the slot: its own questions, or else its host's.
+ *       Send the answers with `POST /bookings` as `answers`, keyed by question ID.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID
+ *     responses:
+ *       200:
+ *         description: Intake questions, in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IntakeQuestion'
+ *       404:
+ *         description: Slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/intake-questions', (req, res, next) => {
+  intakeQuestionController.getSlotQuestions(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/{id}/intake-questions:
+ *   put:
+ *     tags: [Slots]
+ *     summary: Replace the intake questions of a slot (owner only)
+ *     description: |
+ *       Ask different questions for this slot than your profile's. An empty list removes them,
+ *       so your profile questions apply again.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Slot ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IntakeQuestionsRequest'
+ *     responses:
+ *       200:
+ *         description: Intake questions of the slot, in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IntakeQuestion'
+ *       400:
+ *         description: Invalid questions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not your slot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Slot not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put('/:id/intake-questions', (req, res, next) => {
+  intakeQuestionController.setSlotQuestions(req as any, res).catch(next);
+});
+
 export default router;
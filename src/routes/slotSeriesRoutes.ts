@@ -0,0 +1,257 @@
+import { Router } from 'express';
+import { slotSeriesController } from '../controllers';
+import { userContextMiddleware } from '../middlewares';
+
+const router = Router();
+
+// All slot series routes require authentication
+router.use(userContextMiddleware);
+
+/**
+ * @swagger
+ * /slots/series:
+ *   post:
+ *     tags: [Slot Series]
+ *     summary: Create a recurring slot series (Host only)
+ *     description: |
+ *       Create a recurring series (RRULE-style) and materialize one slot per occurrence.
+ *       
+ *       **Recurrence:**
+ *       - `frequency`: DAILY, WEEKLY or MONTHLY, repeated every `interval` periods
+ *       - `byWeekday`: days of the week for WEEKLY series (0 = Sunday ... 6 = Saturday)
+ *       - Exactly one of `count` (number of occurrences) or `until` (last start date)
+ *       - `exceptionDates`: days on which no occurrence is created
+ *       
+ *       Occurrences that overlap an existing slot are skipped and reported in `skipped`.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateSlotSeriesRequest'
+ *           example:
+ *             startTime: "2026-02-02T10:00:00Z"
+ *             endTime: "2026-02-02T11:00:00Z"
+ *             frequency: WEEKLY
+ *             byWeekday: [1, 3]
+ *             count: 8
+ *             exceptionDates: ["2026-02-11"]
+ *     responses:
+ *       201:
+ *         description: Series created and occurrences materialized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotSeriesResult'
+ *       400:
+ *         description: Invalid recurrence rule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', (req, res, next) => {
+  slotSeriesController.createSeries(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/series/{id}:
+ *   get:
+ *     tags: [Slot Series]
+ *     summary: Get a slot series (owner only)
+ *     description: Retrieve a series' recurrence rule together with its non-cancelled slots.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Series ID
+ *     responses:
+ *       200:
+ *         description: Series details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/SlotSeries'
+ *                     - type: object
+ *                       properties:
+ *                         slots:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Slot'
+ *       403:
+ *         description: Not the series owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Series not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id', (req, res, next) => {
+  slotSeriesController.getSeries(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/series/{id}:
+ *   patch:
+ *     tags: [Slot Series]
+ *     summary: Edit this and following occurrences (owner only)
+ *     description: |
+ *       Apply changes to the occurrence `fromSlotId` and all following occurrences.
+ *       
+ *       The series is split: the original series ends before `fromSlotId` and a new series
+ *       with the changes takes over from there. Unbooked future occurrences are replaced;
+ *       booked occurrences are left untouched and returned in `kept`.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Series ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateSlotSeriesRequest'
+ *     responses:
+ *       200:
+ *         description: Series updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SlotSeriesResult'
+ *       400:
+ *         description: Invalid changes or slot does not belong to the series
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not the series owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Series not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/:id', (req, res, next) => {
+  slotSeriesController.updateSeries(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /slots/series/{id}:
+ *   delete:
+ *     tags: [Slot Series]
+ *     summary: Cancel this and following occurrences (owner only)
+ *     description: |
+ *       Delete unbooked occurrences starting at `fromSlotId`. Without `fromSlotId`, all
+ *       upcoming unbooked occurrences are deleted and the series itself is removed.
+ *       Booked occurrences are kept and returned in `kept`.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Series ID
+ *       - in: query
+ *         name: fromSlotId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: First occurrence to cancel
+ *     responses:
+ *       200:
+ *         description: Occurrences cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deleted:
+ *                       type: integer
+ *                       example: 6
+ *                     kept:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Slot'
+ *       403:
+ *         description: Not the series owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Series not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id', (req, res, next) => {
+  slotSeriesController.cancelSeries(req as any, res).catch(next);
+});
+
+export default router;
@@ -1,9 +1,26 @@
-import { Router } from 'express';
-import { userController } from '../controllers';
-import { userContextMiddleware } from '../middlewares';
+import { Router, Request, Response, NextFunction } from 'express';
+import { UserRole } from '@prisma/client';
+import { calendarController, intakeQuestionController, userController } from '../controllers';
+import { idempotency, requireRole, userContextMiddleware } from '../middlewares';
 
 const router = Router();
 
+const requireAdmin = requireRole(UserRole.ADMIN);
+
+/**
+ * Anyone may sign up as a guest; creating users with any other role requires an admin
+ */
+const requireAdminForElevatedRoles = (req: Request, res: Response, next: NextFunction): void => {
+  const roles: unknown = req.body?.roles;
+
+  if (Array.isArray(roles) && roles.some((role) => role !== UserRole.GUEST)) {
+    requireAdmin(req, res, next);
+    return;
+  }
+
+  next();
+};
+
 /**
  * @swagger
  * /users:
@@ -14,14 +31,23 @@ const router = Router();
  *       Create a new user account. This is the first step for testing the API.
  *       
  *       **Testing Steps:**
- *       1. Create a user with this endpoint
- *       2. Copy the "id" from the response
- *       3. Click "Authorize" at the top and paste the ID
+ *       1. Create a user with this endpoint, including a `password`
+ *       2. Sign in with `POST /auth/login` and copy the `accessToken`
+ *       3. Click "Authorize" at the top and paste the token
  *       4. Now you can test other endpoints!
  *       
  *       **Roles:**
  *       - "GUEST" - Can browse and book slots
  *       - "HOST" - Can create slots (should also include GUEST to book)
+ *       - "ADMIN" - Can view analytics and manage user roles
+ *       
+ *       Anyone can sign up as a GUEST. Creating users with other roles requires the ADMIN role.
+ *     security:
+ *       - {}
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -35,12 +61,14 @@ const router = Router();
  *                 email: guest@example.com
  *                 name: Guest User
  *                 roles: [GUEST]
+ *                 password: guest-password
  *             host:
  *               summary: Create a host user (can create slots)
  *               value:
  *                 email: host@example.com
  *                 name: Host User
  *                 roles: [HOST, GUEST]
+ *                 password: host-password
  *     responses:
  *       201:
  *         description: User created successfully
@@ -60,14 +88,26 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Only admins can create users with roles other than GUEST
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       409:
- *         description: Email already exists
+ *         description: Email already exists, or a request with the same Idempotency-Key is in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Idempotency-Key was already used for a different request
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/', (req, res, next) => {
+router.post('/', requireAdminForElevatedRoles, idempotency, (req, res, next) => {
   userController.createUser(req, res).catch(next);
 });
 
@@ -133,6 +173,7 @@ router.get('/', (req, res, next) => {
  *     summary: Get current user profile
  *     description: Returns the profile of the authenticated user (based on x-user-id header).
  *     security:
+ *       - BearerAuth: []
  *       - UserIdHeader: []
  *     responses:
  *       200:
@@ -158,6 +199,266 @@ router.get('/me', userContextMiddleware, (req, res, next) => {
   userController.getMe(req as any, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /users/me:
+ *   patch:
+ *     tags: [Users]
+ *     summary: Update current user profile
+ *     description: |
+ *       Update the authenticated user's name and/or time zone.
+ *       
+ *       The time zone (IANA name, e.g. `Asia/Singapore`) is the default for the `tz`
+ *       query parameter of slot and booking endpoints, and is the zone in which a host's
+ *       availability rules are interpreted.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateUserRequest'
+ *           example:
+ *             timeZone: America/New_York
+ *     responses:
+ *       200:
+ *         description: Profile updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Validation error (e.g. unknown time zone)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Missing or invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/me', userContextMiddleware, (req, res, next) => {
+  userController.updateMe(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /users/me/notification-preferences:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get notification preferences
+ *     description: Which notification types the authenticated user receives (`true`) or opted out of (`false`).
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     responses:
+ *       200:
+ *         description: Notification preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/NotificationPreferences'
+ *       401:
+ *         description: Missing or invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/me/notification-preferences', userContextMiddleware, (req, res, next) => {
+  userController.getNotificationPreferences(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /users/me/notification-preferences:
+ *   patch:
+ *     tags: [Users]
+ *     summary: Update notification preferences
+ *     description: |
+ *       Opt in to (`true`) or out of (`false`) notification types. Types that are not
+ *       given keep their current setting. Opted-out notifications are logged as SKIPPED.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/NotificationPreferences'
+ *           example:
+ *             BOOKING_REMINDER: false
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/NotificationPreferences'
+ *       400:
+ *         description: Validation error (e.g. unknown notification type)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Missing or invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/me/notification-preferences', userContextMiddleware, (req, res, next) => {
+  userController.updateNotificationPreferences(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /users/me/intake-questions:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get your intake questions
+ *     description: The questions guests answer when booking your slots, unless a slot has its own.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     responses:
+ *       200:
+ *         description: Intake questions, in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IntakeQuestion'
+ */
+router.get('/me/intake-questions', userContextMiddleware, (req, res, next) => {
+  intakeQuestionController.getMyQuestions(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /users/me/intake-questions:
+ *   put:
+ *     tags: [Users]
+ *     summary: Replace your intake questions (Host only)
+ *     description: |
+ *       Set the questions guests answer when booking your slots. The list replaces the current
+ *       one (an empty list removes them). Bookings already made keep their answers.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IntakeQuestionsRequest'
+ *     responses:
+ *       200:
+ *         description: Intake questions, in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IntakeQuestion'
+ *       400:
+ *         description: Invalid questions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not a host
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put('/me/intake-questions', userContextMiddleware, (req, res, next) => {
+  intakeQuestionController.setMyQuestions(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /users/me/calendar-feed:
+ *   post:
+ *     tags: [Users, Calendar]
+ *     summary: Create a calendar feed URL
+ *     description: |
+ *       Returns a secret URL that calendar apps can subscribe to. The feed lists the user's
+ *       bookings and, for hosts, their slots with their status, from 30 days ago onwards.
+ *       
+ *       The URL is shown only once. Calling this endpoint again rotates it, and the old URL
+ *       stops working.
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     responses:
+ *       201:
+ *         description: Feed URL created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                       example: http://localhost:3000/api/calendar/3f6c0e...9a.ics
+ *       401:
+ *         description: Missing or invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/me/calendar-feed', userContextMiddleware, (req, res, next) => {
+  calendarController.createFeed(req as any, res).catch(next);
+});
+
 /**
  * @swagger
  * /users/{id}:
@@ -197,4 +498,64 @@ router.get('/:id', (req, res, next) => {
   userController.getUserById(req, res).catch(next);
 });
 
+/**
+ * @swagger
+ * /users/{id}/roles:
+ *   post:
+ *     tags: [Users]
+ *     summary: Add a role to a user (Admin only)
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [HOST, GUEST, ADMIN]
+ *           example:
+ *             role: HOST
+ *     responses:
+ *       200:
+ *         description: Role added (no-op if the user already has it)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       403:
+ *         description: User is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/roles', requireAdmin, (req, res, next) => {
+  userController.addRole(req as any, res).catch(next);
+});
+
 export default router;
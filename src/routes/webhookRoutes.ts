@@ -0,0 +1,268 @@
+import { Router } from 'express';
+import { UserRole } from '@prisma/client';
+import { webhookController } from '../controllers';
+import { requireRole } from '../middlewares';
+
+const router = Router();
+
+// Webhook subscriptions are managed by admins
+router.use(requireRole(UserRole.ADMIN));
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     tags: [Webhooks]
+ *     summary: Create a webhook subscription
+ *     description: |
+ *       Subscribe an HTTP endpoint to booking lifecycle events. Each event is POSTed as JSON
+ *       through a queue, retried with exponential backoff until the receiver answers 2xx.
+ *       
+ *       **Signature:**
+ *       Requests carry `X-Webhook-Timestamp` and `X-Webhook-Signature: sha256=<hex>`, the
+ *       HMAC-SHA256 of `<timestamp>.<body>` keyed with the subscription secret.
+ *       
+ *       The secret is generated unless given and is **only returned in this response**.
+ *       
+ *       **Requires the ADMIN role.**
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateWebhookSubscriptionRequest'
+ *     responses:
+ *       201:
+ *         description: Subscription created, including its secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookSubscription'
+ *       400:
+ *         description: Invalid URL or event types
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/', (req, res, next) => {
+  webhookController.createSubscription(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /webhooks:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: List webhook subscriptions
+ *     description: List all subscriptions. Secrets are not included. **Requires the ADMIN role.**
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: List of subscriptions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookSubscription'
+ *       403:
+ *         description: User is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', (req, res, next) => {
+  webhookController.getSubscriptions(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   delete:
+ *     tags: [Webhooks]
+ *     summary: Delete a webhook subscription
+ *     description: Delete a subscription along with its delivery log. **Requires the ADMIN role.**
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Subscription ID
+ *     responses:
+ *       200:
+ *         description: Subscription deleted
+ *       403:
+ *         description: User is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Subscription not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id', (req, res, next) => {
+  webhookController.deleteSubscription(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: Get the delivery log of a subscription
+ *     description: |
+ *       List deliveries, newest first, with their status, attempt count and the outcome of
+ *       the last attempt. **Requires the ADMIN role.**
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Subscription ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       200:
+ *         description: Deliveries of the subscription
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *       404:
+ *         description: Subscription not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/deliveries', (req, res, next) => {
+  webhookController.getDeliveries(req as any, res).catch(next);
+});
+
+/**
+ * @swagger
+ * /webhooks/deliveries/{deliveryId}/replay:
+ *   post:
+ *     tags: [Webhooks]
+ *     summary: Replay a webhook delivery
+ *     description: |
+ *       Queue a finished (succeeded or failed) delivery again with its original payload and
+ *       event ID, so receivers can deduplicate. **Requires the ADMIN role.**
+ *     security:
+ *       - BearerAuth: []
+ *       - UserIdHeader: []
+ *     parameters:
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Delivery ID
+ *       - $ref: '#/components/parameters/TimeZone'
+ *     responses:
+ *       202:
+ *         description: Delivery queued again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Delivery not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Delivery is still pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/deliveries/:deliveryId/replay', (req, res, next) => {
+  webhookController.replayDelivery(req as any, res).catch(next);
+});
+
+export default router;
@@ -1,21 +1,20 @@
 import { analyticsRepository } from '../repositories';
 import { AnalyticsFilters, AnalyticsResponse } from '../types';
+import { endOfDayInTimeZone, startOfDayInTimeZone } from '../utils/timezone';
 
 export class AnalyticsService {
   /**
    * Get booking analytics for a date range
+   * Days are bounded and bucketed in the requested time zone
    */
   async getAnalytics(filters: AnalyticsFilters): Promise<AnalyticsResponse> {
-    const { startDate, endDate } = filters;
+    const { startDate, endDate, tz } = filters;
 
     // Set time to start of day for startDate and end of day for endDate
-    const start = new Date(startDate);
-    start.setHours(0, 0, 0, 0);
+    const start = startOfDayInTimeZone(startDate, tz);
+    const end = endOfDayInTimeZone(endDate, tz);
 
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999);
-
-    return analyticsRepository.getAnalytics(start, end);
+    return analyticsRepository.getAnalytics(start, end, tz);
   }
 }
 
@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { getAuthConfig } from '../config/auth';
+import { eventBus } from '../events';
+import {
+  authSessionRepository,
+  magicLinkTokenRepository,
+  userRepository,
+} from '../repositories';
+import { AuthTokens, UnauthorizedError, UserContext } from '../types';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  MAGIC_LINK_TTL_MINUTES,
+  REFRESH_TOKEN_TTL_DAYS,
+} from '../utils/constants';
+import { generateToken, hashToken, verifyPassword } from '../utils/crypto';
+import { signJwt, verifyJwt } from '../utils/jwt';
+import { DAY_MS, MINUTE_MS } from '../utils/time';
+
+type TokenType = 'access' | 'refresh';
+
+export class AuthService {
+  /**
+   * Sign in with email and password
+   * The same error is returned for unknown emails and wrong passwords.
+   */
+  async loginWithPassword(email: string, password: string): Promise<AuthTokens> {
+    const user = await userRepository.findByEmail(email);
+
+    const valid = user?.passwordHash
+      ? await verifyPassword(password, user.passwordHash)
+      : false;
+
+    if (!user || !valid) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    return this.startSession(user.id);
+  }
+
+  /**
+   * Send a single-use sign-in link to a user's email
+   * Unknown emails are silently ignored so the endpoint does not reveal accounts.
+   */
+  async requestMagicLink(email: string): Promise<void> {
+    const user = await userRepository.findByEmail(email);
+
+    if (!user) {
+      return;
+    }
+
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * MINUTE_MS);
+
+    await magicLinkTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt,
+    });
+
+    eventBus.emit('auth.magic_link_requested', {
+      userId: user.id,
+      email: user.email,
+      token,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Exchange a magic link token for a session
+   */
+  async verifyMagicLink(token: string): Promise<AuthTokens> {
+    const link = await magicLinkTokenRepository.consume(hashToken(token));
+
+    if (!link) {
+      throw new UnauthorizedError('Invalid or expired sign-in link');
+    }
+
+    return this.startSession(link.userId);
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   *
+   * Refresh tokens are single-use: each refresh rotates the session's token id.
+   * Presenting an already rotated token means it leaked, so the session is revoked.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const claims = this.verifyToken(refreshToken, 'refresh');
+    const session = await authSessionRepository.findActiveWithUser(claims.sid);
+
+    if (!session) {
+      throw new UnauthorizedError('Session has expired or was revoked');
+    }
+
+    const nextTokenId = randomUUID();
+    const rotated = await authSessionRepository.rotateRefreshToken(
+      session.id,
+      claims.jti,
+      nextTokenId
+    );
+
+    if (!rotated) {
+      await authSessionRepository.revoke(session.id);
+      throw new UnauthorizedError('Refresh token has already been used');
+    }
+
+    return this.issueTokens(session.userId, session.id, nextTokenId, session.expiresAt);
+  }
+
+  /**
+   * Revoke a session (sign out)
+   */
+  async logout(sessionId: string): Promise<void> {
+    await authSessionRepository.revoke(sessionId);
+  }
+
+  /**
+   * Revoke every session of a user (sign out everywhere)
+   */
+  async logoutAll(userId: string): Promise<number> {
+    return authSessionRepository.revokeAllForUser(userId);
+  }
+
+  /**
+   * Resolve the user context of an access token
+   * Fails if the token is invalid or expired, or its session was revoked.
+   */
+  async authenticate(accessToken: string): Promise<UserContext> {
+    const claims = this.verifyToken(accessToken, 'access');
+    const session = await authSessionRepository.findActiveWithUser(claims.sid);
+
+    if (!session || session.userId !== claims.sub) {
+      throw new UnauthorizedError('Session has expired or was revoked');
+    }
+
+    return {
+      userId: session.user.id,
+      roles: session.user.roles,
+      timeZone: session.user.timeZone,
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * Create a session and its first token pair
+   */
+  private async startSession(userId: string): Promise<AuthTokens> {
+    const refreshTokenId = randomUUID();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+    const session = await authSessionRepository.create({ userId, refreshTokenId, expiresAt });
+
+    return this.issueTokens(userId, session.id, refreshTokenId, expiresAt);
+  }
+
+  /**
+   * Sign an access token and a refresh token for a session
+   * Refresh tokens never outlive their session.
+   */
+  private async issueTokens(
+    userId: string,
+    sessionId: string,
+    refreshTokenId: string,
+    sessionExpiresAt: Date
+  ): Promise<AuthTokens> {
+    const { jwtSecret } = getAuthConfig();
+    const user = await userRepository.findById(userId);
+
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const refreshTtl = Math.floor((sessionExpiresAt.getTime() - Date.now()) / 1000);
+
+    return {
+      tokenType: 'Bearer',
+      accessToken: signJwt(
+        { sub: userId, sid: sessionId, roles: user.roles, typ: 'access' },
+        jwtSecret,
+        ACCESS_TOKEN_TTL_SECONDS
+      ),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      refreshToken: signJwt(
+        { sub: userId, sid: sessionId, jti: refreshTokenId, typ: 'refresh' },
+        jwtSecret,
+        refreshTtl
+      ),
+    };
+  }
+
+  /**
+   * Verify a token's signature, expiry, and type
+   */
+  private verifyToken(token: string, type: TokenType): { sub: string; sid: string; jti: string } {
+    const claims = verifyJwt(token, getAuthConfig().jwtSecret);
+
+    if (!claims || claims.typ !== type || typeof claims.sid !== 'string') {
+      throw new UnauthorizedError(`Invalid or expired ${type} token`);
+    }
+
+    return {
+      sub: claims.sub,
+      sid: claims.sid,
+      jti: typeof claims.jti === 'string' ? claims.jti : '',
+    };
+  }
+}
+
+export const authService = new AuthService();
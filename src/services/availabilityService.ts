@@ -0,0 +1,369 @@
+import { Prisma, Slot, SlotStatus, UserRole } from '@prisma/client';
+import {
+  availabilityRepository,
+  AvailabilityRuleWithHost,
+  busyBlockRepository,
+  hostPolicyRepository,
+  slotRepository,
+} from '../repositories';
+import {
+  AvailabilityRuleResponse,
+  AvailabilityWindowResponse,
+  BadRequestError,
+  BookingRules,
+  BookingWindowInput,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UserContext,
+} from '../types';
+import { AVAILABILITY_HORIZON_DAYS } from '../utils/constants';
+import { DAY_MS, HOUR_MS, MINUTE_MS, rangesOverlap, toMinutesOfDay } from '../utils/time';
+import { fromZonedDateTime, toZonedDateTime } from '../utils/timezone';
+import { CreateAvailabilityRulesInput } from '../utils/validation';
+
+type TimeRange = { startTime: Date; endTime: Date };
+
+export class AvailabilityService {
+  /**
+   * Declare working hours for one or more weekdays
+   * Business Rules:
+   * - User must be a HOST
+   * - Working hours must not overlap existing rules on the same weekday
+   */
+  async createRules(
+    host: UserContext,
+    data: CreateAvailabilityRulesInput
+  ): Promise<AvailabilityRuleResponse[]> {
+    const hostId = host.userId;
+
+    if (!host.roles.includes(UserRole.HOST)) {
+      throw new ForbiddenError('Only hosts can define availability');
+    }
+
+    const weekdays = [...new Set(data.weekdays)];
+    const existing = await availabilityRepository.findRules({ hostId });
+    const start = toMinutesOfDay(data.startTime);
+    const end = toMinutesOfDay(data.endTime);
+
+    const clash = existing.find((rule) =>
+      weekdays.includes(rule.weekday) &&
+      toMinutesOfDay(rule.startTime) < end &&
+      start < toMinutesOfDay(rule.endTime)
+    );
+    if (clash) {
+      throw new ConflictError('Working hours overlap an existing availability rule');
+    }
+
+    const rules = await availabilityRepository.createMany(
+      hostId,
+      weekdays.map((weekday) => ({
+        weekday,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        slotDurationMinutes: data.slotDurationMinutes,
+      }))
+    );
+
+    return rules.map((rule) => this.formatRuleResponse(rule));
+  }
+
+  /**
+   * List a host's availability rules
+   */
+  async getRules(hostId: string): Promise<AvailabilityRuleResponse[]> {
+    const rules = await availabilityRepository.findRules({ hostId });
+    return rules.map((rule) => this.formatRuleResponse(rule));
+  }
+
+  /**
+   * Delete an availability rule
+   * Already materialized (booked) slots are not affected
+   */
+  async deleteRule(hostId: string, ruleId: string): Promise<void> {
+    const rule = await availabilityRepository.findById(ruleId);
+
+    if (!rule) {
+      throw new NotFoundError('Availability rule');
+    }
+
+    // Verify ownership
+    if (rule.hostId !== hostId) {
+      throw new ForbiddenError('You can only delete your own availability rules');
+    }
+
+    await availabilityRepository.delete(ruleId);
+  }
+
+  /**
+   * Check a slot against its host's booking rules before it is booked
+   * - It must start at least minNoticeHours and at most maxHorizonDays from now
+   * - Its buffers must not overlap another booked slot of the host, nor lie in theirs
+   * Accepts a transaction client so it can run inside the booking transaction
+   */
+  async assertBookable(
+    slot: Pick<Slot, 'id' | 'hostId' | 'startTime' | 'endTime'>,
+    tx?: Prisma.TransactionClient
+  ): Promise<void> {
+    // Hosts without a policy have no booking rules
+    const policy = await hostPolicyRepository.findByHost(slot.hostId, tx);
+
+    if (!policy) {
+      return;
+    }
+
+    const { earliest, latest } = this.getBookableStartRange(policy, new Date());
+    if (slot.startTime < earliest) {
+      throw new BadRequestError(
+        `This host's slots must be booked at least ${policy.minNoticeHours} hour(s) in advance`
+      );
+    }
+    if (latest && slot.startTime > latest) {
+      throw new BadRequestError(
+        `This host's slots can be booked at most ${policy.maxHorizonDays} day(s) in advance`
+      );
+    }
+
+    const margin = this.getBufferMargin(policy);
+    if (margin === 0) {
+      return;
+    }
+
+    const booked = await slotRepository.findBookedInRange(
+      [slot.hostId],
+      new Date(slot.startTime.getTime() - margin),
+      new Date(slot.endTime.getTime() + margin),
+      tx
+    );
+    if (booked.some((other) => other.id !== slot.id && this.isWithinBuffer(policy, slot, other))) {
+      throw new ConflictError('Slot is too close to another booking of this host');
+    }
+  }
+
+  /**
+   * SQL conditions matching AVAILABLE slots that cannot be booked under their host's
+   * booking rules (too soon, too far ahead, or within the buffers of a booked
+   * slot), to leave them out of slot listings
+   */
+  async getUnbookableSlotConditions(filters: { hostId?: string }): Promise<Prisma.Sql[]> {
+    const now = new Date();
+    const policies = await hostPolicyRepository.findWithBookingRules(filters.hostId ? [filters.hostId] : undefined);
+    const conditions: Prisma.Sql[] = [];
+
+    for (const policy of policies) {
+      const { earliest, latest } = this.getBookableStartRange(policy, now);
+      conditions.push(Prisma.sql`"hostId" = ${policy.hostId} AND status = 'AVAILABLE' AND "startTime" < ${earliest}`);
+      if (latest) {
+        conditions.push(Prisma.sql`"hostId" = ${policy.hostId} AND status = 'AVAILABLE' AND "startTime" > ${latest}`);
+      }
+    }
+
+    // One predicate for every booked slot, checked by the database per listed slot
+    if (policies.some((policy) => this.getBufferMargin(policy) > 0)) {
+      conditions.push(Prisma.sql`status = 'AVAILABLE' AND ${slotRepository.withinBookedBuffersCondition()}`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Compute open windows from availability rules minus existing slots and busy blocks
+   * Windows are only generated from now up to AVAILABILITY_HORIZON_DAYS ahead, and
+   * only if they can be booked under the host's booking rules.
+   */
+  async getOpenWindows(filters: {
+    hostId?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<AvailabilityWindowResponse[]> {
+    const now = new Date();
+    const from = filters.startDate && filters.startDate > now ? filters.startDate : now;
+    const horizon = new Date(now.getTime() + AVAILABILITY_HORIZON_DAYS * DAY_MS);
+    const to = filters.endDate && filters.endDate < horizon ? filters.endDate : horizon;
+
+    if (from > to) {
+      return [];
+    }
+
+    const rules = await availabilityRepository.findRules({ hostId: filters.hostId });
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const hostIds = [...new Set(rules.map((rule) => rule.hostId))];
+    // Windows may start up to `to` and run past it, so look one day further for clashes
+    const rangeEnd = new Date(to.getTime() + DAY_MS);
+    const [slots, busyBlocks] = await Promise.all([
+      slotRepository.findActiveInRange(hostIds, from, rangeEnd),
+      busyBlockRepository.findInRange(hostIds, from, rangeEnd),
+    ]);
+    // Busy time imported from other calendars is taken like an existing slot
+    const existing = [...slots, ...busyBlocks];
+
+    const hostRules = new Map(
+      (await hostPolicyRepository.findWithBookingRules(hostIds)).map((policy) => [policy.hostId, policy])
+    );
+    const bufferedHostIds = [...hostRules.values()]
+      .filter((policy) => this.getBufferMargin(policy) > 0)
+      .map((policy) => policy.hostId);
+    // Buffers are at most a day long (MAX_BOOKING_BUFFER_MINUTES)
+    const booked = bufferedHostIds.length > 0
+      ? await slotRepository.findBookedInRange(bufferedHostIds, new Date(from.getTime() - DAY_MS), rangeEnd)
+      : [];
+
+    const windows: AvailabilityWindowResponse[] = [];
+    for (const rule of rules) {
+      for (const window of this.generateWindows(rule, from, to)) {
+        const isTaken = existing.some(
+          (slot) => slot.hostId === rule.hostId && rangesOverlap(slot, window)
+        );
+        const rules = hostRules.get(rule.hostId);
+        const isUnbookable = rules !== undefined && (
+          !this.isInBookableStartRange(rules, window.startTime, now) ||
+          booked.some((slot) => slot.hostId === rule.hostId && this.isWithinBuffer(rules, window, slot))
+        );
+        if (!isTaken && !isUnbookable) {
+          windows.push({
+            id: null,
+            hostId: rule.hostId,
+            hostName: rule.host.name,
+            startTime: window.startTime,
+            endTime: window.endTime,
+            status: SlotStatus.AVAILABLE,
+            availabilityRuleId: rule.id,
+          });
+        }
+      }
+    }
+
+    return windows.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Check that a requested window is generated by one of the host's rules
+   * Accepts a transaction client so it can run inside the booking transaction
+   */
+  async isRuleWindow(
+    window: BookingWindowInput,
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    // Weekdays are local to the host's time zone, so check every rule of the host
+    const rules = await availabilityRepository.findRules({ hostId: window.hostId }, tx);
+
+    return rules.some((rule) =>
+      this.generateWindows(rule, window.startTime, window.startTime).some(
+        (candidate) =>
+          candidate.startTime.getTime() === window.startTime.getTime() &&
+          candidate.endTime.getTime() === window.endTime.getTime()
+      )
+    );
+  }
+
+  /**
+   * Generate the windows of a rule that start within [from, to]
+   * Working hours are wall-clock times in the host's time zone, so windows keep
+   * their local time across DST transitions.
+   */
+  private generateWindows(
+    rule: AvailabilityRuleWithHost,
+    from: Date,
+    to: Date
+  ): Array<{ startTime: Date; endTime: Date }> {
+    const windows: Array<{ startTime: Date; endTime: Date }> = [];
+    const { timeZone } = rule.host;
+    const ruleStart = toMinutesOfDay(rule.startTime);
+    const ruleEnd = toMinutesOfDay(rule.endTime);
+
+    const first = toZonedDateTime(from, timeZone);
+    const last = toZonedDateTime(to, timeZone);
+    const firstDay = Date.UTC(first.year, first.month - 1, first.day);
+    const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+
+    // Walk local calendar days; Date.UTC is only used for day arithmetic here
+    for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+      const date = new Date(day);
+      if (date.getUTCDay() !== rule.weekday) {
+        continue;
+      }
+
+      for (
+        let minute = ruleStart;
+        minute + rule.slotDurationMinutes <= ruleEnd;
+        minute += rule.slotDurationMinutes
+      ) {
+        const wallTime = {
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+        };
+        const startTime = fromZonedDateTime({ ...wallTime, minute }, timeZone);
+        const endTime = fromZonedDateTime(
+          { ...wallTime, minute: minute + rule.slotDurationMinutes },
+          timeZone
+        );
+
+        if (startTime >= from && startTime <= to) {
+          windows.push({ startTime, endTime });
+        }
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * Earliest and latest start of a slot that can be booked at `now`
+   */
+  private getBookableStartRange(
+    rules: BookingRules,
+    now: Date
+  ): { earliest: Date; latest: Date | null } {
+    return {
+      earliest: new Date(now.getTime() + rules.minNoticeHours * HOUR_MS),
+      latest: rules.maxHorizonDays === null ? null : new Date(now.getTime() + rules.maxHorizonDays * DAY_MS),
+    };
+  }
+
+  private isInBookableStartRange(rules: BookingRules, startTime: Date, now: Date): boolean {
+    const { earliest, latest } = this.getBookableStartRange(rules, now);
+    return startTime >= earliest && (latest === null || startTime <= latest);
+  }
+
+  /**
+   * Largest distance (ms) at which a booked slot can still be within the buffers
+   */
+  private getBufferMargin(rules: BookingRules): number {
+    return Math.max(rules.bufferBeforeMinutes, rules.bufferAfterMinutes) * MINUTE_MS;
+  }
+
+  /**
+   * Whether the buffers of `slot` overlap `booked`, or `slot` lies in the buffers of `booked`
+   */
+  private isWithinBuffer(rules: BookingRules, slot: TimeRange, booked: TimeRange): boolean {
+    const withBuffers = (range: TimeRange): TimeRange => ({
+      startTime: new Date(range.startTime.getTime() - rules.bufferBeforeMinutes * MINUTE_MS),
+      endTime: new Date(range.endTime.getTime() + rules.bufferAfterMinutes * MINUTE_MS),
+    });
+
+    return rangesOverlap(withBuffers(slot), booked) || rangesOverlap(slot, withBuffers(booked));
+  }
+
+  /**
+   * Format rule data for API response
+   */
+  private formatRuleResponse(rule: AvailabilityRuleWithHost): AvailabilityRuleResponse {
+    return {
+      id: rule.id,
+      hostId: rule.hostId,
+      timeZone: rule.host.timeZone,
+      weekday: rule.weekday,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      slotDurationMinutes: rule.slotDurationMinutes,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
+
+export const availabilityService = new AvailabilityService();
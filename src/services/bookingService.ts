@@ -1,15 +1,53 @@
-import { BookingStatus, SlotStatus } from '@prisma/client';
+import {
+  Booking,
+  BookingStatus,
+  CancellationActor,
+  Prisma,
+  Slot,
+  SlotStatus,
+  WaitlistStatus,
+} from '@prisma/client';
 import prisma from '../utils/prisma';
-import { bookingRepository, slotRepository, BookingWithDetails } from '../repositories';
 import {
+  bookingAnswerRepository,
+  bookingRepository,
+  busyBlockRepository,
+  outboxEventRepository,
+  slotRepository,
+  userRepository,
+  waitlistRepository,
+  BookingWithDetails,
+} from '../repositories';
+import {
+  AppError,
   BadRequestError,
   BookingFilters,
   BookingResponse,
+  BookingWindowInput,
   ConflictError,
   ForbiddenError,
+  HostPolicyResponse,
   NotFoundError,
 } from '../types';
-import { MAX_ACTIVE_BOOKINGS, CANCELLATION_WINDOW_HOURS } from '../utils/constants';
+import {
+  BOOKING_APPROVAL_TTL_HOURS,
+  BOOKING_TRANSACTION_RETRIES,
+  DEFAULT_TIME_ZONE,
+} from '../utils/constants';
+import { isSerializationError, isSlotOverlapError } from '../utils/dbErrors';
+import { HOUR_MS } from '../utils/time';
+import { endOfDayInTimeZone, startOfDayInTimeZone } from '../utils/timezone';
+import { IntakeAnswersInput } from '../utils/validation';
+import { availabilityService } from './availabilityService';
+import { hostPolicyService } from './hostPolicyService';
+import { intakeQuestionService } from './intakeQuestionService';
+import { slotHoldService } from './slotHoldService';
+
+// Transaction options for better concurrency handling
+const BOOKING_TRANSACTION_OPTIONS = {
+  isolationLevel: Prisma.TransactionIsolationLevel.Serializable, // Highest isolation level
+  timeout: 10000, // 10 second timeout
+};
 
 export class BookingService {
   /**
@@ -21,13 +59,23 @@ export class BookingService {
    * 
    * Business Rules:
    * - User cannot book their own slot
-   * - User can have at most MAX_ACTIVE_BOOKINGS active bookings
-   * - User can only have one active booking per host
+   * - User can have at most the host policy's maxActiveBookings active bookings
+   * - User can only have one active booking per host, unless the host allows more
+   * - Host takes at most the host policy's maxBookingsPerDay bookings per day
    * - Slot must be available and in the future
+   * - A HELD slot can only be booked by the guest holding it, until the hold expires
+   * - Slot must respect the host's minimum notice, booking horizon and buffers
+   * - If the host's policy requires approval, the booking starts PENDING and holds
+   *   its seat until the host approves or declines it, or it expires
+   * - Answers must match the slot's intake questions (or its host's)
    */
-  async createBooking(userId: string, slotId: string): Promise<BookingResponse> {
+  async createBooking(
+    userId: string,
+    slotId: string,
+    answers: IntakeAnswersInput = {}
+  ): Promise<BookingResponse> {
     // Use a transaction with pessimistic locking
-    const booking = await prisma.$transaction(async (tx) => {
+    const booking = await this.runBookingTransaction(async (tx) => {
       // 1. Lock the slot row using SELECT FOR UPDATE
       //    This prevents concurrent transactions from modifying the same slot
       const slot = await slotRepository.findByIdForUpdate(tx, slotId);
@@ -37,30 +85,230 @@ export class BookingService {
         throw new NotFoundError('Slot');
       }
 
-      // 3. Validate slot is available
-      if (slot.status !== SlotStatus.AVAILABLE) {
-        throw new ConflictError('Slot is no longer available');
+      return this.bookLockedSlot(tx, userId, slot, answers);
+    });
+
+    return this.getBookingResponse(booking.id, 'Booking created but could not be retrieved');
+  }
+
+  /**
+   * Book an open window generated from a host's availability rules
+   * 
+   * If the window has not been materialized yet, its Slot row is created inside
+   * the booking transaction, so the slot_no_overlap exclusion constraint rejects
+   * a concurrent booking of the same (or an overlapping) window.
+   */
+  async createBookingForWindow(
+    userId: string,
+    window: BookingWindowInput,
+    answers: IntakeAnswersInput = {}
+  ): Promise<BookingResponse> {
+    const booking = await this.runBookingTransaction(async (tx) => {
+      // Another guest may have materialized this window already
+      const existing = await slotRepository.findByHostAndTimeForUpdate(
+        tx,
+        window.hostId,
+        window.startTime,
+        window.endTime
+      );
+      if (existing) {
+        return this.bookLockedSlot(tx, userId, existing, answers);
       }
 
-      // 4. Validate slot is in the future
-      if (slot.startTime <= new Date()) {
-        throw new BadRequestError('Cannot book a slot in the past');
+      const isRuleWindow = await availabilityService.isRuleWindow(window, tx);
+      if (!isRuleWindow) {
+        throw new NotFoundError('Availability window');
       }
 
-      // 5. Validate user is not booking their own slot
-      if (slot.hostId === userId) {
-        throw new BadRequestError('You cannot book your own slot');
+      // Windows covered by imported busy time are not offered
+      const isBusy = await busyBlockRepository.hasOverlap(
+        window.hostId,
+        window.startTime,
+        window.endTime,
+        tx
+      );
+      if (isBusy) {
+        throw new NotFoundError('Availability window');
       }
 
-      // 6. Check user's active booking count
-      const activeBookings = await bookingRepository.countActiveBookings(userId, tx);
-      if (activeBookings >= MAX_ACTIVE_BOOKINGS) {
-        throw new ConflictError(
-          `You have reached the maximum of ${MAX_ACTIVE_BOOKINGS} active bookings`
-        );
+      const slot = await slotRepository.create(window, tx);
+      return this.bookLockedSlot(tx, userId, slot, answers);
+    }).catch((error: unknown) => {
+      if (isSlotOverlapError(error)) {
+        throw new ConflictError('Slot is no longer available');
       }
+      throw error;
+    });
+
+    return this.getBookingResponse(booking.id, 'Booking created but could not be retrieved');
+  }
+
+  /**
+   * Run a booking transaction, retrying on serialization failures
+   * A retry re-reads the slot, so a guest who lost a race for one seat of a group
+   * slot still gets a remaining seat, and gets a clear conflict once the slot is full.
+   */
+  private async runBookingTransaction<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(fn, BOOKING_TRANSACTION_OPTIONS);
+      } catch (error) {
+        if (!isSerializationError(error) || attempt > BOOKING_TRANSACTION_RETRIES) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate business rules and book a slot that is locked by the current transaction
+   */
+  private async bookLockedSlot(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    slot: Slot,
+    answers: IntakeAnswersInput,
+    rescheduledFromId?: string
+  ): Promise<Booking> {
+    // 3. Validate slot is available, or held by this guest (lapsed holds are ignored)
+    if (slot.status === SlotStatus.HELD) {
+      if (slotHoldService.isHoldActive(slot) && slot.heldById !== userId) {
+        throw new ConflictError('Slot is held by another guest');
+      }
+      // Booking converts the hold; it is restored if the booking fails
+      await slotRepository.releaseHold(slot.id, tx);
+    } else if (slot.status !== SlotStatus.AVAILABLE) {
+      throw new ConflictError('Slot is no longer available');
+    }
+
+    // 4. Validate slot is in the future
+    if (slot.startTime <= new Date()) {
+      throw new BadRequestError('Cannot book a slot in the past');
+    }
+
+    // 4b. Validate the host's minimum notice, booking horizon and buffers
+    await availabilityService.assertBookable(slot, tx);
+
+    // 5-7. Validate the guest may book with this host
+    const policy = await this.assertCanBook(tx, userId, slot);
+
+    // 7b. Validate the answers to the intake questions
+    const answerData = await intakeQuestionService.validateAnswers(slot, answers, tx);
+
+    // 8. Count taken seats (pending requests hold theirs); the slot row lock
+    //    serializes concurrent bookings
+    const takenSeats = await bookingRepository.countTakenSeatsBySlot(slot.id, tx);
+    if (takenSeats >= slot.capacity) {
+      throw new ConflictError('Slot is no longer available');
+    }
+
+    // 9. Mark the slot BOOKED once this booking takes the last seat
+    if (takenSeats + 1 >= slot.capacity) {
+      await slotRepository.updateStatus(slot.id, SlotStatus.BOOKED, tx);
+    }
+
+    // 10. Create the booking, as a request if the host approves bookings
+    const booking = await this.insertBooking(tx, slot, userId, policy, rescheduledFromId);
+    await bookingAnswerRepository.createMany(
+      booking.id,
+      answerData.map(({ questionId, question, answer, position }) => ({ questionId, question, answer, position })),
+      tx
+    );
+
+    return booking;
+  }
+
+  /**
+   * Create a booking of a locked slot along with its outbox event
+   * Under a policy that requires approval the booking is a PENDING request
+   * (booking.requested), expiring BOOKING_APPROVAL_TTL_HOURS from now or when
+   * the slot starts, whichever comes first.
+   */
+  private async insertBooking(
+    tx: Prisma.TransactionClient,
+    slot: Slot,
+    userId: string,
+    policy: HostPolicyResponse,
+    rescheduledFromId?: string
+  ): Promise<Booking> {
+    if (!policy.requiresApproval) {
+      const booking = await bookingRepository.create(tx, { slotId: slot.id, userId, rescheduledFromId });
+      await this.recordBookingCreated(tx, booking, slot);
+      return booking;
+    }
+
+    const approvalExpiresAt = new Date(
+      Math.min(Date.now() + BOOKING_APPROVAL_TTL_HOURS * HOUR_MS, slot.startTime.getTime())
+    );
+    const booking = await bookingRepository.create(tx, {
+      slotId: slot.id,
+      userId,
+      rescheduledFromId,
+      approvalExpiresAt,
+    });
+    await outboxEventRepository.create(tx, 'booking.requested', {
+      bookingId: booking.id,
+      slotId: slot.id,
+      guestId: userId,
+      hostId: slot.hostId,
+      rescheduledFromId: booking.rescheduledFromId,
+      slotStartTime: slot.startTime,
+      slotEndTime: slot.endTime,
+      approvalExpiresAt,
+    });
+
+    return booking;
+  }
+
+  /**
+   * Record a booking.created event in the outbox of the booking transaction
+   */
+  private async recordBookingCreated(
+    tx: Prisma.TransactionClient,
+    booking: Booking,
+    slot: Slot
+  ): Promise<void> {
+    await outboxEventRepository.create(tx, 'booking.created', {
+      bookingId: booking.id,
+      slotId: slot.id,
+      guestId: booking.userId,
+      hostId: slot.hostId,
+      rescheduledFromId: booking.rescheduledFromId,
+      slotStartTime: slot.startTime,
+      slotEndTime: slot.endTime,
+    });
+  }
+
+  /**
+   * Validate the per-guest booking rules for a slot, under the host's policy
+   * (falling back to the platform defaults)
+   * - User cannot book their own slot
+   * - User can have at most maxActiveBookings active bookings
+   * - User can only have one active booking per host, unless allowMultipleBookings
+   * - Host takes at most maxBookingsPerDay bookings on the slot's day (host's time zone)
+   * Returns the policy, which also tells whether the booking needs approval
+   */
+  private async assertCanBook(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    slot: Slot
+  ): Promise<HostPolicyResponse> {
+    if (slot.hostId === userId) {
+      throw new BadRequestError('You cannot book your own slot');
+    }
 
-      // 7. Check if user already has an active booking with this host
+    const policy = await hostPolicyService.getEffectivePolicy(slot.hostId, tx);
+
+    const activeBookings = await bookingRepository.countActiveBookings(userId, tx);
+    if (activeBookings >= policy.maxActiveBookings) {
+      throw new ConflictError(
+        `You have reached the maximum of ${policy.maxActiveBookings} active bookings`
+      );
+    }
+
+    if (!policy.allowMultipleBookings) {
       const existingBookingWithHost = await bookingRepository.countActiveBookingsWithHost(
         userId,
         slot.hostId,
@@ -71,23 +319,95 @@ export class BookingService {
           'You already have an active booking with this host'
         );
       }
+    }
 
-      // 8. Update slot status to BOOKED
-      await slotRepository.updateStatus(slotId, SlotStatus.BOOKED, tx);
+    if (policy.maxBookingsPerDay !== null) {
+      const host = await userRepository.findById(slot.hostId, tx);
+      const timeZone = host?.timeZone ?? DEFAULT_TIME_ZONE;
+      const bookingsThatDay = await bookingRepository.countActiveByHostInRange(
+        slot.hostId,
+        startOfDayInTimeZone(slot.startTime, timeZone),
+        endOfDayInTimeZone(slot.startTime, timeZone),
+        tx
+      );
+      if (bookingsThatDay >= policy.maxBookingsPerDay) {
+        throw new ConflictError(
+          `This host takes at most ${policy.maxBookingsPerDay} booking(s) per day`
+        );
+      }
+    }
 
-      // 9. Create the booking
-      return bookingRepository.create(tx, { slotId, userId });
-    }, {
-      // Transaction options for better concurrency handling
-      isolationLevel: 'Serializable', // Highest isolation level
-      timeout: 10000, // 10 second timeout
-    });
+    return policy;
+  }
+
+  /**
+   * Give a freed seat of a locked slot to the first eligible waitlisted guest
+   * Guests who have become ineligible (e.g. reached maxActiveBookings) are skipped
+   * but keep their place in line for the next freed seat. Nobody is promoted once
+   * the host's booking rules no longer allow booking the slot (e.g. minimum notice).
+   * Returns the new booking, or null if nobody could be promoted.
+   */
+  private async promoteFromWaitlist(
+    tx: Prisma.TransactionClient,
+    slot: Slot
+  ): Promise<Booking | null> {
+    if (slot.status === SlotStatus.CANCELLED || slot.startTime <= new Date()) {
+      return null;
+    }
+
+    // Only a seat that is actually free can be given away
+    const takenSeats = await bookingRepository.countTakenSeatsBySlot(slot.id, tx);
+    if (takenSeats >= slot.capacity) {
+      return null;
+    }
+
+    try {
+      await availabilityService.assertBookable(slot, tx);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return null;
+      }
+      throw error;
+    }
+
+    const entries = await waitlistRepository.findWaitingBySlot(slot.id, tx);
+
+    for (const entry of entries) {
+      const policy = await this.assertCanBook(tx, entry.userId, slot).catch((error: unknown) => {
+        if (error instanceof AppError) {
+          return null;
+        }
+        throw error;
+      });
+      if (!policy) {
+        continue;
+      }
+
+      if (await bookingRepository.hasActiveBooking(slot.id, entry.userId, tx)) {
+        continue;
+      }
+
+      // Under a policy that requires approval the promoted guest gets a request
+      const booking = await this.insertBooking(tx, slot, entry.userId, policy);
+      await waitlistRepository.updateStatus(entry.id, WaitlistStatus.PROMOTED, booking.id, tx);
+
+      return booking;
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetch full booking details after a write
+   */
+  private async getBookingResponse(
+    bookingId: string,
+    missingMessage: string
+  ): Promise<BookingResponse> {
+    const bookingDetails = await bookingRepository.findByIdWithDetails(bookingId);
 
-    // Fetch full booking details
-    const bookingDetails = await bookingRepository.findByIdWithDetails(booking.id);
-    
     if (!bookingDetails) {
-      throw new Error('Booking created but could not be retrieved');
+      throw new Error(missingMessage);
     }
 
     return this.formatBookingResponse(bookingDetails);
@@ -98,7 +418,10 @@ export class BookingService {
    * 
    * Business Rules:
    * - Only the user who made the booking can cancel it
-   * - Cancellation is only allowed more than CANCELLATION_WINDOW_HOURS before slot start
+   * - Cancellation is only allowed at least the host policy's cancellationWindowHours
+   *   (CANCELLATION_WINDOW_HOURS by default) before slot start; a PENDING request
+   *   can be withdrawn any time
+   * - The freed seat goes to the first eligible guest on the slot's waitlist, if any
    */
   async cancelBooking(userId: string, bookingId: string): Promise<BookingResponse> {
     const booking = await bookingRepository.findByIdWithDetails(bookingId);
@@ -118,30 +441,391 @@ export class BookingService {
     }
 
     // Check cancellation window
-    const now = new Date();
-    const slotStartTime = new Date(booking.slot.startTime);
-    const hoursUntilSlot = (slotStartTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+    if (booking.status !== BookingStatus.PENDING) {
+      await this.assertOutsideCancellationWindow(booking.slot);
+    }
 
-    if (hoursUntilSlot < CANCELLATION_WINDOW_HOURS) {
-      throw new BadRequestError(
-        `Cancellation is only allowed at least ${CANCELLATION_WINDOW_HOURS} hour(s) before the slot start time`
+    // Cancel the booking and free its seat
+    await this.runBookingTransaction(async (tx) => {
+      // Lock the slot so the freed seat is not raced by a concurrent booking
+      const slot = await slotRepository.findByIdForUpdate(tx, booking.slotId);
+
+      // Re-check the booking under the lock; a concurrent cancel may have won
+      const current = await bookingRepository.findById(bookingId, tx);
+      if (current?.status === BookingStatus.CANCELLED) {
+        throw new ConflictError('Booking is already cancelled');
+      }
+
+      await bookingRepository.cancel(bookingId, { cancelledBy: CancellationActor.GUEST }, tx);
+      await this.recordGuestCancellation(tx, booking);
+
+      if (slot) {
+        await this.releaseSeat(tx, slot);
+      }
+    });
+
+    // Fetch updated booking
+    return this.getBookingResponse(bookingId, 'Booking cancelled but could not be retrieved');
+  }
+
+  /**
+   * Cancel a slot as its host, cancelling every confirmed booking (and pending
+   * request) on it
+   *
+   * The slot is marked CANCELLED, remaining waitlist entries are removed, and each
+   * cancelled booking records the host as canceller along with the reason. Guests
+   * are notified through a booking.cancelled event written to the outbox.
+   *
+   * Business Rules:
+   * - Only the slot owner can cancel it
+   * - The slot must not have started yet
+   * - A cancelled slot cannot be cancelled again
+   */
+  async cancelSlotAsHost(
+    hostId: string,
+    slotId: string,
+    reason: string
+  ): Promise<BookingResponse[]> {
+    const bookings = await this.runBookingTransaction(async (tx) => {
+      const slot = await slotRepository.findByIdForUpdate(tx, slotId);
+
+      if (!slot) {
+        throw new NotFoundError('Slot');
+      }
+
+      if (slot.hostId !== hostId) {
+        throw new ForbiddenError('You can only cancel your own slots');
+      }
+
+      if (slot.status === SlotStatus.CANCELLED) {
+        throw new ConflictError('Slot is already cancelled');
+      }
+
+      if (slot.startTime <= new Date()) {
+        throw new BadRequestError('Cannot cancel a slot that has already started');
+      }
+
+      const bookings = await bookingRepository.findActiveBySlot(slotId, tx);
+      for (const booking of bookings) {
+        await bookingRepository.cancel(
+          booking.id,
+          { cancelledBy: CancellationActor.HOST, cancellationReason: reason },
+          tx
+        );
+        await outboxEventRepository.create(tx, 'booking.cancelled', {
+          bookingId: booking.id,
+          slotId,
+          guestId: booking.userId,
+          hostId,
+          cancelledBy: CancellationActor.HOST,
+          reason,
+          slotStartTime: slot.startTime,
+          slotEndTime: slot.endTime,
+        });
+      }
+
+      await waitlistRepository.removeWaitingBySlot(slotId, tx);
+      await slotRepository.updateStatus(slotId, SlotStatus.CANCELLED, tx);
+
+      return bookings;
+    });
+
+    return Promise.all(
+      bookings.map((booking) =>
+        this.getBookingResponse(booking.id, 'Booking cancelled but could not be retrieved'))
+    );
+  }
+
+  /**
+   * Move a booking to another slot atomically
+   *
+   * Both slots are locked with SELECT FOR UPDATE in ascending id order, so two
+   * reschedules between the same pair of slots cannot deadlock. The old booking is
+   * cancelled and the new one created in one serializable transaction: if the new
+   * slot cannot be booked, the guest keeps the original booking.
+   *
+   * Business Rules:
+   * - Only the user who made the booking can reschedule it
+   * - Only confirmed bookings can be rescheduled, to a different slot
+   * - The old slot is subject to its host's cancellation window
+   * - The new slot is subject to the usual booking rules; the booking being
+   *   replaced does not count towards the active booking limits
+   * - Slots of hosts who approve bookings are rejected: the confirmed booking
+   *   would otherwise be traded for a request the host may decline
+   * - The answers of the original booking are carried over unless new ones are
+   *   given; either must satisfy the new slot's intake questions
+   */
+  async rescheduleBooking(
+    userId: string,
+    bookingId: string,
+    targetSlotId: string,
+    answers?: IntakeAnswersInput
+  ): Promise<BookingResponse> {
+    const booking = await bookingRepository.findByIdWithDetails(bookingId);
+
+    if (!booking) {
+      throw new NotFoundError('Booking');
+    }
+
+    if (booking.userId !== userId) {
+      throw new ForbiddenError('You can only reschedule your own bookings');
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new ConflictError('Only confirmed bookings can be rescheduled');
+    }
+
+    if (booking.slotId === targetSlotId) {
+      throw new BadRequestError('Booking is already for this slot');
+    }
+
+    await this.assertOutsideCancellationWindow(booking.slot);
+
+    const newBooking = await this.runBookingTransaction(async (tx) => {
+      // 1. Lock both slots in a deterministic order
+      const [firstId, secondId] = [booking.slotId, targetSlotId].sort();
+      const firstSlot = await slotRepository.findByIdForUpdate(tx, firstId);
+      const secondSlot = await slotRepository.findByIdForUpdate(tx, secondId);
+      const oldSlot = firstId === booking.slotId ? firstSlot : secondSlot;
+      const targetSlot = firstId === targetSlotId ? firstSlot : secondSlot;
+
+      if (!targetSlot) {
+        throw new NotFoundError('Slot');
+      }
+
+      // 2. Re-check the booking under the lock; a concurrent cancel may have won
+      const current = await bookingRepository.findById(bookingId, tx);
+      if (current?.status !== BookingStatus.CONFIRMED) {
+        throw new ConflictError('Only confirmed bookings can be rescheduled');
+      }
+
+      // 2b. Keep the confirmed booking rather than trade it for a request the host may decline
+      const { requiresApproval } = await hostPolicyService.getEffectivePolicy(targetSlot.hostId, tx);
+      if (requiresApproval) {
+        throw new ConflictError(
+          'This host approves bookings; request the new slot instead of rescheduling'
+        );
+      }
+
+      // 3. Cancel the old booking so it no longer counts towards the limits
+      await bookingRepository.cancel(bookingId, { cancelledBy: CancellationActor.GUEST }, tx);
+      await this.recordGuestCancellation(tx, booking);
+
+      // 4. Book the new slot, linked to the booking it replaces
+      const created = await this.bookLockedSlot(
+        tx,
+        userId,
+        targetSlot,
+        answers ?? await this.carriedOverAnswers(tx, bookingId),
+        bookingId
       );
+
+      // 5. Free the seat on the old slot
+      if (oldSlot) {
+        await this.releaseSeat(tx, oldSlot);
+      }
+
+      return created;
+    });
+
+    return this.getBookingResponse(newBooking.id, 'Booking rescheduled but could not be retrieved');
+  }
+
+  /**
+   * The answers of a booking keyed by question, to be validated for the slot it moves to
+   * Answers to questions the host has since removed are dropped.
+   */
+  private async carriedOverAnswers(
+    tx: Prisma.TransactionClient,
+    bookingId: string
+  ): Promise<IntakeAnswersInput> {
+    const answers = await bookingAnswerRepository.findByBooking(bookingId, tx);
+
+    return Object.fromEntries(
+      answers
+        .filter((answer) => answer.questionId !== null)
+        .map((answer) => [answer.questionId, answer.answer])
+    );
+  }
+
+  /**
+   * Approve a booking request as the host of its slot
+   *
+   * The booking becomes CONFIRMED and a booking.created event is recorded, so the
+   * guest is notified and reminded like for any new booking.
+   *
+   * Business Rules:
+   * - Only the slot's host can approve a request
+   * - Only PENDING requests that have not expired can be approved
+   */
+  async approveBooking(hostId: string, bookingId: string): Promise<BookingResponse> {
+    await this.runBookingTransaction(async (tx) => {
+      const { booking, slot } = await this.lockPendingRequest(tx, hostId, bookingId);
+
+      const confirmed = await bookingRepository.confirm(booking.id, tx);
+      await this.recordBookingCreated(tx, confirmed, slot);
+    });
+
+    return this.getBookingResponse(bookingId, 'Booking approved but could not be retrieved');
+  }
+
+  /**
+   * Decline a booking request as the host of its slot
+   * The request is cancelled with the host as canceller and the freed seat goes to
+   * the waitlist. Same rules as approveBooking.
+   */
+  async declineBooking(
+    hostId: string,
+    bookingId: string,
+    reason?: string
+  ): Promise<BookingResponse> {
+    await this.runBookingTransaction(async (tx) => {
+      const { booking, slot } = await this.lockPendingRequest(tx, hostId, bookingId);
+
+      await this.rejectRequest(tx, booking, slot, CancellationActor.HOST, reason ?? null);
+    });
+
+    return this.getBookingResponse(bookingId, 'Booking declined but could not be retrieved');
+  }
+
+  /**
+   * Cancel a booking request the host did not answer before it expired
+   * Returns whether it was expired: false once the request was answered or
+   * withdrawn, or if it does not expire yet. Safe to call repeatedly.
+   */
+  async expirePendingBooking(bookingId: string): Promise<boolean> {
+    return this.runBookingTransaction(async (tx) => {
+      const found = await bookingRepository.findById(bookingId, tx);
+      if (!found) {
+        return false;
+      }
+
+      const slot = await slotRepository.findByIdForUpdate(tx, found.slotId);
+      // Re-read under the slot lock; the host may have answered meanwhile
+      const booking = await bookingRepository.findById(bookingId, tx);
+      const isExpired =
+        booking?.status === BookingStatus.PENDING &&
+        booking.approvalExpiresAt !== null &&
+        booking.approvalExpiresAt <= new Date();
+      if (!slot || !booking || !isExpired) {
+        return false;
+      }
+
+      await this.rejectRequest(tx, booking, slot, CancellationActor.SYSTEM, null);
+      return true;
+    });
+  }
+
+  /**
+   * Lock the slot of a booking request the host is answering, and validate it
+   */
+  private async lockPendingRequest(
+    tx: Prisma.TransactionClient,
+    hostId: string,
+    bookingId: string
+  ): Promise<{ booking: Booking; slot: Slot }> {
+    const found = await bookingRepository.findById(bookingId, tx);
+    if (!found) {
+      throw new NotFoundError('Booking');
+    }
+
+    const slot = await slotRepository.findByIdForUpdate(tx, found.slotId);
+    if (!slot) {
+      throw new NotFoundError('Slot');
     }
 
-    // Cancel the booking and make slot available again
-    await prisma.$transaction(async (tx) => {
-      await bookingRepository.updateStatus(bookingId, BookingStatus.CANCELLED, tx);
-      await slotRepository.updateStatus(booking.slotId, SlotStatus.AVAILABLE, tx);
+    if (slot.hostId !== hostId) {
+      throw new ForbiddenError('You can only answer booking requests for your own slots');
+    }
+
+    // Re-read under the slot lock; a concurrent answer or expiry may have won
+    const booking = await bookingRepository.findById(bookingId, tx);
+    if (booking?.status !== BookingStatus.PENDING) {
+      throw new ConflictError('Only pending booking requests can be approved or declined');
+    }
+
+    if (booking.approvalExpiresAt && booking.approvalExpiresAt <= new Date()) {
+      throw new ConflictError('Booking request has expired');
+    }
+
+    return { booking, slot };
+  }
+
+  /**
+   * Cancel a declined (or expired) booking request of a locked slot and free its seat
+   */
+  private async rejectRequest(
+    tx: Prisma.TransactionClient,
+    booking: Booking,
+    slot: Slot,
+    cancelledBy: CancellationActor,
+    reason: string | null
+  ): Promise<void> {
+    await bookingRepository.cancel(
+      booking.id,
+      { cancelledBy, cancellationReason: reason ?? undefined },
+      tx
+    );
+    await outboxEventRepository.create(tx, 'booking.declined', {
+      bookingId: booking.id,
+      slotId: slot.id,
+      guestId: booking.userId,
+      hostId: slot.hostId,
+      reason,
+      expired: cancelledBy === CancellationActor.SYSTEM,
+      slotStartTime: slot.startTime,
+      slotEndTime: slot.endTime,
     });
 
-    // Fetch updated booking
-    const updatedBooking = await bookingRepository.findByIdWithDetails(bookingId);
-    
-    if (!updatedBooking) {
-      throw new Error('Booking cancelled but could not be retrieved');
+    await this.releaseSeat(tx, slot);
+  }
+
+  /**
+   * Reject changes to a booking within the host's cancellation window of the slot start
+   */
+  private async assertOutsideCancellationWindow(
+    slot: Pick<Slot, 'hostId' | 'startTime'>
+  ): Promise<void> {
+    const { cancellationWindowHours } = await hostPolicyService.getEffectivePolicy(slot.hostId);
+    const hoursUntilSlot = (slot.startTime.getTime() - Date.now()) / (1000 * 60 * 60);
+
+    if (hoursUntilSlot < cancellationWindowHours) {
+      throw new BadRequestError(
+        `Cancellation is only allowed at least ${cancellationWindowHours} hour(s) before the slot start time`
+      );
     }
+  }
 
-    return this.formatBookingResponse(updatedBooking);
+  /**
+   * Free a seat of a locked slot after one of its bookings was cancelled
+   * The seat goes to the waitlist first; a full slot becomes AVAILABLE otherwise.
+   * Other statuses (e.g. CANCELLED) are left alone.
+   */
+  private async releaseSeat(tx: Prisma.TransactionClient, slot: Slot): Promise<void> {
+    const promoted = await this.promoteFromWaitlist(tx, slot);
+
+    if (!promoted && slot.status === SlotStatus.BOOKED) {
+      await slotRepository.updateStatus(slot.id, SlotStatus.AVAILABLE, tx);
+    }
+  }
+
+  /**
+   * Record a booking.cancelled event for a guest cancelling their own booking
+   */
+  private async recordGuestCancellation(
+    tx: Prisma.TransactionClient,
+    booking: BookingWithDetails
+  ): Promise<void> {
+    await outboxEventRepository.create(tx, 'booking.cancelled', {
+      bookingId: booking.id,
+      slotId: booking.slotId,
+      guestId: booking.userId,
+      hostId: booking.slot.hostId,
+      cancelledBy: CancellationActor.GUEST,
+      reason: null,
+      slotStartTime: booking.slot.startTime,
+      slotEndTime: booking.slot.endTime,
+    });
   }
 
   /**
@@ -168,7 +852,8 @@ export class BookingService {
   }
 
   /**
-   * Get a single booking by ID
+   * Get a single booking by ID, as its guest or the host of its slot
+   * Only they can see the answers to the intake questions.
    */
   async getBookingById(userId: string, bookingId: string): Promise<BookingResponse | null> {
     const booking = await bookingRepository.findByIdWithDetails(bookingId);
@@ -177,9 +862,9 @@ export class BookingService {
       return null;
     }
 
-    // Users can only view their own bookings
-    if (booking.userId !== userId) {
-      throw new ForbiddenError('You can only view your own bookings');
+    // Users can only view their own bookings and the bookings of their slots
+    if (booking.userId !== userId && booking.slot.hostId !== userId) {
+      throw new ForbiddenError('You can only view your own bookings or bookings of your slots');
     }
 
     return this.formatBookingResponse(booking);
@@ -201,7 +886,21 @@ export class BookingService {
         startTime: booking.slot.startTime,
         endTime: booking.slot.endTime,
         status: booking.slot.status as SlotStatus,
+        title: booking.slot.title,
+        description: booking.slot.description,
+        locationType: booking.slot.locationType,
+        location: booking.slot.location,
+        meetingUrl: booking.slot.meetingUrl,
       },
+      rescheduledFromId: booking.rescheduledFromId,
+      cancelledBy: booking.cancelledBy,
+      cancellationReason: booking.cancellationReason,
+      approvalExpiresAt: booking.approvalExpiresAt,
+      answers: booking.answers.map((answer) => ({
+        questionId: answer.questionId,
+        question: answer.question,
+        answer: answer.answer,
+      })),
       createdAt: booking.createdAt,
       updatedAt: booking.updatedAt,
     };
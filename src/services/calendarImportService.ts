@@ -0,0 +1,340 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { BusyBlock, UserRole } from '@prisma/client';
+import { busyBlockRepository, slotRepository } from '../repositories';
+import { slotService } from './slotService';
+import {
+  BadRequestError,
+  BusyBlockResponse,
+  CalendarImportResponse,
+  ForbiddenError,
+  ImportedEvent,
+  NotFoundError,
+  SkippedImportEvent,
+  UserContext,
+} from '../types';
+import {
+  CALENDAR_IMPORT_HORIZON_DAYS,
+  CALENDAR_IMPORT_MAX_BYTES,
+  CALENDAR_IMPORT_MAX_REDIRECTS,
+  CALENDAR_IMPORT_TIMEOUT_MS,
+} from '../utils/constants';
+import { isSlotOverlapError } from '../utils/dbErrors';
+import { expandICalEvents, ICalOccurrence, ICalParseError, parseICalendar } from '../utils/icalParser';
+import { isNonPublicAddress, publicOnlyLookup, urlHost } from '../utils/network';
+import { DAY_MS, rangesOverlap } from '../utils/time';
+import { ImportCalendarInput } from '../utils/validation';
+
+export class CalendarImportService {
+  /**
+   * Import events of an iCalendar file (uploaded or downloaded from a URL)
+   *
+   * Events from now up to CALENDAR_IMPORT_HORIZON_DAYS ahead are imported, with
+   * recurring events expanded into their occurrences:
+   * - BUSY: busy (opaque) events become busy blocks, which overlap checks and
+   *   availability windows treat like existing slots
+   * - SLOTS: free (transparent) events become available slots
+   * A dry run returns the same result without writing anything (`id` is null).
+   */
+  async importCalendar(
+    host: UserContext,
+    input: ImportCalendarInput
+  ): Promise<CalendarImportResponse> {
+    if (!host.roles.includes(UserRole.HOST)) {
+      throw new ForbiddenError('Only hosts can import calendars');
+    }
+
+    const text = input.ics ?? await this.download(input.url!);
+    if (Buffer.byteLength(text, 'utf8') > CALENDAR_IMPORT_MAX_BYTES) {
+      throw new BadRequestError('Calendar file is too large');
+    }
+
+    const now = new Date();
+    let expanded: ReturnType<typeof expandICalEvents>;
+    try {
+      expanded = expandICalEvents(parseICalendar(text), {
+        timeZone: host.timeZone,
+        from: now,
+        to: new Date(now.getTime() + CALENDAR_IMPORT_HORIZON_DAYS * DAY_MS),
+      });
+    } catch (error) {
+      if (error instanceof ICalParseError) {
+        throw new BadRequestError(`Invalid iCalendar file: ${error.message}`);
+      }
+      throw error;
+    }
+
+    // Busy events block time; free events offer it
+    const candidates = expanded.occurrences.filter(
+      (occurrence) => occurrence.transparent === (input.mode === 'SLOTS')
+    );
+    const result = input.mode === 'SLOTS'
+      ? await this.importSlots(host.userId, candidates, input.dryRun, input.capacity)
+      : await this.importBusyBlocks(host.userId, candidates, input.dryRun);
+
+    return {
+      mode: input.mode,
+      dryRun: input.dryRun,
+      created: result.created,
+      skipped: [
+        ...result.skipped,
+        ...expanded.unsupported.map((occurrence) => this.toSkipped(occurrence, 'UNSUPPORTED_RECURRENCE')),
+      ],
+    };
+  }
+
+  /**
+   * List a host's current and upcoming busy blocks
+   */
+  async getBusyBlocks(hostId: string): Promise<BusyBlockResponse[]> {
+    const blocks = await busyBlockRepository.findByHost(hostId, new Date());
+    return blocks.map((block) => this.formatBusyBlockResponse(block));
+  }
+
+  /**
+   * Delete a busy block, freeing its time again
+   */
+  async deleteBusyBlock(hostId: string, blockId: string): Promise<void> {
+    const block = await busyBlockRepository.findById(blockId);
+
+    if (!block) {
+      throw new NotFoundError('Busy block');
+    }
+
+    // Verify ownership
+    if (block.hostId !== hostId) {
+      throw new ForbiddenError('You can only delete your own busy blocks');
+    }
+
+    await busyBlockRepository.delete(blockId);
+  }
+
+  /**
+   * Create busy blocks, skipping occurrences imported before (same UID and start)
+   */
+  private async importBusyBlocks(
+    hostId: string,
+    occurrences: ICalOccurrence[],
+    dryRun: boolean
+  ): Promise<{ created: ImportedEvent[]; skipped: SkippedImportEvent[] }> {
+    const existing = await busyBlockRepository.findByHost(hostId, new Date());
+    const seen = new Set(existing.map((block) => this.occurrenceKey(block)));
+    const pending: ICalOccurrence[] = [];
+    const skipped: SkippedImportEvent[] = [];
+
+    for (const occurrence of occurrences) {
+      const key = this.occurrenceKey(occurrence);
+      if (seen.has(key)) {
+        skipped.push(this.toSkipped(occurrence, 'DUPLICATE'));
+        continue;
+      }
+      seen.add(key);
+      pending.push(occurrence);
+    }
+
+    if (dryRun) {
+      return { created: pending.map((occurrence) => this.toImported(occurrence, null)), skipped };
+    }
+
+    const blocks = await busyBlockRepository.createMany(
+      hostId,
+      pending.map(({ uid, summary, startTime, endTime }) => ({ uid, summary, startTime, endTime }))
+    );
+
+    return {
+      created: blocks
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+        .map((block) => this.toImported(block, block.id)),
+      skipped,
+    };
+  }
+
+  /**
+   * Create available slots, skipping occurrences that start in the past or
+   * overlap existing slots, busy blocks or each other
+   */
+  private async importSlots(
+    hostId: string,
+    occurrences: ICalOccurrence[],
+    dryRun: boolean,
+    capacity?: number
+  ): Promise<{ created: ImportedEvent[]; skipped: SkippedImportEvent[] }> {
+    const created: ImportedEvent[] = [];
+    const skipped: SkippedImportEvent[] = [];
+    const now = new Date();
+
+    for (const occurrence of occurrences) {
+      if (occurrence.startTime <= now) {
+        skipped.push(this.toSkipped(occurrence, 'IN_PAST'));
+        continue;
+      }
+
+      const hasOverlap =
+        created.some((slot) => rangesOverlap(slot, occurrence)) ||
+        await slotRepository.hasOverlap(hostId, occurrence.startTime, occurrence.endTime);
+      if (hasOverlap) {
+        skipped.push(this.toSkipped(occurrence, 'OVERLAP'));
+        continue;
+      }
+
+      if (dryRun) {
+        created.push(this.toImported(occurrence, null));
+        continue;
+      }
+
+      try {
+        const slot = await slotService.insertSlot({
+          hostId,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          capacity,
+        });
+        created.push(this.toImported(occurrence, slot.id));
+      } catch (error) {
+        if (!isSlotOverlapError(error)) {
+          throw error;
+        }
+        skipped.push(this.toSkipped(occurrence, 'OVERLAP'));
+      }
+    }
+
+    return { created, skipped };
+  }
+
+  /**
+   * Download an iCalendar file, failing with a BadRequestError the host can act on
+   *
+   * Only public addresses are reached, also across redirects, unless
+   * CALENDAR_IMPORT_ALLOW_PRIVATE_URLS=true. The body is read up to
+   * CALENDAR_IMPORT_MAX_BYTES and the download aborted beyond that.
+   */
+  private async download(url: string): Promise<string> {
+    const signal = AbortSignal.timeout(CALENDAR_IMPORT_TIMEOUT_MS);
+    let target = new URL(url);
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const response = await this.request(target, signal);
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+
+        if (status >= 300 && status < 400 && location) {
+          response.resume();
+          if (redirects >= CALENDAR_IMPORT_MAX_REDIRECTS) {
+            throw new BadRequestError('Could not download calendar: too many redirects');
+          }
+          target = new URL(location, target);
+          continue;
+        }
+
+        if (status < 200 || status >= 300) {
+          response.resume();
+          throw new BadRequestError(`Could not download calendar: HTTP ${status}`);
+        }
+
+        return await this.readBody(response);
+      }
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        throw error;
+      }
+      throw new BadRequestError(
+        `Could not download calendar: ${error instanceof Error ? error.message : 'Request failed'}`
+      );
+    }
+  }
+
+  /**
+   * GET a calendar URL; host names are resolved with publicOnlyLookup
+   */
+  private request(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return Promise.reject(new BadRequestError('Calendar URL must use http or https'));
+    }
+
+    const allowPrivate = process.env.CALENDAR_IMPORT_ALLOW_PRIVATE_URLS === 'true';
+    const host = urlHost(url);
+    if (!allowPrivate && net.isIP(host) && isNonPublicAddress(host)) {
+      return Promise.reject(new BadRequestError('Calendar URL must point to a public address'));
+    }
+
+    const get = url.protocol === 'https:' ? https.get : http.get;
+    return new Promise((resolve, reject) => {
+      get(url, {
+        headers: { Accept: 'text/calendar' },
+        signal,
+        lookup: allowPrivate ? undefined : publicOnlyLookup,
+      }, resolve).on('error', reject);
+    });
+  }
+
+  /**
+   * Read a response body, aborting once it exceeds CALENDAR_IMPORT_MAX_BYTES
+   */
+  private async readBody(response: http.IncomingMessage): Promise<string> {
+    const tooLarge = new BadRequestError('Calendar file is too large');
+
+    if (Number(response.headers['content-length']) > CALENDAR_IMPORT_MAX_BYTES) {
+      response.destroy();
+      throw tooLarge;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response) {
+      size += (chunk as Buffer).length;
+      if (size > CALENDAR_IMPORT_MAX_BYTES) {
+        response.destroy();
+        throw tooLarge;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private occurrenceKey(occurrence: { uid: string; startTime: Date }): string {
+    return `${occurrence.uid}|${occurrence.startTime.getTime()}`;
+  }
+
+  private toImported(
+    occurrence: Pick<ICalOccurrence, 'uid' | 'summary' | 'startTime' | 'endTime'>,
+    id: string | null
+  ): ImportedEvent {
+    return {
+      id,
+      uid: occurrence.uid,
+      summary: occurrence.summary,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+    };
+  }
+
+  private toSkipped(occurrence: ICalOccurrence, reason: SkippedImportEvent['reason']): SkippedImportEvent {
+    return {
+      uid: occurrence.uid,
+      summary: occurrence.summary,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      reason,
+    };
+  }
+
+  /**
+   * Format busy block data for API response
+   */
+  private formatBusyBlockResponse(block: BusyBlock): BusyBlockResponse {
+    return {
+      id: block.id,
+      hostId: block.hostId,
+      uid: block.uid,
+      summary: block.summary,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      createdAt: block.createdAt,
+    };
+  }
+}
+
+export const calendarImportService = new CalendarImportService();
@@ -0,0 +1,146 @@
+import { BookingStatus, Slot, SlotStatus, UserRole } from '@prisma/client';
+import { bookingRepository, slotRepository, userRepository, BookingWithParticipants } from '../repositories';
+import { ForbiddenError, NotFoundError } from '../types';
+import { CALENDAR_FEED_PAST_DAYS } from '../utils/constants';
+import { generateToken, hashToken } from '../utils/crypto';
+import { buildCalendar, CalendarEvent } from '../utils/ical';
+import { describeLocation } from '../utils/location';
+import { DAY_MS } from '../utils/time';
+
+// Domain part of event UIDs; must never change, or calendars duplicate every event
+const UID_DOMAIN = 'slot-booking-system';
+
+export class CalendarService {
+  /**
+   * Build an invite (.ics) for a booking, for its guest or host
+   * A cancelled booking yields METHOD:CANCEL with the same UID and a higher
+   * SEQUENCE, so importing it removes the event added for the confirmed booking.
+   */
+  async getBookingInvite(userId: string, bookingId: string): Promise<string> {
+    const booking = await bookingRepository.findByIdWithParticipants(bookingId);
+
+    if (!booking) {
+      throw new NotFoundError('Booking');
+    }
+
+    if (booking.userId !== userId && booking.slot.hostId !== userId) {
+      throw new ForbiddenError('You can only download your own bookings');
+    }
+
+    return buildCalendar({
+      method: booking.status === BookingStatus.CANCELLED ? 'CANCEL' : 'REQUEST',
+      events: [{
+        ...this.toBookingEvent(booking),
+        organizer: booking.slot.host,
+        attendee: booking.user,
+      }],
+    });
+  }
+
+  /**
+   * Create (or rotate) the secret calendar feed token of a user
+   * Only a hash is stored, so the token is returned once; rotating revokes the old URL.
+   */
+  async createFeedToken(userId: string): Promise<string> {
+    const token = generateToken();
+    await userRepository.update(userId, { calendarFeedTokenHash: hashToken(token) });
+    return token;
+  }
+
+  /**
+   * Build the subscribable feed of the user owning `token`
+   *
+   * Lists the user's bookings and, for hosts, their slots, from CALENDAR_FEED_PAST_DAYS
+   * ago onwards. Cancelled ones stay in the feed with STATUS:CANCELLED so subscribed
+   * calendars update the existing event.
+   */
+  async getFeed(token: string): Promise<string> {
+    const user = await userRepository.findByCalendarFeedTokenHash(hashToken(token));
+
+    if (!user) {
+      throw new NotFoundError('Calendar feed');
+    }
+
+    const since = new Date(Date.now() - CALENDAR_FEED_PAST_DAYS * DAY_MS);
+    const bookings = await bookingRepository.findForCalendar(user.id, since);
+    const slots = user.roles.includes(UserRole.HOST)
+      ? await slotRepository.findForCalendar(user.id, since)
+      : [];
+
+    return buildCalendar({
+      name: `${user.name} - Bookings`,
+      events: [
+        ...bookings.map((booking) => this.toBookingEvent(booking)),
+        ...slots.map((slot) => this.toSlotEvent(slot)),
+      ],
+    });
+  }
+
+  private toBookingEvent(booking: BookingWithParticipants): CalendarEvent {
+    const cancelled = booking.status === BookingStatus.CANCELLED;
+    // Requests waiting for the host's approval show as tentative
+    const pending = booking.status === BookingStatus.PENDING;
+
+    return {
+      uid: `booking-${booking.id}@${UID_DOMAIN}`,
+      sequence: booking.icalSequence,
+      start: booking.slot.startTime,
+      end: booking.slot.endTime,
+      updatedAt: booking.updatedAt,
+      summary: `${cancelled ? 'Cancelled: ' : pending ? 'Pending: ' : ''}` +
+        `${booking.slot.title ?? 'Booking'} with ${booking.slot.host.name}`,
+      description: [
+        booking.slot.description,
+        `Booking ID: ${booking.id}`,
+        booking.cancellationReason ? `Cancellation reason: ${booking.cancellationReason}` : null,
+      ].filter(Boolean).join('\n'),
+      ...this.toEventLocation(booking.slot),
+      status: cancelled ? 'CANCELLED' : pending ? 'TENTATIVE' : 'CONFIRMED',
+    };
+  }
+
+  private toSlotEvent(slot: Slot & { bookings: Array<{ user: { name: string } }> }): CalendarEvent {
+    const guests = slot.bookings.map((booking) => booking.user.name);
+    const seats = `${guests.length}/${slot.capacity} booked`;
+    const title = slot.title ? `${slot.title}: ` : '';
+
+    const event = {
+      uid: `slot-${slot.id}@${UID_DOMAIN}`,
+      sequence: slot.icalSequence,
+      start: slot.startTime,
+      end: slot.endTime,
+      updatedAt: slot.updatedAt,
+      description: [
+        slot.description,
+        guests.length > 0 ? `Guests: ${guests.join(', ')}` : null,
+      ].filter(Boolean).join('\n') || undefined,
+      ...this.toEventLocation(slot),
+    };
+
+    switch (slot.status) {
+      case SlotStatus.CANCELLED:
+        return { ...event, summary: `${title}Cancelled slot`, status: 'CANCELLED' };
+      case SlotStatus.BOOKED:
+        return { ...event, summary: `${title}Booked slot (${seats})`, status: 'CONFIRMED' };
+      default:
+        // Open slots show as free time until a guest books them
+        return {
+          ...event,
+          summary: `${title}Open slot (${seats})`,
+          status: guests.length > 0 ? 'CONFIRMED' : 'TENTATIVE',
+          transparent: guests.length === 0,
+        };
+    }
+  }
+
+  private toEventLocation(
+    slot: Pick<Slot, 'locationType' | 'location' | 'meetingUrl'>
+  ): Pick<CalendarEvent, 'location' | 'url'> {
+    return {
+      location: describeLocation(slot) ?? undefined,
+      url: slot.meetingUrl ?? undefined,
+    };
+  }
+}
+
+export const calendarService = new CalendarService();
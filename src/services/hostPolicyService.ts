@@ -0,0 +1,132 @@
+import { HostPolicy, Prisma, UserRole } from '@prisma/client';
+import { hostPolicyRepository, userRepository } from '../repositories';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  HostPolicyResponse,
+  NotFoundError,
+  UserContext,
+} from '../types';
+import { CANCELLATION_WINDOW_HOURS, MAX_ACTIVE_BOOKINGS } from '../utils/constants';
+import { CreateHostPolicyInput, UpdateHostPolicyInput } from '../utils/validation';
+
+export class HostPolicyService {
+  /**
+   * Get the policy in effect for a host (the platform defaults if they have none)
+   */
+  async getPolicy(hostId: string): Promise<HostPolicyResponse> {
+    const host = await userRepository.findById(hostId);
+
+    if (!host) {
+      throw new NotFoundError('User');
+    }
+
+    return this.getEffectivePolicy(hostId);
+  }
+
+  /**
+   * Get the policy in effect for a host, with platform defaults filled in
+   * Accepts a transaction client so it can be read inside the booking transaction
+   */
+  async getEffectivePolicy(
+    hostId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<HostPolicyResponse> {
+    const policy = await hostPolicyRepository.findByHost(hostId, tx);
+
+    return this.formatPolicyResponse(hostId, policy);
+  }
+
+  /**
+   * Create the current host's policy
+   * Omitted limits keep the platform defaults.
+   */
+  async createPolicy(host: UserContext, data: CreateHostPolicyInput): Promise<HostPolicyResponse> {
+    this.assertHost(host);
+
+    const existing = await hostPolicyRepository.findByHost(host.userId);
+    if (existing) {
+      throw new ConflictError('You already have a host policy');
+    }
+    this.assertBookingRules({ ...this.formatPolicyResponse(host.userId, null), ...data });
+
+    const policy = await hostPolicyRepository.create(host.userId, data);
+
+    return this.formatPolicyResponse(host.userId, policy);
+  }
+
+  /**
+   * Update the current host's policy
+   * The booking limits and approval only apply to new bookings, but the
+   * cancellation window is read when a guest cancels or reschedules, so a new
+   * window also applies to existing bookings.
+   */
+  async updatePolicy(host: UserContext, data: UpdateHostPolicyInput): Promise<HostPolicyResponse> {
+    this.assertHost(host);
+    const current = await this.findOwnPolicy(host.userId);
+    this.assertBookingRules({ ...this.formatPolicyResponse(host.userId, current), ...data });
+
+    const policy = await hostPolicyRepository.update(host.userId, data);
+
+    return this.formatPolicyResponse(host.userId, policy);
+  }
+
+  /**
+   * Delete the current host's policy, reverting to the platform defaults
+   */
+  async deletePolicy(host: UserContext): Promise<void> {
+    this.assertHost(host);
+    await this.findOwnPolicy(host.userId);
+
+    await hostPolicyRepository.delete(host.userId);
+  }
+
+  private assertHost(host: UserContext): void {
+    if (!host.roles.includes(UserRole.HOST)) {
+      throw new ForbiddenError('Only hosts can manage a host policy');
+    }
+  }
+
+  /**
+   * The minimum notice must leave some time before the booking horizon
+   */
+  private assertBookingRules(rules: Pick<HostPolicyResponse, 'minNoticeHours' | 'maxHorizonDays'>): void {
+    if (rules.maxHorizonDays != null && rules.minNoticeHours >= rules.maxHorizonDays * 24) {
+      throw new BadRequestError('Minimum notice must be shorter than the booking horizon');
+    }
+  }
+
+  private async findOwnPolicy(hostId: string): Promise<HostPolicy> {
+    const policy = await hostPolicyRepository.findByHost(hostId);
+
+    if (!policy) {
+      throw new NotFoundError('Host policy');
+    }
+
+    return policy;
+  }
+
+  /**
+   * Format a policy for API response, falling back to the platform defaults
+   */
+  private formatPolicyResponse(hostId: string, policy: HostPolicy | null): HostPolicyResponse {
+    return {
+      id: policy?.id ?? null,
+      hostId,
+      maxActiveBookings: policy?.maxActiveBookings ?? MAX_ACTIVE_BOOKINGS,
+      cancellationWindowHours: policy?.cancellationWindowHours ?? CANCELLATION_WINDOW_HOURS,
+      allowMultipleBookings: policy?.allowMultipleBookings ?? false,
+      maxBookingsPerDay: policy?.maxBookingsPerDay ?? null,
+      requiresApproval: policy?.requiresApproval ?? false,
+      bufferBeforeMinutes: policy?.bufferBeforeMinutes ?? 0,
+      bufferAfterMinutes: policy?.bufferAfterMinutes ?? 0,
+      minNoticeHours: policy?.minNoticeHours ?? 0,
+      maxHorizonDays: policy?.maxHorizonDays ?? null,
+      createdAt: policy?.createdAt ?? null,
+      updatedAt: policy?.updatedAt ?? null,
+    };
+  }
+}
+
+export const hostPolicyService = new HostPolicyService();
@@ -3,3 +3,16 @@ export { bookingService, BookingService } from './bookingService';
 export { analyticsService, AnalyticsService } from './analyticsService';
 export { userService, UserService } from './userService';
 
+export { slotSeriesService, SlotSeriesService } from './slotSeriesService';
+export { availabilityService, AvailabilityService } from './availabilityService';
+export { waitlistService, WaitlistService } from './waitlistService';
+export { authService, AuthService } from './authService';
+export { webhookService, WebhookService } from './webhookService';
+export { reminderService, ReminderService } from './reminderService';
+export { notificationService, NotificationService } from './notificationService';
+export { calendarService, CalendarService } from './calendarService';
+export { calendarImportService, CalendarImportService } from './calendarImportService';
+export { slotChangeService, SlotChangeService } from './slotChangeService';
+export { hostPolicyService, HostPolicyService } from './hostPolicyService';
+export { slotHoldService, SlotHoldService } from './slotHoldService';
+export { intakeQuestionService, IntakeQuestionService } from './intakeQuestionService';
@@ -0,0 +1,155 @@
+import { IntakeQuestion, Prisma, Slot, UserRole } from '@prisma/client';
+import prisma from '../utils/prisma';
+import {
+  BookingAnswerData,
+  intakeQuestionRepository,
+  slotRepository,
+} from '../repositories';
+import {
+  BadRequestError,
+  ForbiddenError,
+  IntakeQuestionResponse,
+  NotFoundError,
+  UserContext,
+} from '../types';
+import {
+  buildIntakeAnswersSchema,
+  IntakeAnswersInput,
+  SetIntakeQuestionsInput,
+} from '../utils/validation';
+
+export class IntakeQuestionService {
+  /**
+   * Get the current host's profile questions, asked for slots without questions of their own
+   */
+  async getHostQuestions(hostId: string): Promise<IntakeQuestionResponse[]> {
+    const questions = await intakeQuestionRepository.findByHost(hostId);
+
+    return questions.map((question) => this.formatQuestionResponse(question));
+  }
+
+  /**
+   * Replace the current host's profile questions
+   * Bookings already made keep their answers.
+   */
+  async setHostQuestions(
+    host: UserContext,
+    data: SetIntakeQuestionsInput
+  ): Promise<IntakeQuestionResponse[]> {
+    if (!host.roles.includes(UserRole.HOST)) {
+      throw new ForbiddenError('Only hosts can manage intake questions');
+    }
+
+    const questions = await prisma.$transaction(async (tx) => {
+      await intakeQuestionRepository.replace(tx, host.userId, null, data.questions);
+      return intakeQuestionRepository.findByHost(host.userId, tx);
+    });
+
+    return questions.map((question) => this.formatQuestionResponse(question));
+  }
+
+  /**
+   * Get the questions guests answer when booking a slot
+   */
+  async getSlotQuestions(slotId: string): Promise<IntakeQuestionResponse[]> {
+    const slot = await slotRepository.findById(slotId);
+
+    if (!slot) {
+      throw new NotFoundError('Slot');
+    }
+
+    const questions = await this.findQuestionsForSlot(slot);
+
+    return questions.map((question) => this.formatQuestionResponse(question));
+  }
+
+  /**
+   * Replace the questions of one of the host's slots
+   * An empty list removes them, so the host's profile questions apply again.
+   */
+  async setSlotQuestions(
+    hostId: string,
+    slotId: string,
+    data: SetIntakeQuestionsInput
+  ): Promise<IntakeQuestionResponse[]> {
+    const slot = await slotRepository.findById(slotId);
+
+    if (!slot) {
+      throw new NotFoundError('Slot');
+    }
+
+    if (slot.hostId !== hostId) {
+      throw new ForbiddenError('You can only manage the questions of your own slots');
+    }
+
+    const questions = await prisma.$transaction(async (tx) => {
+      await intakeQuestionRepository.replace(tx, hostId, slotId, data.questions);
+      return this.findQuestionsForSlot(slot, tx);
+    });
+
+    return questions.map((question) => this.formatQuestionResponse(question));
+  }
+
+  /**
+   * Validate a guest's answers to the questions of a slot, within the booking transaction
+   * Returns the answers to save with the booking, in question order.
+   */
+  async validateAnswers(
+    slot: Slot,
+    answers: IntakeAnswersInput,
+    tx: Prisma.TransactionClient
+  ): Promise<BookingAnswerData[]> {
+    const questions = await this.findQuestionsForSlot(slot, tx);
+    const parsed = buildIntakeAnswersSchema(questions).safeParse(answers);
+
+    if (!parsed.success) {
+      throw new BadRequestError(
+        'Invalid answers to the intake questions',
+        parsed.error.errors.map((e) => ({ path: ['answers', ...e.path].join('.'), message: e.message }))
+      );
+    }
+
+    const given = parsed.data as IntakeAnswersInput;
+    return questions
+      .filter((question) => given[question.id] !== undefined)
+      .map((question) => ({
+        questionId: question.id,
+        question: question.label,
+        answer: given[question.id],
+        position: question.position,
+      }));
+  }
+
+  /**
+   * The questions of a slot, or its host's profile questions if it has none
+   */
+  private async findQuestionsForSlot(
+    slot: Slot,
+    tx?: Prisma.TransactionClient
+  ): Promise<IntakeQuestion[]> {
+    const slotQuestions = await intakeQuestionRepository.findBySlot(slot.id, tx);
+    if (slotQuestions.length > 0) {
+      return slotQuestions;
+    }
+
+    return intakeQuestionRepository.findByHost(slot.hostId, tx);
+  }
+
+  /**
+   * Format question data for API response
+   */
+  private formatQuestionResponse(question: IntakeQuestion): IntakeQuestionResponse {
+    return {
+      id: question.id,
+      hostId: question.hostId,
+      slotId: question.slotId,
+      label: question.label,
+      type: question.type,
+      required: question.required,
+      options: question.options,
+      position: question.position,
+    };
+  }
+}
+
+export const intakeQuestionService = new IntakeQuestionService();
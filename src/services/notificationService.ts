@@ -0,0 +1,143 @@
+import { NotificationLog, NotificationStatus, NotificationType } from '@prisma/client';
+import { bookingRepository, notificationLogRepository, userRepository } from '../repositories';
+import { getNotifier, NOTIFICATION_TEMPLATES } from '../notifiers';
+import { getNotifierConfig } from '../config/notifier';
+import { NotFoundError, NotificationLogResponse } from '../types';
+import { describeLocation } from '../utils/location';
+import { renderTemplate } from '../utils/template';
+import { formatInTimeZone } from '../utils/timezone';
+
+/**
+ * Describe a lead time, e.g. "24 hours" or "30 minutes"
+ */
+function formatLeadTime(leadMinutes: number): string {
+  if (leadMinutes % 60 !== 0) {
+    return `${leadMinutes} minutes`;
+  }
+  const hours = leadMinutes / 60;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+export class NotificationService {
+  /**
+   * Notify the guest of a booking with the template of `type`
+   *
+   * Times are rendered in the guest's time zone. Every notification is logged:
+   * SKIPPED if the guest opted out of the type, FAILED (and rethrown, so queued
+   * callers retry) if the transport failed, SENT otherwise.
+   * With an `eventId`, a guest already notified for that event is not notified
+   * again, so a retried event only reaches the guests it missed; the earlier log
+   * is returned instead.
+   * Returns null when the booking or guest no longer exists.
+   */
+  async notifyGuest(
+    type: NotificationType,
+    bookingId: string,
+    details: {
+      reason?: string | null;
+      leadMinutes?: number;
+      newStartTime?: Date;
+      newEndTime?: Date;
+      expired?: boolean;
+      eventId?: string;
+    } = {}
+  ): Promise<NotificationLog | null> {
+    const delivered = details.eventId && await notificationLogRepository.findDelivered(details.eventId, bookingId);
+    if (delivered) {
+      return delivered;
+    }
+
+    const booking = await bookingRepository.findByIdWithDetails(bookingId);
+    const guest = booking && await userRepository.findById(booking.userId);
+
+    if (!booking || !guest) {
+      return null;
+    }
+
+    const template = NOTIFICATION_TEMPLATES[type];
+    const context = {
+      guestName: guest.name,
+      hostName: booking.slot.host.name,
+      startTime: formatInTimeZone(booking.slot.startTime, guest.timeZone),
+      endTime: formatInTimeZone(booking.slot.endTime, guest.timeZone),
+      bookingId: booking.id,
+      title: booking.slot.title,
+      description: booking.slot.description,
+      location: describeLocation(booking.slot),
+      rescheduled: booking.rescheduledFromId !== null,
+      reason: details.reason,
+      leadTime: details.leadMinutes !== undefined ? formatLeadTime(details.leadMinutes) : undefined,
+      newStartTime: details.newStartTime && formatInTimeZone(details.newStartTime, guest.timeZone),
+      newEndTime: details.newEndTime && formatInTimeZone(details.newEndTime, guest.timeZone),
+      expired: details.expired,
+    };
+    const message = {
+      to: guest.email,
+      subject: renderTemplate(template.subject, context),
+      text: renderTemplate(template.text, context),
+    };
+    const log = {
+      userId: guest.id,
+      bookingId: booking.id,
+      type,
+      transport: getNotifierConfig().transport,
+      recipient: message.to,
+      subject: message.subject,
+      body: message.text,
+      eventId: details.eventId,
+    };
+
+    if (guest.notificationOptOuts.includes(type)) {
+      return notificationLogRepository.create({ ...log, status: NotificationStatus.SKIPPED });
+    }
+
+    try {
+      await getNotifier().send(message);
+    } catch (error) {
+      await notificationLogRepository.create({
+        ...log,
+        status: NotificationStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    return notificationLogRepository.create({ ...log, status: NotificationStatus.SENT });
+  }
+
+  /**
+   * List the notifications sent about a booking, oldest first
+   */
+  async getBookingNotifications(bookingId: string): Promise<NotificationLogResponse[]> {
+    const booking = await bookingRepository.findById(bookingId);
+
+    if (!booking) {
+      throw new NotFoundError('Booking');
+    }
+
+    const logs = await notificationLogRepository.findByBooking(bookingId);
+
+    return logs.map((log) => this.formatLogResponse(log));
+  }
+
+  /**
+   * Format a notification log entry for API response
+   */
+  private formatLogResponse(log: NotificationLog): NotificationLogResponse {
+    return {
+      id: log.id,
+      userId: log.userId,
+      bookingId: log.bookingId,
+      type: log.type,
+      status: log.status,
+      transport: log.transport,
+      recipient: log.recipient,
+      subject: log.subject,
+      body: log.body,
+      error: log.error,
+      createdAt: log.createdAt,
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,50 @@
+import { BookingStatus, NotificationStatus, NotificationType } from '@prisma/client';
+import { bookingRepository } from '../repositories';
+import { ReminderJobData, removeReminderJobs, scheduleReminderJobs } from '../queues';
+import { notificationService } from './notificationService';
+
+export class ReminderService {
+  /**
+   * Schedule reminders before the slot of a confirmed booking starts
+   * Scheduling again (e.g. for a redelivered event) replaces the previous reminders.
+   */
+  async scheduleReminders(bookingId: string, slotStartTime: Date): Promise<void> {
+    await scheduleReminderJobs(bookingId, slotStartTime);
+  }
+
+  /**
+   * Remove the pending reminders of a cancelled booking
+   */
+  async cancelReminders(bookingId: string): Promise<void> {
+    await removeReminderJobs(bookingId);
+  }
+
+  /**
+   * Send a reminder to the guest of a booking
+   *
+   * Skipped when the booking is no longer confirmed, its slot no longer starts
+   * at the scheduled time, or the guest opted out of reminders.
+   * Returns whether a reminder was sent.
+   */
+  async sendReminder(data: ReminderJobData): Promise<boolean> {
+    const booking = await bookingRepository.findByIdWithDetails(data.bookingId);
+
+    if (!booking || booking.status !== BookingStatus.CONFIRMED) {
+      return false;
+    }
+
+    if (booking.slot.startTime.getTime() !== new Date(data.slotStartTime).getTime()) {
+      return false;
+    }
+
+    const log = await notificationService.notifyGuest(
+      NotificationType.BOOKING_REMINDER,
+      booking.id,
+      { leadMinutes: data.leadMinutes }
+    );
+
+    return log?.status === NotificationStatus.SENT;
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -0,0 +1,138 @@
+import { BookingStatus, SlotChangeRequest, SlotChangeStatus, SlotStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+import {
+  bookingRepository,
+  slotChangeRequestRepository,
+  slotRepository,
+  BookingWithDetails,
+} from '../repositories';
+import { bookingService } from './bookingService';
+import { slotService } from './slotService';
+import {
+  BookingResponse,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  SlotChangeResponse,
+} from '../types';
+import { isSlotOverlapError } from '../utils/dbErrors';
+
+export class SlotChangeService {
+  /**
+   * Accept the new time the host proposed for the slot of a booking
+   *
+   * The slot is moved once every guest still booked on it has accepted. If the new
+   * time can no longer be used (it has passed, or was taken meanwhile) the change
+   * is WITHDRAWN and the booking keeps its current time.
+   */
+  async acceptChange(userId: string, bookingId: string): Promise<SlotChangeResponse> {
+    const booking = await this.findOwnBooking(userId, bookingId);
+    const change = await this.findPendingChange(booking.slotId);
+
+    if (!change.acceptedBookingIds.includes(bookingId)) {
+      await slotChangeRequestRepository.addAcceptance(change.id, bookingId);
+    }
+
+    const resolved = await this.applyIfAccepted(booking.slotId);
+    // Resolved by the acceptance; otherwise still waiting for other guests
+    const current = resolved ?? await slotChangeRequestRepository.findPendingBySlot(booking.slotId);
+
+    return slotService.formatChangeResponse(current ?? change);
+  }
+
+  /**
+   * Decline the new time the host proposed for the slot of a booking
+   * The booking is cancelled like a guest cancellation (the cancellation window
+   * applies); the change is applied if the remaining guests all accepted it.
+   */
+  async declineChange(userId: string, bookingId: string): Promise<BookingResponse> {
+    const booking = await this.findOwnBooking(userId, bookingId);
+    await this.findPendingChange(booking.slotId);
+
+    const cancelled = await bookingService.cancelBooking(userId, bookingId);
+    await this.applyIfAccepted(booking.slotId);
+
+    return cancelled;
+  }
+
+  /**
+   * Apply the pending change of a slot if every confirmed booking accepted it
+   * and no booking request on the slot waits for the host's approval
+   *
+   * Returns the change once resolved (APPLIED, or WITHDRAWN when the slot was
+   * cancelled or the new time can no longer be used), or null while it is still
+   * waiting for guests or when there is none. Safe to call repeatedly.
+   */
+  async applyIfAccepted(slotId: string): Promise<SlotChangeRequest | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const slot = await slotRepository.findByIdForUpdate(tx, slotId);
+        const change = await slotChangeRequestRepository.findPendingBySlot(slotId, tx);
+
+        if (!slot || !change) {
+          return null;
+        }
+
+        const bookings = await bookingRepository.findConfirmedBySlot(slotId, tx);
+        if (bookings.some((booking) => !change.acceptedBookingIds.includes(booking.id))) {
+          return null;
+        }
+        if (await bookingRepository.countPendingBySlot(slotId, tx) > 0) {
+          return null;
+        }
+
+        const unusable =
+          slot.status === SlotStatus.CANCELLED ||
+          change.startTime <= new Date() ||
+          await slotRepository.hasOverlap(slot.hostId, change.startTime, change.endTime, slot.id);
+        if (unusable) {
+          return slotChangeRequestRepository.resolve(change.id, SlotChangeStatus.WITHDRAWN, tx);
+        }
+
+        await slotService.moveSlot(tx, slot, change);
+        return slotChangeRequestRepository.resolve(change.id, SlotChangeStatus.APPLIED, tx);
+      });
+    } catch (error) {
+      // Another slot took the new time after the check above
+      if (!isSlotOverlapError(error)) {
+        throw error;
+      }
+      const change = await slotChangeRequestRepository.findPendingBySlot(slotId);
+      return change && slotChangeRequestRepository.resolve(change.id, SlotChangeStatus.WITHDRAWN);
+    }
+  }
+
+  /**
+   * Find a confirmed booking of the user
+   */
+  private async findOwnBooking(userId: string, bookingId: string): Promise<BookingWithDetails> {
+    const booking = await bookingRepository.findByIdWithDetails(bookingId);
+
+    if (!booking) {
+      throw new NotFoundError('Booking');
+    }
+
+    // Verify ownership
+    if (booking.userId !== userId) {
+      throw new ForbiddenError('You can only respond to changes of your own bookings');
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new ConflictError('Only confirmed bookings can respond to a change');
+    }
+
+    return booking;
+  }
+
+  private async findPendingChange(slotId: string): Promise<SlotChangeRequest> {
+    const change = await slotChangeRequestRepository.findPendingBySlot(slotId);
+
+    if (!change) {
+      throw new NotFoundError('Pending slot change');
+    }
+
+    return change;
+  }
+}
+
+export const slotChangeService = new SlotChangeService();
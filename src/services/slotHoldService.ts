@@ -0,0 +1,144 @@
+import { Slot, SlotStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { bookingRepository, slotRepository } from '../repositories';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  SlotHoldResponse,
+} from '../types';
+import { removeSlotHoldExpiryJob, scheduleSlotHoldExpiryJob } from '../queues';
+import { SLOT_HOLD_TTL_MINUTES } from '../utils/constants';
+import { MINUTE_MS } from '../utils/time';
+import { availabilityService } from './availabilityService';
+
+export class SlotHoldService {
+  /**
+   * Hold a slot for SLOT_HOLD_TTL_MINUTES while the guest completes their booking
+   *
+   * Business Rules:
+   * - Slot must be available (or its previous hold lapsed) and in the future
+   * - Group slots cannot be held: a hold blocks the whole slot, not one seat
+   * - Slot must respect the host's minimum notice, booking horizon and buffers
+   * - Hosts cannot hold their own slots
+   * - A guest holds at most one slot at a time, and cannot extend a hold
+   *
+   * While HELD, only the holder can book the slot.
+   * The hold is released by a delayed job on the slot-hold-expiry queue.
+   */
+  async holdSlot(userId: string, slotId: string): Promise<SlotHoldResponse> {
+    const slot = await prisma.$transaction(async (tx) => {
+      const found = await slotRepository.findByIdForUpdate(tx, slotId);
+
+      if (!found) {
+        throw new NotFoundError('Slot');
+      }
+
+      if (found.hostId === userId) {
+        throw new BadRequestError('You cannot hold your own slot');
+      }
+
+      if (found.startTime <= new Date()) {
+        throw new BadRequestError('Cannot hold a slot in the past');
+      }
+
+      if (found.capacity > 1) {
+        throw new BadRequestError('Group slots cannot be held; book a seat directly');
+      }
+
+      if (this.isHoldActive(found)) {
+        throw new ConflictError(
+          found.heldById === userId
+            ? 'You are already holding this slot'
+            : 'Slot is held by another guest'
+        );
+      }
+
+      if (found.status !== SlotStatus.AVAILABLE && found.status !== SlotStatus.HELD) {
+        throw new ConflictError('Slot is no longer available');
+      }
+
+      await availabilityService.assertBookable(found, tx);
+
+      const hasBooking = await bookingRepository.hasActiveBooking(slotId, userId, tx);
+      if (hasBooking) {
+        throw new ConflictError('You already have a booking for this slot');
+      }
+
+      const otherHold = await slotRepository.findActiveHoldByUser(userId, tx);
+      if (otherHold) {
+        throw new ConflictError('You are already holding another slot');
+      }
+
+      const expiresAt = new Date(Date.now() + SLOT_HOLD_TTL_MINUTES * MINUTE_MS);
+      return slotRepository.hold(slotId, userId, expiresAt, tx);
+    });
+
+    const response = this.formatHoldResponse(slot);
+    await scheduleSlotHoldExpiryJob(response.slotId, response.expiresAt);
+
+    return response;
+  }
+
+  /**
+   * Release the current guest's hold of a slot before it expires
+   */
+  async releaseHold(userId: string, slotId: string): Promise<SlotHoldResponse> {
+    const held = await prisma.$transaction(async (tx) => {
+      const slot = await slotRepository.findByIdForUpdate(tx, slotId);
+
+      if (!slot || !this.isHoldActive(slot) || slot.heldById !== userId) {
+        throw new NotFoundError('Slot hold');
+      }
+
+      await slotRepository.releaseHold(slotId, tx);
+      return slot;
+    });
+
+    await removeSlotHoldExpiryJob(slotId);
+
+    return this.formatHoldResponse(held);
+  }
+
+  /**
+   * Release a slot hold once it has expired
+   * Returns whether it was released: false once the holder booked or released
+   * the slot, or if the hold does not expire yet. Safe to call repeatedly.
+   */
+  async expireHold(slotId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const slot = await slotRepository.findByIdForUpdate(tx, slotId);
+
+      if (!slot || slot.status !== SlotStatus.HELD || this.isHoldActive(slot)) {
+        return false;
+      }
+
+      await slotRepository.releaseHold(slotId, tx);
+      return true;
+    });
+  }
+
+  /**
+   * Whether a slot is HELD by a guest whose hold has not expired yet
+   */
+  isHoldActive(slot: Slot): boolean {
+    return (
+      slot.status === SlotStatus.HELD &&
+      slot.holdExpiresAt !== null &&
+      slot.holdExpiresAt > new Date()
+    );
+  }
+
+  /**
+   * Format a HELD slot for API response
+   */
+  private formatHoldResponse(slot: Slot): SlotHoldResponse {
+    return {
+      slotId: slot.id,
+      userId: slot.heldById as string,
+      expiresAt: slot.holdExpiresAt as Date,
+    };
+  }
+}
+
+export const slotHoldService = new SlotHoldService();
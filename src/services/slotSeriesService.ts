@@ -0,0 +1,328 @@
+import { Prisma, SlotSeries, SlotStatus, UserRole } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { outboxEventRepository, slotRepository, slotSeriesRepository } from '../repositories';
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  SkippedOccurrence,
+  SlotResponse,
+  SlotSeriesMaterializationResponse,
+  SlotSeriesResponse,
+  UserContext,
+} from '../types';
+import { expandRecurrence, Occurrence, RecurrenceRule } from '../utils/recurrence';
+import { isSlotOverlapError } from '../utils/dbErrors';
+import { CreateSlotSeriesInput, UpdateSlotSeriesInput } from '../utils/validation';
+import { slotService } from './slotService';
+
+export class SlotSeriesService {
+  /**
+   * Create a recurring slot series and materialize its occurrences
+   * Business Rules:
+   * - User must be a HOST
+   * - Occurrences overlapping existing slots (or in the past) are skipped and reported
+   */
+  async createSeries(
+    host: UserContext,
+    data: CreateSlotSeriesInput
+  ): Promise<SlotSeriesMaterializationResponse> {
+    const hostId = host.userId;
+
+    if (!host.roles.includes(UserRole.HOST)) {
+      throw new ForbiddenError('Only hosts can create slot series');
+    }
+
+    const series = await slotSeriesRepository.create({
+      hostId,
+      frequency: data.frequency,
+      interval: data.interval,
+      byWeekday: data.byWeekday ?? [],
+      startTime: data.startTime,
+      endTime: data.endTime,
+      count: data.count ?? null,
+      until: data.until ?? null,
+      exceptionDates: data.exceptionDates,
+    });
+
+    const { created, skipped } = await this.materialize(series, this.expand(series));
+
+    return {
+      series: this.formatSeriesResponse(series),
+      created,
+      skipped,
+    };
+  }
+
+  /**
+   * Get a series with its upcoming (non-cancelled) slots
+   */
+  async getSeries(
+    hostId: string,
+    seriesId: string
+  ): Promise<SlotSeriesResponse & { slots: SlotResponse[] }> {
+    const series = await this.findOwnedSeries(hostId, seriesId);
+    const slots = await slotRepository.findBySeries(series.id);
+
+    return {
+      ...this.formatSeriesResponse(series),
+      slots: slots.map((slot) => slotService.formatSlotResponse(slot, slot.host.name)),
+    };
+  }
+
+  /**
+   * Edit "this and following" occurrences of a series
+   *
+   * The series is split at fromSlotId: the original series is truncated just before it,
+   * and a new series carrying the changes is materialized from that occurrence on.
+   * If fromSlotId is the first occurrence, the series is updated in place instead.
+   * Booked occurrences are never modified; they are returned in `kept`.
+   */
+  async updateSeriesFrom(
+    hostId: string,
+    seriesId: string,
+    data: UpdateSlotSeriesInput
+  ): Promise<SlotSeriesMaterializationResponse> {
+    const series = await this.findOwnedSeries(hostId, seriesId);
+    const fromSlot = await this.findSeriesSlot(series, data.fromSlotId);
+
+    const rule: RecurrenceRule & Occurrence = {
+      frequency: data.frequency ?? series.frequency,
+      interval: data.interval ?? series.interval,
+      byWeekday: data.byWeekday ?? (data.frequency ? [] : series.byWeekday),
+      exceptionDates: data.exceptionDates ?? series.exceptionDates,
+      startTime: data.startTime ?? fromSlot.startTime,
+      endTime: data.endTime ?? fromSlot.endTime,
+      count: data.count ?? null,
+      until: data.until ?? null,
+    };
+
+    if (rule.byWeekday && rule.byWeekday.length > 0 && rule.frequency !== 'WEEKLY') {
+      throw new BadRequestError('byWeekday is only supported for WEEKLY series');
+    }
+
+    // Carry over the remaining count or the original until date. COUNT includes
+    // occurrences removed by exception dates, so they are counted here too.
+    const earlierCount = this.expand({ ...series, exceptionDates: [] })
+      .filter((occurrence) => occurrence.startTime < fromSlot.startTime).length;
+    if (data.count === undefined && data.until === undefined) {
+      if (series.count !== null) {
+        rule.count = Math.max(1, series.count - earlierCount);
+      } else {
+        rule.until = series.until;
+      }
+    }
+
+    const seriesData = {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      byWeekday: rule.byWeekday ?? [],
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      count: rule.count ?? null,
+      until: rule.until ?? null,
+      exceptionDates: rule.exceptionDates ?? [],
+    };
+
+    const { updatedSeries, kept } = await prisma.$transaction(async (tx) => {
+      const { removed, kept } = await this.splitOccurrences(tx, series.id, fromSlot.startTime);
+      await slotRepository.deleteMany(removed, tx);
+      await this.recordSlotsDeleted(tx, hostId, removed);
+
+      if (earlierCount === 0) {
+        return { updatedSeries: await slotSeriesRepository.update(series.id, seriesData, tx), kept };
+      }
+
+      await slotSeriesRepository.update(series.id, {
+        count: null,
+        until: new Date(fromSlot.startTime.getTime() - 1),
+      }, tx);
+      return { updatedSeries: await slotSeriesRepository.create({ hostId, ...seriesData }, tx), kept };
+    });
+
+    const { created, skipped } = await this.materialize(updatedSeries, this.expand(updatedSeries));
+
+    return {
+      series: this.formatSeriesResponse(updatedSeries),
+      created,
+      skipped,
+      kept,
+    };
+  }
+
+  /**
+   * Cancel "this and following" occurrences of a series, or the whole series
+   * when fromSlotId is omitted. Booked occurrences are kept and reported.
+   */
+  async cancelSeriesFrom(
+    hostId: string,
+    seriesId: string,
+    fromSlotId?: string
+  ): Promise<{ deleted: number; kept: SlotResponse[] }> {
+    const series = await this.findOwnedSeries(hostId, seriesId);
+    const fromSlot = fromSlotId ? await this.findSeriesSlot(series, fromSlotId) : null;
+    const from = fromSlot?.startTime ?? new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const { removed, kept } = await this.splitOccurrences(tx, series.id, from);
+      const deleted = await slotRepository.deleteMany(removed, tx);
+      await this.recordSlotsDeleted(tx, hostId, removed);
+
+      if (fromSlot) {
+        await slotSeriesRepository.update(series.id, {
+          count: null,
+          until: new Date(fromSlot.startTime.getTime() - 1),
+        }, tx);
+      } else {
+        await slotSeriesRepository.delete(series.id, tx);
+      }
+
+      return { deleted, kept };
+    });
+  }
+
+  /**
+   * Record a slot.deleted outbox event for each occurrence removed from a series
+   */
+  private async recordSlotsDeleted(
+    tx: Prisma.TransactionClient,
+    hostId: string,
+    slotIds: string[]
+  ): Promise<void> {
+    for (const slotId of slotIds) {
+      await outboxEventRepository.create(tx, 'slot.deleted', { slotId, hostId });
+    }
+  }
+
+  /**
+   * Expand a stored series into its occurrences
+   */
+  private expand(series: RecurrenceRule & Occurrence): Occurrence[] {
+    return expandRecurrence(series, {
+      startTime: series.startTime,
+      endTime: series.endTime,
+    });
+  }
+
+  /**
+   * Create a Slot row for each occurrence, skipping past and overlapping ones
+   * Each slot is inserted individually so one overlap does not abort the others
+   */
+  private async materialize(
+    series: SlotSeries,
+    occurrences: Occurrence[]
+  ): Promise<{ created: SlotResponse[]; skipped: SkippedOccurrence[] }> {
+    const created: SlotResponse[] = [];
+    const skipped: SkippedOccurrence[] = [];
+    const now = new Date();
+
+    for (const occurrence of occurrences) {
+      if (occurrence.startTime <= now) {
+        skipped.push({ ...occurrence, reason: 'IN_PAST' });
+        continue;
+      }
+
+      // Check for overlapping slots (defense-in-depth, DB constraint also enforces this)
+      const hasOverlap = await slotRepository.hasOverlap(
+        series.hostId,
+        occurrence.startTime,
+        occurrence.endTime
+      );
+      if (hasOverlap) {
+        skipped.push({ ...occurrence, reason: 'OVERLAP' });
+        continue;
+      }
+
+      try {
+        const slot = await slotService.insertSlot({
+          hostId: series.hostId,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          seriesId: series.id,
+        });
+        created.push(slotService.formatSlotResponse(slot));
+      } catch (error) {
+        if (!isSlotOverlapError(error)) {
+          throw error;
+        }
+        skipped.push({ ...occurrence, reason: 'OVERLAP' });
+      }
+    }
+
+    return { created, skipped };
+  }
+
+  /**
+   * Partition the series' slots starting at `from` into removable slot IDs and
+   * slots that must be kept: booked, held, or with bookings or requests (group slots)
+   * The slots are locked, so none can be booked before the transaction ends.
+   */
+  private async splitOccurrences(
+    tx: Prisma.TransactionClient,
+    seriesId: string,
+    from: Date
+  ): Promise<{ removed: string[]; kept: SlotResponse[] }> {
+    const slots = await slotRepository.findBySeriesForUpdate(tx, seriesId, from);
+    const isRemovable = (slot: (typeof slots)[number]) =>
+      slot.status === SlotStatus.AVAILABLE && slot._count.bookings === 0;
+
+    return {
+      removed: slots
+        .filter(isRemovable)
+        .map((slot) => slot.id),
+      kept: slots
+        .filter((slot) => !isRemovable(slot))
+        .map((slot) => ({
+          ...slotService.formatSlotResponse(slot, slot.host.name),
+          bookedCount: slot._count.bookings,
+        })),
+    };
+  }
+
+  private async findOwnedSeries(hostId: string, seriesId: string): Promise<SlotSeries> {
+    const series = await slotSeriesRepository.findById(seriesId);
+
+    if (!series) {
+      throw new NotFoundError('Slot series');
+    }
+
+    // Verify ownership
+    if (series.hostId !== hostId) {
+      throw new ForbiddenError('You can only manage your own slot series');
+    }
+
+    return series;
+  }
+
+  private async findSeriesSlot(series: SlotSeries, slotId: string) {
+    const slot = await slotRepository.findById(slotId);
+
+    if (!slot || slot.seriesId !== series.id) {
+      throw new BadRequestError('Slot does not belong to this series');
+    }
+
+    return slot;
+  }
+
+  /**
+   * Format series data for API response
+   */
+  private formatSeriesResponse(series: SlotSeries): SlotSeriesResponse {
+    return {
+      id: series.id,
+      hostId: series.hostId,
+      frequency: series.frequency,
+      interval: series.interval,
+      byWeekday: series.byWeekday,
+      startTime: series.startTime,
+      endTime: series.endTime,
+      count: series.count,
+      until: series.until,
+      exceptionDates: series.exceptionDates,
+      createdAt: series.createdAt,
+      updatedAt: series.updatedAt,
+    };
+  }
+}
+
+export const slotSeriesService = new SlotSeriesService();
@@ -1,14 +1,48 @@
-import { SlotStatus, UserRole } from '@prisma/client';
-import { slotRepository } from '../repositories';
+import {
+  BookingStatus,
+  LocationType,
+  Prisma,
+  Slot,
+  SlotChangeRequest,
+  SlotStatus,
+  UserRole,
+} from '@prisma/client';
+import prisma from '../utils/prisma';
+import {
+  bookingRepository,
+  outboxEventRepository,
+  slotChangeRequestRepository,
+  slotRepository,
+} from '../repositories';
 import { userRepository } from '../repositories';
+import { availabilityService } from './availabilityService';
+import { slotHoldService } from './slotHoldService';
 import {
+  AvailabilityWindowResponse,
   BadRequestError,
+  BulkSlotResponse,
+  BulkSlotResult,
   ConflictError,
   ForbiddenError,
   NotFoundError,
+  SlotAttendee,
+  SlotChangeResponse,
+  SlotDetails,
   SlotFilters,
+  SlotPendingRequest,
   SlotResponse,
+  SlotUpdateResponse,
+  UnprocessableEntityError,
+  UserContext,
+  ValidationIssue,
 } from '../types';
+import { DEFAULT_MEETING_URL_BASE } from '../utils/constants';
+import { generateToken } from '../utils/crypto';
+import { isSlotOverlapError } from '../utils/dbErrors';
+import { durationInMinutes, rangesOverlap } from '../utils/time';
+import { CreateSlotInput, UpdateSlotInput } from '../utils/validation';
+
+const meetingUrlBase = process.env.MEETING_URL_BASE || DEFAULT_MEETING_URL_BASE;
 
 export class SlotService {
   /**
@@ -17,14 +51,17 @@ export class SlotService {
    * - User must be a HOST
    * - Slot must be in the future
    * - Slot must not overlap with existing slots for the same host
+   * - Group slots offer `capacity` seats (default 1)
+   * - VIDEO slots without a meeting URL get a generated one
    */
   async createSlot(
-    hostId: string,
-    data: { startTime: Date; endTime: Date }
+    host: UserContext,
+    data: Partial<SlotDetails> & { startTime: Date; endTime: Date; capacity?: number }
   ): Promise<SlotResponse> {
+    const hostId = host.userId;
+
     // Verify user has HOST role
-    const isHost = await userRepository.hasRole(hostId, UserRole.HOST);
-    if (!isHost) {
+    if (!host.roles.includes(UserRole.HOST)) {
       throw new ForbiddenError('Only hosts can create slots');
     }
 
@@ -44,56 +81,169 @@ export class SlotService {
       data.endTime
     );
     if (hasOverlap) {
-      throw new ConflictError('Slot overlaps with an existing slot');
+      throw new ConflictError('Slot overlaps with an existing slot or busy time');
     }
 
     // Create the slot
-    const slot = await slotRepository.create({
-      hostId,
-      startTime: data.startTime,
-      endTime: data.endTime,
-    });
+    const slot = await this.insertSlot({ ...data, hostId });
 
-    const host = await userRepository.findById(hostId);
+    const hostUser = await userRepository.findById(hostId);
 
-    return {
-      id: slot.id,
-      hostId: slot.hostId,
-      hostName: host?.name,
-      startTime: slot.startTime,
-      endTime: slot.endTime,
-      status: slot.status,
-      createdAt: slot.createdAt,
-      updatedAt: slot.updatedAt,
-    };
+    return this.formatSlotResponse(slot, hostUser?.name);
+  }
+
+  /**
+   * Create many slots in one request, reporting a result per entry
+   *
+   * Entries that failed validation are reported as INVALID; entries overlapping an
+   * earlier entry of the batch, an existing slot or a busy block as OVERLAP.
+   * Without `atomic`, every other entry is created. With `atomic`, slots are only
+   * created if no entry failed, in a single transaction; otherwise an
+   * UnprocessableEntityError lists the results (valid entries as ABORTED).
+   */
+  async createSlots(
+    host: UserContext,
+    entries: Array<{ input: CreateSlotInput } | { errors: ValidationIssue[] }>,
+    atomic: boolean
+  ): Promise<BulkSlotResponse> {
+    const hostId = host.userId;
+
+    if (!host.roles.includes(UserRole.HOST)) {
+      throw new ForbiddenError('Only hosts can create slots');
+    }
+
+    const results: BulkSlotResult[] = [];
+    const accepted: Array<{ index: number; input: CreateSlotInput }> = [];
+
+    for (const [index, entry] of entries.entries()) {
+      if ('errors' in entry) {
+        results.push({ index, status: 'INVALID', errors: entry.errors });
+        continue;
+      }
+
+      const earlier = accepted.find((other) => rangesOverlap(other.input, entry.input));
+      if (earlier) {
+        results.push({ index, status: 'OVERLAP', overlapsIndex: earlier.index });
+        continue;
+      }
+
+      const hasOverlap = await slotRepository.hasOverlap(
+        hostId,
+        entry.input.startTime,
+        entry.input.endTime
+      );
+      if (hasOverlap) {
+        results.push({ index, status: 'OVERLAP' });
+        continue;
+      }
+
+      accepted.push({ index, input: entry.input });
+      // Valid so far; replaced by the outcome once slots are created
+      results.push({ index, status: 'ABORTED' });
+    }
+
+    const hostUser = await userRepository.findById(hostId);
+
+    if (atomic) {
+      if (accepted.length < entries.length) {
+        throw new UnprocessableEntityError('No slots were created because some entries failed', results);
+      }
+
+      const slots = await prisma.$transaction(async (tx) => {
+        const created: Slot[] = [];
+        for (const { input } of accepted) {
+          created.push(await this.createSlotWithEvent(tx, { hostId, ...input }));
+        }
+        return created;
+      }).catch((error: unknown) => {
+        // Another request created an overlapping slot after the checks above
+        if (isSlotOverlapError(error)) {
+          throw new ConflictError('Slot overlaps with an existing slot or busy time');
+        }
+        throw error;
+      });
+
+      for (const [position, slot] of slots.entries()) {
+        results[accepted[position].index] = {
+          index: accepted[position].index,
+          status: 'CREATED',
+          slot: this.formatSlotResponse(slot, hostUser?.name),
+        };
+      }
+
+      return { created: slots.length, results };
+    }
+
+    let created = 0;
+    for (const { index, input } of accepted) {
+      try {
+        const slot = await this.insertSlot({ hostId, ...input });
+        results[index] = { index, status: 'CREATED', slot: this.formatSlotResponse(slot, hostUser?.name) };
+        created++;
+      } catch (error) {
+        if (!isSlotOverlapError(error)) {
+          throw error;
+        }
+        results[index] = { index, status: 'OVERLAP' };
+      }
+    }
+
+    return { created, results };
   }
 
   /**
    * Get available slots with optional filters
+   *
+   * Open windows generated from availability rules are merged into the listing
+   * (sorted by start time) unless a non-AVAILABLE status or a location type is
+   * requested. Available slots that cannot be booked under their host's booking
+   * rules are left out.
    */
   async getAvailableSlots(
     filters: SlotFilters & { page?: number; limit?: number }
   ): Promise<{
-    slots: SlotResponse[];
+    slots: Array<SlotResponse | AvailabilityWindowResponse>;
     total: number;
     page: number;
     limit: number;
   }> {
     const { page = 1, limit = 20 } = filters;
-    const result = await slotRepository.findAvailable({ ...filters, page, limit });
+    // Open windows have no meeting details, so they never match a location type
+    const windows = (!filters.status || filters.status === SlotStatus.AVAILABLE) && !filters.locationType
+      ? (await availabilityService.getOpenWindows(filters)).filter((window) => this.matchesDuration(window, filters))
+      : [];
+    // Slots their host's booking rules do not let anyone book right now
+    const exclude = await availabilityService.getUnbookableSlotConditions(filters);
 
-    return {
-      slots: result.slots.map((slot) => ({
-        id: slot.id,
-        hostId: slot.hostId,
-        hostName: slot.host.name,
-        startTime: slot.startTime,
-        endTime: slot.endTime,
-        status: slot.status,
-        createdAt: slot.createdAt,
-        updatedAt: slot.updatedAt,
+    if (windows.length === 0) {
+      const result = await slotRepository.findAvailable({ ...filters, exclude, page, limit });
+
+      return {
+        slots: result.slots.map((slot) => ({
+          ...this.formatSlotResponse(slot, slot.host.name),
+          bookedCount: slot._count.bookings,
+        })),
+        total: result.total,
+        page,
+        limit,
+      };
+    }
+
+    // The first skip + limit entries of the merged list can only come from
+    // the first skip + limit entries of each sorted source
+    const skip = (page - 1) * limit;
+    const result = await slotRepository.findAvailable({ ...filters, exclude, page: 1, limit: skip + limit });
+    const merged = [
+      ...result.slots.map((slot) => ({
+        ...this.formatSlotResponse(slot, slot.host.name),
+        bookedCount: slot._count.bookings,
       })),
-      total: result.total,
+      ...windows,
+    ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    return {
+      slots: merged.slice(skip, skip + limit),
+      total: result.total + windows.length,
       page,
       limit,
     };
@@ -101,12 +251,14 @@ export class SlotService {
 
   /**
    * Get all slots for a host (including booked/cancelled)
+   * Each slot lists its attendees (guests with a confirmed booking) and the
+   * booking requests waiting for the host's approval
    */
   async getHostSlots(
     hostId: string,
     filters: { status?: SlotStatus; page?: number; limit?: number }
   ): Promise<{
-    slots: Array<SlotResponse & { bookingId?: string; bookedByUserId?: string }>;
+    slots: Array<SlotResponse & { attendees: SlotAttendee[]; pendingRequests: SlotPendingRequest[] }>;
     total: number;
     page: number;
     limit: number;
@@ -115,21 +267,25 @@ export class SlotService {
     const result = await slotRepository.findByHost(hostId, { ...filters, page, limit });
 
     return {
-      slots: result.slots.map((slot) => {
-        // Get the confirmed booking (if any) - only one confirmed booking per slot
-        const confirmedBooking = slot.bookings[0];
-        return {
-          id: slot.id,
-          hostId: slot.hostId,
-          startTime: slot.startTime,
-          endTime: slot.endTime,
-          status: slot.status,
-          createdAt: slot.createdAt,
-          updatedAt: slot.updatedAt,
-          bookingId: confirmedBooking?.id,
-          bookedByUserId: confirmedBooking?.userId,
-        };
-      }),
+      slots: result.slots.map((slot) => ({
+        ...this.formatSlotResponse(slot),
+        bookedCount: slot.bookings.length,
+        attendees: slot.bookings
+          .filter((booking) => booking.status === BookingStatus.CONFIRMED)
+          .map((booking) => ({
+            bookingId: booking.id,
+            userId: booking.userId,
+            userName: booking.user.name,
+          })),
+        pendingRequests: slot.bookings
+          .filter((booking) => booking.status === BookingStatus.PENDING)
+          .map((booking) => ({
+            bookingId: booking.id,
+            userId: booking.userId,
+            userName: booking.user.name,
+            approvalExpiresAt: booking.approvalExpiresAt,
+          })),
+      })),
       total: result.total,
       page,
       limit,
@@ -140,32 +296,216 @@ export class SlotService {
    * Delete/cancel an unbooked slot
    * Business Rules:
    * - Only the slot owner can delete it
-   * - Slot must not be booked
+   * - Slot must not have any confirmed bookings or pending requests (group slots may
+   *   be AVAILABLE with bookings)
+   * - Slot must not be held by a guest (a lapsed hold does not count)
    */
   async deleteSlot(hostId: string, slotId: string): Promise<void> {
-    const slot = await slotRepository.findByIdWithHost(slotId);
+    await prisma.$transaction(async (tx) => {
+      // Lock the slot so a concurrent booking cannot slip past the booking check
+      const slot = await slotRepository.findByIdForUpdate(tx, slotId);
 
-    if (!slot) {
-      throw new NotFoundError('Slot');
-    }
+      if (!slot) {
+        throw new NotFoundError('Slot');
+      }
 
-    // Verify ownership
-    if (slot.hostId !== hostId) {
-      throw new ForbiddenError('You can only delete your own slots');
-    }
+      // Verify ownership
+      if (slot.hostId !== hostId) {
+        throw new ForbiddenError('You can only delete your own slots');
+      }
 
-    // Check if slot is booked
-    if (slot.status === SlotStatus.BOOKED) {
-      throw new ConflictError('Cannot delete a booked slot');
-    }
+      // Check if slot is booked
+      if (slot.status === SlotStatus.BOOKED) {
+        throw new ConflictError('Cannot delete a booked slot');
+      }
 
-    // If slot is already cancelled, just return success
-    if (slot.status === SlotStatus.CANCELLED) {
-      return;
-    }
+      if (slotHoldService.isHoldActive(slot)) {
+        throw new ConflictError('Cannot delete a slot held by a guest');
+      }
+
+      const takenSeats = await bookingRepository.countTakenSeatsBySlot(slotId, tx);
+      if (takenSeats > 0) {
+        throw new ConflictError('Cannot delete a slot with confirmed bookings or pending requests');
+      }
+
+      // If slot is already cancelled, just return success
+      if (slot.status === SlotStatus.CANCELLED) {
+        return;
+      }
 
-    // Delete the slot (or mark as cancelled)
-    await slotRepository.delete(slotId);
+      // Delete the slot (or mark as cancelled)
+      await slotRepository.delete(slotId, tx);
+      await outboxEventRepository.create(tx, 'slot.deleted', { slotId, hostId });
+    });
+  }
+
+  /**
+   * Change the time of a slot
+   *
+   * A slot without confirmed bookings is moved right away. A slot with confirmed
+   * bookings is only moved with `requestConsent`: the new time is then proposed to
+   * its guests (who are notified) and applied once every guest still booked has
+   * accepted; guests who decline cancel their booking. A new edit withdraws a
+   * change that is still pending, so editing back to the current time withdraws it.
+   *
+   * Business Rules:
+   * - Only the slot owner can update it
+   * - The slot must not be cancelled or have started yet
+   * - The new time must not overlap other slots or busy blocks of the host
+   * - Booking requests on the slot must be approved or declined first
+   */
+  async updateSlot(
+    host: UserContext,
+    slotId: string,
+    input: UpdateSlotInput
+  ): Promise<SlotUpdateResponse> {
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock the slot so a concurrent booking cannot slip past the booking check
+      const slot = await slotRepository.findByIdForUpdate(tx, slotId);
+
+      if (!slot) {
+        throw new NotFoundError('Slot');
+      }
+
+      // Verify ownership
+      if (slot.hostId !== host.userId) {
+        throw new ForbiddenError('You can only update your own slots');
+      }
+
+      if (slot.status === SlotStatus.CANCELLED) {
+        throw new ConflictError('Cannot update a cancelled slot');
+      }
+
+      if (slot.startTime <= new Date()) {
+        throw new BadRequestError('Cannot update a slot that has already started');
+      }
+
+      await slotChangeRequestRepository.withdrawPendingBySlot(slotId, tx);
+
+      const unchanged =
+        slot.startTime.getTime() === input.startTime.getTime() &&
+        slot.endTime.getTime() === input.endTime.getTime();
+      if (unchanged) {
+        return { slot, change: null };
+      }
+
+      // Check for overlapping slots (defense-in-depth, DB constraint also enforces this)
+      const hasOverlap = await slotRepository.hasOverlap(
+        slot.hostId,
+        input.startTime,
+        input.endTime,
+        slot.id
+      );
+      if (hasOverlap) {
+        throw new ConflictError('Slot overlaps with an existing slot or busy time');
+      }
+
+      const pendingRequests = await bookingRepository.countPendingBySlot(slotId, tx);
+      if (pendingRequests > 0) {
+        throw new ConflictError('Slot has pending booking requests; approve or decline them first');
+      }
+
+      const bookings = await bookingRepository.findConfirmedBySlot(slotId, tx);
+      if (bookings.length === 0) {
+        return { slot: await this.moveSlot(tx, slot, input), change: null };
+      }
+
+      if (!input.requestConsent) {
+        throw new ConflictError(
+          'Slot has confirmed bookings; set requestConsent to ask the guests to accept the new time'
+        );
+      }
+
+      const change = await slotChangeRequestRepository.create(
+        { slotId, startTime: input.startTime, endTime: input.endTime },
+        tx
+      );
+      await outboxEventRepository.create(tx, 'slot.change_proposed', {
+        changeId: change.id,
+        slotId,
+        hostId: slot.hostId,
+        startTime: change.startTime,
+        endTime: change.endTime,
+        bookingIds: bookings.map((booking) => booking.id),
+      });
+
+      return { slot, change };
+    }).catch((error: unknown) => {
+      // Another request took the new time after the check above
+      if (isSlotOverlapError(error)) {
+        throw new ConflictError('Slot overlaps with an existing slot or busy time');
+      }
+      throw error;
+    });
+
+    const hostUser = await userRepository.findById(result.slot.hostId);
+
+    return {
+      slot: this.formatSlotResponse(result.slot, hostUser?.name),
+      pendingChange: result.change && this.formatChangeResponse(result.change),
+    };
+  }
+
+  /**
+   * Move a locked slot and its confirmed bookings to a new time
+   * Records a slot.updated outbox event, which notifies the guests and moves their reminders.
+   */
+  async moveSlot(
+    tx: Prisma.TransactionClient,
+    slot: Slot,
+    time: { startTime: Date; endTime: Date }
+  ): Promise<Slot> {
+    const moved = await slotRepository.updateTimes(slot.id, time.startTime, time.endTime, tx);
+    const bookings = await bookingRepository.findConfirmedBySlot(slot.id, tx);
+    await bookingRepository.touchConfirmedBySlot(slot.id, tx);
+
+    await outboxEventRepository.create(tx, 'slot.updated', {
+      slotId: slot.id,
+      hostId: slot.hostId,
+      startTime: moved.startTime,
+      endTime: moved.endTime,
+      previousStartTime: slot.startTime,
+      previousEndTime: slot.endTime,
+      bookingIds: bookings.map((booking) => booking.id),
+    });
+
+    return moved;
+  }
+
+  /**
+   * Insert a slot and its slot.created outbox event in one transaction
+   */
+  async insertSlot(data: Partial<SlotDetails> & {
+    hostId: string;
+    startTime: Date;
+    endTime: Date;
+    capacity?: number;
+    seriesId?: string;
+  }): Promise<Slot> {
+    return prisma.$transaction((tx) => this.createSlotWithEvent(tx, data));
+  }
+
+  private async createSlotWithEvent(
+    tx: Prisma.TransactionClient,
+    data: Parameters<SlotService['insertSlot']>[0]
+  ): Promise<Slot> {
+    const slot = await slotRepository.create({
+      ...data,
+      meetingUrl: data.locationType === LocationType.VIDEO
+        ? data.meetingUrl ?? `${meetingUrlBase}/${generateToken()}`
+        : undefined,
+    }, tx);
+
+    await outboxEventRepository.create(tx, 'slot.created', {
+      slotId: slot.id,
+      hostId: slot.hostId,
+      seriesId: slot.seriesId,
+      capacity: slot.capacity,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+    });
+
+    return slot;
   }
 
   /**
@@ -178,17 +518,62 @@ export class SlotService {
       return null;
     }
 
+    return this.formatSlotResponse(slot, slot.host.name);
+  }
+
+  /**
+   * Format slot data for API response
+   */
+  formatSlotResponse(slot: Slot, hostName?: string): SlotResponse {
     return {
       id: slot.id,
       hostId: slot.hostId,
-      hostName: slot.host.name,
+      hostName,
       startTime: slot.startTime,
       endTime: slot.endTime,
+      durationMinutes: durationInMinutes(slot),
       status: slot.status,
+      capacity: slot.capacity,
+      seriesId: slot.seriesId,
+      title: slot.title,
+      description: slot.description,
+      locationType: slot.locationType,
+      location: slot.location,
+      meetingUrl: slot.meetingUrl,
       createdAt: slot.createdAt,
       updatedAt: slot.updatedAt,
     };
   }
+
+  /**
+   * Whether a time range lasts within the duration bounds of a slot listing
+   */
+  private matchesDuration(
+    range: { startTime: Date; endTime: Date },
+    filters: Pick<SlotFilters, 'minDuration' | 'maxDuration'>
+  ): boolean {
+    const minutes = durationInMinutes(range);
+    return (
+      (filters.minDuration === undefined || minutes >= filters.minDuration) &&
+      (filters.maxDuration === undefined || minutes <= filters.maxDuration)
+    );
+  }
+
+  /**
+   * Format a proposed slot change for API response
+   */
+  formatChangeResponse(change: SlotChangeRequest): SlotChangeResponse {
+    return {
+      id: change.id,
+      slotId: change.slotId,
+      status: change.status,
+      startTime: change.startTime,
+      endTime: change.endTime,
+      acceptedBookingIds: change.acceptedBookingIds,
+      resolvedAt: change.resolvedAt,
+      createdAt: change.createdAt,
+    };
+  }
 }
 
 export const slotService = new SlotService();
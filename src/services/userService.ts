@@ -1,6 +1,8 @@
-import { UserRole } from '@prisma/client';
+import { NotificationType, User, UserRole } from '@prisma/client';
 import { userRepository } from '../repositories';
-import { NotFoundError, UserResponse, ConflictError } from '../types';
+import { NotFoundError, NotificationPreferences, UserResponse, ConflictError } from '../types';
+import { hashPassword } from '../utils/crypto';
+import { UpdateNotificationPreferencesInput } from '../utils/validation';
 
 export class UserService {
   /**
@@ -17,14 +19,7 @@ export class UserService {
     const result = await userRepository.findAll({ page, limit });
 
     return {
-      users: result.users.map((user) => ({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        roles: user.roles,
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt,
-      })),
+      users: result.users.map((user) => this.formatUserResponse(user)),
       total: result.total,
       page,
       limit,
@@ -41,14 +36,7 @@ export class UserService {
       return null;
     }
 
-    return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      roles: user.roles,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    };
+    return this.formatUserResponse(user);
   }
 
   /**
@@ -58,6 +46,8 @@ export class UserService {
     email: string;
     name: string;
     roles?: UserRole[];
+    timeZone?: string;
+    password?: string;
   }): Promise<UserResponse> {
     // Check if email already exists
     const existing = await userRepository.findByEmail(data.email);
@@ -69,16 +59,29 @@ export class UserService {
       email: data.email,
       name: data.name,
       roles: data.roles ?? [UserRole.GUEST],
+      timeZone: data.timeZone,
+      passwordHash: data.password ? await hashPassword(data.password) : undefined,
     });
 
-    return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      roles: user.roles,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    };
+    return this.formatUserResponse(user);
+  }
+
+  /**
+   * Update a user's profile (name and time zone)
+   */
+  async updateUser(
+    userId: string,
+    data: { name?: string; timeZone?: string }
+  ): Promise<UserResponse> {
+    const user = await userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const updatedUser = await userRepository.update(userId, data);
+
+    return this.formatUserResponse(updatedUser);
   }
 
   /**
@@ -93,13 +96,62 @@ export class UserService {
 
     const updatedUser = await userRepository.addRole(userId, role);
 
+    return this.formatUserResponse(updatedUser);
+  }
+
+  /**
+   * Get which notification types a user receives
+   */
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    return this.formatNotificationPreferences(user.notificationOptOuts);
+  }
+
+  /**
+   * Opt in to or out of notification types; types not given keep their setting
+   */
+  async updateNotificationPreferences(
+    userId: string,
+    data: UpdateNotificationPreferencesInput
+  ): Promise<NotificationPreferences> {
+    const user = await userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const optOuts = Object.values(NotificationType).filter(
+      (type) => !(data[type] ?? !user.notificationOptOuts.includes(type))
+    );
+
+    const updatedUser = await userRepository.update(userId, { notificationOptOuts: optOuts });
+
+    return this.formatNotificationPreferences(updatedUser.notificationOptOuts);
+  }
+
+  private formatNotificationPreferences(optOuts: NotificationType[]): NotificationPreferences {
+    return Object.fromEntries(
+      Object.values(NotificationType).map((type) => [type, !optOuts.includes(type)])
+    ) as NotificationPreferences;
+  }
+
+  /**
+   * Format user data for API response
+   */
+  private formatUserResponse(user: User): UserResponse {
     return {
-      id: updatedUser.id,
-      email: updatedUser.email,
-      name: updatedUser.name,
-      roles: updatedUser.roles,
-      createdAt: updatedUser.createdAt,
-      updatedAt: updatedUser.updatedAt,
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      roles: user.roles,
+      timeZone: user.timeZone,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
     };
   }
 }
@@ -0,0 +1,102 @@
+import { SlotStatus, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { bookingRepository, slotRepository, waitlistRepository } from '../repositories';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  WaitlistEntryResponse,
+} from '../types';
+
+export class WaitlistService {
+  /**
+   * Join the FIFO waitlist of a fully booked slot
+   * Business Rules:
+   * - Slot must be fully booked, not cancelled, and in the future
+   * - Hosts cannot wait for their own slots
+   * - Guests who already hold a seat, or are already waiting, cannot join again
+   *
+   * The slot row is locked so joining cannot interleave with a cancellation
+   * that promotes from the same waitlist.
+   */
+  async joinWaitlist(userId: string, slotId: string): Promise<WaitlistEntryResponse> {
+    const entry = await prisma.$transaction(async (tx) => {
+      const slot = await slotRepository.findByIdForUpdate(tx, slotId);
+
+      if (!slot) {
+        throw new NotFoundError('Slot');
+      }
+
+      if (slot.status === SlotStatus.CANCELLED) {
+        throw new BadRequestError('Cannot join the waitlist of a cancelled slot');
+      }
+
+      if (slot.startTime <= new Date()) {
+        throw new BadRequestError('Cannot join the waitlist of a slot in the past');
+      }
+
+      if (slot.hostId === userId) {
+        throw new BadRequestError('You cannot join the waitlist of your own slot');
+      }
+
+      if (slot.status === SlotStatus.AVAILABLE) {
+        throw new BadRequestError('Slot still has available seats; book it directly');
+      }
+
+      if (slot.status === SlotStatus.HELD) {
+        throw new BadRequestError('Slot is only held for a few minutes; try booking it again later');
+      }
+
+      const hasBooking = await bookingRepository.hasActiveBooking(slotId, userId, tx);
+      if (hasBooking) {
+        throw new ConflictError('You already have a booking for this slot');
+      }
+
+      const existing = await waitlistRepository.findWaitingEntry(slotId, userId, tx);
+      if (existing) {
+        throw new ConflictError('You are already on the waitlist for this slot');
+      }
+
+      return waitlistRepository.create({ slotId, userId }, tx);
+    });
+
+    return this.formatEntryResponse(entry);
+  }
+
+  /**
+   * Leave the waitlist of a slot
+   */
+  async leaveWaitlist(userId: string, slotId: string): Promise<WaitlistEntryResponse> {
+    const entry = await waitlistRepository.findWaitingEntry(slotId, userId);
+
+    if (!entry) {
+      throw new NotFoundError('Waitlist entry');
+    }
+
+    const removed = await waitlistRepository.updateStatus(entry.id, WaitlistStatus.REMOVED);
+
+    return this.formatEntryResponse(removed);
+  }
+
+  /**
+   * Format entry data for API response, with the place in line while WAITING
+   */
+  private async formatEntryResponse(entry: WaitlistEntry): Promise<WaitlistEntryResponse> {
+    const position = entry.status === WaitlistStatus.WAITING
+      ? await waitlistRepository.countWaitingBefore(entry.slotId, entry.createdAt) + 1
+      : undefined;
+
+    return {
+      id: entry.id,
+      slotId: entry.slotId,
+      userId: entry.userId,
+      status: entry.status,
+      position,
+      bookingId: entry.bookingId,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+  }
+}
+
+export const waitlistService = new WaitlistService();
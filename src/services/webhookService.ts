@@ -0,0 +1,234 @@
+import { Prisma, WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@prisma/client';
+import { webhookDeliveryRepository, webhookSubscriptionRepository } from '../repositories';
+import {
+  ConflictError,
+  NotFoundError,
+  WebhookDeliveryResponse,
+  WebhookEnvelope,
+  WebhookEventType,
+  WebhookSubscriptionResponse,
+} from '../types';
+import { WEBHOOK_TIMEOUT_MS } from '../utils/constants';
+import { generateToken, signWebhookPayload } from '../utils/crypto';
+import { CreateWebhookSubscriptionInput } from '../utils/validation';
+import { addWebhookDeliveryJob } from '../queues';
+
+export class WebhookService {
+  /**
+   * Subscribe an endpoint to event types
+   * A signing secret is generated unless one is given; it is only returned here.
+   */
+  async createSubscription(
+    data: CreateWebhookSubscriptionInput
+  ): Promise<WebhookSubscriptionResponse> {
+    const secret = data.secret ?? generateToken();
+
+    const subscription = await webhookSubscriptionRepository.create({
+      url: data.url,
+      secret,
+      eventTypes: [...new Set(data.eventTypes)],
+    });
+
+    return { ...this.formatSubscriptionResponse(subscription), secret };
+  }
+
+  /**
+   * List all subscriptions (without their secrets)
+   */
+  async getSubscriptions(): Promise<WebhookSubscriptionResponse[]> {
+    const subscriptions = await webhookSubscriptionRepository.findAll();
+    return subscriptions.map((subscription) => this.formatSubscriptionResponse(subscription));
+  }
+
+  /**
+   * Delete a subscription; pending deliveries are dropped
+   */
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    await this.findSubscription(subscriptionId);
+    await webhookSubscriptionRepository.delete(subscriptionId);
+  }
+
+  /**
+   * Delivery log of a subscription
+   */
+  async getDeliveries(
+    subscriptionId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ deliveries: WebhookDeliveryResponse[]; total: number; page: number; limit: number }> {
+    await this.findSubscription(subscriptionId);
+
+    const { deliveries, total } = await webhookDeliveryRepository.findBySubscription(
+      subscriptionId,
+      options
+    );
+
+    return {
+      deliveries: deliveries.map((delivery) => this.formatDeliveryResponse(delivery)),
+      total,
+      page: options.page,
+      limit: options.limit,
+    };
+  }
+
+  /**
+   * Send a delivery again with the original payload
+   * Business Rules:
+   * - Deliveries still pending (queued or retrying) cannot be replayed
+   */
+  async replayDelivery(deliveryId: string): Promise<WebhookDeliveryResponse> {
+    const delivery = await webhookDeliveryRepository.findById(deliveryId);
+
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery');
+    }
+
+    if (delivery.status === WebhookDeliveryStatus.PENDING) {
+      throw new ConflictError('Webhook delivery is still pending');
+    }
+
+    const pending = await webhookDeliveryRepository.markPending(deliveryId);
+    await addWebhookDeliveryJob(deliveryId);
+
+    return this.formatDeliveryResponse(pending);
+  }
+
+  /**
+   * Record a delivery of an event to every subscription to it and queue them
+   * The event ID is the envelope ID, so receivers can drop repeats; an event
+   * emitted again is not delivered twice to a subscription that already has it.
+   */
+  async dispatch(eventType: WebhookEventType, data: unknown, eventId: string): Promise<void> {
+    const subscriptions = await webhookSubscriptionRepository.findByEventType(eventType);
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const envelope: WebhookEnvelope = {
+      id: eventId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    // Round-trip through JSON so Dates are stored as the ISO strings that are sent
+    const payload = JSON.parse(JSON.stringify(envelope)) as Prisma.InputJsonValue;
+
+    for (const subscription of subscriptions) {
+      if (await webhookDeliveryRepository.existsForEvent(subscription.id, eventId)) {
+        continue;
+      }
+
+      const delivery = await webhookDeliveryRepository.create({
+        subscriptionId: subscription.id,
+        eventType,
+        payload,
+      });
+      await addWebhookDeliveryJob(delivery.id);
+    }
+  }
+
+  /**
+   * Make one delivery attempt: POST the signed payload and record the outcome
+   * Throws when the attempt failed so the queue retries it with backoff; the
+   * delivery is marked FAILED on the last attempt.
+   */
+  async deliver(deliveryId: string, isLastAttempt: boolean): Promise<void> {
+    const delivery = await webhookDeliveryRepository.findByIdWithSubscription(deliveryId);
+
+    // The subscription (and its log) was deleted after the job was queued
+    if (!delivery) {
+      return;
+    }
+
+    const { subscription } = delivery;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'slot-booking-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : 'Request failed';
+    }
+
+    let status: WebhookDeliveryStatus = WebhookDeliveryStatus.SUCCEEDED;
+    if (error) {
+      status = isLastAttempt ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING;
+    }
+
+    await webhookDeliveryRepository.recordAttempt(deliveryId, {
+      status,
+      responseStatus,
+      lastError: error,
+    });
+
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  /**
+   * Find a subscription or throw NotFoundError
+   */
+  private async findSubscription(subscriptionId: string): Promise<WebhookSubscription> {
+    const subscription = await webhookSubscriptionRepository.findById(subscriptionId);
+
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription');
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Format subscription data for API response
+   */
+  private formatSubscriptionResponse(subscription: WebhookSubscription): WebhookSubscriptionResponse {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      eventTypes: subscription.eventTypes as WebhookEventType[],
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+
+  /**
+   * Format delivery data for API response
+   */
+  private formatDeliveryResponse(delivery: WebhookDelivery): WebhookDeliveryResponse {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      eventType: delivery.eventType as WebhookEventType,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+      updatedAt: delivery.updatedAt,
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
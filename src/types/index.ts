@@ -1,5 +1,19 @@
 import { Request } from 'express';
-import { BookingStatus, SlotStatus, UserRole } from '@prisma/client';
+import {
+  BookingStatus,
+  CancellationActor,
+  IntakeQuestionType,
+  LocationType,
+  NotificationStatus,
+  NotificationType,
+  RecurrenceFrequency,
+  SlotChangeStatus,
+  SlotStatus,
+  UserRole,
+  WaitlistStatus,
+  WebhookDeliveryStatus,
+} from '@prisma/client';
+import { CALENDAR_IMPORT_MODES, WEBHOOK_EVENT_TYPES } from '../utils/constants';
 
 // ============================================================================
 // User Context
@@ -7,12 +21,28 @@ import { BookingStatus, SlotStatus, UserRole } from '@prisma/client';
 
 export interface UserContext {
   userId: string;
+  roles: UserRole[];
+  timeZone: string;
+  /** Session of the bearer token; absent in x-user-id header mode */
+  sessionId?: string;
 }
 
 export interface AuthenticatedRequest extends Request {
   user: UserContext;
 }
 
+// ============================================================================
+// Auth Types
+// ============================================================================
+
+export interface AuthTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+  refreshToken: string;
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -39,6 +69,7 @@ export interface ApiResponse<T = unknown> {
 export interface CreateSlotInput {
   startTime: Date;
   endTime: Date;
+  capacity?: number;
 }
 
 export interface SlotFilters {
@@ -46,19 +77,250 @@ export interface SlotFilters {
   startDate?: Date;
   endDate?: Date;
   status?: SlotStatus;
+  locationType?: LocationType;
+  /** Bounds of the slot length, in minutes */
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+/**
+ * What a slot's meeting is about and where it takes place, as set by its host
+ */
+export interface SlotDetails {
+  title: string | null;
+  description: string | null;
+  locationType: LocationType | null;
+  /** Address (IN_PERSON) or phone number (PHONE) */
+  location: string | null;
+  /** Video call link (VIDEO) */
+  meetingUrl: string | null;
 }
 
-export interface SlotResponse {
+export interface SlotResponse extends SlotDetails {
   id: string;
   hostId: string;
   hostName?: string;
   startTime: Date;
   endTime: Date;
+  durationMinutes: number;
   status: SlotStatus;
+  capacity: number;
+  /** Number of taken seats (confirmed bookings and pending requests), when known */
+  bookedCount?: number;
+  seriesId?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SlotAttendee {
+  bookingId: string;
+  userId: string;
+  userName: string;
+}
+
+/**
+ * A booking request waiting for the host's approval
+ */
+export interface SlotPendingRequest extends SlotAttendee {
+  approvalExpiresAt: Date | null;
+}
+
+/**
+ * A field error, in the same shape as request validation errors
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Outcome of one bulk slot entry; ABORTED entries were valid but not created
+ * because an atomic batch failed
+ */
+export type BulkSlotStatus = 'CREATED' | 'INVALID' | 'OVERLAP' | 'ABORTED';
+
+export interface BulkSlotResult {
+  /** Position of the entry in the request */
+  index: number;
+  status: BulkSlotStatus;
+  slot?: SlotResponse;
+  errors?: ValidationIssue[];
+  /** Earlier entry of the same batch that this entry overlaps */
+  overlapsIndex?: number;
+}
+
+export interface BulkSlotResponse {
+  created: number;
+  results: BulkSlotResult[];
+}
+
+/**
+ * A new time proposed for a booked slot, applied once every guest accepted it
+ */
+export interface SlotChangeResponse {
+  id: string;
+  slotId: string;
+  status: SlotChangeStatus;
+  /** Proposed start */
+  startTime: Date;
+  /** Proposed end */
+  endTime: Date;
+  acceptedBookingIds: string[];
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SlotUpdateResponse {
+  slot: SlotResponse;
+  /** Set when the slot has guests, who must accept the new time first */
+  pendingChange: SlotChangeResponse | null;
+}
+
+// ============================================================================
+// Slot Series Types
+// ============================================================================
+
+export interface SlotSeriesResponse {
+  id: string;
+  hostId: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: number[];
+  startTime: Date;
+  endTime: Date;
+  count: number | null;
+  until: Date | null;
+  exceptionDates: Date[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type SkippedOccurrenceReason = 'OVERLAP' | 'IN_PAST';
+
+export interface SkippedOccurrence {
+  startTime: Date;
+  endTime: Date;
+  reason: SkippedOccurrenceReason;
+}
+
+export interface SlotSeriesMaterializationResponse {
+  series: SlotSeriesResponse;
+  created: SlotResponse[];
+  skipped: SkippedOccurrence[];
+  /** Booked occurrences that were left untouched by an edit or cancellation */
+  kept?: SlotResponse[];
+}
+
+// ============================================================================
+// Availability Types
+// ============================================================================
+
+export interface AvailabilityRuleResponse {
+  id: string;
+  hostId: string;
+  /** Time zone of the host, in which weekday and times of day are interpreted */
+  timeZone: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  slotDurationMinutes: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A bookable window computed from availability rules that has no Slot row yet.
+ * It is listed alongside slots and booked by hostId/startTime/endTime.
+ */
+export interface AvailabilityWindowResponse {
+  id: null;
+  hostId: string;
+  hostName?: string;
+  startTime: Date;
+  endTime: Date;
+  status: typeof SlotStatus.AVAILABLE;
+  availabilityRuleId: string;
+}
+
+/**
+ * A host's rules on when their slots can be booked, set in their host policy
+ */
+export interface BookingRules {
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  minNoticeHours: number;
+  /** null for no limit */
+  maxHorizonDays: number | null;
+}
+
+// ============================================================================
+// Calendar Import Types
+// ============================================================================
+
+export type CalendarImportMode = typeof CALENDAR_IMPORT_MODES[number];
+
+export interface BusyBlockResponse {
+  id: string;
+  hostId: string;
+  /** UID of the imported event */
+  uid: string;
+  summary: string | null;
+  startTime: Date;
+  endTime: Date;
+  createdAt: Date;
+}
+
+/**
+ * An imported event occurrence; `id` is the created busy block or slot,
+ * or null in a dry run
+ */
+export interface ImportedEvent {
+  id: string | null;
+  uid: string;
+  summary: string | null;
+  startTime: Date;
+  endTime: Date;
+}
+
+export type SkippedImportReason = 'OVERLAP' | 'IN_PAST' | 'DUPLICATE' | 'UNSUPPORTED_RECURRENCE';
+
+export interface SkippedImportEvent extends Omit<ImportedEvent, 'id'> {
+  reason: SkippedImportReason;
+}
+
+export interface CalendarImportResponse {
+  mode: CalendarImportMode;
+  dryRun: boolean;
+  created: ImportedEvent[];
+  skipped: SkippedImportEvent[];
+}
+
+// ============================================================================
+// Host Policy Types
+// ============================================================================
+
+/**
+ * The booking limits in effect for a host, with platform defaults filled in
+ */
+export interface HostPolicyResponse {
+  /** null while the host uses the platform defaults */
+  id: string | null;
+  hostId: string;
+  maxActiveBookings: number;
+  cancellationWindowHours: number;
+  allowMultipleBookings: boolean;
+  /** null for no limit */
+  maxBookingsPerDay: number | null;
+  requiresApproval: boolean;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  minNoticeHours: number;
+  /** null for no limit */
+  maxHorizonDays: number | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
 // ============================================================================
 // Booking Types
 // ============================================================================
@@ -67,6 +329,12 @@ export interface CreateBookingInput {
   slotId: string;
 }
 
+export interface BookingWindowInput {
+  hostId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
 export interface BookingFilters {
   status?: BookingStatus;
   startDate?: Date;
@@ -78,7 +346,7 @@ export interface BookingResponse {
   slotId: string;
   userId: string;
   status: BookingStatus;
-  slot: {
+  slot: SlotDetails & {
     id: string;
     hostId: string;
     hostName?: string;
@@ -86,10 +354,68 @@ export interface BookingResponse {
     endTime: Date;
     status: SlotStatus;
   };
+  /** Booking this one replaced when it was rescheduled */
+  rescheduledFromId: string | null;
+  cancelledBy: CancellationActor | null;
+  cancellationReason: string | null;
+  /** When a PENDING request expires if the host has not answered */
+  approvalExpiresAt: Date | null;
+  /** Answers to the host's intake questions, in question order */
+  answers: BookingAnswerResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BookingAnswerResponse {
+  /** null once the host removed the question */
+  questionId: string | null;
+  /** Question as it was asked when booking */
+  question: string;
+  answer: string;
+}
+
+// ============================================================================
+// Waitlist Types
+// ============================================================================
+
+export interface WaitlistEntryResponse {
+  id: string;
+  slotId: string;
+  userId: string;
+  status: WaitlistStatus;
+  /** 1-based place in line, only while WAITING */
+  position?: number;
+  bookingId: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// ============================================================================
+// Intake Question Types
+// ============================================================================
+
+export interface IntakeQuestionResponse {
+  id: string;
+  hostId: string;
+  /** null for the host's profile questions */
+  slotId: string | null;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  options: string[];
+  position: number;
+}
+
+// ============================================================================
+// Slot Hold Types
+// ============================================================================
+
+export interface SlotHoldResponse {
+  slotId: string;
+  userId: string;
+  expiresAt: Date;
+}
+
 // ============================================================================
 // Analytics Types
 // ============================================================================
@@ -97,6 +423,8 @@ export interface BookingResponse {
 export interface AnalyticsFilters {
   startDate: Date;
   endDate: Date;
+  /** Time zone in which days are bucketed */
+  tz: string;
 }
 
 export interface AnalyticsResponse {
@@ -122,10 +450,75 @@ export interface UserResponse {
   email: string;
   name: string;
   roles: UserRole[];
+  timeZone: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+/**
+ * Whether the user receives each notification type
+ */
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export interface NotificationLogResponse {
+  id: string;
+  userId: string;
+  bookingId: string | null;
+  type: NotificationType;
+  status: NotificationStatus;
+  transport: string;
+  recipient: string;
+  subject: string;
+  body: string;
+  error: string | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface WebhookSubscriptionResponse {
+  id: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  /** Signing secret; only returned when the subscription is created */
+  secret?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface WebhookDeliveryResponse {
+  id: string;
+  subscriptionId: string;
+  eventType: WebhookEventType;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Body of a webhook request
+ */
+export interface WebhookEnvelope {
+  /** Outbox event ID, shared by every delivery of one event, including repeats */
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: unknown;
+}
+
 // ============================================================================
 // Error Types
 // ============================================================================
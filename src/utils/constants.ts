@@ -3,15 +3,273 @@
 // ============================================================================
 
 /**
- * Maximum number of active (upcoming, confirmed) bookings a user can have
+ * Maximum number of active (upcoming, confirmed) bookings a user can have,
+ * unless the host's policy sets another limit
  */
 export const MAX_ACTIVE_BOOKINGS = 5;
 
 /**
- * Minimum hours before slot start time when cancellation is allowed
+ * How many times a booking transaction is retried after a serialization failure
+ * Concurrent bookings of a group slot conflict even when seats remain
+ */
+export const BOOKING_TRANSACTION_RETRIES = 5;
+
+/**
+ * Maximum number of seats a group slot can offer
+ */
+export const MAX_SLOT_CAPACITY = 100;
+
+/**
+ * Maximum number of slots created by one bulk request
+ */
+export const MAX_BULK_SLOTS = 100;
+
+/**
+ * Minimum hours before slot start time when cancellation is allowed,
+ * unless the host's policy sets another window
  */
 export const CANCELLATION_WINDOW_HOURS = 1;
 
+/**
+ * Maximum length of the reason a host gives when cancelling a slot
+ */
+export const MAX_CANCELLATION_REASON_LENGTH = 500;
+
+/**
+ * Maximum length of a slot's title
+ */
+export const MAX_SLOT_TITLE_LENGTH = 200;
+
+/**
+ * Maximum length of a slot's description
+ */
+export const MAX_SLOT_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Maximum length of a slot's address or phone number, and of its meeting URL
+ */
+export const MAX_SLOT_LOCATION_LENGTH = 500;
+
+/**
+ * Maximum number of occurrences a single slot series can generate
+ */
+export const MAX_SERIES_OCCURRENCES = 200;
+
+/**
+ * How many days ahead bookable windows are generated from availability rules
+ */
+export const AVAILABILITY_HORIZON_DAYS = 14;
+
+/**
+ * Upper bound of a host's buffer before or after booked slots, in minutes
+ */
+export const MAX_BOOKING_BUFFER_MINUTES = 24 * 60;
+
+/**
+ * Upper bound of a host's minimum booking notice, in hours
+ */
+export const MAX_MIN_NOTICE_HOURS = 90 * 24;
+
+/**
+ * Upper bound of a host's maximum booking horizon, in days
+ */
+export const MAX_BOOKING_HORIZON_DAYS = 2 * 365;
+
+/**
+ * Upper bound of a host policy's maximum active bookings per guest
+ */
+export const MAX_POLICY_ACTIVE_BOOKINGS = 100;
+
+/**
+ * Upper bound of a host policy's cancellation window, in hours
+ */
+export const MAX_CANCELLATION_WINDOW_HOURS = 30 * 24;
+
+/**
+ * Upper bound of a host policy's maximum bookings per day
+ */
+export const MAX_POLICY_BOOKINGS_PER_DAY = 100;
+
+/**
+ * Maximum intake questions of a host profile or of a slot
+ */
+export const MAX_INTAKE_QUESTIONS = 20;
+
+/**
+ * Maximum length of an intake question, and of each option of a CHOICE question
+ */
+export const MAX_INTAKE_QUESTION_LENGTH = 200;
+
+/**
+ * Maximum options of a CHOICE intake question
+ */
+export const MAX_INTAKE_QUESTION_OPTIONS = 20;
+
+/**
+ * Maximum length of a guest's answer to an intake question
+ */
+export const MAX_INTAKE_ANSWER_LENGTH = 2000;
+
+/**
+ * Time zone used when neither the request nor the user specifies one
+ */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Lifetime of a JWT access token, in seconds
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+/**
+ * Lifetime of a sign-in session (and its refresh tokens), in days
+ */
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Lifetime of a magic sign-in link, in minutes
+ */
+export const MAGIC_LINK_TTL_MINUTES = 15;
+
+/**
+ * Minimum length of a user password
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * How long finished booking jobs and their results are kept for polling, in seconds
+ */
+export const DEFAULT_BOOKING_JOB_TTL_SECONDS = 60 * 60;
+
+/**
+ * Where meeting URLs are generated for video slots without one; each slot gets a random room
+ */
+export const DEFAULT_MEETING_URL_BASE = 'https://meet.jit.si';
+
+/**
+ * How long an Idempotency-Key and its stored response are kept, in seconds
+ */
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Maximum length of an Idempotency-Key header
+ */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Domain events that can be delivered to webhook subscriptions
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'booking.created',
+  'booking.cancelled',
+  'booking.requested',
+  'booking.declined',
+  'slot.created',
+  'slot.deleted',
+  'slot.updated',
+] as const;
+
+/**
+ * Attempts per webhook delivery before it is marked FAILED
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/**
+ * Delay before the first webhook retry, in milliseconds; doubles on each retry
+ */
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Time allowed for a webhook receiver to respond, in milliseconds
+ */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * How often the outbox relay looks for pending events, in milliseconds
+ */
+export const OUTBOX_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Maximum number of outbox events published per relay pass
+ */
+export const OUTBOX_BATCH_SIZE = 100;
+
+/**
+ * Attempts per outbox event when a listener keeps failing; the event is then
+ * marked pending again and published anew by the relay
+ */
+export const OUTBOX_MAX_ATTEMPTS = 5;
+
+/**
+ * Delay before the first retry of an outbox event, in milliseconds; doubles on each retry
+ */
+export const OUTBOX_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Lead times before a slot starts at which its guests are reminded, in minutes
+ */
+export const BOOKING_REMINDER_LEAD_MINUTES = [24 * 60, 60] as const;
+
+/**
+ * Attempts per booking reminder before it is given up
+ */
+export const REMINDER_MAX_ATTEMPTS = 3;
+
+/**
+ * How long a host has to answer a booking request before it expires, in hours
+ * Requests for slots starting sooner expire when the slot starts.
+ */
+export const BOOKING_APPROVAL_TTL_HOURS = 24;
+
+/**
+ * Attempts per booking request expiry job before it is given up
+ */
+export const APPROVAL_EXPIRY_MAX_ATTEMPTS = 5;
+
+/**
+ * How long a guest can hold a slot while completing their booking, in minutes
+ */
+export const SLOT_HOLD_TTL_MINUTES = 10;
+
+/**
+ * Attempts per slot hold expiry job before it is given up
+ */
+export const SLOT_HOLD_EXPIRY_MAX_ATTEMPTS = 5;
+
+/**
+ * Time allowed for each reply of an SMTP server, in milliseconds
+ */
+export const SMTP_TIMEOUT_MS = 10000;
+
+/**
+ * How far back calendar feeds include past bookings and slots, in days
+ */
+export const CALENDAR_FEED_PAST_DAYS = 30;
+
+/**
+ * What an iCalendar import does: block busy events, or create slots from free events
+ */
+export const CALENDAR_IMPORT_MODES = ['BUSY', 'SLOTS'] as const;
+
+/**
+ * How many days ahead events are imported from an iCalendar file
+ */
+export const CALENDAR_IMPORT_HORIZON_DAYS = 90;
+
+/**
+ * Largest iCalendar file accepted for import, in bytes
+ */
+export const CALENDAR_IMPORT_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Time allowed to download an iCalendar file from a URL, in milliseconds
+ */
+export const CALENDAR_IMPORT_TIMEOUT_MS = 10000;
+
+/**
+ * Redirects followed when downloading an iCalendar file from a URL
+ */
+export const CALENDAR_IMPORT_MAX_REDIRECTS = 5;
+
 /**
  * Default pagination limit
  */
@@ -38,6 +296,13 @@ export const ErrorCodes = {
   SLOT_IN_PAST: 'SLOT_IN_PAST',
   SLOT_HAS_BOOKING: 'SLOT_HAS_BOOKING',
   
+  // Slot series errors
+  SERIES_NOT_FOUND: 'SERIES_NOT_FOUND',
+  
+  // Availability errors
+  AVAILABILITY_RULE_OVERLAP: 'AVAILABILITY_RULE_OVERLAP',
+  WINDOW_NOT_AVAILABLE: 'WINDOW_NOT_AVAILABLE',
+  
   // Booking errors
   BOOKING_NOT_FOUND: 'BOOKING_NOT_FOUND',
   BOOKING_OWN_SLOT: 'BOOKING_OWN_SLOT',
@@ -48,6 +313,8 @@ export const ErrorCodes = {
   // Auth errors
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   NOT_A_HOST: 'NOT_A_HOST',
+  INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+  INVALID_TOKEN: 'INVALID_TOKEN',
   
   // System errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
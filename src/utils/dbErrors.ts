@@ -0,0 +1,23 @@
+/**
+ * Detect a violation of the slot_no_overlap exclusion constraint.
+ * Prisma does not map exclusion constraints to a known error code,
+ * so the constraint name in the message is the only reliable signal.
+ */
+export function isSlotOverlapError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('slot_no_overlap');
+}
+
+/**
+ * Detect a serialization failure (SQLSTATE 40001) or deadlock of a transaction.
+ * These are safe to retry: the transaction was rolled back without side effects.
+ */
+export function isSerializationError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  return (error as { code?: string }).code === 'P2034' ||
+    error.message.includes('could not serialize access') ||
+    error.message.includes('40001') ||
+    error.message.includes('deadlock');
+}
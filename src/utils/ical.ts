@@ -0,0 +1,149 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for booking invites and calendar feeds
+ */
+
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface CalendarEvent {
+  /** Stable across updates, so calendars replace the event instead of duplicating it */
+  uid: string;
+  /** Revision of the event; must increase with every change calendars should apply */
+  sequence: number;
+  start: Date;
+  end: Date;
+  /** When the event was last changed */
+  updatedAt: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  /** Link of the event, e.g. its video call */
+  url?: string;
+  status: CalendarEventStatus;
+  organizer?: { name: string; email: string };
+  attendee?: { name: string; email: string };
+  /** Show the time as free (e.g. an open slot) */
+  transparent?: boolean;
+}
+
+export interface Calendar {
+  /** REQUEST or CANCEL for invites; PUBLISH (default) for feeds */
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  name?: string;
+  events: CalendarEvent[];
+}
+
+// Lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. 20260201T100000Z
+ */
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quote a parameter value such as a CN
+ */
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, without splitting characters
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS - (chunks.length > 0 ? 1 : 0)) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatICalDate(stamp)}`,
+    `LAST-MODIFIED:${formatICalDate(event.updatedAt)}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+    `TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.organizer) {
+    lines.push(`ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+  if (event.attendee) {
+    const partstat = event.status === 'CANCELLED' ? 'DECLINED' : 'ACCEPTED';
+    lines.push(
+      `ATTENDEE;CN=${quoteParam(event.attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat}` +
+      `:mailto:${event.attendee.email}`
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize a calendar as an iCalendar object (text/calendar)
+ */
+export function buildCalendar(calendar: Calendar): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Slot Booking System//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${calendar.method ?? 'PUBLISH'}`,
+  ];
+
+  if (calendar.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
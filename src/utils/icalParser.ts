@@ -0,0 +1,399 @@
+import { RecurrenceFrequency } from '@prisma/client';
+import { expandRecurrence, Occurrence, RecurrenceRule } from './recurrence';
+import { DAY_MS, HOUR_MS, MINUTE_MS } from './time';
+import { fromZonedDateTime, isValidTimeZone, toZonedDateTime } from './timezone';
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for importing events
+ *
+ * Supports VEVENTs with DATE and DATE-TIME values (UTC, TZID or floating), DURATION,
+ * EXDATE, RECURRENCE-ID overrides and DAILY/WEEKLY/MONTHLY RRULEs with INTERVAL,
+ * COUNT, UNTIL and (weekly) BYDAY. Other recurrence rules are reported as unsupported.
+ */
+
+/**
+ * A DATE or DATE-TIME value as written in the file
+ */
+interface ICalDateValue {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** VALUE=DATE, i.e. an all-day value */
+  dateOnly: boolean;
+  /** Ends with Z */
+  utc: boolean;
+  tzid?: string;
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string | null;
+  start: ICalDateValue;
+  end: ICalDateValue | null;
+  durationMs: number | null;
+  rrule: string | null;
+  exceptionDates: ICalDateValue[];
+  /** Set on an event that overrides one occurrence of a recurring event */
+  recurrenceId: ICalDateValue | null;
+  cancelled: boolean;
+  /** TRANSP:TRANSPARENT, i.e. the time is shown as free */
+  transparent: boolean;
+}
+
+export interface ICalOccurrence extends Occurrence {
+  uid: string;
+  summary: string | null;
+  transparent: boolean;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ICalParseError';
+  }
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// RRULE parts the expansion understands; any other part makes the rule unsupported
+const SUPPORTED_RRULE_PARTS = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'WKST']);
+
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Split a content line at the first unquoted occurrence of `separator`
+ */
+function splitUnquoted(line: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quoted = false;
+  let start = 0;
+
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') {
+      quoted = !quoted;
+    } else if (line[index] === separator && !quoted) {
+      parts.push(line.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(line.slice(start));
+
+  return parts;
+}
+
+/**
+ * Parse a content line such as DTSTART;TZID=Europe/Berlin:20260201T090000
+ */
+function parseProperty(line: string): ICalProperty | null {
+  const [head, ...rest] = splitUnquoted(line, ':');
+  if (rest.length === 0) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitUnquoted(head, ';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: rest.join(':') };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+function parseDateValue(value: string, params: Record<string, string>): ICalDateValue {
+  const match = DATE_VALUE_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ICalParseError(`Invalid date value "${value}"`);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+    dateOnly: params.VALUE === 'DATE' || hour === undefined,
+    utc: utc === 'Z',
+    tzid: params.TZID,
+  };
+}
+
+function parseDuration(value: string): number {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ICalParseError(`Invalid duration "${value}"`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const duration =
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * HOUR_MS +
+    Number(minutes ?? 0) * MINUTE_MS +
+    Number(seconds ?? 0) * 1000;
+
+  return sign === '-' ? -duration : duration;
+}
+
+function toEvent(properties: ICalProperty[]): ICalEvent {
+  const find = (name: string) => properties.find((property) => property.name === name);
+
+  const dtstart = find('DTSTART');
+  if (!dtstart) {
+    throw new ICalParseError('VEVENT without DTSTART');
+  }
+
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  const summary = find('SUMMARY');
+  const recurrenceId = find('RECURRENCE-ID');
+
+  return {
+    // UID is required by RFC 5545; fall back to the start so re-imports stay stable
+    uid: find('UID')?.value.trim() || `${dtstart.value.trim()}@import`,
+    summary: summary ? unescapeText(summary.value) : null,
+    start: parseDateValue(dtstart.value, dtstart.params),
+    end: dtend ? parseDateValue(dtend.value, dtend.params) : null,
+    durationMs: duration ? parseDuration(duration.value) : null,
+    rrule: find('RRULE')?.value.trim() ?? null,
+    exceptionDates: properties
+      .filter((property) => property.name === 'EXDATE')
+      .flatMap((property) =>
+        property.value.split(',').map((value) => parseDateValue(value, property.params))
+      ),
+    recurrenceId: recurrenceId ? parseDateValue(recurrenceId.value, recurrenceId.params) : null,
+    cancelled: find('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    transparent: find('TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT',
+  };
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document
+ * Components nested in events (e.g. VALARM) and other components are ignored.
+ */
+export function parseICalendar(text: string): ICalEvent[] {
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ICalParseError('Missing BEGIN:VCALENDAR');
+  }
+
+  const events: ICalEvent[] = [];
+  const components: string[] = [];
+  let properties: ICalProperty[] = [];
+
+  for (const line of lines) {
+    const property = line.trim() ? parseProperty(line) : null;
+    if (!property) {
+      continue;
+    }
+
+    const component = property.value.trim().toUpperCase();
+    if (property.name === 'BEGIN') {
+      components.push(component);
+      if (component === 'VEVENT') {
+        properties = [];
+      }
+    } else if (property.name === 'END') {
+      if (components.pop() === 'VEVENT') {
+        events.push(toEvent(properties));
+      }
+    } else if (components[components.length - 1] === 'VEVENT') {
+      properties.push(property);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Time zone in which a value's wall time is read: its TZID when known to the runtime,
+ * UTC for Z values, and the importing user's zone for floating values
+ */
+function resolveTimeZone(value: ICalDateValue, defaultTimeZone: string): string {
+  if (value.utc) {
+    return 'UTC';
+  }
+  return value.tzid && isValidTimeZone(value.tzid) ? value.tzid : defaultTimeZone;
+}
+
+function toInstant(value: ICalDateValue, defaultTimeZone: string): Date {
+  return fromZonedDateTime(value, resolveTimeZone(value, defaultTimeZone));
+}
+
+/**
+ * Wall time of an instant in a time zone, encoded as a UTC Date
+ * Recurrences are expanded on wall times so occurrences keep their local time across DST.
+ */
+function toWallTime(date: Date, timeZone: string): Date {
+  const zoned = toZonedDateTime(date, timeZone);
+  return new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second));
+}
+
+function fromWallTime(wallTime: Date, timeZone: string): Date {
+  return fromZonedDateTime({
+    year: wallTime.getUTCFullYear(),
+    month: wallTime.getUTCMonth() + 1,
+    day: wallTime.getUTCDate(),
+    hour: wallTime.getUTCHours(),
+    minute: wallTime.getUTCMinutes(),
+    second: wallTime.getUTCSeconds(),
+  }, timeZone);
+}
+
+/**
+ * Convert an RRULE to a RecurrenceRule on wall times, or null when it is not supported
+ */
+function toRecurrenceRule(
+  rrule: string,
+  timeZone: string,
+  defaultTimeZone: string
+): RecurrenceRule | null {
+  const parts = new Map(
+    rrule.split(';').map((part) => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+
+  const frequency = parts.get('FREQ');
+  if (
+    [...parts.keys()].some((key) => !SUPPORTED_RRULE_PARTS.has(key)) ||
+    (frequency !== RecurrenceFrequency.DAILY &&
+      frequency !== RecurrenceFrequency.WEEKLY &&
+      frequency !== RecurrenceFrequency.MONTHLY)
+  ) {
+    return null;
+  }
+
+  // Only plain weekday codes (no "1MO" positions), and only for weekly rules
+  const byDay = parts.get('BYDAY')?.split(',');
+  const byWeekday = byDay?.map((code) => WEEKDAY_CODES.indexOf(code));
+  if (byWeekday && (frequency !== RecurrenceFrequency.WEEKLY || byWeekday.includes(-1))) {
+    return null;
+  }
+
+  let until: Date | null = null;
+  const untilValue = parts.get('UNTIL');
+  if (untilValue) {
+    const value = parseDateValue(untilValue, {});
+    until = value.dateOnly
+      // A DATE bound includes occurrences during that whole day
+      ? new Date(Date.UTC(value.year, value.month - 1, value.day + 1) - 1)
+      : toWallTime(toInstant(value, defaultTimeZone), timeZone);
+  }
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  if (!Number.isInteger(interval) || interval < 1 || (count !== null && !Number.isInteger(count))) {
+    return null;
+  }
+
+  return { frequency, interval, byWeekday, count, until };
+}
+
+/**
+ * Expand parsed events into the occurrences overlapping [from, to)
+ *
+ * Cancelled events and occurrences replaced by a RECURRENCE-ID override are left out.
+ * Recurring events whose RRULE is not supported are returned in `unsupported`
+ * with their first occurrence.
+ */
+export function expandICalEvents(
+  events: ICalEvent[],
+  options: { timeZone: string; from: Date; to: Date }
+): { occurrences: ICalOccurrence[]; unsupported: ICalOccurrence[] } {
+  const { timeZone: defaultTimeZone, from, to } = options;
+  const occurrences: ICalOccurrence[] = [];
+  const unsupported: ICalOccurrence[] = [];
+
+  // Occurrences of recurring events that were moved or cancelled individually
+  const overridden = new Set(
+    events
+      .filter((event) => event.recurrenceId)
+      .map((event) => `${event.uid}|${toInstant(event.recurrenceId!, defaultTimeZone).getTime()}`)
+  );
+
+  for (const event of events) {
+    const timeZone = resolveTimeZone(event.start, defaultTimeZone);
+    const startTime = toInstant(event.start, defaultTimeZone);
+    const wallStart = toWallTime(startTime, timeZone);
+
+    let durationMs = event.durationMs ?? (event.start.dateOnly ? DAY_MS : 0);
+    if (event.end) {
+      durationMs = toWallTime(toInstant(event.end, defaultTimeZone), timeZone).getTime() - wallStart.getTime();
+    }
+    const first = { startTime: wallStart, endTime: new Date(wallStart.getTime() + durationMs) };
+    const toOccurrence = (wall: Occurrence): ICalOccurrence => ({
+      uid: event.uid,
+      summary: event.summary,
+      transparent: event.transparent,
+      startTime: fromWallTime(wall.startTime, timeZone),
+      endTime: fromWallTime(wall.endTime, timeZone),
+    });
+
+    if (event.cancelled || durationMs <= 0) {
+      continue;
+    }
+
+    if (!event.rrule || event.recurrenceId) {
+      const occurrence = toOccurrence(first);
+      if (occurrence.startTime < to && occurrence.endTime > from) {
+        occurrences.push(occurrence);
+      }
+      continue;
+    }
+
+    const rule = toRecurrenceRule(event.rrule, timeZone, defaultTimeZone);
+    if (!rule) {
+      unsupported.push(toOccurrence(first));
+      continue;
+    }
+
+    rule.exceptionDates = event.exceptionDates.map((value) =>
+      toWallTime(toInstant(value, defaultTimeZone), timeZone)
+    );
+
+    // Wall times differ from instants by at most a day, so widen the window by one
+    const window = {
+      startTime: new Date(from.getTime() - DAY_MS),
+      endTime: new Date(to.getTime() + DAY_MS),
+    };
+
+    for (const wall of expandRecurrence(rule, first, window)) {
+      const occurrence = toOccurrence(wall);
+      if (
+        occurrence.startTime < to &&
+        occurrence.endTime > from &&
+        !overridden.has(`${event.uid}|${occurrence.startTime.getTime()}`)
+      ) {
+        occurrences.push(occurrence);
+      }
+    }
+  }
+
+  return {
+    occurrences: occurrences.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+    unsupported,
+  };
+}
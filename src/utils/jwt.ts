@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Registered claims used by this API, plus custom claims
+ */
+export interface JwtPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const HEADER = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Create an HS256-signed JWT that expires `expiresInSeconds` from now
+ */
+export function signJwt(
+  claims: { sub: string; [claim: string]: unknown },
+  secret: string,
+  expiresInSeconds: number
+): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = base64UrlEncode(JSON.stringify({ ...claims, iat, exp: iat + expiresInSeconds }));
+  const data = `${HEADER}.${payload}`;
+
+  return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * Verify an HS256 JWT's signature and expiry
+ * Returns null for malformed, tampered, or expired tokens.
+ */
+export function verifyJwt(token: string, secret: string): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== HEADER) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims: JwtPayload;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    return null;
+  }
+
+  return claims.exp > Date.now() / 1000 ? claims : null;
+}
@@ -0,0 +1,20 @@
+import { LocationType, Slot } from '@prisma/client';
+
+/**
+ * Describe where a slot's meeting takes place, e.g. "Video call: https://meet.jit.si/..."
+ * Returns null for slots without a location type.
+ */
+export function describeLocation(
+  slot: Pick<Slot, 'locationType' | 'location' | 'meetingUrl'>
+): string | null {
+  switch (slot.locationType) {
+    case LocationType.IN_PERSON:
+      return slot.location;
+    case LocationType.PHONE:
+      return slot.location ? `Phone call: ${slot.location}` : 'Phone call';
+    case LocationType.VIDEO:
+      return slot.meetingUrl ? `Video call: ${slot.meetingUrl}` : 'Video call';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,75 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Addresses that outgoing requests to user-supplied URLs must not reach:
+ * loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges.
+ * IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+ */
+const NON_PUBLIC_RANGES = new net.BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+  return NON_PUBLIC_RANGES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Host name of a URL without the brackets of an IPv6 literal
+ */
+export function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * DNS lookup for sockets that fails when the host resolves to a non-public address
+ * Checking the addresses that are actually connected to also covers DNS rebinding.
+ * IP literals are not looked up, so check them with isNonPublicAddress first.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))) {
+      callback(new Error(`${hostname} resolves to a non-public address`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
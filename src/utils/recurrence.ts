@@ -0,0 +1,118 @@
+import { RecurrenceFrequency } from '@prisma/client';
+import { MAX_SERIES_OCCURRENCES } from './constants';
+import { DAY_MS } from './time';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  count?: number | null;
+  until?: Date | null;
+  exceptionDates?: Date[];
+}
+
+export interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Format a date as its UTC calendar day (YYYY-MM-DD)
+ */
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Generate candidate occurrence start times in chronological order.
+ * Follows RFC 5545 semantics: the first occurrence is always the series start,
+ * WEEKLY weeks begin on Monday, and MONTHLY skips months without the start day.
+ */
+function* generateStarts(rule: RecurrenceRule, first: Date): Generator<Date> {
+  const interval = Math.max(1, rule.interval);
+
+  if (rule.frequency === RecurrenceFrequency.DAILY) {
+    for (let i = 0; ; i += interval) {
+      yield new Date(first.getTime() + i * DAY_MS);
+    }
+  }
+
+  if (rule.frequency === RecurrenceFrequency.WEEKLY) {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+      ? [...new Set(rule.byWeekday)]
+      : [first.getUTCDay()];
+    // Monday of the week containing the first occurrence
+    const weekStart = new Date(first.getTime() - ((first.getUTCDay() + 6) % 7) * DAY_MS);
+    // Order weekdays Monday-first to match the week boundary
+    const offsets = weekdays.map((day) => (day + 6) % 7).sort((a, b) => a - b);
+
+    for (let week = 0; ; week += interval) {
+      for (const offset of offsets) {
+        const start = new Date(weekStart.getTime() + (week * 7 + offset) * DAY_MS);
+        if (start >= first) {
+          yield start;
+        }
+      }
+    }
+  }
+
+  // MONTHLY
+  const dayOfMonth = first.getUTCDate();
+  for (let i = 0; ; i += interval) {
+    const start = new Date(Date.UTC(
+      first.getUTCFullYear(),
+      first.getUTCMonth() + i,
+      dayOfMonth,
+      first.getUTCHours(),
+      first.getUTCMinutes(),
+      first.getUTCSeconds(),
+      first.getUTCMilliseconds()
+    ));
+    if (start.getUTCDate() === dayOfMonth) {
+      yield start;
+    }
+  }
+}
+
+/**
+ * Expand a recurrence rule into concrete occurrences.
+ * COUNT includes occurrences removed by exception dates (as in RFC 5545 EXDATE),
+ * and expansion never yields more than MAX_SERIES_OCCURRENCES candidates.
+ * With a `window`, only occurrences overlapping it are returned; earlier ones still
+ * count towards COUNT but not towards the MAX_SERIES_OCCURRENCES limit.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  first: Occurrence,
+  window?: Occurrence
+): Occurrence[] {
+  const duration = first.endTime.getTime() - first.startTime.getTime();
+  const exceptions = new Set((rule.exceptionDates ?? []).map(toDayKey));
+  const occurrences: Occurrence[] = [];
+
+  let generated = 0;
+  let collected = 0;
+  for (const startTime of generateStarts(rule, first.startTime)) {
+    if (
+      (rule.count != null && generated >= rule.count) ||
+      collected >= MAX_SERIES_OCCURRENCES ||
+      (rule.until && startTime > rule.until) ||
+      (window && startTime >= window.endTime)
+    ) {
+      break;
+    }
+    generated++;
+
+    const endTime = new Date(startTime.getTime() + duration);
+    if (window && endTime <= window.startTime) {
+      continue;
+    }
+    collected++;
+
+    if (!exceptions.has(toDayKey(startTime))) {
+      occurrences.push({ startTime, endTime });
+    }
+  }
+
+  return occurrences;
+}
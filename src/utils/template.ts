@@ -0,0 +1,19 @@
+export type TemplateContext = Record<string, string | number | boolean | null | undefined>;
+
+const SECTION_PATTERN = /\{\{#if\s+(\w+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Render a Handlebars-style template
+ *
+ * Supports `{{name}}` and (non-nested) `{{#if name}}...{{else}}...{{/if}}` sections.
+ * Missing and null values render as an empty string. Output is not HTML-escaped,
+ * since notifications are plain text.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template
+    .replace(SECTION_PATTERN, (_match, name: string, truthy: string, falsy = '') =>
+      context[name] ? truthy : falsy
+    )
+    .replace(VARIABLE_PATTERN, (_match, name: string) => String(context[name] ?? ''));
+}
@@ -0,0 +1,28 @@
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Convert an "HH:MM" time of day to minutes after midnight
+ */
+export function toMinutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether two half-open time ranges [start, end) overlap
+ */
+export function rangesOverlap(
+  a: { startTime: Date; endTime: Date },
+  b: { startTime: Date; endTime: Date }
+): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+/**
+ * Length of a time range in whole minutes
+ */
+export function durationInMinutes(range: { startTime: Date; endTime: Date }): number {
+  return Math.floor((range.endTime.getTime() - range.startTime.getTime()) / MINUTE_MS);
+}
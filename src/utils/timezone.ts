@@ -0,0 +1,205 @@
+import { DEFAULT_TIME_ZONE } from './constants';
+import { MINUTE_MS } from './time';
+
+/**
+ * Wall-clock date and time in a specific time zone
+ * Months are 1-based; weekday is 0 = Sunday ... 6 = Saturday
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number;
+}
+
+// Intl formatters are expensive to construct, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA time zone supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock representation of an instant in a time zone
+ */
+export function toZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in minutes (e.g. +480 for Asia/Singapore)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const zoned = toZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second,
+    zoned.millisecond
+  );
+  return Math.round((asUtc - date.getTime()) / MINUTE_MS);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the corresponding instant
+ * Out-of-range fields roll over (e.g. day 32), as with Date.UTC.
+ * Wall times skipped by a DST transition are shifted by the size of the gap.
+ */
+export function fromZonedDateTime(
+  wallTime: Pick<ZonedDateTime, 'year' | 'month' | 'day'> &
+    Partial<Pick<ZonedDateTime, 'hour' | 'minute' | 'second' | 'millisecond'>>,
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(
+    wallTime.year,
+    wallTime.month - 1,
+    wallTime.day,
+    wallTime.hour ?? 0,
+    wallTime.minute ?? 0,
+    wallTime.second ?? 0,
+    wallTime.millisecond ?? 0
+  );
+
+  // Correct by the offset at the guess, then once more in case it crossed a transition
+  const firstOffset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const guess = asUtc - firstOffset * MINUTE_MS;
+  const secondOffset = getTimeZoneOffset(new Date(guess), timeZone);
+
+  return new Date(asUtc - secondOffset * MINUTE_MS);
+}
+
+/**
+ * First instant of the calendar day containing `date` in a time zone
+ */
+export function startOfDayInTimeZone(date: Date, timeZone: string): Date {
+  const { year, month, day } = toZonedDateTime(date, timeZone);
+  return fromZonedDateTime({ year, month, day }, timeZone);
+}
+
+/**
+ * Last millisecond of the calendar day containing `date` in a time zone
+ */
+export function endOfDayInTimeZone(date: Date, timeZone: string): Date {
+  const { year, month, day } = toZonedDateTime(date, timeZone);
+  return new Date(fromZonedDateTime({ year, month, day: day + 1 }, timeZone).getTime() - 1);
+}
+
+// Dates and date-times without a Z or offset suffix
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+/**
+ * Parse a date filter value
+ * Values with an explicit offset (or Z) are absolute; local dates and date-times
+ * such as "2026-02-01" or "2026-02-01T09:00" are read as wall time in the time zone.
+ * Returns null when the value is not a valid date.
+ */
+export function parseDateInTimeZone(value: string, timeZone: string): Date | null {
+  const local = LOCAL_DATE_TIME_PATTERN.exec(value);
+
+  if (local) {
+    const [, year, month, day, hour, minute, second, millisecond] = local;
+    return fromZonedDateTime({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour ?? 0),
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0),
+      millisecond: Number((millisecond ?? '0').padEnd(3, '0')),
+    }, timeZone);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format an instant as ISO 8601 with the time zone's offset,
+ * e.g. 2026-02-01T18:00:00.000+08:00. UTC keeps the `Z` suffix.
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    return date.toISOString();
+  }
+
+  const zoned = toZonedDateTime(date, timeZone);
+  const offset = getTimeZoneOffset(date, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+
+  return `${pad(zoned.year, 4)}-${pad(zoned.month)}-${pad(zoned.day)}` +
+    `T${pad(zoned.hour)}:${pad(zoned.minute)}:${pad(zoned.second)}.${pad(zoned.millisecond, 3)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * Recursively render every Date in a response payload with the time zone's offset
+ */
+export function serializeDates(value: unknown, timeZone: string): unknown {
+  if (value instanceof Date) {
+    return formatInTimeZone(value, timeZone);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeDates(item, timeZone));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeDates(item, timeZone)])
+    );
+  }
+  return value;
+}
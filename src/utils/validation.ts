@@ -1,5 +1,31 @@
 import { z } from 'zod';
-import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from './constants';
+import {
+  CALENDAR_IMPORT_MODES,
+  DEFAULT_PAGE_LIMIT,
+  DEFAULT_TIME_ZONE,
+  MAX_BOOKING_BUFFER_MINUTES,
+  MAX_BOOKING_HORIZON_DAYS,
+  MAX_BULK_SLOTS,
+  MAX_CANCELLATION_REASON_LENGTH,
+  MAX_CANCELLATION_WINDOW_HOURS,
+  MAX_INTAKE_ANSWER_LENGTH,
+  MAX_INTAKE_QUESTION_LENGTH,
+  MAX_INTAKE_QUESTION_OPTIONS,
+  MAX_INTAKE_QUESTIONS,
+  MAX_MIN_NOTICE_HOURS,
+  MAX_PAGE_LIMIT,
+  MAX_POLICY_ACTIVE_BOOKINGS,
+  MAX_POLICY_BOOKINGS_PER_DAY,
+  MAX_SERIES_OCCURRENCES,
+  MAX_SLOT_CAPACITY,
+  MAX_SLOT_DESCRIPTION_LENGTH,
+  MAX_SLOT_LOCATION_LENGTH,
+  MAX_SLOT_TITLE_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  WEBHOOK_EVENT_TYPES,
+} from './constants';
+import { toMinutesOfDay } from './time';
+import { isValidTimeZone, parseDateInTimeZone } from './timezone';
 
 // ============================================================================
 // Common Schemas
@@ -14,13 +40,83 @@ export const paginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
 });
 
+export const timeZoneSchema = z.string().refine(isValidTimeZone, 'Invalid IANA time zone');
+
+// Time zone used to read date filters and render response dates
+export const timeZoneQuerySchema = z.object({
+  tz: timeZoneSchema.default(DEFAULT_TIME_ZONE),
+});
+
+/**
+ * Parse a date filter as wall time in `tz` unless it carries its own offset
+ */
+function toZonedDate(value: string, tz: string, path: string, ctx: z.RefinementCtx): Date;
+function toZonedDate(
+  value: string | undefined,
+  tz: string,
+  path: string,
+  ctx: z.RefinementCtx
+): Date | undefined;
+function toZonedDate(
+  value: string | undefined,
+  tz: string,
+  path: string,
+  ctx: z.RefinementCtx
+): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = parseDateInTimeZone(value, tz);
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.invalid_date, path: [path] });
+    return z.NEVER;
+  }
+  return date;
+}
+
 // ============================================================================
 // Slot Schemas
 // ============================================================================
 
+const locationTypeSchema = z.enum(['IN_PERSON', 'PHONE', 'VIDEO']);
+
 export const createSlotSchema = z.object({
   startTime: z.coerce.date(),
   endTime: z.coerce.date(),
+  capacity: z.coerce.number().int().min(1).max(MAX_SLOT_CAPACITY).default(1),
+  title: z.string().trim().min(1).max(MAX_SLOT_TITLE_LENGTH).optional(),
+  description: z.string().trim().min(1).max(MAX_SLOT_DESCRIPTION_LENGTH).optional(),
+  locationType: locationTypeSchema.optional(),
+  // Address of IN_PERSON slots, or phone number of PHONE slots
+  location: z.string().trim().min(1).max(MAX_SLOT_LOCATION_LENGTH).optional(),
+  // Link of VIDEO slots; generated when omitted
+  meetingUrl: z.string().url('Invalid URL').max(MAX_SLOT_LOCATION_LENGTH).refine(
+    (value) => /^https?:\/\//i.test(value),
+    'URL must use http or https'
+  ).optional(),
+}).refine(
+  (data) => data.endTime > data.startTime,
+  { message: 'End time must be after start time', path: ['endTime'] }
+).refine(
+  (data) => data.startTime > new Date(),
+  { message: 'Start time must be in the future', path: ['startTime'] }
+).refine(
+  (data) => data.locationType !== 'IN_PERSON' || data.location !== undefined,
+  { message: 'In-person slots need an address', path: ['location'] }
+).refine(
+  (data) => data.location === undefined || data.locationType === 'IN_PERSON' || data.locationType === 'PHONE',
+  { message: 'location is only supported for IN_PERSON and PHONE slots', path: ['location'] }
+).refine(
+  (data) => data.meetingUrl === undefined || data.locationType === 'VIDEO',
+  { message: 'meetingUrl is only supported for VIDEO slots', path: ['meetingUrl'] }
+);
+
+export const updateSlotSchema = z.object({
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  // Required to move a slot with confirmed bookings: the guests must accept first
+  requestConsent: z.boolean().default(false),
 }).refine(
   (data) => data.endTime > data.startTime,
   { message: 'End time must be after start time', path: ['endTime'] }
@@ -29,35 +125,251 @@ export const createSlotSchema = z.object({
   { message: 'Start time must be in the future', path: ['startTime'] }
 );
 
+// Entries are validated one by one with createSlotSchema, so one bad entry
+// does not reject the whole batch
+export const bulkCreateSlotsSchema = z.object({
+  slots: z.array(z.unknown())
+    .min(1, 'At least one slot is required')
+    .max(MAX_BULK_SLOTS, `At most ${MAX_BULK_SLOTS} slots per request`),
+  atomic: z.boolean().default(false),
+});
+
 export const slotFiltersSchema = z.object({
   hostId: z.string().uuid().optional(),
-  startDate: z.coerce.date().optional(),
-  endDate: z.coerce.date().optional(),
-  status: z.enum(['AVAILABLE', 'BOOKED', 'CANCELLED']).optional(),
-}).merge(paginationSchema);
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  status: z.enum(['AVAILABLE', 'HELD', 'BOOKED', 'CANCELLED']).optional(),
+  locationType: locationTypeSchema.optional(),
+  // Bounds of the slot length, in minutes
+  minDuration: z.coerce.number().int().min(1).optional(),
+  maxDuration: z.coerce.number().int().min(1).optional(),
+}).merge(paginationSchema).merge(timeZoneQuerySchema).refine(
+  (data) => data.minDuration === undefined || data.maxDuration === undefined || data.minDuration <= data.maxDuration,
+  { message: 'minDuration must not exceed maxDuration', path: ['maxDuration'] }
+).transform((data, ctx) => ({
+  ...data,
+  startDate: toZonedDate(data.startDate, data.tz, 'startDate', ctx),
+  endDate: toZonedDate(data.endDate, data.tz, 'endDate', ctx),
+}));
+
+export const cancelSlotSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(MAX_CANCELLATION_REASON_LENGTH),
+});
+
+// ============================================================================
+// Slot Series Schemas
+// ============================================================================
+
+const recurrenceFields = {
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+  interval: z.coerce.number().int().min(1).max(52),
+  byWeekday: z.array(z.number().int().min(0).max(6)).max(7),
+  count: z.coerce.number().int().min(1).max(MAX_SERIES_OCCURRENCES),
+  until: z.coerce.date(),
+  exceptionDates: z.array(z.coerce.date()).max(MAX_SERIES_OCCURRENCES),
+};
+
+export const createSlotSeriesSchema = z.object({
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  frequency: recurrenceFields.frequency,
+  interval: recurrenceFields.interval.default(1),
+  byWeekday: recurrenceFields.byWeekday.optional(),
+  count: recurrenceFields.count.optional(),
+  until: recurrenceFields.until.optional(),
+  exceptionDates: recurrenceFields.exceptionDates.default([]),
+}).refine(
+  (data) => data.endTime > data.startTime,
+  { message: 'End time must be after start time', path: ['endTime'] }
+).refine(
+  (data) => data.startTime > new Date(),
+  { message: 'Start time must be in the future', path: ['startTime'] }
+).refine(
+  (data) => (data.count === undefined) !== (data.until === undefined),
+  { message: 'Exactly one of count or until is required', path: ['count'] }
+).refine(
+  (data) => !data.until || data.until >= data.startTime,
+  { message: 'Until must be on or after start time', path: ['until'] }
+).refine(
+  (data) => !data.byWeekday || data.frequency === 'WEEKLY',
+  { message: 'byWeekday is only supported for WEEKLY series', path: ['byWeekday'] }
+);
+
+export const updateSlotSeriesSchema = z.object({
+  fromSlotId: z.string().uuid('Invalid slot ID'),
+  startTime: z.coerce.date().optional(),
+  endTime: z.coerce.date().optional(),
+  frequency: recurrenceFields.frequency.optional(),
+  interval: recurrenceFields.interval.optional(),
+  byWeekday: recurrenceFields.byWeekday.optional(),
+  count: recurrenceFields.count.optional(),
+  until: recurrenceFields.until.optional(),
+  exceptionDates: recurrenceFields.exceptionDates.optional(),
+}).refine(
+  (data) => (data.startTime === undefined) === (data.endTime === undefined),
+  { message: 'startTime and endTime must be provided together', path: ['endTime'] }
+).refine(
+  (data) => !data.startTime || !data.endTime || data.endTime > data.startTime,
+  { message: 'End time must be after start time', path: ['endTime'] }
+).refine(
+  (data) => !data.startTime || data.startTime > new Date(),
+  { message: 'Start time must be in the future', path: ['startTime'] }
+).refine(
+  (data) => data.count === undefined || data.until === undefined,
+  { message: 'Only one of count or until may be provided', path: ['count'] }
+);
+
+export const cancelSlotSeriesSchema = z.object({
+  fromSlotId: z.string().uuid('Invalid slot ID').optional(),
+});
+
+// ============================================================================
+// Availability Schemas
+// ============================================================================
+
+export const timeOfDaySchema = z.string().regex(
+  /^([01]\d|2[0-3]):[0-5]\d$/,
+  'Time must be in HH:MM format'
+);
+
+export const createAvailabilityRulesSchema = z.object({
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, 'At least one weekday is required').max(7),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  slotDurationMinutes: z.coerce.number().int().min(5).max(480).default(30),
+}).refine(
+  (data) => toMinutesOfDay(data.endTime) > toMinutesOfDay(data.startTime),
+  { message: 'End time must be after start time', path: ['endTime'] }
+).refine(
+  (data) => toMinutesOfDay(data.endTime) - toMinutesOfDay(data.startTime) >= data.slotDurationMinutes,
+  { message: 'Working hours must fit at least one slot', path: ['slotDurationMinutes'] }
+);
+
+export const availabilityRuleFiltersSchema = z.object({
+  hostId: z.string().uuid().optional(),
+});
+
+// ============================================================================
+// Host Policy Schemas
+// ============================================================================
+
+// Omitted (or null) limits fall back to the platform defaults; maxHorizonDays null removes the limit
+export const createHostPolicySchema = z.object({
+  maxActiveBookings: z.number().int().min(1).max(MAX_POLICY_ACTIVE_BOOKINGS).nullable().optional(),
+  cancellationWindowHours: z.number().int().min(0).max(MAX_CANCELLATION_WINDOW_HOURS).nullable().optional(),
+  allowMultipleBookings: z.boolean().optional(),
+  maxBookingsPerDay: z.number().int().min(1).max(MAX_POLICY_BOOKINGS_PER_DAY).nullable().optional(),
+  requiresApproval: z.boolean().optional(),
+  bufferBeforeMinutes: z.number().int().min(0).max(MAX_BOOKING_BUFFER_MINUTES).optional(),
+  bufferAfterMinutes: z.number().int().min(0).max(MAX_BOOKING_BUFFER_MINUTES).optional(),
+  minNoticeHours: z.number().int().min(0).max(MAX_MIN_NOTICE_HOURS).optional(),
+  maxHorizonDays: z.number().int().min(1).max(MAX_BOOKING_HORIZON_DAYS).nullable().optional(),
+}).strict();
+
+export const hostPolicyFiltersSchema = z.object({
+  hostId: z.string().uuid().optional(),
+});
+
+export const updateHostPolicySchema = createHostPolicySchema.refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one setting must be provided' }
+);
+
+// ============================================================================
+// Intake Question Schemas
+// ============================================================================
+
+const intakeQuestionSchema = z.object({
+  label: z.string().trim().min(1, 'Question is required').max(MAX_INTAKE_QUESTION_LENGTH),
+  type: z.enum(['TEXT', 'CHOICE']).default('TEXT'),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1).max(MAX_INTAKE_QUESTION_LENGTH))
+    .max(MAX_INTAKE_QUESTION_OPTIONS)
+    .default([]),
+}).strict().refine(
+  (data) => data.type === 'CHOICE' ? data.options.length >= 2 : data.options.length === 0,
+  { message: 'CHOICE questions need at least 2 options, and TEXT questions take none', path: ['options'] }
+).refine(
+  (data) => new Set(data.options).size === data.options.length,
+  { message: 'Options must be unique', path: ['options'] }
+);
+
+// Replaces the whole list; an empty list removes the questions
+export const setIntakeQuestionsSchema = z.object({
+  questions: z.array(intakeQuestionSchema).max(MAX_INTAKE_QUESTIONS),
+});
+
+// Answers keyed by question ID; checked against the questions with buildIntakeAnswersSchema
+export const intakeAnswersSchema = z.record(z.string(), z.string());
+
+/**
+ * Build the schema of the answers to a set of intake questions
+ * Required questions must be answered, CHOICE answers must be one of the options,
+ * and answers to other questions are rejected.
+ */
+export function buildIntakeAnswersSchema(
+  questions: Array<{ id: string; type: 'TEXT' | 'CHOICE'; required: boolean; options: string[] }>
+) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const question of questions) {
+    const answer = question.type === 'CHOICE'
+      ? z.enum(question.options as [string, ...string[]])
+      : z.string().trim().min(1, 'Answer is required').max(MAX_INTAKE_ANSWER_LENGTH);
+    shape[question.id] = question.required ? answer : answer.optional();
+  }
+
+  return z.object(shape).strict();
+}
 
 // ============================================================================
 // Booking Schemas
 // ============================================================================
 
 export const createBookingSchema = z.object({
+  slotId: z.string().uuid('Invalid slot ID').optional(),
+  hostId: z.string().uuid('Invalid host ID').optional(),
+  startTime: z.coerce.date().optional(),
+  endTime: z.coerce.date().optional(),
+  answers: intakeAnswersSchema.default({}),
+}).refine(
+  (data) => data.slotId
+    ? !data.hostId && !data.startTime && !data.endTime
+    : !!data.hostId && !!data.startTime && !!data.endTime,
+  { message: 'Provide either slotId, or hostId with startTime and endTime of an open window', path: ['slotId'] }
+);
+
+export const rescheduleBookingSchema = z.object({
   slotId: z.string().uuid('Invalid slot ID'),
+  answers: intakeAnswersSchema.optional(),
+});
+
+export const declineBookingSchema = z.object({
+  reason: z.string().trim().min(1).max(MAX_CANCELLATION_REASON_LENGTH).optional(),
 });
 
 export const bookingFiltersSchema = z.object({
-  status: z.enum(['CONFIRMED', 'CANCELLED']).optional(),
-  startDate: z.coerce.date().optional(),
-  endDate: z.coerce.date().optional(),
-}).merge(paginationSchema);
+  status: z.enum(['PENDING', 'CONFIRMED', 'CANCELLED']).optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+}).merge(paginationSchema).merge(timeZoneQuerySchema).transform((data, ctx) => ({
+  ...data,
+  startDate: toZonedDate(data.startDate, data.tz, 'startDate', ctx),
+  endDate: toZonedDate(data.endDate, data.tz, 'endDate', ctx),
+}));
 
 // ============================================================================
 // Analytics Schemas
 // ============================================================================
 
 export const analyticsFiltersSchema = z.object({
-  startDate: z.coerce.date(),
-  endDate: z.coerce.date(),
-}).refine(
+  startDate: z.string(),
+  endDate: z.string(),
+}).merge(timeZoneQuerySchema).transform((data, ctx) => ({
+  ...data,
+  startDate: toZonedDate(data.startDate, data.tz, 'startDate', ctx),
+  endDate: toZonedDate(data.endDate, data.tz, 'endDate', ctx),
+})).refine(
   (data) => data.endDate >= data.startDate,
   { message: 'End date must be on or after start date', path: ['endDate'] }
 );
@@ -66,20 +378,130 @@ export const analyticsFiltersSchema = z.object({
 // User Schemas
 // ============================================================================
 
+export const userRoleSchema = z.enum(['HOST', 'GUEST', 'ADMIN']);
+
+export const passwordSchema = z.string()
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  .max(200, 'Password is too long');
+
 export const createUserSchema = z.object({
   email: z.string().email('Invalid email format'),
   name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
-  roles: z.array(z.enum(['HOST', 'GUEST'])).min(1, 'At least one role is required').default(['GUEST']),
+  roles: z.array(userRoleSchema).min(1, 'At least one role is required').default(['GUEST']),
+  timeZone: timeZoneSchema.default(DEFAULT_TIME_ZONE),
+  password: passwordSchema.optional(),
 });
 
+export const updateUserSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long').optional(),
+  timeZone: timeZoneSchema.optional(),
+}).refine(
+  (data) => data.name !== undefined || data.timeZone !== undefined,
+  { message: 'At least one field must be provided' }
+);
+
+export const addRoleSchema = z.object({
+  role: userRoleSchema,
+});
+
+// Partial update: true to receive a notification type, false to opt out
+export const updateNotificationPreferencesSchema = z.object({
+  BOOKING_CONFIRMED: z.boolean().optional(),
+  BOOKING_CANCELLED: z.boolean().optional(),
+  SLOT_CANCELLED_BY_HOST: z.boolean().optional(),
+  BOOKING_REMINDER: z.boolean().optional(),
+  SLOT_CHANGE_PROPOSED: z.boolean().optional(),
+  SLOT_TIME_CHANGED: z.boolean().optional(),
+  BOOKING_DECLINED: z.boolean().optional(),
+}).strict().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one notification type must be provided' }
+);
+
+// ============================================================================
+// Auth Schemas
+// ============================================================================
+
+export const loginSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const magicLinkRequestSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export const magicLinkVerifySchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const logoutSchema = z.object({
+  allSessions: z.boolean().default(false),
+});
+
+// ============================================================================
+// Webhook Schemas
+// ============================================================================
+
+export const createWebhookSubscriptionSchema = z.object({
+  url: z.string().url('Invalid URL').refine(
+    (value) => /^https?:\/\//i.test(value),
+    'URL must use http or https'
+  ),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'At least one event type is required'),
+  secret: z.string().min(16, 'Secret must be at least 16 characters').max(200).optional(),
+});
+
+// ============================================================================
+// Calendar Import Schemas
+// ============================================================================
+
+// "true"/"false" in query strings (raw uploads pass options there)
+const booleanQuerySchema = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+export const importCalendarSchema = z.object({
+  ics: z.string().min(1, 'iCalendar content is empty').optional(),
+  url: z.string().url('Invalid URL').refine(
+    (value) => /^https?:\/\//i.test(value),
+    'URL must use http or https'
+  ).optional(),
+  mode: z.enum(CALENDAR_IMPORT_MODES).default('BUSY'),
+  dryRun: z.union([z.boolean(), booleanQuerySchema]).default(false),
+  capacity: z.coerce.number().int().min(1).max(MAX_SLOT_CAPACITY).optional(),
+}).refine(
+  (data) => (data.ics === undefined) !== (data.url === undefined),
+  { message: 'Provide either ics or url', path: ['ics'] }
+);
+
 // ============================================================================
 // Type Exports
 // ============================================================================
 
 export type CreateSlotInput = z.infer<typeof createSlotSchema>;
+export type BulkCreateSlotsInput = z.infer<typeof bulkCreateSlotsSchema>;
+export type UpdateSlotInput = z.infer<typeof updateSlotSchema>;
 export type SlotFiltersInput = z.infer<typeof slotFiltersSchema>;
+export type CreateSlotSeriesInput = z.infer<typeof createSlotSeriesSchema>;
+export type UpdateSlotSeriesInput = z.infer<typeof updateSlotSeriesSchema>;
+export type CreateAvailabilityRulesInput = z.infer<typeof createAvailabilityRulesSchema>;
+export type CreateHostPolicyInput = z.infer<typeof createHostPolicySchema>;
+export type UpdateHostPolicyInput = z.infer<typeof updateHostPolicySchema>;
 export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+export type RescheduleBookingInput = z.infer<typeof rescheduleBookingSchema>;
+export type CancelSlotInput = z.infer<typeof cancelSlotSchema>;
+export type DeclineBookingInput = z.infer<typeof declineBookingSchema>;
+export type SetIntakeQuestionsInput = z.infer<typeof setIntakeQuestionsSchema>;
+export type IntakeAnswersInput = z.infer<typeof intakeAnswersSchema>;
 export type BookingFiltersInput = z.infer<typeof bookingFiltersSchema>;
 export type AnalyticsFiltersInput = z.infer<typeof analyticsFiltersSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type CreateWebhookSubscriptionInput = z.infer<typeof createWebhookSubscriptionSchema>;
+export type ImportCalendarInput = z.infer<typeof importCalendarSchema>;
 
@@ -0,0 +1,57 @@
+import { Worker, Job } from 'bullmq';
+import { bookingService } from '../services';
+import { ApprovalExpiryJobData } from '../queues';
+
+// Redis connection config for worker
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Process approval expiry jobs; a thrown error makes BullMQ retry with backoff
+async function processApprovalExpiryJob(job: Job<ApprovalExpiryJobData>): Promise<boolean> {
+  return bookingService.expirePendingBooking(job.data.bookingId);
+}
+
+// Create the worker
+let worker: Worker<ApprovalExpiryJobData, boolean> | null = null;
+
+export function startApprovalWorker(): Worker<ApprovalExpiryJobData, boolean> {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker<ApprovalExpiryJobData, boolean>(
+    'approval-expiry',
+    processApprovalExpiryJob,
+    {
+      connection,
+      concurrency: 5,
+    }
+  );
+
+  worker.on('completed', (job, expired) => {
+    if (!expired) {
+      console.log(`[Worker] Approval expiry ${job.id} skipped: request already answered`);
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    console.error(`[Worker] Approval expiry ${job?.id} failed:`, error.message);
+  });
+
+  console.log('[Worker] Approval expiry worker started');
+  return worker;
+}
+
+export async function stopApprovalWorker(): Promise<void> {
+  if (worker) {
+    await worker.close();
+    worker = null;
+    console.log('[Worker] Approval expiry worker stopped');
+  }
+}
@@ -15,10 +15,16 @@ const connection = {
 
 // Process booking jobs
 async function processBookingJob(job: Job<BookingJobData>): Promise<BookingJobResult> {
-  const { userId, slotId } = job.data;
+  const { userId, slotId, window, answers } = job.data;
 
   try {
-    const booking = await bookingService.createBooking(userId, slotId);
+    const booking = slotId
+      ? await bookingService.createBooking(userId, slotId, answers)
+      : await bookingService.createBookingForWindow(userId, {
+        hostId: window!.hostId,
+        startTime: new Date(window!.startTime),
+        endTime: new Date(window!.endTime),
+      }, answers);
     return {
       success: true,
       data: booking,
@@ -65,7 +71,8 @@ export function startBookingWorker(): Worker<BookingJobData, BookingJobResult> {
   );
 
   worker.on('completed', (job) => {
-    console.log(`[Worker] Job ${job.id} completed for slot ${job.data.slotId}`);
+    const target = job.data.slotId ?? `window ${job.data.window?.startTime} (host ${job.data.window?.hostId})`;
+    console.log(`[Worker] Job ${job.id} completed for slot ${target}`);
   });
 
   worker.on('failed', (job, error) => {
@@ -1,2 +1,13 @@
 export { startBookingWorker, stopBookingWorker } from './bookingWorker';
 
+export { startWebhookWorker, stopWebhookWorker } from './webhookWorker';
+
+export { relayOutboxEvents, startOutboxRelay, stopOutboxRelay } from './outboxRelay';
+
+export { startOutboxWorker, stopOutboxWorker } from './outboxWorker';
+
+export { startReminderWorker, stopReminderWorker } from './reminderWorker';
+
+export { startApprovalWorker, stopApprovalWorker } from './approvalWorker';
+
+export { startSlotHoldWorker, stopSlotHoldWorker } from './slotHoldWorker';
@@ -0,0 +1,73 @@
+import { outboxEventRepository } from '../repositories';
+import { publishOutboxEvent } from '../queues';
+import { OUTBOX_BATCH_SIZE, OUTBOX_POLL_INTERVAL_MS } from '../utils/constants';
+
+/**
+ * Publish one batch of pending outbox events to the outbox queue, in order
+ *
+ * No transaction is held while publishing: rows are only marked dispatched once
+ * every job of the batch is queued. If anything fails they stay pending and are
+ * published again on the next pass (at-least-once); the outbox ID is the job ID,
+ * so an event still in the queue is not added twice.
+ * Returns the number of events published
+ */
+export async function relayOutboxEvents(): Promise<number> {
+  const events = await outboxEventRepository.findPending(OUTBOX_BATCH_SIZE);
+
+  for (const event of events) {
+    await publishOutboxEvent(event);
+  }
+
+  if (events.length > 0) {
+    await outboxEventRepository.markDispatched(events.map((event) => event.id));
+  }
+
+  return events.length;
+}
+
+// Create the relay
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<void> | null = null;
+
+async function poll(): Promise<void> {
+  // Skip this tick while the previous pass is still publishing
+  if (running) {
+    return;
+  }
+
+  running = relayOutboxEvents()
+    .then((count) => {
+      if (count > 0) {
+        console.log(`[Relay] Published ${count} outbox event(s)`);
+      }
+    })
+    .catch((error) => {
+      console.error('[Relay] Outbox relay pass failed:', error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      running = null;
+    });
+
+  await running;
+}
+
+export function startOutboxRelay(): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(() => {
+    void poll();
+  }, OUTBOX_POLL_INTERVAL_MS);
+
+  console.log('[Relay] Outbox relay started');
+}
+
+export async function stopOutboxRelay(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    await running;
+    console.log('[Relay] Outbox relay stopped');
+  }
+}
@@ -0,0 +1,82 @@
+import { Worker, Job } from 'bullmq';
+import { eventBus, DomainEvents, OutboxEventName } from '../events';
+import { OutboxJobData } from '../queues';
+import { outboxEventRepository } from '../repositories';
+
+// Redis connection config for worker
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Dates are stored as ISO strings in the outbox payload
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function reviveDates(payload: unknown): unknown {
+  if (!payload || typeof payload !== 'object') {
+    return payload;
+  }
+
+  return Object.fromEntries(
+    Object.entries(payload).map(([key, value]) => [
+      key,
+      typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value,
+    ])
+  );
+}
+
+// Emit an outbox event to in-process listeners
+// A failed listener fails the job, so the event is retried with backoff
+async function processOutboxJob(job: Job<OutboxJobData>): Promise<void> {
+  const eventType = job.data.eventType as OutboxEventName;
+
+  await eventBus.emitAndWait(
+    eventType,
+    reviveDates(job.data.payload) as DomainEvents[typeof eventType],
+    job.data.outboxEventId
+  );
+}
+
+// Create the worker
+let worker: Worker<OutboxJobData> | null = null;
+
+export function startOutboxWorker(): Worker<OutboxJobData> {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker<OutboxJobData>(
+    'outbox',
+    processOutboxJob,
+    {
+      connection,
+      concurrency: 1, // Emit events in the order they were published
+    }
+  );
+
+  worker.on('failed', (job, error) => {
+    console.error(`[Worker] Outbox job ${job?.id} failed:`, error.message);
+
+    // Out of attempts: hand the event back to the relay instead of losing it
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      outboxEventRepository.markPending(job.data.outboxEventId).catch((markError) => {
+        console.error(`[Worker] Could not mark outbox event ${job.data.outboxEventId} pending:`, markError);
+      });
+    }
+  });
+
+  console.log('[Worker] Outbox worker started');
+  return worker;
+}
+
+export async function stopOutboxWorker(): Promise<void> {
+  if (worker) {
+    await worker.close();
+    worker = null;
+    console.log('[Worker] Outbox worker stopped');
+  }
+}
@@ -0,0 +1,57 @@
+import { Worker, Job } from 'bullmq';
+import { reminderService } from '../services';
+import { ReminderJobData } from '../queues';
+
+// Redis connection config for worker
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Process reminder jobs; a thrown error (e.g. SMTP failure) makes BullMQ retry with backoff
+async function processReminderJob(job: Job<ReminderJobData>): Promise<boolean> {
+  return reminderService.sendReminder(job.data);
+}
+
+// Create the worker
+let worker: Worker<ReminderJobData, boolean> | null = null;
+
+export function startReminderWorker(): Worker<ReminderJobData, boolean> {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker<ReminderJobData, boolean>(
+    'reminder',
+    processReminderJob,
+    {
+      connection,
+      concurrency: 5,
+    }
+  );
+
+  worker.on('completed', (job, sent) => {
+    if (!sent) {
+      console.log(`[Worker] Reminder ${job.id} skipped: booking cancelled or moved, or guest opted out`);
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    console.error(`[Worker] Reminder ${job?.id} failed:`, error.message);
+  });
+
+  console.log('[Worker] Reminder worker started');
+  return worker;
+}
+
+export async function stopReminderWorker(): Promise<void> {
+  if (worker) {
+    await worker.close();
+    worker = null;
+    console.log('[Worker] Reminder worker stopped');
+  }
+}
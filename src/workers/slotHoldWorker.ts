@@ -0,0 +1,57 @@
+import { Worker, Job } from 'bullmq';
+import { slotHoldService } from '../services';
+import { SlotHoldExpiryJobData } from '../queues';
+
+// Redis connection config for worker
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Process slot hold expiry jobs; a thrown error makes BullMQ retry with backoff
+async function processSlotHoldExpiryJob(job: Job<SlotHoldExpiryJobData>): Promise<boolean> {
+  return slotHoldService.expireHold(job.data.slotId);
+}
+
+// Create the worker
+let worker: Worker<SlotHoldExpiryJobData, boolean> | null = null;
+
+export function startSlotHoldWorker(): Worker<SlotHoldExpiryJobData, boolean> {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker<SlotHoldExpiryJobData, boolean>(
+    'slot-hold-expiry',
+    processSlotHoldExpiryJob,
+    {
+      connection,
+      concurrency: 5,
+    }
+  );
+
+  worker.on('completed', (job, released) => {
+    if (!released) {
+      console.log(`[Worker] Slot hold expiry ${job.id} skipped: hold already released or booked`);
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    console.error(`[Worker] Slot hold expiry ${job?.id} failed:`, error.message);
+  });
+
+  console.log('[Worker] Slot hold expiry worker started');
+  return worker;
+}
+
+export async function stopSlotHoldWorker(): Promise<void> {
+  if (worker) {
+    await worker.close();
+    worker = null;
+    console.log('[Worker] Slot hold expiry worker stopped');
+  }
+}
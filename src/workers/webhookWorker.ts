@@ -0,0 +1,51 @@
+import { Worker, Job } from 'bullmq';
+import { webhookService } from '../services';
+import { WebhookJobData } from '../queues';
+import { WEBHOOK_MAX_ATTEMPTS } from '../utils/constants';
+
+// Redis connection config for worker
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const url = new URL(redisUrl);
+const connection = {
+  host: url.hostname,
+  port: parseInt(url.port) || 6379,
+  password: url.password || undefined,
+  maxRetriesPerRequest: null,
+};
+
+// Process webhook delivery jobs; a thrown error makes BullMQ retry with backoff
+async function processWebhookJob(job: Job<WebhookJobData>): Promise<void> {
+  const maxAttempts = job.opts.attempts ?? WEBHOOK_MAX_ATTEMPTS;
+  const isLastAttempt = job.attemptsMade + 1 >= maxAttempts;
+
+  await webhookService.deliver(job.data.deliveryId, isLastAttempt);
+}
+
+// Create the worker
+let worker: Worker<WebhookJobData> | null = null;
+
+export function startWebhookWorker(): Worker<WebhookJobData> {
+  if (worker) {
+    return worker;
+  }
+
+  worker = new Worker<WebhookJobData>('webhook', processWebhookJob, {
+    connection,
+    concurrency: 5, // Deliveries are independent; a slow receiver should not block others
+  });
+
+  worker.on('failed', (job, error) => {
+    console.error(`[Worker] Webhook delivery ${job?.data.deliveryId} attempt ${job?.attemptsMade} failed:`, error.message);
+  });
+
+  console.log('[Worker] Webhook worker started');
+  return worker;
+}
+
+export async function stopWebhookWorker(): Promise<void> {
+  if (worker) {
+    await worker.close();
+    worker = null;
+    console.log('[Worker] Webhook worker stopped');
+  }
+}
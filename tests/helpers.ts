@@ -32,6 +32,19 @@ export async function createTestHost(data?: {
   });
 }
 
+/**
+ * Create a test admin (user with ADMIN role)
+ */
+export async function createTestAdmin(data?: {
+  email?: string;
+  name?: string;
+}) {
+  return createTestUser({
+    ...data,
+    roles: [UserRole.ADMIN],
+  });
+}
+
 /**
  * Create a test slot
  */
@@ -39,6 +52,7 @@ export async function createTestSlot(hostId: string, data?: {
   startTime?: Date;
   endTime?: Date;
   status?: SlotStatus;
+  capacity?: number;
 }) {
   const startTime = data?.startTime ?? new Date(Date.now() + 24 * 60 * 60 * 1000); // Tomorrow
   const endTime = data?.endTime ?? new Date(startTime.getTime() + 60 * 60 * 1000); // 1 hour later
@@ -49,6 +63,7 @@ export async function createTestSlot(hostId: string, data?: {
       startTime,
       endTime,
       status: data?.status ?? SlotStatus.AVAILABLE,
+      capacity: data?.capacity,
     },
   });
 }
@@ -1,10 +1,23 @@
 import request from 'supertest';
 import app from '../../src/index';
-import { createTestHost, createTestUser, createTestSlot, createTestBooking, getFutureDate } from '../helpers';
+import {
+  createTestAdmin,
+  createTestHost,
+  createTestUser,
+  createTestSlot,
+  createTestBooking,
+  getFutureDate,
+} from '../helpers';
 import { BookingStatus } from '@prisma/client';
 
 describe('Analytics API', () => {
   describe('GET /api/admin/analytics', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+
+    beforeEach(async () => {
+      admin = await createTestAdmin({ name: 'Admin' });
+    });
+
     it('should return booking statistics', async () => {
       const host = await createTestHost({ name: 'Test Host' });
       const user = await createTestUser({ name: 'Test Guest' });
@@ -25,6 +38,7 @@ describe('Analytics API', () => {
 
       const response = await request(app)
         .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
         .query({
           start_date: startDate.toISOString(),
           end_date: endDate.toISOString(),
@@ -59,6 +73,7 @@ describe('Analytics API', () => {
 
       const response = await request(app)
         .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
         .query({
           start_date: startDate.toISOString(),
           end_date: endDate.toISOString(),
@@ -97,6 +112,7 @@ describe('Analytics API', () => {
 
       const response = await request(app)
         .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
         .query({
           start_date: startDate.toISOString(),
           end_date: endDate.toISOString(),
@@ -110,7 +126,8 @@ describe('Analytics API', () => {
 
     it('should require date range parameters', async () => {
       const response = await request(app)
-        .get('/api/admin/analytics');
+        .get('/api/admin/analytics')
+        .set('x-user-id', admin.id);
 
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
@@ -0,0 +1,168 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import {
+  bookingQueue,
+  enqueueBookingJob,
+  getBookingJobStatus,
+  BookingJobStatus,
+} from '../../src/queues';
+import { startBookingWorker, stopBookingWorker } from '../../src/workers';
+
+describe('Async Booking', () => {
+  describe('without queue mode', () => {
+    it('should ignore Prefer: respond-async and book synchronously', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .set('Prefer', 'respond-async')
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(201);
+      expect(response.headers['preference-applied']).toBeUndefined();
+      expect(response.body.data.slotId).toBe(slot.id);
+    });
+
+    it('should return 404 for booking jobs', async () => {
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .get('/api/bookings/jobs/1')
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  /**
+   * Requirements:
+   * - Redis must be running on localhost:6379
+   */
+  describe('job status', () => {
+    let isRedisAvailable = true;
+
+    // Poll a job until the worker has finished it
+    async function waitForJob(jobId: string, userId: string): Promise<BookingJobStatus | null> {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const job = await getBookingJobStatus(jobId, userId);
+        if (!job || job.status === 'succeeded' || job.status === 'failed') {
+          return job;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      throw new Error(`Booking job ${jobId} did not finish`);
+    }
+
+    beforeAll(async () => {
+      try {
+        await bookingQueue.getJobCounts();
+        startBookingWorker();
+      } catch {
+        isRedisAvailable = false;
+        console.warn('Redis not available - skipping async booking tests');
+      }
+    }, 10000);
+
+    afterAll(async () => {
+      if (isRedisAvailable) {
+        await stopBookingWorker();
+      }
+    }, 10000);
+
+    it('should queue a booking and report its result', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const queued = await enqueueBookingJob(guest.id, { slotId: slot.id });
+
+      expect(queued.status).toBe('pending');
+      // The worker may already have picked the job up
+      expect(queued.position ?? 1).toBe(1);
+
+      const job = await waitForJob(queued.jobId, guest.id);
+
+      expect(job?.status).toBe('succeeded');
+      expect(job?.result?.success).toBe(true);
+
+      const booking = await prisma.booking.findFirst({
+        where: { slotId: slot.id, userId: guest.id },
+      });
+      expect(booking?.status).toBe('CONFIRMED');
+    });
+
+    it('should report the position of waiting jobs', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const host = await createTestHost();
+      const slots = await Promise.all([0, 1].map((index) => createTestSlot(host.id, {
+        startTime: new Date(Date.now() + (24 + index) * 60 * 60 * 1000),
+      })));
+      const [guest1, guest2] = await Promise.all([createTestUser(), createTestUser()]);
+
+      // Keep the jobs waiting until both are queued
+      await stopBookingWorker();
+      try {
+        const first = await enqueueBookingJob(guest1.id, { slotId: slots[0].id });
+        const second = await enqueueBookingJob(guest2.id, { slotId: slots[1].id });
+
+        expect(first.position).toBe(1);
+        expect(second.position).toBe(2);
+        expect((await getBookingJobStatus(second.jobId, guest2.id))?.position).toBe(2);
+      } finally {
+        startBookingWorker();
+      }
+    }, 15000);
+
+    it('should report a rejected booking as failed', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const [guest1, guest2] = await Promise.all([createTestUser(), createTestUser()]);
+
+      const first = await enqueueBookingJob(guest1.id, { slotId: slot.id });
+      const second = await enqueueBookingJob(guest2.id, { slotId: slot.id });
+
+      expect((await waitForJob(first.jobId, guest1.id))?.status).toBe('succeeded');
+
+      const job = await waitForJob(second.jobId, guest2.id);
+
+      expect(job?.status).toBe('failed');
+      expect(job?.result?.error?.code).toBe('CONFLICT');
+    });
+
+    it("should not expose another user's job", async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const [guest, other] = await Promise.all([createTestUser(), createTestUser()]);
+
+      const queued = await enqueueBookingJob(guest.id, { slotId: slot.id });
+
+      expect(await getBookingJobStatus(queued.jobId, other.id)).toBeNull();
+      expect(await getBookingJobStatus('does-not-exist', guest.id)).toBeNull();
+
+      await waitForJob(queued.jobId, guest.id);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestAdmin, createTestHost, createTestUser } from '../helpers';
+import { eventBus, MagicLinkRequestedEvent } from '../../src/events';
+import { memoryNotifier } from '../../src/notifiers';
+import { getAuthConfig } from '../../src/config/auth';
+
+const PASSWORD = 'correct horse battery staple';
+
+/**
+ * Create a user with a password through the API and sign in
+ */
+async function signUpAndLogin(roles: string[] = ['GUEST']) {
+  const email = `auth-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+
+  // Only admins can create users with roles other than GUEST
+  const admin = await createTestAdmin();
+  await request(app)
+    .post('/api/users')
+    .set('x-user-id', admin.id)
+    .send({ email, name: 'Auth User', roles, password: PASSWORD });
+
+  const response = await request(app)
+    .post('/api/auth/login')
+    .send({ email, password: PASSWORD });
+
+  return { email, tokens: response.body.data };
+}
+
+describe('Authentication', () => {
+  describe('POST /api/auth/login', () => {
+    it('should issue tokens that authenticate requests', async () => {
+      const { email, tokens } = await signUpAndLogin();
+
+      expect(tokens.tokenType).toBe('Bearer');
+      expect(tokens.accessToken).toBeDefined();
+      expect(tokens.refreshToken).toBeDefined();
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Authorization', `Bearer ${tokens.accessToken}`);
+
+      expect(me.status).toBe(200);
+      expect(me.body.data.email).toBe(email);
+    });
+
+    it('should reject a wrong password', async () => {
+      const { email } = await signUpAndLogin();
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'wrong password' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should carry roles so hosts can create slots', async () => {
+      const { tokens } = await signUpAndLogin(['HOST', 'GUEST']);
+      const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      const response = await request(app)
+        .post('/api/slots')
+        .set('Authorization', `Bearer ${tokens.accessToken}`)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+        });
+
+      expect(response.status).toBe(201);
+    });
+  });
+
+  describe('Bearer tokens', () => {
+    it('should reject tampered tokens', async () => {
+      const { tokens } = await signUpAndLogin();
+      const [header, payload] = tokens.accessToken.split('.');
+
+      const response = await request(app)
+        .get('/api/users/me')
+        .set('Authorization', `Bearer ${header}.${payload}.forged-signature`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should not accept a refresh token as an access token', async () => {
+      const { tokens } = await signUpAndLogin();
+
+      const response = await request(app)
+        .get('/api/users/me')
+        .set('Authorization', `Bearer ${tokens.refreshToken}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should rotate refresh tokens and revoke the session on reuse', async () => {
+      const { tokens } = await signUpAndLogin();
+
+      const refreshed = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(refreshed.status).toBe(200);
+      expect(refreshed.body.data.refreshToken).not.toBe(tokens.refreshToken);
+
+      // Reusing the old refresh token revokes the session
+      const reused = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(reused.status).toBe(401);
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Authorization', `Bearer ${refreshed.body.data.accessToken}`);
+
+      expect(me.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the access token immediately', async () => {
+      const { tokens } = await signUpAndLogin();
+
+      const logout = await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${tokens.accessToken}`);
+
+      expect(logout.status).toBe(200);
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Authorization', `Bearer ${tokens.accessToken}`);
+
+      expect(me.status).toBe(401);
+
+      const refreshed = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken });
+
+      expect(refreshed.status).toBe(401);
+    });
+  });
+
+  describe('Magic links', () => {
+    it('should sign in once with an emailed token', async () => {
+      const user = await createTestUser({ name: 'Passwordless' });
+
+      const events: MagicLinkRequestedEvent[] = [];
+      const listener = (event: MagicLinkRequestedEvent) => {
+        events.push(event);
+      };
+      eventBus.on('auth.magic_link_requested', listener);
+
+      try {
+        const requested = await request(app)
+          .post('/api/auth/magic-link')
+          .send({ email: user.email });
+
+        expect(requested.status).toBe(202);
+      } finally {
+        eventBus.off('auth.magic_link_requested', listener);
+      }
+
+      expect(events).toHaveLength(1);
+
+      const verified = await request(app)
+        .post('/api/auth/magic-link/verify')
+        .send({ token: events[0].token });
+
+      expect(verified.status).toBe(200);
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Authorization', `Bearer ${verified.body.data.accessToken}`);
+
+      expect(me.body.data.id).toBe(user.id);
+
+      const reused = await request(app)
+        .post('/api/auth/magic-link/verify')
+        .send({ token: events[0].token });
+
+      expect(reused.status).toBe(401);
+    });
+
+    it('should email the link through the notifier', async () => {
+      const user = await createTestUser({ name: 'Passwordless' });
+      process.env.NOTIFIER_TRANSPORT = 'memory';
+      memoryNotifier.clear();
+
+      try {
+        await request(app)
+          .post('/api/auth/magic-link')
+          .send({ email: user.email });
+
+        expect(memoryNotifier.messages).toHaveLength(1);
+        expect(memoryNotifier.messages[0].to).toBe(user.email);
+        expect(memoryNotifier.messages[0].text).toContain('/api/auth/magic-link/verify?token=');
+      } finally {
+        delete process.env.NOTIFIER_TRANSPORT;
+      }
+    });
+
+    it('should sign in by following the emailed link', async () => {
+      const user = await createTestUser({ name: 'Passwordless' });
+      process.env.NOTIFIER_TRANSPORT = 'memory';
+      memoryNotifier.clear();
+
+      try {
+        await request(app)
+          .post('/api/auth/magic-link')
+          .send({ email: user.email });
+
+        const link = new URL(memoryNotifier.messages[0].text.match(/https?:\/\/\S+/)![0]);
+        const response = await request(app).get(`${link.pathname}${link.search}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.accessToken).toBeDefined();
+
+        // The link is single-use
+        const again = await request(app).get(`${link.pathname}${link.search}`);
+        expect(again.status).toBe(401);
+      } finally {
+        delete process.env.NOTIFIER_TRANSPORT;
+      }
+    });
+
+    it('should not reveal unknown emails', async () => {
+      const response = await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(202);
+    });
+  });
+
+  describe('x-user-id header mode', () => {
+    it('should be refused when the dev setting is off', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      process.env.AUTH_ALLOW_USER_ID_HEADER = 'false';
+
+      try {
+        const response = await request(app)
+          .get('/api/users/me')
+          .set('x-user-id', host.id);
+
+        expect(response.status).toBe(401);
+      } finally {
+        process.env.AUTH_ALLOW_USER_ID_HEADER = 'true';
+      }
+    });
+  });
+
+  describe('JWT secret', () => {
+    it('should be required unless NODE_ENV is development or test', () => {
+      const { NODE_ENV, JWT_SECRET } = process.env;
+      delete process.env.JWT_SECRET;
+
+      try {
+        delete process.env.NODE_ENV;
+        expect(() => getAuthConfig()).toThrow('JWT_SECRET must be set');
+
+        process.env.NODE_ENV = 'development';
+        expect(getAuthConfig().jwtSecret).toBeTruthy();
+      } finally {
+        process.env.NODE_ENV = NODE_ENV;
+        if (JWT_SECRET !== undefined) {
+          process.env.JWT_SECRET = JWT_SECRET;
+        }
+      }
+    });
+  });
+});
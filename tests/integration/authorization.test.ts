@@ -0,0 +1,106 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestAdmin, createTestHost, createTestUser } from '../helpers';
+
+describe('Authorization', () => {
+  describe('GET /api/admin/analytics', () => {
+    const query = { start_date: '2026-01-01', end_date: '2026-01-31' };
+
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .get('/api/admin/analytics')
+        .query(query);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should forbid non-admins', async () => {
+      const host = await createTestHost({ name: 'Host' });
+
+      const response = await request(app)
+        .get('/api/admin/analytics')
+        .set('x-user-id', host.id)
+        .query(query);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should allow admins', async () => {
+      const admin = await createTestAdmin({ name: 'Admin' });
+
+      const response = await request(app)
+        .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
+        .query(query);
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('POST /api/users', () => {
+    it('should let anyone sign up as a guest', async () => {
+      const response = await request(app)
+        .post('/api/users')
+        .send({ email: 'guest@example.com', name: 'Guest', roles: ['GUEST'] });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should forbid anonymous creation of hosts', async () => {
+      const response = await request(app)
+        .post('/api/users')
+        .send({ email: 'host@example.com', name: 'Host', roles: ['HOST', 'GUEST'] });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should forbid non-admins from creating hosts', async () => {
+      const guest = await createTestUser({ name: 'Guest' });
+
+      const response = await request(app)
+        .post('/api/users')
+        .set('x-user-id', guest.id)
+        .send({ email: 'host@example.com', name: 'Host', roles: ['HOST'] });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should let admins create hosts and admins', async () => {
+      const admin = await createTestAdmin({ name: 'Admin' });
+
+      const response = await request(app)
+        .post('/api/users')
+        .set('x-user-id', admin.id)
+        .send({ email: 'admin2@example.com', name: 'Second Admin', roles: ['ADMIN'] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.roles).toEqual(['ADMIN']);
+    });
+  });
+
+  describe('POST /api/users/:id/roles', () => {
+    it('should let admins add a role', async () => {
+      const admin = await createTestAdmin({ name: 'Admin' });
+      const user = await createTestUser({ name: 'Future Host' });
+
+      const response = await request(app)
+        .post(`/api/users/${user.id}/roles`)
+        .set('x-user-id', admin.id)
+        .send({ role: 'HOST' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.roles).toEqual(expect.arrayContaining(['GUEST', 'HOST']));
+    });
+
+    it('should forbid users from promoting themselves', async () => {
+      const user = await createTestUser({ name: 'Ambitious Guest' });
+
+      const response = await request(app)
+        .post(`/api/users/${user.id}/roles`)
+        .set('x-user-id', user.id)
+        .send({ role: 'ADMIN' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import { SlotStatus } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC day `days` from now at the given hour
+ */
+function daysFromNowAt(days: number, hour: number): Date {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+}
+
+describe('Availability API', () => {
+  describe('POST /api/availability', () => {
+    it('should create one rule per weekday', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+
+      const response = await request(app)
+        .post('/api/availability')
+        .set('x-user-id', host.id)
+        .send({ weekdays: [1, 3], startTime: '09:00', endTime: '12:00', slotDurationMinutes: 60 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.length).toBe(2);
+      expect(response.body.data[0].startTime).toBe('09:00');
+    });
+
+    it('should reject rules overlapping existing working hours', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+
+      await request(app)
+        .post('/api/availability')
+        .set('x-user-id', host.id)
+        .send({ weekdays: [1], startTime: '09:00', endTime: '12:00' });
+
+      const response = await request(app)
+        .post('/api/availability')
+        .set('x-user-id', host.id)
+        .send({ weekdays: [1, 2], startTime: '11:00', endTime: '13:00' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should reject invalid working hours', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+
+      const response = await request(app)
+        .post('/api/availability')
+        .set('x-user-id', host.id)
+        .send({ weekdays: [1], startTime: '12:00', endTime: '09:00' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject non-host users', async () => {
+      const user = await createTestUser({ name: 'Guest' });
+
+      const response = await request(app)
+        .post('/api/availability')
+        .set('x-user-id', user.id)
+        .send({ weekdays: [1], startTime: '09:00', endTime: '12:00' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/slots with availability rules', () => {
+    it('should list open windows without creating slots', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+      const day = daysFromNowAt(2, 0);
+
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: day.getUTCDay(),
+          startTime: '09:00',
+          endTime: '11:00',
+          slotDurationMinutes: 60,
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', host.id)
+        .query({ hostId: host.id, startDate: day.toISOString(), endDate: new Date(day.getTime() + DAY_MS - 1).toISOString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.length).toBe(2);
+      expect(response.body.data[0].id).toBeNull();
+      expect(response.body.data[0].startTime).toBe(daysFromNowAt(2, 9).toISOString());
+      expect(await prisma.slot.count()).toBe(0);
+    });
+
+    it('should hide windows taken by existing slots', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+      const day = daysFromNowAt(2, 0);
+
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: day.getUTCDay(),
+          startTime: '09:00',
+          endTime: '11:00',
+          slotDurationMinutes: 60,
+        },
+      });
+      await createTestSlot(host.id, {
+        startTime: daysFromNowAt(2, 9),
+        endTime: daysFromNowAt(2, 10),
+      });
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', host.id)
+        .query({ hostId: host.id, startDate: day.toISOString(), endDate: new Date(day.getTime() + DAY_MS - 1).toISOString() });
+
+      expect(response.status).toBe(200);
+      // The real slot plus the remaining 10:00 window
+      expect(response.body.data.length).toBe(2);
+      expect(response.body.data.filter((slot: { id: string | null }) => slot.id === null).length).toBe(1);
+    });
+  });
+
+  describe('POST /api/bookings for an open window', () => {
+    it('should materialize and book the slot', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+      const guest = await createTestUser({ name: 'Guest' });
+      const startTime = daysFromNowAt(2, 9);
+
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: startTime.getUTCDay(),
+          startTime: '09:00',
+          endTime: '11:00',
+          slotDurationMinutes: 60,
+        },
+      });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({
+          hostId: host.id,
+          startTime: startTime.toISOString(),
+          endTime: daysFromNowAt(2, 10).toISOString(),
+        });
+
+      expect(response.status).toBe(201);
+
+      const slot = await prisma.slot.findUnique({ where: { id: response.body.data.slotId } });
+      expect(slot?.status).toBe(SlotStatus.BOOKED);
+      expect(slot?.startTime.getTime()).toBe(startTime.getTime());
+    });
+
+    it('should reject windows outside the host rules', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+      const guest = await createTestUser({ name: 'Guest' });
+      const startTime = daysFromNowAt(2, 9);
+
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: startTime.getUTCDay(),
+          startTime: '09:00',
+          endTime: '11:00',
+          slotDurationMinutes: 60,
+        },
+      });
+
+      // Misaligned with the 60 minute grid
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({
+          hostId: host.id,
+          startTime: new Date(startTime.getTime() + 30 * 60 * 1000).toISOString(),
+          endTime: new Date(startTime.getTime() + 90 * 60 * 1000).toISOString(),
+        });
+
+      expect(response.status).toBe(404);
+      expect(await prisma.slot.count()).toBe(0);
+    });
+
+    it('should allow only one booking when two users race for the same window', async () => {
+      const host = await createTestHost({ name: 'Rule Host' });
+      const guests = await Promise.all([
+        createTestUser({ name: 'Guest A' }),
+        createTestUser({ name: 'Guest B' }),
+      ]);
+      const startTime = daysFromNowAt(2, 9);
+
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: startTime.getUTCDay(),
+          startTime: '09:00',
+          endTime: '11:00',
+          slotDurationMinutes: 60,
+        },
+      });
+
+      const responses = await Promise.all(
+        guests.map((guest) =>
+          request(app)
+            .post('/api/bookings')
+            .set('x-user-id', guest.id)
+            .send({
+              hostId: host.id,
+              startTime: startTime.toISOString(),
+              endTime: daysFromNowAt(2, 10).toISOString(),
+            })
+        )
+      );
+
+      const statuses = responses.map((response) => response.status).sort();
+      expect(statuses).toEqual([201, 409]);
+      expect(await prisma.slot.count()).toBe(1);
+      expect(await prisma.booking.count()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { bookingService } from '../../src/services';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+
+/**
+ * Create a host whose bookings need approval, one of their slots and a guest
+ */
+async function createApprovalSetup() {
+  const host = await createTestHost();
+  await prisma.hostPolicy.create({ data: { hostId: host.id, requiresApproval: true } });
+  const slot = await createTestSlot(host.id);
+  const guest = await createTestUser();
+
+  return { host, slot, guest };
+}
+
+/**
+ * Request a booking as the guest
+ */
+async function requestBooking(guestId: string, slotId: string) {
+  return request(app)
+    .post('/api/bookings')
+    .set('x-user-id', guestId)
+    .send({ slotId });
+}
+
+describe('Booking Approvals', () => {
+  it('should create a pending booking request', async () => {
+    const { slot, guest } = await createApprovalSetup();
+
+    const response = await requestBooking(guest.id, slot.id);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.status).toBe('PENDING');
+    expect(response.body.data.approvalExpiresAt).not.toBeNull();
+    expect(await prisma.outboxEvent.count({ where: { eventType: 'booking.requested' } })).toBe(1);
+    expect(await prisma.outboxEvent.count({ where: { eventType: 'booking.created' } })).toBe(0);
+  });
+
+  it('should hold the seat while the request is pending', async () => {
+    const { slot, guest } = await createApprovalSetup();
+    await requestBooking(guest.id, slot.id);
+    const other = await createTestUser();
+
+    const response = await requestBooking(other.id, slot.id);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should confirm the booking when the host approves it', async () => {
+    const { host, slot, guest } = await createApprovalSetup();
+    const created = await requestBooking(guest.id, slot.id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${created.body.data.id}/approve`)
+      .set('x-user-id', host.id);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe('CONFIRMED');
+    expect(response.body.data.approvalExpiresAt).toBeNull();
+    expect(await prisma.outboxEvent.count({ where: { eventType: 'booking.created' } })).toBe(1);
+
+    const again = await request(app)
+      .post(`/api/bookings/${created.body.data.id}/approve`)
+      .set('x-user-id', host.id);
+    expect(again.status).toBe(409);
+  });
+
+  it('should cancel the booking when the host declines it', async () => {
+    const { host, slot, guest } = await createApprovalSetup();
+    const created = await requestBooking(guest.id, slot.id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${created.body.data.id}/decline`)
+      .set('x-user-id', host.id)
+      .send({ reason: 'Fully booked that week' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      status: 'CANCELLED',
+      cancelledBy: 'HOST',
+      cancellationReason: 'Fully booked that week',
+    });
+
+    const declined = await prisma.outboxEvent.findMany({ where: { eventType: 'booking.declined' } });
+    expect(declined).toHaveLength(1);
+    expect(declined[0].payload).toMatchObject({ bookingId: created.body.data.id, expired: false });
+
+    const freed = await prisma.slot.findUnique({ where: { id: slot.id } });
+    expect(freed?.status).toBe('AVAILABLE');
+  });
+
+  it('should only let the slot host answer a request', async () => {
+    const { slot, guest } = await createApprovalSetup();
+    const created = await requestBooking(guest.id, slot.id);
+    const otherHost = await createTestHost();
+
+    const response = await request(app)
+      .post(`/api/bookings/${created.body.data.id}/approve`)
+      .set('x-user-id', otherHost.id);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should cancel an unanswered request once it expires', async () => {
+    const { slot, guest } = await createApprovalSetup();
+    const created = await requestBooking(guest.id, slot.id);
+    await prisma.booking.update({
+      where: { id: created.body.data.id },
+      data: { approvalExpiresAt: new Date(Date.now() - 1000) },
+    });
+
+    expect(await bookingService.expirePendingBooking(created.body.data.id)).toBe(true);
+
+    const booking = await prisma.booking.findUnique({ where: { id: created.body.data.id } });
+    expect(booking).toMatchObject({ status: 'CANCELLED', cancelledBy: 'SYSTEM' });
+    expect(await bookingService.expirePendingBooking(created.body.data.id)).toBe(false);
+  });
+
+  it('should list pending requests on the host\'s slots', async () => {
+    const { host, slot, guest } = await createApprovalSetup();
+    await requestBooking(guest.id, slot.id);
+
+    const response = await request(app)
+      .get('/api/slots/host')
+      .set('x-user-id', host.id);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data[0].attendees).toEqual([]);
+    expect(response.body.data[0].pendingRequests).toHaveLength(1);
+    expect(response.body.data[0].pendingRequests[0].userId).toBe(guest.id);
+  });
+
+  it('should keep the confirmed booking when rescheduling to a host who approves bookings', async () => {
+    const { slot } = await createApprovalSetup();
+    const otherHost = await createTestHost();
+    const guest = await createTestUser();
+    const original = await requestBooking(guest.id, (await createTestSlot(otherHost.id)).id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${original.body.data.id}/reschedule`)
+      .set('x-user-id', guest.id)
+      .send({ slotId: slot.id });
+
+    expect(response.status).toBe(409);
+    const booking = await prisma.booking.findUnique({ where: { id: original.body.data.id } });
+    expect(booking?.status).toBe('CONFIRMED');
+    expect(await prisma.booking.count({ where: { slotId: slot.id } })).toBe(0);
+  });
+
+  it('should confirm bookings directly without the policy', async () => {
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id);
+    const guest = await createTestUser();
+
+    const response = await requestBooking(guest.id, slot.id);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.status).toBe('CONFIRMED');
+  });
+});
@@ -0,0 +1,154 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time `hours` from now, rounded to the hour
+ */
+function hoursFromNow(hours: number): Date {
+  const date = new Date(Date.now() + hours * HOUR_MS);
+  date.setUTCMinutes(0, 0, 0);
+  return date;
+}
+
+describe('Booking Rules', () => {
+  describe('host policy', () => {
+    it('should set the rules in the host policy', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({ bufferAfterMinutes: 15, minNoticeHours: 24 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 15,
+        minNoticeHours: 24,
+        maxHorizonDays: null,
+      });
+
+      const guest = await createTestUser();
+      const policy = await request(app)
+        .get('/api/host-policy')
+        .set('x-user-id', guest.id)
+        .query({ hostId: host.id });
+
+      expect(policy.body.data.minNoticeHours).toBe(24);
+    });
+
+    it('should reject a notice longer than the horizon', async () => {
+      const host = await createTestHost();
+
+      const created = await request(app)
+        .post('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({ minNoticeHours: 48, maxHorizonDays: 1 });
+
+      expect(created.status).toBe(400);
+
+      await prisma.hostPolicy.create({ data: { hostId: host.id, maxHorizonDays: 1 } });
+      const updated = await request(app)
+        .patch('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({ minNoticeHours: 48 });
+
+      expect(updated.status).toBe(400);
+    });
+
+    it('should reject non-host users', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/host-policy')
+        .set('x-user-id', user.id)
+        .send({ minNoticeHours: 24 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('booking', () => {
+    it('should reject a slot inside the minimum notice', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, minNoticeHours: 24 } });
+      const slot = await createTestSlot(host.id, { startTime: hoursFromNow(5), endTime: hoursFromNow(6) });
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(400);
+      expect(await prisma.booking.count()).toBe(0);
+    });
+
+    it('should reject a slot beyond the booking horizon', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, maxHorizonDays: 7 } });
+      const slot = await createTestSlot(host.id, { startTime: hoursFromNow(10 * 24), endTime: hoursFromNow(10 * 24 + 1) });
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject a slot within the buffer of another booking', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, bufferAfterMinutes: 30 } });
+      const booked = await createTestSlot(host.id, { startTime: hoursFromNow(24), endTime: hoursFromNow(25) });
+      await createTestBooking((await createTestUser()).id, booked.id);
+      const adjacent = await createTestSlot(host.id, { startTime: hoursFromNow(25), endTime: hoursFromNow(26) });
+      const later = await createTestSlot(host.id, { startTime: hoursFromNow(27), endTime: hoursFromNow(28) });
+      const guest = await createTestUser();
+
+      const conflict = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: adjacent.id });
+
+      expect(conflict.status).toBe(409);
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: later.id });
+
+      expect(response.status).toBe(201);
+    });
+  });
+
+  describe('GET /api/slots', () => {
+    it('should not list slots the rules make unbookable', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({
+        data: { hostId: host.id, minNoticeHours: 12, maxHorizonDays: 7, bufferBeforeMinutes: 30 },
+      });
+      await createTestSlot(host.id, { startTime: hoursFromNow(5), endTime: hoursFromNow(6) });
+      const booked = await createTestSlot(host.id, { startTime: hoursFromNow(48), endTime: hoursFromNow(49) });
+      await createTestBooking((await createTestUser()).id, booked.id);
+      await createTestSlot(host.id, { startTime: hoursFromNow(47), endTime: hoursFromNow(48) });
+      const bookable = await createTestSlot(host.id, { startTime: hoursFromNow(24), endTime: hoursFromNow(25) });
+      await createTestSlot(host.id, { startTime: hoursFromNow(10 * 24), endTime: hoursFromNow(10 * 24 + 1) });
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', guest.id)
+        .query({ hostId: host.id });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((slot: { id: string }) => slot.id)).toEqual([bookable.id]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, getFutureDate, getPastDate, prisma } from '../helpers';
+
+/**
+ * A bulk entry for the hour starting `hoursFromNow` hours from now
+ */
+function entry(hoursFromNow: number, extra: Record<string, unknown> = {}) {
+  return {
+    startTime: getFutureDate(hoursFromNow).toISOString(),
+    endTime: getFutureDate(hoursFromNow + 1).toISOString(),
+    ...extra,
+  };
+}
+
+describe('Bulk Slots API', () => {
+  describe('POST /api/slots/bulk', () => {
+    it('should create every entry', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/slots/bulk')
+        .set('x-user-id', host.id)
+        .send({ slots: [entry(24), entry(48), entry(72, { capacity: 3 })] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created).toBe(3);
+      expect(response.body.data.results.map((result: { status: string }) => result.status))
+        .toEqual(['CREATED', 'CREATED', 'CREATED']);
+      expect(response.body.data.results[2].slot.capacity).toBe(3);
+      expect(await prisma.slot.count()).toBe(3);
+      expect(await prisma.outboxEvent.count({ where: { eventType: 'slot.created' } })).toBe(3);
+    });
+
+    it('should report invalid and overlapping entries and create the rest', async () => {
+      const host = await createTestHost();
+      await createTestSlot(host.id, { startTime: getFutureDate(96), endTime: getFutureDate(97) });
+
+      const response = await request(app)
+        .post('/api/slots/bulk')
+        .set('x-user-id', host.id)
+        .send({
+          slots: [
+            entry(24),
+            { startTime: getPastDate(2).toISOString(), endTime: getPastDate(1).toISOString() },
+            entry(24.5), // Overlaps the first entry
+            entry(96), // Overlaps the existing slot
+            { startTime: 'not a date' },
+            entry(48),
+          ],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created).toBe(2);
+
+      const results = response.body.data.results;
+      expect(results.map((result: { status: string }) => result.status))
+        .toEqual(['CREATED', 'INVALID', 'OVERLAP', 'OVERLAP', 'INVALID', 'CREATED']);
+      expect(results[1].errors).toEqual([
+        { path: 'startTime', message: 'Start time must be in the future' },
+      ]);
+      expect(results[2].overlapsIndex).toBe(0);
+      expect(results[3].overlapsIndex).toBeUndefined();
+      expect(await prisma.slot.count()).toBe(3);
+    });
+
+    it('should create nothing when an atomic batch has a failing entry', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/slots/bulk')
+        .set('x-user-id', host.id)
+        .send({ atomic: true, slots: [entry(24), entry(24.5), entry(48)] });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.details.map((result: { status: string }) => result.status))
+        .toEqual(['ABORTED', 'OVERLAP', 'ABORTED']);
+      expect(await prisma.slot.count()).toBe(0);
+    });
+
+    it('should create an atomic batch without failures', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/slots/bulk')
+        .set('x-user-id', host.id)
+        .send({ atomic: true, slots: [entry(24), entry(48)] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created).toBe(2);
+      expect(await prisma.slot.count()).toBe(2);
+    });
+
+    it('should reject batches over the limit', async () => {
+      const host = await createTestHost();
+      const slots = Array.from({ length: 101 }, (_, index) => entry(24 + index * 2));
+
+      const response = await request(app)
+        .post('/api/slots/bulk')
+        .set('x-user-id', host.id)
+        .send({ slots });
+
+      expect(response.status).toBe(400);
+      expect(await prisma.slot.count()).toBe(0);
+    });
+
+    it('should reject non-hosts', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/slots/bulk')
+        .set('x-user-id', user.id)
+        .send({ slots: [entry(24)] });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
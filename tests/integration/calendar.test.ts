@@ -0,0 +1,144 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking } from '../helpers';
+
+describe('Calendar', () => {
+  async function createBooking() {
+    const host = await createTestHost({ name: 'Dr. Host', email: 'host@example.com' });
+    const guest = await createTestUser({ name: 'Guest', email: 'guest@example.com' });
+    const slot = await createTestSlot(host.id, {
+      startTime: new Date('2099-01-01T01:00:00.000Z'),
+      endTime: new Date('2099-01-01T02:00:00.000Z'),
+    });
+    const booking = await createTestBooking(guest.id, slot.id);
+    return { host, guest, slot, booking };
+  }
+
+  async function createFeedUrl(userId: string): Promise<string> {
+    const response = await request(app)
+      .post('/api/users/me/calendar-feed')
+      .set('x-user-id', userId);
+
+    expect(response.status).toBe(201);
+    // Path of the feed, relative to the app
+    return new URL(response.body.data.url).pathname;
+  }
+
+  describe('GET /api/bookings/:id/ics', () => {
+    it('should return an invite for the guest', async () => {
+      const { guest, booking } = await createBooking();
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/ics`)
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.headers['content-disposition']).toContain(`booking-${booking.id}.ics`);
+      expect(response.text).toContain('METHOD:REQUEST');
+      expect(response.text).toContain(`UID:booking-${booking.id}@slot-booking-system`);
+      expect(response.text).toContain('SEQUENCE:0');
+      expect(response.text).toContain('DTSTART:20990101T010000Z');
+      expect(response.text).toContain('DTEND:20990101T020000Z');
+      expect(response.text).toContain('STATUS:CONFIRMED');
+      expect(response.text).toContain('ORGANIZER;CN="Dr. Host":mailto:host@example.com');
+    });
+
+    it('should cancel the same event after the booking is cancelled', async () => {
+      const { guest, booking } = await createBooking();
+
+      await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', guest.id);
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/ics`)
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('METHOD:CANCEL');
+      expect(response.text).toContain(`UID:booking-${booking.id}@slot-booking-system`);
+      expect(response.text).toContain('SEQUENCE:1');
+      expect(response.text).toContain('STATUS:CANCELLED');
+    });
+
+    it('should let the host download the invite', async () => {
+      const { host, booking } = await createBooking();
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/ics`)
+        .set('x-user-id', host.id);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject other users', async () => {
+      const { booking } = await createBooking();
+      const other = await createTestUser();
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/ics`)
+        .set('x-user-id', other.id);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('feeds', () => {
+    it('should list the bookings of a guest', async () => {
+      const { guest, booking } = await createBooking();
+      const feedUrl = await createFeedUrl(guest.id);
+
+      const response = await request(app).get(feedUrl);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.text).toContain('METHOD:PUBLISH');
+      expect(response.text).toContain(`UID:booking-${booking.id}@slot-booking-system`);
+      expect(response.text).not.toContain('UID:slot-');
+    });
+
+    it('should list the slots of a host with their status', async () => {
+      const { host, slot } = await createBooking();
+      const openSlot = await createTestSlot(host.id, {
+        startTime: new Date('2099-01-02T01:00:00.000Z'),
+        endTime: new Date('2099-01-02T02:00:00.000Z'),
+      });
+      const feedUrl = await createFeedUrl(host.id);
+
+      const response = await request(app).get(feedUrl);
+      const events = response.text.split('BEGIN:VEVENT').slice(1);
+
+      const booked = events.find((event) => event.includes(`UID:slot-${slot.id}@`));
+      const open = events.find((event) => event.includes(`UID:slot-${openSlot.id}@`));
+      expect(booked).toContain('STATUS:CONFIRMED');
+      expect(booked).toContain('Guests: Guest');
+      expect(open).toContain('STATUS:TENTATIVE');
+      expect(open).toContain('TRANSP:TRANSPARENT');
+    });
+
+    it('should keep cancelled bookings in the feed with a new sequence', async () => {
+      const { guest, booking } = await createBooking();
+      const feedUrl = await createFeedUrl(guest.id);
+
+      await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', guest.id);
+
+      const response = await request(app).get(feedUrl);
+
+      expect(response.text).toContain(`UID:booking-${booking.id}@slot-booking-system`);
+      expect(response.text).toContain('SEQUENCE:1');
+      expect(response.text).toContain('STATUS:CANCELLED');
+    });
+
+    it('should revoke the previous URL when the feed is rotated', async () => {
+      const { guest } = await createBooking();
+      const oldUrl = await createFeedUrl(guest.id);
+      const newUrl = await createFeedUrl(guest.id);
+
+      expect((await request(app).get(oldUrl)).status).toBe(404);
+      expect((await request(app).get(newUrl)).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import { formatICalDate } from '../../src/utils/ical';
+import { CALENDAR_IMPORT_MAX_BYTES } from '../../src/utils/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC day `days` from now at the given hour
+ */
+function daysFromNowAt(days: number, hour: number): Date {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Build an iCalendar file from VEVENT property lines
+ */
+function buildIcs(events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//EN',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function event(uid: string, start: Date, end: Date, ...extra: string[]): string[] {
+  return [`UID:${uid}`, `DTSTART:${formatICalDate(start)}`, `DTEND:${formatICalDate(end)}`, ...extra];
+}
+
+describe('Calendar Import', () => {
+  describe('BUSY mode', () => {
+    it('should create busy blocks for every occurrence of a recurring event', async () => {
+      const host = await createTestHost();
+      const ics = buildIcs([
+        event('standup', daysFromNowAt(1, 9), daysFromNowAt(1, 10), 'SUMMARY:Standup', 'RRULE:FREQ=DAILY;COUNT=3',
+          `EXDATE:${formatICalDate(daysFromNowAt(2, 9))}`),
+        event('free-time', daysFromNowAt(1, 14), daysFromNowAt(1, 15), 'TRANSP:TRANSPARENT'),
+      ]);
+
+      const response = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created.map((block: { startTime: string }) => block.startTime)).toEqual([
+        daysFromNowAt(1, 9).toISOString(),
+        daysFromNowAt(3, 9).toISOString(),
+      ]);
+      expect(response.body.data.created[0]).toMatchObject({ uid: 'standup', summary: 'Standup' });
+
+      const blocks = await request(app)
+        .get('/api/availability/busy-blocks')
+        .set('x-user-id', host.id);
+
+      expect(blocks.body.data).toHaveLength(2);
+    });
+
+    it('should skip occurrences imported before', async () => {
+      const host = await createTestHost();
+      const ics = buildIcs([event('dentist', daysFromNowAt(1, 9), daysFromNowAt(1, 10))]);
+
+      await request(app).post('/api/availability/import').set('x-user-id', host.id).send({ ics });
+      const response = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics });
+
+      expect(response.body.data.created).toHaveLength(0);
+      expect(response.body.data.skipped[0].reason).toBe('DUPLICATE');
+      expect(await prisma.busyBlock.count()).toBe(1);
+    });
+
+    it('should preview a dry run without writing', async () => {
+      const host = await createTestHost();
+      const ics = buildIcs([
+        event('dentist', daysFromNowAt(1, 9), daysFromNowAt(1, 10)),
+        event('yearly', daysFromNowAt(1, 11), daysFromNowAt(1, 12), 'RRULE:FREQ=YEARLY'),
+      ]);
+
+      const response = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics, dryRun: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.created).toEqual([
+        expect.objectContaining({ id: null, uid: 'dentist' }),
+      ]);
+      expect(response.body.data.skipped).toEqual([
+        expect.objectContaining({ uid: 'yearly', reason: 'UNSUPPORTED_RECURRENCE' }),
+      ]);
+      expect(await prisma.busyBlock.count()).toBe(0);
+    });
+
+    it('should treat busy blocks as taken when creating slots and windows', async () => {
+      const host = await createTestHost();
+      const day = daysFromNowAt(2, 0);
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: day.getUTCDay(),
+          startTime: '09:00',
+          endTime: '11:00',
+          slotDurationMinutes: 60,
+        },
+      });
+
+      await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics: buildIcs([event('gym', daysFromNowAt(2, 9), daysFromNowAt(2, 10))]) });
+
+      const slot = await request(app)
+        .post('/api/slots')
+        .set('x-user-id', host.id)
+        .send({ startTime: daysFromNowAt(2, 9).toISOString(), endTime: daysFromNowAt(2, 10).toISOString() });
+
+      expect(slot.status).toBe(409);
+
+      const windows = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', host.id)
+        .query({ hostId: host.id, startDate: day.toISOString(), endDate: new Date(day.getTime() + DAY_MS - 1).toISOString() });
+
+      expect(windows.body.data.map((window: { startTime: string }) => window.startTime)).toEqual([
+        daysFromNowAt(2, 10).toISOString(),
+      ]);
+
+      const guest = await createTestUser();
+      const booking = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ hostId: host.id, startTime: daysFromNowAt(2, 9).toISOString(), endTime: daysFromNowAt(2, 10).toISOString() });
+
+      expect(booking.status).toBe(404);
+    });
+
+    it('should free the time again when a busy block is deleted', async () => {
+      const host = await createTestHost();
+      const imported = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics: buildIcs([event('gym', daysFromNowAt(2, 9), daysFromNowAt(2, 10))]) });
+
+      const other = await createTestHost();
+      const forbidden = await request(app)
+        .delete(`/api/availability/busy-blocks/${imported.body.data.created[0].id}`)
+        .set('x-user-id', other.id);
+      expect(forbidden.status).toBe(403);
+
+      await request(app)
+        .delete(`/api/availability/busy-blocks/${imported.body.data.created[0].id}`)
+        .set('x-user-id', host.id);
+
+      const slot = await request(app)
+        .post('/api/slots')
+        .set('x-user-id', host.id)
+        .send({ startTime: daysFromNowAt(2, 9).toISOString(), endTime: daysFromNowAt(2, 10).toISOString() });
+
+      expect(slot.status).toBe(201);
+    });
+  });
+
+  describe('SLOTS mode', () => {
+    it('should create slots from free events, skipping overlaps', async () => {
+      const host = await createTestHost();
+      await createTestSlot(host.id, { startTime: daysFromNowAt(1, 10), endTime: daysFromNowAt(1, 11) });
+      const ics = buildIcs([
+        event('office-hours', daysFromNowAt(1, 9), daysFromNowAt(1, 10), 'TRANSP:TRANSPARENT', 'RRULE:FREQ=WEEKLY;COUNT=2'),
+        event('clash', daysFromNowAt(1, 10), daysFromNowAt(1, 11), 'TRANSP:TRANSPARENT'),
+        event('meeting', daysFromNowAt(1, 12), daysFromNowAt(1, 13)),
+      ]);
+
+      const response = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics, mode: 'SLOTS', capacity: 3 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created.map((slot: { startTime: string }) => slot.startTime)).toEqual([
+        daysFromNowAt(1, 9).toISOString(),
+        daysFromNowAt(8, 9).toISOString(),
+      ]);
+      expect(response.body.data.skipped).toEqual([
+        expect.objectContaining({ uid: 'clash', reason: 'OVERLAP' }),
+      ]);
+
+      const slot = await prisma.slot.findUnique({ where: { id: response.body.data.created[0].id } });
+      expect(slot?.capacity).toBe(3);
+    });
+  });
+
+  describe('sources', () => {
+    it('should accept a raw text/calendar upload with options in the query', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/availability/import')
+        .query({ dryRun: 'true' })
+        .set('x-user-id', host.id)
+        .set('Content-Type', 'text/calendar')
+        .send(buildIcs([event('dentist', daysFromNowAt(1, 9), daysFromNowAt(1, 10))]));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ mode: 'BUSY', dryRun: true });
+      expect(response.body.data.created).toHaveLength(1);
+    });
+
+    it('should download the calendar from a URL', async () => {
+      const host = await createTestHost();
+      const ics = buildIcs([event('dentist', daysFromNowAt(1, 9), daysFromNowAt(1, 10))]);
+      const server = http.createServer((req, res) => {
+        if (req.url === '/calendar.ics') {
+          res.writeHead(200, { 'Content-Type': 'text/calendar' }).end(ics);
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      process.env.CALENDAR_IMPORT_ALLOW_PRIVATE_URLS = 'true';
+
+      try {
+        const response = await request(app)
+          .post('/api/availability/import')
+          .set('x-user-id', host.id)
+          .send({ url: `http://localhost:${port}/calendar.ics` });
+
+        expect(response.status).toBe(201);
+        expect(response.body.data.created).toHaveLength(1);
+
+        const missing = await request(app)
+          .post('/api/availability/import')
+          .set('x-user-id', host.id)
+          .send({ url: `http://localhost:${port}/missing.ics` });
+
+        expect(missing.status).toBe(400);
+      } finally {
+        delete process.env.CALENDAR_IMPORT_ALLOW_PRIVATE_URLS;
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should refuse URLs of private addresses', async () => {
+      const host = await createTestHost();
+
+      for (const url of ['http://localhost:8080/calendar.ics', 'http://169.254.169.254/latest/meta-data']) {
+        const response = await request(app)
+          .post('/api/availability/import')
+          .set('x-user-id', host.id)
+          .send({ url });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toMatch(/non-public|public address/);
+      }
+    });
+
+    it('should cut off downloads over the size limit', async () => {
+      const host = await createTestHost();
+      const server = http.createServer((req, res) => {
+        // Chunked, so only the running byte count can catch it
+        res.writeHead(200, { 'Content-Type': 'text/calendar' });
+        res.write('BEGIN:VCALENDAR\r\n');
+        res.end('X'.repeat(CALENDAR_IMPORT_MAX_BYTES));
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      process.env.CALENDAR_IMPORT_ALLOW_PRIVATE_URLS = 'true';
+
+      try {
+        const response = await request(app)
+          .post('/api/availability/import')
+          .set('x-user-id', host.id)
+          .send({ url: `http://localhost:${port}/calendar.ics` });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toBe('Calendar file is too large');
+      } finally {
+        delete process.env.CALENDAR_IMPORT_ALLOW_PRIVATE_URLS;
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should reject invalid files', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', host.id)
+        .send({ ics: 'not a calendar' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject non-host users', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/availability/import')
+        .set('x-user-id', user.id)
+        .send({ ics: buildIcs([]) });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+import { SlotStatus } from '@prisma/client';
+
+describe('Group Slots', () => {
+  it('should create a slot with capacity', async () => {
+    const host = await createTestHost({ name: 'Workshop Host' });
+    const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    const response = await request(app)
+      .post('/api/slots')
+      .set('x-user-id', host.id)
+      .send({
+        startTime: startTime.toISOString(),
+        endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+        capacity: 10,
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.capacity).toBe(10);
+  });
+
+  it('should stay available until all seats are taken', async () => {
+    const host = await createTestHost({ name: 'Workshop Host' });
+    const slot = await createTestSlot(host.id, { capacity: 2 });
+    const [first, second, third] = await Promise.all([
+      createTestUser({ name: 'Attendee 1' }),
+      createTestUser({ name: 'Attendee 2' }),
+      createTestUser({ name: 'Attendee 3' }),
+    ]);
+
+    const firstResponse = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', first.id)
+      .send({ slotId: slot.id });
+    expect(firstResponse.status).toBe(201);
+    expect(firstResponse.body.data.slot.status).toBe(SlotStatus.AVAILABLE);
+
+    const secondResponse = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', second.id)
+      .send({ slotId: slot.id });
+    expect(secondResponse.status).toBe(201);
+    expect(secondResponse.body.data.slot.status).toBe(SlotStatus.BOOKED);
+
+    const thirdResponse = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', third.id)
+      .send({ slotId: slot.id });
+    expect(thirdResponse.status).toBe(409);
+  });
+
+  it('should never exceed capacity under concurrent bookings', async () => {
+    const host = await createTestHost({ name: 'Workshop Host' });
+    const slot = await createTestSlot(host.id, { capacity: 3 });
+    const users = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => createTestUser({ name: `Attendee ${i + 1}` }))
+    );
+
+    const results = await Promise.all(
+      users.map((user) =>
+        request(app)
+          .post('/api/bookings')
+          .set('x-user-id', user.id)
+          .send({ slotId: slot.id })
+      )
+    );
+
+    expect(results.filter((r) => r.status === 201).length).toBe(3);
+    expect(results.filter((r) => r.status === 409).length).toBe(7);
+
+    const confirmed = await prisma.booking.count({
+      where: { slotId: slot.id, status: 'CONFIRMED' },
+    });
+    expect(confirmed).toBe(3);
+
+    const updatedSlot = await prisma.slot.findUnique({ where: { id: slot.id } });
+    expect(updatedSlot?.status).toBe(SlotStatus.BOOKED);
+  });
+
+  it('should reopen a full slot when a booking is cancelled', async () => {
+    const host = await createTestHost({ name: 'Workshop Host' });
+    const slot = await createTestSlot(host.id, { capacity: 2 });
+    const [first, second] = await Promise.all([
+      createTestUser({ name: 'Attendee 1' }),
+      createTestUser({ name: 'Attendee 2' }),
+    ]);
+    const booking = await createTestBooking(first.id, slot.id);
+    await createTestBooking(second.id, slot.id);
+
+    const response = await request(app)
+      .delete(`/api/bookings/${booking.id}`)
+      .set('x-user-id', first.id);
+
+    expect(response.status).toBe(200);
+    const updatedSlot = await prisma.slot.findUnique({ where: { id: slot.id } });
+    expect(updatedSlot?.status).toBe(SlotStatus.AVAILABLE);
+  });
+
+  it('should list attendees on host slots', async () => {
+    const host = await createTestHost({ name: 'Workshop Host' });
+    const slot = await createTestSlot(host.id, { capacity: 5 });
+    const [first, second] = await Promise.all([
+      createTestUser({ name: 'Alice' }),
+      createTestUser({ name: 'Bob' }),
+    ]);
+    await prisma.booking.createMany({
+      data: [
+        { slotId: slot.id, userId: first.id },
+        { slotId: slot.id, userId: second.id },
+      ],
+    });
+
+    const response = await request(app)
+      .get('/api/slots/host')
+      .set('x-user-id', host.id);
+
+    expect(response.status).toBe(200);
+    const listed = response.body.data.find((s: { id: string }) => s.id === slot.id);
+    expect(listed.status).toBe(SlotStatus.AVAILABLE);
+    expect(listed.bookedCount).toBe(2);
+    expect(listed.attendees.map((a: { userName: string }) => a.userName).sort()).toEqual(['Alice', 'Bob']);
+  });
+
+  it('should not delete a group slot with confirmed bookings', async () => {
+    const host = await createTestHost({ name: 'Workshop Host' });
+    const slot = await createTestSlot(host.id, { capacity: 5 });
+    const user = await createTestUser({ name: 'Attendee' });
+    await prisma.booking.create({ data: { slotId: slot.id, userId: user.id } });
+
+    const response = await request(app)
+      .delete(`/api/slots/${slot.id}`)
+      .set('x-user-id', host.id);
+
+    expect(response.status).toBe(409);
+  });
+});
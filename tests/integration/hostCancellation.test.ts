@@ -0,0 +1,118 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+import { BookingStatus, SlotStatus, WaitlistStatus } from '@prisma/client';
+
+describe('POST /api/slots/:id/cancel', () => {
+  it('should cancel the slot and its booking with the host as canceller', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const guest = await createTestUser({ name: 'Guest' });
+    const slot = await createTestSlot(host.id);
+    const booking = await createTestBooking(guest.id, slot.id);
+
+    const response = await request(app)
+      .post(`/api/slots/${slot.id}/cancel`)
+      .set('x-user-id', host.id)
+      .send({ reason: 'Feeling unwell' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.cancelledBookings).toHaveLength(1);
+    expect(response.body.data.cancelledBookings[0]).toMatchObject({
+      id: booking.id,
+      status: BookingStatus.CANCELLED,
+      cancelledBy: 'HOST',
+      cancellationReason: 'Feeling unwell',
+    });
+
+    const updatedSlot = await prisma.slot.findUnique({ where: { id: slot.id } });
+    expect(updatedSlot?.status).toBe(SlotStatus.CANCELLED);
+
+    // The guest sees who cancelled and why
+    const guestView = await request(app)
+      .get(`/api/bookings/${booking.id}`)
+      .set('x-user-id', guest.id);
+    expect(guestView.body.data.cancelledBy).toBe('HOST');
+    expect(guestView.body.data.cancellationReason).toBe('Feeling unwell');
+  });
+
+  it('should notify every guest of a group slot', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const slot = await createTestSlot(host.id, { capacity: 3 });
+    const guests = await Promise.all([
+      createTestUser({ name: 'Guest 1' }),
+      createTestUser({ name: 'Guest 2' }),
+    ]);
+    for (const guest of guests) {
+      await prisma.booking.create({ data: { slotId: slot.id, userId: guest.id } });
+    }
+
+    const response = await request(app)
+      .post(`/api/slots/${slot.id}/cancel`)
+      .set('x-user-id', host.id)
+      .send({ reason: 'Venue closed' });
+
+    expect(response.status).toBe(200);
+
+    // Guests are notified through booking.cancelled events in the outbox
+    const outbox = await prisma.outboxEvent.findMany({ where: { eventType: 'booking.cancelled' } });
+    const events = outbox.map((row) => row.payload as { guestId: string; cancelledBy: string; reason: string });
+    expect(events.map((event) => event.guestId).sort()).toEqual(guests.map((guest) => guest.id).sort());
+    expect(events.every((event) => event.cancelledBy === 'HOST' && event.reason === 'Venue closed')).toBe(true);
+  });
+
+  it('should clear the waitlist', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const guest = await createTestUser({ name: 'Guest' });
+    const waiting = await createTestUser({ name: 'Waiting' });
+    const slot = await createTestSlot(host.id);
+    await createTestBooking(guest.id, slot.id);
+    await prisma.waitlistEntry.create({ data: { slotId: slot.id, userId: waiting.id } });
+
+    await request(app)
+      .post(`/api/slots/${slot.id}/cancel`)
+      .set('x-user-id', host.id)
+      .send({ reason: 'Double-booked' });
+
+    const entry = await prisma.waitlistEntry.findFirst({ where: { slotId: slot.id } });
+    expect(entry?.status).toBe(WaitlistStatus.REMOVED);
+  });
+
+  it('should require a reason', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const slot = await createTestSlot(host.id);
+
+    const response = await request(app)
+      .post(`/api/slots/${slot.id}/cancel`)
+      .set('x-user-id', host.id)
+      .send({});
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should only allow the slot owner', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const otherHost = await createTestHost({ name: 'Other Host' });
+    const slot = await createTestSlot(host.id);
+
+    const response = await request(app)
+      .post(`/api/slots/${slot.id}/cancel`)
+      .set('x-user-id', otherHost.id)
+      .send({ reason: 'Not mine' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject cancelling a slot twice', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const slot = await createTestSlot(host.id, { status: SlotStatus.CANCELLED });
+
+    const response = await request(app)
+      .post(`/api/slots/${slot.id}/cancel`)
+      .set('x-user-id', host.id)
+      .send({ reason: 'Again' });
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,195 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+import { CANCELLATION_WINDOW_HOURS, MAX_ACTIVE_BOOKINGS } from '../../src/utils/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time `hours` from now, rounded to the hour
+ */
+function hoursFromNow(hours: number): Date {
+  const date = new Date(Date.now() + hours * HOUR_MS);
+  date.setUTCMinutes(0, 0, 0);
+  return date;
+}
+
+/**
+ * UTC day `days` from now at the given hour
+ */
+function daysFromNowAt(days: number, hour: number): Date {
+  const date = new Date(Date.now() + days * 24 * HOUR_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+}
+
+describe('Host Policy', () => {
+  describe('CRUD', () => {
+    it('should return the platform defaults without a policy', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .get('/api/host-policy')
+        .set('x-user-id', host.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        id: null,
+        hostId: host.id,
+        maxActiveBookings: MAX_ACTIVE_BOOKINGS,
+        cancellationWindowHours: CANCELLATION_WINDOW_HOURS,
+        allowMultipleBookings: false,
+        maxBookingsPerDay: null,
+      });
+    });
+
+    it('should create, update and delete a policy', async () => {
+      const host = await createTestHost();
+
+      const created = await request(app)
+        .post('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({ cancellationWindowHours: 24, allowMultipleBookings: true });
+
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({
+        cancellationWindowHours: 24,
+        allowMultipleBookings: true,
+        maxActiveBookings: MAX_ACTIVE_BOOKINGS,
+      });
+
+      const duplicate = await request(app)
+        .post('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({});
+      expect(duplicate.status).toBe(409);
+
+      const updated = await request(app)
+        .patch('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({ cancellationWindowHours: null, maxBookingsPerDay: 3 });
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.data).toMatchObject({
+        cancellationWindowHours: CANCELLATION_WINDOW_HOURS,
+        maxBookingsPerDay: 3,
+      });
+
+      const guest = await createTestUser();
+      const fetched = await request(app)
+        .get('/api/host-policy')
+        .set('x-user-id', guest.id)
+        .query({ hostId: host.id });
+      expect(fetched.body.data.maxBookingsPerDay).toBe(3);
+
+      const deleted = await request(app)
+        .delete('/api/host-policy')
+        .set('x-user-id', host.id);
+      expect(deleted.status).toBe(200);
+      expect(await prisma.hostPolicy.count()).toBe(0);
+    });
+
+    it('should reject non-host users', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/host-policy')
+        .set('x-user-id', user.id)
+        .send({ maxActiveBookings: 10 });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 when updating a missing policy', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .patch('/api/host-policy')
+        .set('x-user-id', host.id)
+        .send({ maxActiveBookings: 10 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('booking', () => {
+    it('should apply the host\'s maximum active bookings', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, maxActiveBookings: 1 } });
+      const otherHost = await createTestHost();
+      const guest = await createTestUser();
+      await createTestBooking(guest.id, (await createTestSlot(otherHost.id)).id);
+      const slot = await createTestSlot(host.id);
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain('maximum of 1');
+    });
+
+    it('should allow several bookings with the same host when enabled', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, allowMultipleBookings: true } });
+      const guest = await createTestUser();
+      await createTestBooking(guest.id, (await createTestSlot(host.id, {
+        startTime: hoursFromNow(24),
+        endTime: hoursFromNow(25),
+      })).id);
+      const slot = await createTestSlot(host.id, { startTime: hoursFromNow(48), endTime: hoursFromNow(49) });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should apply the host\'s maximum bookings per day', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, maxBookingsPerDay: 1 } });
+      await createTestBooking((await createTestUser()).id, (await createTestSlot(host.id, {
+        startTime: daysFromNowAt(2, 9),
+        endTime: daysFromNowAt(2, 10),
+      })).id);
+      const sameDay = await createTestSlot(host.id, { startTime: daysFromNowAt(2, 14), endTime: daysFromNowAt(2, 15) });
+      const nextDay = await createTestSlot(host.id, { startTime: daysFromNowAt(3, 9), endTime: daysFromNowAt(3, 10) });
+      const guest = await createTestUser();
+
+      const rejected = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: sameDay.id });
+
+      expect(rejected.status).toBe(409);
+      expect(rejected.body.error.message).toContain('per day');
+
+      const accepted = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: nextDay.id });
+
+      expect(accepted.status).toBe(201);
+    });
+
+    it('should apply the host\'s cancellation window', async () => {
+      const host = await createTestHost();
+      await prisma.hostPolicy.create({ data: { hostId: host.id, cancellationWindowHours: 24 } });
+      const guest = await createTestUser();
+      const slot = await createTestSlot(host.id, { startTime: hoursFromNow(5), endTime: hoursFromNow(6) });
+      const booking = await createTestBooking(guest.id, slot.id);
+
+      const response = await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('24 hour(s)');
+    });
+  });
+});
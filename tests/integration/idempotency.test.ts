@@ -0,0 +1,222 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import Redis from 'ioredis';
+
+/**
+ * IDEMPOTENCY TEST
+ * 
+ * Tests that retried POST requests with the same Idempotency-Key replay the
+ * first response instead of being processed again.
+ * 
+ * Requirements:
+ * - Redis must be running on localhost:6379
+ */
+describe('Idempotency-Key', () => {
+  let redis: Redis;
+  let isRedisAvailable = true;
+
+  beforeAll(async () => {
+    try {
+      redis = new Redis({
+        host: 'localhost',
+        port: 6379,
+        maxRetriesPerRequest: 1,
+        lazyConnect: true,
+      });
+      await redis.connect();
+      await redis.ping();
+    } catch {
+      isRedisAvailable = false;
+      console.warn('Redis not available - skipping idempotency tests');
+    }
+  });
+
+  afterAll(async () => {
+    if (redis) {
+      await redis.quit();
+    }
+  });
+
+  beforeEach(async () => {
+    if (isRedisAvailable) {
+      const keys = await redis.keys('idempotency:*');
+      if (keys.length > 0) {
+        await redis.del(...keys);
+      }
+    }
+  });
+
+  it('should replay the first booking response on retry', async () => {
+    if (!isRedisAvailable) {
+      console.log('Skipping: Redis not available');
+      return;
+    }
+
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id);
+    const guest = await createTestUser();
+
+    const first = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', guest.id)
+      .set('Idempotency-Key', 'booking-retry')
+      .send({ slotId: slot.id });
+
+    const retry = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', guest.id)
+      .set('Idempotency-Key', 'booking-retry')
+      .send({ slotId: slot.id });
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body.data.id).toBe(first.body.data.id);
+
+    const bookings = await prisma.booking.count({ where: { slotId: slot.id } });
+    expect(bookings).toBe(1);
+  });
+
+  it('should reject reusing a key with a different body', async () => {
+    if (!isRedisAvailable) {
+      console.log('Skipping: Redis not available');
+      return;
+    }
+
+    const host = await createTestHost();
+    const [slot1, slot2] = await Promise.all([
+      createTestSlot(host.id),
+      createTestSlot(host.id, {
+        startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+        endTime: new Date(Date.now() + 49 * 60 * 60 * 1000),
+      }),
+    ]);
+    const guest = await createTestUser();
+
+    await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', guest.id)
+      .set('Idempotency-Key', 'reused-key')
+      .send({ slotId: slot1.id });
+
+    const response = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', guest.id)
+      .set('Idempotency-Key', 'reused-key')
+      .send({ slotId: slot2.id });
+
+    expect(response.status).toBe(422);
+
+    const booking = await prisma.booking.findFirst({ where: { slotId: slot2.id } });
+    expect(booking).toBeNull();
+  });
+
+  it('should scope keys to the user', async () => {
+    if (!isRedisAvailable) {
+      console.log('Skipping: Redis not available');
+      return;
+    }
+
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id, { capacity: 2 });
+    const [guest1, guest2] = await Promise.all([createTestUser(), createTestUser()]);
+
+    const responses = await Promise.all([guest1, guest2].map((guest) =>
+      request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .set('Idempotency-Key', 'shared-key')
+        .send({ slotId: slot.id })
+    ));
+
+    expect(responses.map((r) => r.status)).toEqual([201, 201]);
+    expect(responses[0].body.data.id).not.toBe(responses[1].body.data.id);
+  });
+
+  it('should replay error responses', async () => {
+    if (!isRedisAvailable) {
+      console.log('Skipping: Redis not available');
+      return;
+    }
+
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id);
+
+    const send = () => request(app)
+      .post('/api/bookings')
+      .set('x-user-id', host.id)
+      .set('Idempotency-Key', 'own-slot')
+      .send({ slotId: slot.id });
+
+    const first = await send();
+    const retry = await send();
+
+    expect(first.status).toBe(400);
+    expect(retry.status).toBe(400);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+  });
+
+  it('should replay slot creation', async () => {
+    if (!isRedisAvailable) {
+      console.log('Skipping: Redis not available');
+      return;
+    }
+
+    const host = await createTestHost();
+    const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const body = {
+      startTime: startTime.toISOString(),
+      endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+    };
+
+    const send = () => request(app)
+      .post('/api/slots')
+      .set('x-user-id', host.id)
+      .set('Idempotency-Key', 'slot-retry')
+      .send(body);
+
+    const first = await send();
+    const retry = await send();
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body.data.id).toBe(first.body.data.id);
+
+    const slots = await prisma.slot.count({ where: { hostId: host.id } });
+    expect(slots).toBe(1);
+  });
+
+  it('should not share keys between anonymous callers', async () => {
+    if (!isRedisAvailable) {
+      console.log('Skipping: Redis not available');
+      return;
+    }
+
+    const signUp = (email: string) => request(app)
+      .post('/api/users')
+      .set('Idempotency-Key', 'signup')
+      .send({ email, name: 'New User' });
+
+    const first = await signUp('first@example.com');
+    const second = await signUp('second@example.com');
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(second.headers['idempotent-replayed']).toBeUndefined();
+    expect(second.body.data.id).not.toBe(first.body.data.id);
+  });
+
+  it('should reject an overlong key', async () => {
+    const guest = await createTestUser();
+
+    const response = await request(app)
+      .post('/api/bookings')
+      .set('x-user-id', guest.id)
+      .set('Idempotency-Key', 'k'.repeat(256))
+      .send({ slotId: '00000000-0000-0000-0000-000000000000' });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,251 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+
+const PROFILE_QUESTIONS = [
+  { label: 'What would you like to discuss?', required: true },
+  { label: 'Which plan are you on?', type: 'CHOICE', options: ['Free', 'Pro'] },
+];
+
+/**
+ * Set the profile questions of a host
+ */
+async function setHostQuestions(hostId: string, questions: unknown[]) {
+  return request(app)
+    .put('/api/users/me/intake-questions')
+    .set('x-user-id', hostId)
+    .send({ questions });
+}
+
+/**
+ * Book a slot as the given user with answers
+ */
+async function bookSlot(userId: string, slotId: string, answers?: Record<string, string>) {
+  return request(app)
+    .post('/api/bookings')
+    .set('x-user-id', userId)
+    .send({ slotId, answers });
+}
+
+describe('Intake Questions', () => {
+  describe('PUT /api/users/me/intake-questions', () => {
+    it('should replace the questions of the host', async () => {
+      const host = await createTestHost();
+      await setHostQuestions(host.id, [{ label: 'Old question' }]);
+
+      const response = await setHostQuestions(host.id, PROFILE_QUESTIONS);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0]).toMatchObject({
+        label: 'What would you like to discuss?',
+        type: 'TEXT',
+        required: true,
+        options: [],
+        position: 0,
+        slotId: null,
+      });
+      expect(response.body.data[1]).toMatchObject({ type: 'CHOICE', required: false, options: ['Free', 'Pro'] });
+    });
+
+    it('should reject a choice question without options', async () => {
+      const host = await createTestHost();
+
+      const response = await setHostQuestions(host.id, [{ label: 'Plan?', type: 'CHOICE' }]);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject non-host users', async () => {
+      const user = await createTestUser();
+
+      const response = await setHostQuestions(user.id, PROFILE_QUESTIONS);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PUT /api/slots/:id/intake-questions', () => {
+    it('should ask the slot\'s questions instead of the host\'s', async () => {
+      const host = await createTestHost();
+      await setHostQuestions(host.id, PROFILE_QUESTIONS);
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const updated = await request(app)
+        .put(`/api/slots/${slot.id}/intake-questions`)
+        .set('x-user-id', host.id)
+        .send({ questions: [{ label: 'Your company?' }] });
+
+      expect(updated.status).toBe(200);
+
+      const response = await request(app)
+        .get(`/api/slots/${slot.id}/intake-questions`)
+        .set('x-user-id', guest.id);
+
+      expect(response.body.data.map((question: { label: string }) => question.label)).toEqual(['Your company?']);
+    });
+
+    it('should only let the host of the slot set its questions', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const otherHost = await createTestHost();
+
+      const response = await request(app)
+        .put(`/api/slots/${slot.id}/intake-questions`)
+        .set('x-user-id', otherHost.id)
+        .send({ questions: [] });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/bookings', () => {
+    it('should save valid answers with the booking', async () => {
+      const host = await createTestHost();
+      const questions = (await setHostQuestions(host.id, PROFILE_QUESTIONS)).body.data;
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const response = await bookSlot(guest.id, slot.id, {
+        [questions[0].id]: '  Our roadmap  ',
+        [questions[1].id]: 'Pro',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.answers).toEqual([
+        { questionId: questions[0].id, question: 'What would you like to discuss?', answer: 'Our roadmap' },
+        { questionId: questions[1].id, question: 'Which plan are you on?', answer: 'Pro' },
+      ]);
+    });
+
+    it('should reject missing, invalid and unknown answers', async () => {
+      const host = await createTestHost();
+      const questions = (await setHostQuestions(host.id, PROFILE_QUESTIONS)).body.data;
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const missing = await bookSlot(guest.id, slot.id, { [questions[1].id]: 'Pro' });
+      expect(missing.status).toBe(400);
+
+      const invalidChoice = await bookSlot(guest.id, slot.id, {
+        [questions[0].id]: 'Our roadmap',
+        [questions[1].id]: 'Enterprise',
+      });
+      expect(invalidChoice.status).toBe(400);
+
+      const unknown = await bookSlot(guest.id, slot.id, {
+        [questions[0].id]: 'Our roadmap',
+        'not-a-question': 'Hello',
+      });
+      expect(unknown.status).toBe(400);
+
+      expect(await prisma.booking.count()).toBe(0);
+    });
+
+    it('should keep the answers when the host changes the questions', async () => {
+      const host = await createTestHost();
+      const questions = (await setHostQuestions(host.id, PROFILE_QUESTIONS)).body.data;
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+      const booked = await bookSlot(guest.id, slot.id, { [questions[0].id]: 'Our roadmap' });
+
+      await setHostQuestions(host.id, []);
+
+      const response = await request(app)
+        .get(`/api/bookings/${booked.body.data.id}`)
+        .set('x-user-id', host.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.answers).toEqual([
+        { questionId: null, question: 'What would you like to discuss?', answer: 'Our roadmap' },
+      ]);
+    });
+  });
+
+  describe('POST /api/bookings/:id/reschedule', () => {
+    /**
+     * Reschedule a booking as the given user
+     */
+    async function reschedule(userId: string, bookingId: string, body: Record<string, unknown>) {
+      return request(app)
+        .post(`/api/bookings/${bookingId}/reschedule`)
+        .set('x-user-id', userId)
+        .send(body);
+    }
+
+    it('should carry the answers over to a slot with the same questions', async () => {
+      const host = await createTestHost();
+      const questions = (await setHostQuestions(host.id, PROFILE_QUESTIONS)).body.data;
+      const [slot, target] = await Promise.all([
+        createTestSlot(host.id),
+        createTestSlot(host.id, {
+          startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+          endTime: new Date(Date.now() + 49 * 60 * 60 * 1000),
+        }),
+      ]);
+      const guest = await createTestUser();
+      const booked = await bookSlot(guest.id, slot.id, { [questions[0].id]: 'Our roadmap' });
+
+      const response = await reschedule(guest.id, booked.body.data.id, { slotId: target.id });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.answers).toEqual([
+        { questionId: questions[0].id, question: 'What would you like to discuss?', answer: 'Our roadmap' },
+      ]);
+    });
+
+    it('should require answers to the questions of the new slot', async () => {
+      const host = await createTestHost();
+      const questions = (await setHostQuestions(host.id, PROFILE_QUESTIONS)).body.data;
+      const [slot, target] = await Promise.all([
+        createTestSlot(host.id),
+        createTestSlot(host.id, {
+          startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+          endTime: new Date(Date.now() + 49 * 60 * 60 * 1000),
+        }),
+      ]);
+      const targetQuestions = (await request(app)
+        .put(`/api/slots/${target.id}/intake-questions`)
+        .set('x-user-id', host.id)
+        .send({ questions: [{ label: 'Your company?', required: true }] })).body.data;
+      const guest = await createTestUser();
+      const booked = await bookSlot(guest.id, slot.id, { [questions[0].id]: 'Our roadmap' });
+
+      const rejected = await reschedule(guest.id, booked.body.data.id, { slotId: target.id });
+
+      expect(rejected.status).toBe(400);
+      const original = await prisma.booking.findUnique({ where: { id: booked.body.data.id } });
+      expect(original?.status).toBe('CONFIRMED');
+
+      const response = await reschedule(guest.id, booked.body.data.id, {
+        slotId: target.id,
+        answers: { [targetQuestions[0].id]: 'Acme' },
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.answers).toEqual([
+        { questionId: targetQuestions[0].id, question: 'Your company?', answer: 'Acme' },
+      ]);
+    });
+  });
+
+  describe('GET /api/bookings/:id', () => {
+    it('should only show the answers to the guest and the host', async () => {
+      const host = await createTestHost();
+      const questions = (await setHostQuestions(host.id, PROFILE_QUESTIONS)).body.data;
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+      const booked = await bookSlot(guest.id, slot.id, { [questions[0].id]: 'Our roadmap' });
+      const other = await createTestUser();
+
+      const response = await request(app)
+        .get(`/api/bookings/${booked.body.data.id}`)
+        .set('x-user-id', other.id);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
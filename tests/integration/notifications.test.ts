@@ -0,0 +1,234 @@
+import { CancellationActor, NotificationStatus, NotificationType } from '@prisma/client';
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestAdmin, createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+import { eventBus } from '../../src/events';
+import { memoryNotifier } from '../../src/notifiers';
+import { notificationService } from '../../src/services';
+
+describe('Notifications', () => {
+  beforeEach(() => {
+    process.env.NOTIFIER_TRANSPORT = 'memory';
+    memoryNotifier.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.NOTIFIER_TRANSPORT;
+  });
+
+  async function createBooking() {
+    const host = await createTestHost({ name: 'Dr. Host' });
+    const guest = await createTestUser({ email: 'guest@example.com', name: 'Guest' });
+    const slot = await createTestSlot(host.id, {
+      startTime: new Date('2099-01-01T01:00:00.000Z'),
+      endTime: new Date('2099-01-01T02:00:00.000Z'),
+    });
+    const booking = await createTestBooking(guest.id, slot.id);
+    return { host, guest, slot, booking };
+  }
+
+  describe('sending', () => {
+    it('should send the rendered template and log it', async () => {
+      const { guest, booking } = await createBooking();
+      await prisma.user.update({ where: { id: guest.id }, data: { timeZone: 'Asia/Singapore' } });
+
+      const log = await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id);
+
+      expect(log?.status).toBe(NotificationStatus.SENT);
+      expect(memoryNotifier.messages).toHaveLength(1);
+      expect(memoryNotifier.messages[0]).toMatchObject({
+        to: 'guest@example.com',
+        subject: 'Booking confirmed with Dr. Host',
+      });
+      expect(memoryNotifier.messages[0].text).toContain('Your booking with Dr. Host is confirmed.');
+      expect(memoryNotifier.messages[0].text).toContain('Starts: 2099-01-01T09:00:00.000+08:00');
+      expect(log).toMatchObject({ transport: 'memory', recipient: 'guest@example.com', bookingId: booking.id });
+    });
+
+    it('should include the reason of a host cancellation', async () => {
+      const { booking } = await createBooking();
+
+      await notificationService.notifyGuest(NotificationType.SLOT_CANCELLED_BY_HOST, booking.id, {
+        reason: 'Venue closed',
+      });
+
+      expect(memoryNotifier.messages[0].subject).toBe('Dr. Host cancelled your booking');
+      expect(memoryNotifier.messages[0].text).toContain('Reason: Venue closed');
+    });
+
+    it('should log and rethrow transport failures', async () => {
+      const { booking } = await createBooking();
+      jest.spyOn(memoryNotifier, 'send').mockRejectedValueOnce(new Error('Mailbox unavailable'));
+
+      await expect(
+        notificationService.notifyGuest(NotificationType.BOOKING_CANCELLED, booking.id)
+      ).rejects.toThrow('Mailbox unavailable');
+
+      const log = await prisma.notificationLog.findFirst({ where: { bookingId: booking.id } });
+      expect(log?.status).toBe(NotificationStatus.FAILED);
+      expect(log?.error).toBe('Mailbox unavailable');
+    });
+
+    it('should notify a guest only once per event', async () => {
+      const { booking } = await createBooking();
+      jest.spyOn(memoryNotifier, 'send').mockRejectedValueOnce(new Error('Mailbox unavailable'));
+
+      await expect(
+        notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id, { eventId: 'event-1' })
+      ).rejects.toThrow('Mailbox unavailable');
+      // The retried event sends the notification that failed, then nothing more
+      const sent = await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id, {
+        eventId: 'event-1',
+      });
+      const repeated = await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id, {
+        eventId: 'event-1',
+      });
+
+      expect(sent?.status).toBe(NotificationStatus.SENT);
+      expect(repeated?.id).toBe(sent?.id);
+      expect(memoryNotifier.messages).toHaveLength(1);
+
+      // Another event notifies the guest again
+      await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id, { eventId: 'event-2' });
+      expect(memoryNotifier.messages).toHaveLength(2);
+    });
+
+    it('should notify the guest when the host cancels the slot', async () => {
+      const { host, guest, slot, booking } = await createBooking();
+
+      eventBus.emit('booking.cancelled', {
+        bookingId: booking.id,
+        slotId: slot.id,
+        guestId: guest.id,
+        hostId: host.id,
+        cancelledBy: CancellationActor.HOST,
+        reason: 'Feeling unwell',
+        slotStartTime: slot.startTime,
+        slotEndTime: slot.endTime,
+      });
+
+      let log = null;
+      for (let attempt = 0; attempt < 50 && !log; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        log = await prisma.notificationLog.findFirst({ where: { bookingId: booking.id } });
+      }
+
+      expect(log?.type).toBe(NotificationType.SLOT_CANCELLED_BY_HOST);
+      expect(log?.body).toContain('Reason: Feeling unwell');
+    });
+  });
+
+  describe('preferences', () => {
+    it('should receive every notification type by default', async () => {
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .get('/api/users/me/notification-preferences')
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({
+        BOOKING_CONFIRMED: true,
+        BOOKING_CANCELLED: true,
+        SLOT_CANCELLED_BY_HOST: true,
+        BOOKING_REMINDER: true,
+        SLOT_CHANGE_PROPOSED: true,
+        SLOT_TIME_CHANGED: true,
+        BOOKING_DECLINED: true,
+      });
+    });
+
+    it('should skip and log notification types the guest opted out of', async () => {
+      const { guest, booking } = await createBooking();
+
+      const response = await request(app)
+        .patch('/api/users/me/notification-preferences')
+        .set('x-user-id', guest.id)
+        .send({ BOOKING_REMINDER: false });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.BOOKING_REMINDER).toBe(false);
+      expect(response.body.data.BOOKING_CONFIRMED).toBe(true);
+
+      const reminder = await notificationService.notifyGuest(NotificationType.BOOKING_REMINDER, booking.id, {
+        leadMinutes: 60,
+      });
+      const confirmation = await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id);
+
+      expect(reminder?.status).toBe(NotificationStatus.SKIPPED);
+      expect(confirmation?.status).toBe(NotificationStatus.SENT);
+      expect(memoryNotifier.messages.map((message) => message.subject)).toEqual([
+        'Booking confirmed with Dr. Host',
+      ]);
+    });
+
+    it('should keep types that are not given and allow opting back in', async () => {
+      const guest = await createTestUser();
+
+      await request(app)
+        .patch('/api/users/me/notification-preferences')
+        .set('x-user-id', guest.id)
+        .send({ BOOKING_REMINDER: false, BOOKING_CANCELLED: false });
+
+      const response = await request(app)
+        .patch('/api/users/me/notification-preferences')
+        .set('x-user-id', guest.id)
+        .send({ BOOKING_REMINDER: true });
+
+      expect(response.body.data.BOOKING_REMINDER).toBe(true);
+      expect(response.body.data.BOOKING_CANCELLED).toBe(false);
+    });
+
+    it('should reject unknown notification types', async () => {
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .patch('/api/users/me/notification-preferences')
+        .set('x-user-id', guest.id)
+        .send({ MARKETING: false });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/bookings/:id/notifications', () => {
+    it('should list the notification log of a booking for admins', async () => {
+      const { booking } = await createBooking();
+      const admin = await createTestAdmin();
+      await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id);
+      await notificationService.notifyGuest(NotificationType.BOOKING_REMINDER, booking.id, { leadMinutes: 1440 });
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/notifications`)
+        .set('x-user-id', admin.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((log: { type: string }) => log.type)).toEqual([
+        'BOOKING_CONFIRMED',
+        'BOOKING_REMINDER',
+      ]);
+      expect(response.body.data[1].subject).toBe('Reminder: your booking with Dr. Host starts in 24 hours');
+    });
+
+    it('should be admin only', async () => {
+      const { guest, booking } = await createBooking();
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/notifications`)
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 for an unknown booking', async () => {
+      const admin = await createTestAdmin();
+
+      const response = await request(app)
+        .get('/api/bookings/00000000-0000-0000-0000-000000000000/notifications')
+        .set('x-user-id', admin.id);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import { eventBus, BookingCreatedEvent } from '../../src/events';
+import { outboxEventRepository } from '../../src/repositories';
+import { outboxQueue } from '../../src/queues';
+import { relayOutboxEvents, startOutboxWorker, stopOutboxWorker } from '../../src/workers';
+
+describe('Transactional Outbox', () => {
+  describe('recording', () => {
+    it('should record booking.created in the booking transaction', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(201);
+
+      const events = await prisma.outboxEvent.findMany();
+      expect(events).toHaveLength(1);
+      expect(events[0].eventType).toBe('booking.created');
+      expect(events[0].dispatchedAt).toBeNull();
+      expect(events[0].payload).toMatchObject({
+        bookingId: response.body.data.id,
+        slotId: slot.id,
+        guestId: guest.id,
+        hostId: host.id,
+        slotStartTime: slot.startTime.toISOString(),
+      });
+    });
+
+    it('should not record events of a rejected booking', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', host.id)
+        .send({ slotId: slot.id });
+
+      expect(response.status).toBe(400);
+      expect(await prisma.outboxEvent.count()).toBe(0);
+    });
+
+    it('should record slot.created and slot.deleted with the slot change', async () => {
+      const host = await createTestHost();
+
+      const created = await request(app)
+        .post('/api/slots')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          endTime: new Date(Date.now() + 25 * 60 * 60 * 1000).toISOString(),
+        });
+
+      await request(app)
+        .delete(`/api/slots/${created.body.data.id}`)
+        .set('x-user-id', host.id);
+
+      const events = await prisma.outboxEvent.findMany({ orderBy: { sequence: 'asc' } });
+      expect(events.map((event) => event.eventType)).toEqual(['slot.created', 'slot.deleted']);
+      expect(events[1].payload).toEqual({ slotId: created.body.data.id, hostId: host.id });
+    });
+  });
+
+  /**
+   * Requirements:
+   * - Redis must be running on localhost:6379
+   */
+  describe('relay', () => {
+    let isRedisAvailable = true;
+    let received: BookingCreatedEvent[];
+    const listener = (event: BookingCreatedEvent) => {
+      received.push(event);
+    };
+
+    // Wait until the outbox worker emitted `count` events
+    async function waitForEvents(count: number): Promise<BookingCreatedEvent[]> {
+      for (let attempt = 0; attempt < 100 && received.length < count; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      return received;
+    }
+
+    async function bookSlots(count: number): Promise<string[]> {
+      const host = await createTestHost();
+      const guest = await createTestUser();
+      const bookingIds: string[] = [];
+
+      for (let index = 0; index < count; index++) {
+        const slot = await createTestSlot(host.id, {
+          startTime: new Date(Date.now() + (24 + index) * 60 * 60 * 1000),
+          endTime: new Date(Date.now() + (24.5 + index) * 60 * 60 * 1000),
+        });
+        const response = await request(app)
+          .post('/api/bookings')
+          .set('x-user-id', guest.id)
+          .send({ slotId: slot.id });
+        bookingIds.push(response.body.data.id);
+      }
+
+      return bookingIds;
+    }
+
+    beforeAll(async () => {
+      try {
+        await outboxQueue.getJobCounts();
+        startOutboxWorker();
+      } catch {
+        isRedisAvailable = false;
+        console.warn('Redis not available - skipping outbox relay tests');
+        return;
+      }
+
+      eventBus.on('booking.created', listener);
+    });
+
+    afterAll(async () => {
+      if (isRedisAvailable) {
+        eventBus.off('booking.created', listener);
+        await stopOutboxWorker();
+      }
+    });
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should publish pending events in order and mark them dispatched', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const bookingIds = await bookSlots(3);
+
+      expect(await relayOutboxEvents()).toBe(3);
+
+      const events = await waitForEvents(3);
+      expect(events.map((event) => event.bookingId)).toEqual(bookingIds);
+      expect(events[0].slotStartTime).toBeInstanceOf(Date);
+
+      const pending = await prisma.outboxEvent.count({ where: { dispatchedAt: null } });
+      expect(pending).toBe(0);
+
+      // Dispatched events are not published again
+      expect(await relayOutboxEvents()).toBe(0);
+    });
+
+    it('should emit an event again when a listener fails', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      let failures = 1;
+      const failingListener = () => {
+        if (failures-- > 0) {
+          throw new Error('Listener failed');
+        }
+      };
+      eventBus.on('booking.created', failingListener);
+
+      try {
+        const [bookingId] = await bookSlots(1);
+
+        expect(await relayOutboxEvents()).toBe(1);
+
+        // Emitted once, failed, then retried with backoff
+        const events = await waitForEvents(2);
+        expect(events.map((event) => event.bookingId)).toEqual([bookingId, bookingId]);
+      } finally {
+        eventBus.off('booking.created', failingListener);
+      }
+    }, 15000);
+
+    it('should mark an event pending again once it is out of attempts', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const failingListener = () => {
+        throw new Error('Listener failed');
+      };
+      eventBus.on('booking.created', failingListener);
+
+      try {
+        await bookSlots(1);
+
+        expect(await relayOutboxEvents()).toBe(1);
+
+        // Five attempts with backoff of 1, 2, 4 and 8 seconds
+        let pending = 0;
+        for (let attempt = 0; attempt < 250 && pending === 0; attempt++) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          pending = await prisma.outboxEvent.count({ where: { dispatchedAt: null } });
+        }
+        expect(pending).toBe(1);
+        expect(received).toHaveLength(5);
+      } finally {
+        eventBus.off('booking.created', failingListener);
+      }
+
+      // The relay publishes the event again, and it now goes through
+      expect(await relayOutboxEvents()).toBe(1);
+      const events = await waitForEvents(6);
+      expect(events).toHaveLength(6);
+    }, 40000);
+
+    it('should republish events when marking them dispatched fails', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const [bookingId] = await bookSlots(1);
+
+      jest.spyOn(outboxEventRepository, 'markDispatched')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(relayOutboxEvents()).rejects.toThrow('Connection lost');
+      const pending = await prisma.outboxEvent.count({ where: { dispatchedAt: null } });
+      expect(pending).toBe(1);
+
+      // The next pass picks the event up again
+      expect(await relayOutboxEvents()).toBe(1);
+
+      const events = await waitForEvents(1);
+      expect(events.map((event) => event.bookingId)).toContain(bookingId);
+      expect(await prisma.outboxEvent.count({ where: { dispatchedAt: null } })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CancellationActor } from '@prisma/client';
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, getFutureDate, prisma } from '../helpers';
+import { eventBus } from '../../src/events';
+import { reminderService } from '../../src/services';
+import { getReminderJobId, reminderQueue, scheduleReminderJobs, removeReminderJobs } from '../../src/queues';
+import { startReminderWorker, stopReminderWorker } from '../../src/workers';
+
+describe('Booking Reminders', () => {
+  let notificationsFile: string;
+
+  // Notifications written by the file transport
+  function readNotifications(): Array<{ to: string; subject: string; text: string }> {
+    if (!existsSync(notificationsFile)) {
+      return [];
+    }
+    return readFileSync(notificationsFile, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  beforeEach(() => {
+    notificationsFile = path.join(mkdtempSync(path.join(tmpdir(), 'reminders-')), 'notifications.log');
+    process.env.NOTIFIER_TRANSPORT = 'file';
+    process.env.NOTIFIER_FILE_PATH = notificationsFile;
+  });
+
+  afterEach(() => {
+    rmSync(path.dirname(notificationsFile), { recursive: true, force: true });
+    delete process.env.NOTIFIER_TRANSPORT;
+    delete process.env.NOTIFIER_FILE_PATH;
+  });
+
+  describe('sending', () => {
+    it('should remind the guest in their time zone', async () => {
+      const host = await createTestHost({ name: 'Dr. Host' });
+      const guest = await createTestUser({ email: 'guest@example.com', name: 'Guest' });
+      await prisma.user.update({ where: { id: guest.id }, data: { timeZone: 'Asia/Singapore' } });
+      const slot = await createTestSlot(host.id, {
+        startTime: new Date('2099-01-01T01:00:00.000Z'),
+        endTime: new Date('2099-01-01T02:00:00.000Z'),
+      });
+      const booking = await createTestBooking(guest.id, slot.id);
+
+      const sent = await reminderService.sendReminder({
+        bookingId: booking.id,
+        slotStartTime: slot.startTime.toISOString(),
+        leadMinutes: 24 * 60,
+      });
+
+      expect(sent).toBe(true);
+      const [notification] = readNotifications();
+      expect(notification.to).toBe('guest@example.com');
+      expect(notification.subject).toBe('Reminder: your booking with Dr. Host starts in 24 hours');
+      expect(notification.text).toContain('Starts: 2099-01-01T09:00:00.000+08:00');
+    });
+
+    it('should skip cancelled bookings', async () => {
+      const host = await createTestHost();
+      const guest = await createTestUser();
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(guest.id, slot.id);
+
+      await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', guest.id);
+
+      const sent = await reminderService.sendReminder({
+        bookingId: booking.id,
+        slotStartTime: slot.startTime.toISOString(),
+        leadMinutes: 60,
+      });
+
+      expect(sent).toBe(false);
+      expect(readNotifications()).toHaveLength(0);
+    });
+
+    it('should skip reminders scheduled for a different start time', async () => {
+      const host = await createTestHost();
+      const guest = await createTestUser();
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(guest.id, slot.id);
+
+      const sent = await reminderService.sendReminder({
+        bookingId: booking.id,
+        slotStartTime: new Date(slot.startTime.getTime() - 60 * 60 * 1000).toISOString(),
+        leadMinutes: 60,
+      });
+
+      expect(sent).toBe(false);
+      expect(readNotifications()).toHaveLength(0);
+    });
+  });
+
+  /**
+   * Requirements:
+   * - Redis must be running on localhost:6379
+   */
+  describe('scheduling', () => {
+    let isRedisAvailable = true;
+
+    beforeAll(async () => {
+      try {
+        await reminderQueue.getJobCounts();
+      } catch {
+        isRedisAvailable = false;
+        console.warn('Redis not available - skipping reminder scheduling tests');
+      }
+    });
+
+    // Poll until the reminder job exists (or not)
+    async function waitForJob(jobId: string, exists: boolean) {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const job = await reminderQueue.getJob(jobId);
+        if (!!job === exists) {
+          return job;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      throw new Error(`Reminder job ${jobId} did not ${exists ? 'appear' : 'disappear'}`);
+    }
+
+    it('should schedule delayed reminders 24 hours and 1 hour before the slot', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const bookingId = 'booking-in-30-hours';
+      const slotStartTime = getFutureDate(30);
+      await scheduleReminderJobs(bookingId, slotStartTime);
+
+      const dayBefore = await reminderQueue.getJob(getReminderJobId(bookingId, 24 * 60));
+      const hourBefore = await reminderQueue.getJob(getReminderJobId(bookingId, 60));
+
+      expect(await dayBefore?.getState()).toBe('delayed');
+      expect(dayBefore!.timestamp + dayBefore!.delay).toBeCloseTo(slotStartTime.getTime() - 24 * 60 * 60 * 1000, -4);
+      expect(hourBefore!.timestamp + hourBefore!.delay).toBeCloseTo(slotStartTime.getTime() - 60 * 60 * 1000, -4);
+
+      await removeReminderJobs(bookingId);
+      expect(await reminderQueue.getJob(getReminderJobId(bookingId, 24 * 60))).toBeUndefined();
+      expect(await reminderQueue.getJob(getReminderJobId(bookingId, 60))).toBeUndefined();
+    });
+
+    it('should skip reminders whose time has passed', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const bookingId = 'booking-in-2-hours';
+      await scheduleReminderJobs(bookingId, getFutureDate(2));
+
+      expect(await reminderQueue.getJob(getReminderJobId(bookingId, 24 * 60))).toBeUndefined();
+      expect(await reminderQueue.getJob(getReminderJobId(bookingId, 60))).toBeDefined();
+
+      await removeReminderJobs(bookingId);
+    });
+
+    it('should follow booking.created and booking.cancelled events', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const event = {
+        bookingId: 'booking-from-events',
+        slotId: 'slot',
+        guestId: 'guest',
+        hostId: 'host',
+        slotStartTime: getFutureDate(48),
+        slotEndTime: getFutureDate(49),
+      };
+      const jobId = getReminderJobId(event.bookingId, 60);
+
+      eventBus.emit('booking.created', { ...event, rescheduledFromId: null });
+      await waitForJob(jobId, true);
+
+      eventBus.emit('booking.cancelled', { ...event, cancelledBy: CancellationActor.GUEST, reason: null });
+      await waitForJob(jobId, false);
+    });
+
+    it('should deliver a due reminder through the notifier', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const host = await createTestHost();
+      const guest = await createTestUser({ email: 'due@example.com' });
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(guest.id, slot.id);
+
+      await scheduleReminderJobs(booking.id, slot.startTime);
+      const job = await reminderQueue.getJob(getReminderJobId(booking.id, 60));
+
+      startReminderWorker();
+      try {
+        await job!.promote();
+
+        for (let attempt = 0; attempt < 50 && readNotifications().length === 0; attempt++) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+      } finally {
+        await stopReminderWorker();
+        await removeReminderJobs(booking.id);
+      }
+
+      const [notification] = readNotifications();
+      expect(notification.to).toBe('due@example.com');
+      expect(notification.subject).toContain('starts in 1 hour');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import {
+  createTestHost,
+  createTestUser,
+  createTestSlot,
+  createTestBooking,
+  getFutureDate,
+  prisma,
+} from '../helpers';
+import { BookingStatus, SlotStatus } from '@prisma/client';
+
+describe('POST /api/bookings/:id/reschedule', () => {
+  it('should move a booking to another slot of the same host', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const user = await createTestUser({ name: 'Guest' });
+    const oldSlot = await createTestSlot(host.id, { startTime: getFutureDate(24) });
+    const newSlot = await createTestSlot(host.id, { startTime: getFutureDate(48) });
+    const booking = await createTestBooking(user.id, oldSlot.id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${booking.id}/reschedule`)
+      .set('x-user-id', user.id)
+      .send({ slotId: newSlot.id });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.slotId).toBe(newSlot.id);
+    expect(response.body.data.rescheduledFromId).toBe(booking.id);
+
+    const oldBooking = await prisma.booking.findUnique({ where: { id: booking.id } });
+    expect(oldBooking?.status).toBe(BookingStatus.CANCELLED);
+
+    const slots = await prisma.slot.findMany({ where: { id: { in: [oldSlot.id, newSlot.id] } } });
+    expect(slots.find((slot) => slot.id === oldSlot.id)?.status).toBe(SlotStatus.AVAILABLE);
+    expect(slots.find((slot) => slot.id === newSlot.id)?.status).toBe(SlotStatus.BOOKED);
+  });
+
+  it('should keep the original booking when the target slot is taken', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const user = await createTestUser({ name: 'Guest' });
+    const other = await createTestUser({ name: 'Other' });
+    const oldSlot = await createTestSlot(host.id, { startTime: getFutureDate(24) });
+    const newSlot = await createTestSlot(host.id, { startTime: getFutureDate(48) });
+    const booking = await createTestBooking(user.id, oldSlot.id);
+    await createTestBooking(other.id, newSlot.id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${booking.id}/reschedule`)
+      .set('x-user-id', user.id)
+      .send({ slotId: newSlot.id });
+
+    expect(response.status).toBe(409);
+
+    const oldBooking = await prisma.booking.findUnique({ where: { id: booking.id } });
+    expect(oldBooking?.status).toBe(BookingStatus.CONFIRMED);
+  });
+
+  it('should enforce the cancellation window on the old slot', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const user = await createTestUser({ name: 'Guest' });
+    const oldSlot = await createTestSlot(host.id, { startTime: getFutureDate(0.5) });
+    const newSlot = await createTestSlot(host.id, { startTime: getFutureDate(48) });
+    const booking = await createTestBooking(user.id, oldSlot.id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${booking.id}/reschedule`)
+      .set('x-user-id', user.id)
+      .send({ slotId: newSlot.id });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should not allow rescheduling another user\'s booking', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const user = await createTestUser({ name: 'Guest' });
+    const intruder = await createTestUser({ name: 'Intruder' });
+    const oldSlot = await createTestSlot(host.id, { startTime: getFutureDate(24) });
+    const newSlot = await createTestSlot(host.id, { startTime: getFutureDate(48) });
+    const booking = await createTestBooking(user.id, oldSlot.id);
+
+    const response = await request(app)
+      .post(`/api/bookings/${booking.id}/reschedule`)
+      .set('x-user-id', intruder.id)
+      .send({ slotId: newSlot.id });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should let exactly one of two crossing reschedules succeed', async () => {
+    const host = await createTestHost({ name: 'Host' });
+    const first = await createTestUser({ name: 'First' });
+    const second = await createTestUser({ name: 'Second' });
+    const slotA = await createTestSlot(host.id, { startTime: getFutureDate(24) });
+    const slotB = await createTestSlot(host.id, { startTime: getFutureDate(48) });
+    const slotC = await createTestSlot(host.id, { startTime: getFutureDate(72) });
+    const bookingA = await createTestBooking(first.id, slotA.id);
+    const bookingB = await createTestBooking(second.id, slotB.id);
+
+    // Both guests race for slot C; locks are taken in id order so neither deadlocks
+    const responses = await Promise.all([
+      request(app)
+        .post(`/api/bookings/${bookingA.id}/reschedule`)
+        .set('x-user-id', first.id)
+        .send({ slotId: slotC.id }),
+      request(app)
+        .post(`/api/bookings/${bookingB.id}/reschedule`)
+        .set('x-user-id', second.id)
+        .send({ slotId: slotC.id }),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+
+    const confirmed = await prisma.booking.count({
+      where: { slotId: slotC.id, status: BookingStatus.CONFIRMED },
+    });
+    expect(confirmed).toBe(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { NotificationType } from '@prisma/client';
+import request from 'supertest';
+import app from '../../src/index';
+import { memoryNotifier } from '../../src/notifiers';
+import { notificationService } from '../../src/services';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, getFutureDate, prisma } from '../helpers';
+
+/**
+ * Create a slot through the API as the given host
+ */
+async function createSlot(hostId: string, data: Record<string, unknown>) {
+  return request(app)
+    .post('/api/slots')
+    .set('x-user-id', hostId)
+    .send(data);
+}
+
+describe('Slot Details', () => {
+  describe('POST /api/slots', () => {
+    it('should create a slot with its meeting details', async () => {
+      const host = await createTestHost();
+
+      const response = await createSlot(host.id, {
+        startTime: getFutureDate(24).toISOString(),
+        endTime: getFutureDate(25).toISOString(),
+        title: '  Intro call ',
+        description: 'Tell us about your project',
+        locationType: 'IN_PERSON',
+        location: '1 Main Street',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        title: 'Intro call',
+        description: 'Tell us about your project',
+        locationType: 'IN_PERSON',
+        location: '1 Main Street',
+        meetingUrl: null,
+        durationMinutes: 60,
+      });
+    });
+
+    it('should generate a meeting URL for video slots without one', async () => {
+      const host = await createTestHost();
+      const times = { startTime: getFutureDate(24).toISOString(), endTime: getFutureDate(25).toISOString() };
+
+      const generated = await createSlot(host.id, { ...times, locationType: 'VIDEO' });
+
+      expect(generated.status).toBe(201);
+      expect(generated.body.data.meetingUrl).toMatch(/^https:\/\/meet\.jit\.si\/\S+$/);
+
+      const given = await createSlot(host.id, {
+        startTime: getFutureDate(48).toISOString(),
+        endTime: getFutureDate(49).toISOString(),
+        locationType: 'VIDEO',
+        meetingUrl: 'https://video.example.com/room',
+      });
+
+      expect(given.body.data.meetingUrl).toBe('https://video.example.com/room');
+    });
+
+    it('should reject inconsistent locations', async () => {
+      const host = await createTestHost();
+      const times = { startTime: getFutureDate(24).toISOString(), endTime: getFutureDate(25).toISOString() };
+
+      const noAddress = await createSlot(host.id, { ...times, locationType: 'IN_PERSON' });
+      expect(noAddress.status).toBe(400);
+
+      const urlWithoutVideo = await createSlot(host.id, {
+        ...times,
+        locationType: 'PHONE',
+        meetingUrl: 'https://video.example.com/room',
+      });
+      expect(urlWithoutVideo.status).toBe(400);
+
+      const addressWithoutType = await createSlot(host.id, { ...times, location: '1 Main Street' });
+      expect(addressWithoutType.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/slots', () => {
+    it('should filter slots by location type and duration', async () => {
+      const host = await createTestHost();
+      const guest = await createTestUser();
+      const startTime = getFutureDate(24);
+      const video = await createSlot(host.id, {
+        startTime: startTime.toISOString(),
+        endTime: new Date(startTime.getTime() + 30 * 60 * 1000).toISOString(),
+        locationType: 'VIDEO',
+      });
+      const inPerson = await createSlot(host.id, {
+        startTime: getFutureDate(48).toISOString(),
+        endTime: getFutureDate(50).toISOString(),
+        locationType: 'IN_PERSON',
+        location: '1 Main Street',
+      });
+
+      const listed = async (query: Record<string, string | number>) => {
+        const response = await request(app)
+          .get('/api/slots')
+          .set('x-user-id', guest.id)
+          .query({ hostId: host.id, ...query });
+        return response.body.data.map((slot: { id: string }) => slot.id);
+      };
+
+      expect(await listed({ locationType: 'VIDEO' })).toEqual([video.body.data.id]);
+      expect(await listed({ minDuration: 60 })).toEqual([inPerson.body.data.id]);
+      expect(await listed({ maxDuration: 30 })).toEqual([video.body.data.id]);
+      expect(await listed({ minDuration: 30, maxDuration: 120 })).toHaveLength(2);
+    });
+
+    it('should reject a minimum duration above the maximum', async () => {
+      const guest = await createTestUser();
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', guest.id)
+        .query({ minDuration: 60, maxDuration: 30 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('notifications and invites', () => {
+    async function createBookingWithDetails() {
+      const host = await createTestHost({ name: 'Dr. Host' });
+      const guest = await createTestUser({ name: 'Guest' });
+      const slot = await createTestSlot(host.id);
+      await prisma.slot.update({
+        where: { id: slot.id },
+        data: {
+          title: 'Intro call',
+          locationType: 'VIDEO',
+          meetingUrl: 'https://video.example.com/room',
+        },
+      });
+      const booking = await createTestBooking(guest.id, slot.id);
+      return { guest, booking };
+    }
+
+    beforeEach(() => {
+      process.env.NOTIFIER_TRANSPORT = 'memory';
+      memoryNotifier.clear();
+    });
+
+    afterEach(() => {
+      delete process.env.NOTIFIER_TRANSPORT;
+    });
+
+    it('should include the meeting details in the confirmation', async () => {
+      const { booking } = await createBookingWithDetails();
+
+      await notificationService.notifyGuest(NotificationType.BOOKING_CONFIRMED, booking.id);
+
+      expect(memoryNotifier.messages[0].text).toContain('Meeting: Intro call');
+      expect(memoryNotifier.messages[0].text).toContain('Location: Video call: https://video.example.com/room');
+    });
+
+    it('should include the meeting details in the invite', async () => {
+      const { guest, booking } = await createBookingWithDetails();
+
+      const response = await request(app)
+        .get(`/api/bookings/${booking.id}/ics`)
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('SUMMARY:Intro call with Dr. Host');
+      expect(response.text).toContain('URL:https://video.example.com/room');
+    });
+  });
+});
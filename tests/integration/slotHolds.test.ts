@@ -0,0 +1,203 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { slotHoldService } from '../../src/services';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import { SLOT_HOLD_TTL_MINUTES } from '../../src/utils/constants';
+
+/**
+ * Hold a slot as the given user
+ */
+async function holdSlot(userId: string, slotId: string) {
+  return request(app)
+    .post(`/api/slots/${slotId}/hold`)
+    .set('x-user-id', userId);
+}
+
+/**
+ * Book a slot as the given user
+ */
+async function bookSlot(userId: string, slotId: string) {
+  return request(app)
+    .post('/api/bookings')
+    .set('x-user-id', userId)
+    .send({ slotId });
+}
+
+/**
+ * Make the hold of a slot lapse
+ */
+async function expireHoldOf(slotId: string) {
+  await prisma.slot.update({
+    where: { id: slotId },
+    data: { holdExpiresAt: new Date(Date.now() - 1000) },
+  });
+}
+
+describe('Slot Holds', () => {
+  describe('POST /api/slots/:id/hold', () => {
+    it('should hold an available slot', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const response = await holdSlot(guest.id, slot.id);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ slotId: slot.id, userId: guest.id });
+
+      const expiresIn = new Date(response.body.data.expiresAt).getTime() - Date.now();
+      expect(expiresIn).toBeGreaterThan(0);
+      expect(expiresIn).toBeLessThanOrEqual(SLOT_HOLD_TTL_MINUTES * 60 * 1000);
+
+      const held = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(held?.status).toBe('HELD');
+    });
+
+    it('should reject a slot held by another guest', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      await holdSlot((await createTestUser()).id, slot.id);
+      const guest = await createTestUser();
+
+      const response = await holdSlot(guest.id, slot.id);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should let a guest hold only one slot at a time', async () => {
+      const host = await createTestHost();
+      const first = await createTestSlot(host.id);
+      const second = await createTestSlot(host.id, {
+        startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+        endTime: new Date(Date.now() + 49 * 60 * 60 * 1000),
+      });
+      const guest = await createTestUser();
+      await holdSlot(guest.id, first.id);
+
+      const response = await holdSlot(guest.id, second.id);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain('another slot');
+    });
+
+    it('should keep the host from deleting a held slot', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+      await holdSlot(guest.id, slot.id);
+
+      const deleteSlot = () => request(app)
+        .delete(`/api/slots/${slot.id}`)
+        .set('x-user-id', host.id);
+
+      const response = await deleteSlot();
+
+      expect(response.status).toBe(409);
+      expect(await prisma.slot.count({ where: { id: slot.id } })).toBe(1);
+
+      // A lapsed hold no longer protects the slot
+      await expireHoldOf(slot.id);
+      expect((await deleteSlot()).status).toBe(200);
+    });
+
+    it('should not let hosts hold their own slots', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+
+      const response = await holdSlot(host.id, slot.id);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should not hold group slots', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id, { capacity: 3 });
+      const guest = await createTestUser();
+
+      const response = await holdSlot(guest.id, slot.id);
+
+      expect(response.status).toBe(400);
+      const found = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(found?.status).toBe('AVAILABLE');
+    });
+  });
+
+  describe('booking a held slot', () => {
+    it('should only let the holder book the slot', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const holder = await createTestUser();
+      const other = await createTestUser();
+      await holdSlot(holder.id, slot.id);
+
+      const rejected = await bookSlot(other.id, slot.id);
+      expect(rejected.status).toBe(409);
+      expect(rejected.body.error.message).toContain('held by another guest');
+
+      const accepted = await bookSlot(holder.id, slot.id);
+      expect(accepted.status).toBe(201);
+
+      const booked = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(booked).toMatchObject({ status: 'BOOKED', heldById: null, holdExpiresAt: null });
+    });
+
+    it('should let anyone book once the hold has lapsed', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      await holdSlot((await createTestUser()).id, slot.id);
+      await expireHoldOf(slot.id);
+      const guest = await createTestUser();
+
+      const response = await bookSlot(guest.id, slot.id);
+
+      expect(response.status).toBe(201);
+    });
+  });
+
+  describe('releasing a hold', () => {
+    it('should release the hold on request', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+      await holdSlot(guest.id, slot.id);
+
+      const response = await request(app)
+        .delete(`/api/slots/${slot.id}/hold`)
+        .set('x-user-id', guest.id);
+
+      expect(response.status).toBe(200);
+
+      const released = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(released?.status).toBe('AVAILABLE');
+
+      const again = await request(app)
+        .delete(`/api/slots/${slot.id}/hold`)
+        .set('x-user-id', guest.id);
+      expect(again.status).toBe(404);
+    });
+
+    it('should make the slot available again once the hold expires', async () => {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+      await holdSlot(guest.id, slot.id);
+
+      const listed = async () => {
+        const response = await request(app)
+          .get('/api/slots')
+          .set('x-user-id', guest.id)
+          .query({ hostId: host.id, status: 'AVAILABLE' });
+        return response.body.data.map((entry: { id: string }) => entry.id);
+      };
+
+      expect(await listed()).toEqual([]);
+      expect(await slotHoldService.expireHold(slot.id)).toBe(false);
+
+      await expireHoldOf(slot.id);
+      expect(await slotHoldService.expireHold(slot.id)).toBe(true);
+      expect(await listed()).toEqual([slot.id]);
+    });
+  });
+});
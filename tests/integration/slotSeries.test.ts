@@ -0,0 +1,281 @@
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import { SlotStatus } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the UTC day `days` from now at the given hour
+ */
+function daysFromNowAt(days: number, hour: number): Date {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+}
+
+describe('Slot Series API', () => {
+  describe('POST /api/slots/series', () => {
+    it('should materialize one slot per daily occurrence', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+
+      const response = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 5,
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created.length).toBe(5);
+      expect(response.body.data.skipped.length).toBe(0);
+
+      const slots = await prisma.slot.findMany({
+        where: { seriesId: response.body.data.series.id },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(slots.length).toBe(5);
+      expect(slots[1].startTime.getTime() - slots[0].startTime.getTime()).toBe(DAY_MS);
+    });
+
+    it('should skip exception dates', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+      const exception = new Date(startTime.getTime() + DAY_MS);
+
+      const response = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 3,
+          exceptionDates: [exception.toISOString().slice(0, 10)],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created.length).toBe(2);
+    });
+
+    it('should report occurrences that overlap existing slots', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+
+      // Existing slot clashing with the second occurrence
+      await createTestSlot(host.id, {
+        startTime: new Date(startTime.getTime() + DAY_MS + 30 * 60 * 1000),
+        endTime: new Date(startTime.getTime() + DAY_MS + 90 * 60 * 1000),
+      });
+
+      const response = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 3,
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.created.length).toBe(2);
+      expect(response.body.data.skipped.length).toBe(1);
+      expect(response.body.data.skipped[0].reason).toBe('OVERLAP');
+    });
+
+    it('should require exactly one of count or until', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+
+      const response = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'WEEKLY',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should reject series creation for non-hosts', async () => {
+      const user = await createTestUser({ name: 'Guest User' });
+      const startTime = daysFromNowAt(2, 10);
+
+      const response = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', user.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 2,
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PATCH /api/slots/series/:id', () => {
+    it('should move this and following occurrences and keep booked ones', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+
+      const created = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 4,
+        });
+      const [, second, third] = created.body.data.created;
+
+      // Book the third occurrence
+      await prisma.slot.update({ where: { id: third.id }, data: { status: SlotStatus.BOOKED } });
+
+      const newStart = new Date(new Date(second.startTime).getTime() + 4 * 60 * 60 * 1000);
+      const response = await request(app)
+        .patch(`/api/slots/series/${created.body.data.series.id}`)
+        .set('x-user-id', host.id)
+        .send({
+          fromSlotId: second.id,
+          startTime: newStart.toISOString(),
+          endTime: new Date(newStart.getTime() + 60 * 60 * 1000).toISOString(),
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.series.id).not.toBe(created.body.data.series.id);
+      expect(response.body.data.series.count).toBe(3);
+      expect(response.body.data.kept.map((slot: { id: string }) => slot.id)).toEqual([third.id]);
+      expect(response.body.data.created.length).toBe(3);
+
+      // The original series now ends before the edited occurrence
+      const original = await prisma.slot.findMany({
+        where: { seriesId: created.body.data.series.id, status: SlotStatus.AVAILABLE },
+      });
+      expect(original.length).toBe(1);
+    });
+
+    it('should count earlier exception dates towards the remaining occurrences', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+      const exception = new Date(startTime.getTime() + DAY_MS);
+
+      const created = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 4,
+          exceptionDates: [exception.toISOString().slice(0, 10)],
+        });
+      const [, third] = created.body.data.created;
+
+      const newStart = new Date(new Date(third.startTime).getTime() + 4 * 60 * 60 * 1000);
+      const response = await request(app)
+        .patch(`/api/slots/series/${created.body.data.series.id}`)
+        .set('x-user-id', host.id)
+        .send({
+          fromSlotId: third.id,
+          startTime: newStart.toISOString(),
+          endTime: new Date(newStart.getTime() + 60 * 60 * 1000).toISOString(),
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.series.count).toBe(2);
+      expect(response.body.data.created.length).toBe(2);
+    });
+  });
+
+  describe('DELETE /api/slots/series/:id', () => {
+    it('should cancel this and following unbooked occurrences', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const startTime = daysFromNowAt(2, 10);
+
+      const created = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 4,
+        });
+      const seriesId = created.body.data.series.id;
+      const [, second] = created.body.data.created;
+
+      const response = await request(app)
+        .delete(`/api/slots/series/${seriesId}`)
+        .query({ fromSlotId: second.id })
+        .set('x-user-id', host.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.deleted).toBe(3);
+
+      const remaining = await prisma.slot.count({ where: { seriesId } });
+      expect(remaining).toBe(1);
+    });
+
+    it('should keep available group occurrences that have bookings', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const guest = await createTestUser();
+      const startTime = daysFromNowAt(2, 10);
+
+      const created = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 2,
+        });
+      const seriesId = created.body.data.series.id;
+      const [first] = created.body.data.created;
+      await prisma.slot.update({ where: { id: first.id }, data: { capacity: 3 } });
+      await prisma.booking.create({ data: { slotId: first.id, userId: guest.id } });
+
+      const response = await request(app)
+        .delete(`/api/slots/series/${seriesId}`)
+        .set('x-user-id', host.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.deleted).toBe(1);
+      expect(response.body.data.kept.map((slot: { id: string }) => slot.id)).toEqual([first.id]);
+      expect(await prisma.booking.count({ where: { slotId: first.id } })).toBe(1);
+    });
+
+    it('should not allow other hosts to cancel a series', async () => {
+      const host = await createTestHost({ name: 'Series Host' });
+      const otherHost = await createTestHost({ name: 'Other Host' });
+      const startTime = daysFromNowAt(2, 10);
+
+      const created = await request(app)
+        .post('/api/slots/series')
+        .set('x-user-id', host.id)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+          frequency: 'DAILY',
+          count: 2,
+        });
+
+      const response = await request(app)
+        .delete(`/api/slots/series/${created.body.data.series.id}`)
+        .set('x-user-id', otherHost.id);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+import { BookingStatus, SlotChangeStatus } from '@prisma/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time `hours` from now, rounded to the hour
+ */
+function hoursFromNow(hours: number): Date {
+  const date = new Date(Date.now() + hours * HOUR_MS);
+  date.setUTCMinutes(0, 0, 0);
+  return date;
+}
+
+describe('PATCH /api/slots/:id', () => {
+  it('should move an unbooked slot, keeping its id', async () => {
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id, { startTime: hoursFromNow(24), endTime: hoursFromNow(25) });
+
+    const response = await request(app)
+      .patch(`/api/slots/${slot.id}`)
+      .set('x-user-id', host.id)
+      .send({ startTime: hoursFromNow(48).toISOString(), endTime: hoursFromNow(50).toISOString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.slot).toMatchObject({
+      id: slot.id,
+      startTime: hoursFromNow(48).toISOString(),
+      endTime: hoursFromNow(50).toISOString(),
+    });
+    expect(response.body.data.pendingChange).toBeNull();
+
+    const events = await prisma.outboxEvent.findMany({ where: { eventType: 'slot.updated' } });
+    expect(events).toHaveLength(1);
+    expect(events[0].payload).toMatchObject({ slotId: slot.id, bookingIds: [] });
+  });
+
+  it('should reject a time overlapping another slot', async () => {
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id, { startTime: hoursFromNow(24), endTime: hoursFromNow(25) });
+    await createTestSlot(host.id, { startTime: hoursFromNow(26), endTime: hoursFromNow(27) });
+
+    const response = await request(app)
+      .patch(`/api/slots/${slot.id}`)
+      .set('x-user-id', host.id)
+      .send({ startTime: hoursFromNow(24).toISOString(), endTime: hoursFromNow(27).toISOString() });
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should allow a time overlapping only the slot itself', async () => {
+    const host = await createTestHost();
+    const slot = await createTestSlot(host.id, { startTime: hoursFromNow(24), endTime: hoursFromNow(25) });
+
+    const response = await request(app)
+      .patch(`/api/slots/${slot.id}`)
+      .set('x-user-id', host.id)
+      .send({ startTime: hoursFromNow(24).toISOString(), endTime: hoursFromNow(26).toISOString() });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should only let the owner update a slot', async () => {
+    const host = await createTestHost();
+    const other = await createTestHost();
+    const slot = await createTestSlot(host.id);
+
+    const response = await request(app)
+      .patch(`/api/slots/${slot.id}`)
+      .set('x-user-id', other.id)
+      .send({ startTime: hoursFromNow(48).toISOString(), endTime: hoursFromNow(49).toISOString() });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject moving a booked slot without requestConsent', async () => {
+    const host = await createTestHost();
+    const guest = await createTestUser();
+    const slot = await createTestSlot(host.id, { startTime: hoursFromNow(24), endTime: hoursFromNow(25) });
+    await createTestBooking(guest.id, slot.id);
+
+    const response = await request(app)
+      .patch(`/api/slots/${slot.id}`)
+      .set('x-user-id', host.id)
+      .send({ startTime: hoursFromNow(48).toISOString(), endTime: hoursFromNow(49).toISOString() });
+
+    expect(response.status).toBe(409);
+    const unchanged = await prisma.slot.findUnique({ where: { id: slot.id } });
+    expect(unchanged?.startTime).toEqual(hoursFromNow(24));
+  });
+
+  describe('guest consent', () => {
+    async function proposeChange(guestCount = 1) {
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id, {
+        startTime: hoursFromNow(24),
+        endTime: hoursFromNow(25),
+        capacity: guestCount,
+      });
+      const guests = [];
+      const bookings = [];
+      for (let i = 0; i < guestCount; i++) {
+        const guest = await createTestUser();
+        guests.push(guest);
+        bookings.push(await prisma.booking.create({ data: { slotId: slot.id, userId: guest.id } }));
+      }
+
+      const response = await request(app)
+        .patch(`/api/slots/${slot.id}`)
+        .set('x-user-id', host.id)
+        .send({
+          startTime: hoursFromNow(48).toISOString(),
+          endTime: hoursFromNow(49).toISOString(),
+          requestConsent: true,
+        });
+
+      return { host, slot, guests, bookings, response };
+    }
+
+    it('should propose the new time to the guests', async () => {
+      const { slot, bookings, response } = await proposeChange();
+
+      expect(response.status).toBe(202);
+      expect(response.body.data.slot.startTime).toBe(hoursFromNow(24).toISOString());
+      expect(response.body.data.pendingChange).toMatchObject({
+        status: SlotChangeStatus.PENDING,
+        startTime: hoursFromNow(48).toISOString(),
+      });
+
+      const events = await prisma.outboxEvent.findMany({ where: { eventType: 'slot.change_proposed' } });
+      expect(events[0].payload).toMatchObject({ slotId: slot.id, bookingIds: [bookings[0].id] });
+    });
+
+    it('should move the slot once every guest accepted', async () => {
+      const { slot, guests, bookings } = await proposeChange(2);
+
+      const first = await request(app)
+        .post(`/api/bookings/${bookings[0].id}/slot-change/accept`)
+        .set('x-user-id', guests[0].id);
+
+      expect(first.status).toBe(200);
+      expect(first.body.data.status).toBe(SlotChangeStatus.PENDING);
+
+      const second = await request(app)
+        .post(`/api/bookings/${bookings[1].id}/slot-change/accept`)
+        .set('x-user-id', guests[1].id);
+
+      expect(second.body.data.status).toBe(SlotChangeStatus.APPLIED);
+
+      const moved = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(moved?.startTime).toEqual(hoursFromNow(48));
+      const booking = await prisma.booking.findUnique({ where: { id: bookings[0].id } });
+      expect(booking?.icalSequence).toBe(1);
+
+      const events = await prisma.outboxEvent.findMany({ where: { eventType: 'slot.updated' } });
+      expect(events[0].payload).toMatchObject({ slotId: slot.id });
+    });
+
+    it('should cancel the booking of a guest who declines', async () => {
+      const { slot, guests, bookings } = await proposeChange(2);
+
+      await request(app)
+        .post(`/api/bookings/${bookings[0].id}/slot-change/accept`)
+        .set('x-user-id', guests[0].id);
+      const response = await request(app)
+        .post(`/api/bookings/${bookings[1].id}/slot-change/decline`)
+        .set('x-user-id', guests[1].id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe(BookingStatus.CANCELLED);
+
+      // The remaining guest accepted, so the slot moves
+      const moved = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(moved?.startTime).toEqual(hoursFromNow(48));
+    });
+
+    it('should only let the guest respond for their booking', async () => {
+      const { host, bookings } = await proposeChange();
+
+      const response = await request(app)
+        .post(`/api/bookings/${bookings[0].id}/slot-change/accept`)
+        .set('x-user-id', host.id);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should withdraw a pending change when the host edits again', async () => {
+      const { host, slot, guests, bookings } = await proposeChange();
+
+      const response = await request(app)
+        .patch(`/api/slots/${slot.id}`)
+        .set('x-user-id', host.id)
+        .send({ startTime: hoursFromNow(24).toISOString(), endTime: hoursFromNow(25).toISOString() });
+
+      expect(response.status).toBe(200);
+      const change = await prisma.slotChangeRequest.findFirst({ where: { slotId: slot.id } });
+      expect(change?.status).toBe(SlotChangeStatus.WITHDRAWN);
+
+      const accept = await request(app)
+        .post(`/api/bookings/${bookings[0].id}/slot-change/accept`)
+        .set('x-user-id', guests[0].id);
+      expect(accept.status).toBe(404);
+    });
+  });
+});
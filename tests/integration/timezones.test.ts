@@ -0,0 +1,189 @@
+import request from 'supertest';
+import app from '../../src/index';
+import {
+  createTestAdmin,
+  createTestHost,
+  createTestUser,
+  createTestSlot,
+  createTestBooking,
+  prisma,
+} from '../helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC day `days` from now at the given hour
+ */
+function daysFromNowAt(days: number, hour: number): Date {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+}
+
+describe('Time Zones', () => {
+  describe('PATCH /api/users/me', () => {
+    it('should update the user time zone', async () => {
+      const user = await createTestUser({ name: 'Traveller' });
+
+      const response = await request(app)
+        .patch('/api/users/me')
+        .set('x-user-id', user.id)
+        .send({ timeZone: 'Asia/Singapore' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.timeZone).toBe('Asia/Singapore');
+    });
+
+    it('should reject unknown time zones', async () => {
+      const user = await createTestUser({ name: 'Traveller' });
+
+      const response = await request(app)
+        .patch('/api/users/me')
+        .set('x-user-id', user.id)
+        .send({ timeZone: 'Mars/Olympus_Mons' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Slot responses', () => {
+    it('should render dates with the offset of the tz parameter', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const slot = await createTestSlot(host.id, {
+        startTime: daysFromNowAt(2, 10),
+        endTime: daysFromNowAt(2, 11),
+      });
+
+      const response = await request(app)
+        .get(`/api/slots/${slot.id}`)
+        .set('x-user-id', host.id)
+        .query({ tz: 'Asia/Singapore' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.startTime).toMatch(/T18:00:00\.000\+08:00$/);
+      expect(new Date(response.body.data.startTime).getTime()).toBe(slot.startTime.getTime());
+    });
+
+    it('should default to the user time zone and keep UTC as Z', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const slot = await createTestSlot(host.id, {
+        startTime: daysFromNowAt(2, 10),
+        endTime: daysFromNowAt(2, 11),
+      });
+
+      const utcResponse = await request(app)
+        .get(`/api/slots/${slot.id}`)
+        .set('x-user-id', host.id);
+      expect(utcResponse.body.data.startTime).toBe(slot.startTime.toISOString());
+
+      await prisma.user.update({ where: { id: host.id }, data: { timeZone: 'Asia/Kolkata' } });
+
+      const zonedResponse = await request(app)
+        .get(`/api/slots/${slot.id}`)
+        .set('x-user-id', host.id);
+      expect(zonedResponse.body.data.startTime).toMatch(/T15:30:00\.000\+05:30$/);
+    });
+
+    it('should read date filters as wall time in the tz parameter', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      // 20:00 UTC is already the next day in Singapore
+      const lateSlot = await createTestSlot(host.id, {
+        startTime: daysFromNowAt(2, 20),
+        endTime: daysFromNowAt(2, 21),
+      });
+      await createTestSlot(host.id, {
+        startTime: daysFromNowAt(2, 10),
+        endTime: daysFromNowAt(2, 11),
+      });
+
+      const nextDay = daysFromNowAt(3, 0).toISOString().slice(0, 10);
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', host.id)
+        .query({ hostId: host.id, startDate: nextDay, tz: 'Asia/Singapore' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.length).toBe(1);
+      expect(response.body.data[0].id).toBe(lateSlot.id);
+    });
+
+    it('should reject an invalid tz parameter', async () => {
+      const user = await createTestUser({ name: 'Guest' });
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', user.id)
+        .query({ tz: 'Not/AZone' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/admin/analytics', () => {
+    it('should bucket bookings per day in the requested time zone', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const user = await createTestUser({ name: 'Guest' });
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(user.id, slot.id);
+      const admin = await createTestAdmin();
+
+      // 23:30 UTC on Jan 10 is Jan 11 in Tokyo and still Jan 10 in New York
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: { createdAt: new Date('2026-01-10T23:30:00Z') },
+      });
+
+      const tokyo = await request(app)
+        .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
+        .query({ start_date: '2026-01-10', end_date: '2026-01-11', tz: 'Asia/Tokyo' });
+
+      expect(tokyo.status).toBe(200);
+      expect(tokyo.body.data.bookingsPerDay).toEqual([{ date: '2026-01-11', count: 1 }]);
+
+      const newYork = await request(app)
+        .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
+        .query({ start_date: '2026-01-10', end_date: '2026-01-10', tz: 'America/New_York' });
+
+      expect(newYork.body.data.bookingsPerDay).toEqual([{ date: '2026-01-10', count: 1 }]);
+
+      // Jan 10 in Tokyo ends at 15:00 UTC, before the booking was created
+      const tokyoFirstDay = await request(app)
+        .get('/api/admin/analytics')
+        .set('x-user-id', admin.id)
+        .query({ start_date: '2026-01-10', end_date: '2026-01-10', tz: 'Asia/Tokyo' });
+
+      expect(tokyoFirstDay.body.data.totalBookings).toBe(0);
+    });
+  });
+
+  describe('Availability rules', () => {
+    it('should generate windows in the host time zone', async () => {
+      const host = await createTestHost({ name: 'Tokyo Host' });
+      await prisma.user.update({ where: { id: host.id }, data: { timeZone: 'Asia/Tokyo' } });
+
+      // 09:00 in Tokyo is 00:00 UTC on the same calendar day
+      const day = daysFromNowAt(3, 0);
+      await prisma.availabilityRule.create({
+        data: {
+          hostId: host.id,
+          weekday: day.getUTCDay(),
+          startTime: '09:00',
+          endTime: '10:00',
+          slotDurationMinutes: 60,
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/slots')
+        .set('x-user-id', host.id)
+        .query({ hostId: host.id, tz: 'UTC' });
+
+      expect(response.status).toBe(200);
+      const windows = response.body.data.filter((slot: { id: string | null }) => slot.id === null);
+      expect(windows.map((window: { startTime: string }) => window.startTime)).toContain(day.toISOString());
+    });
+  });
+});
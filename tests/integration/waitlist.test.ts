@@ -0,0 +1,213 @@
+process.env.USE_BOOKING_QUEUE = 'false';
+
+import request from 'supertest';
+import app from '../../src/index';
+import { bookingService } from '../../src/services';
+import { createTestHost, createTestUser, createTestSlot, createTestBooking, prisma } from '../helpers';
+import { BookingStatus, SlotStatus, WaitlistStatus } from '@prisma/client';
+
+describe('Waitlist', () => {
+  describe('POST /api/slots/:id/waitlist', () => {
+    it('should join the waitlist of a fully booked slot in FIFO order', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const first = await createTestUser({ name: 'First' });
+      const second = await createTestUser({ name: 'Second' });
+      const slot = await createTestSlot(host.id);
+      await createTestBooking(booker.id, slot.id);
+
+      const firstResponse = await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', first.id);
+
+      expect(firstResponse.status).toBe(201);
+      expect(firstResponse.body.data.status).toBe(WaitlistStatus.WAITING);
+      expect(firstResponse.body.data.position).toBe(1);
+
+      const secondResponse = await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', second.id);
+
+      expect(secondResponse.status).toBe(201);
+      expect(secondResponse.body.data.position).toBe(2);
+    });
+
+    it('should reject joining a slot that still has seats', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const user = await createTestUser({ name: 'Guest' });
+      const slot = await createTestSlot(host.id);
+
+      const response = await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', user.id);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject joining twice', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const user = await createTestUser({ name: 'Guest' });
+      const slot = await createTestSlot(host.id);
+      await createTestBooking(booker.id, slot.id);
+
+      await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', user.id);
+
+      const response = await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', user.id);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should reject guests who already hold a seat', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const slot = await createTestSlot(host.id);
+      await createTestBooking(booker.id, slot.id);
+
+      const response = await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', booker.id);
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('DELETE /api/slots/:id/waitlist', () => {
+    it('should leave the waitlist', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const user = await createTestUser({ name: 'Guest' });
+      const slot = await createTestSlot(host.id);
+      await createTestBooking(booker.id, slot.id);
+
+      await request(app)
+        .post(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', user.id);
+
+      const response = await request(app)
+        .delete(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', user.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe(WaitlistStatus.REMOVED);
+
+      const again = await request(app)
+        .delete(`/api/slots/${slot.id}/waitlist`)
+        .set('x-user-id', user.id);
+
+      expect(again.status).toBe(404);
+    });
+  });
+
+  describe('Promotion on cancellation', () => {
+    it('should book the freed seat for the first waitlisted guest', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const first = await createTestUser({ name: 'First' });
+      const second = await createTestUser({ name: 'Second' });
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(booker.id, slot.id);
+
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', first.id);
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', second.id);
+
+      const response = await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', booker.id);
+
+      expect(response.status).toBe(200);
+
+      const promoted = await prisma.booking.findFirst({
+        where: { slotId: slot.id, userId: first.id, status: BookingStatus.CONFIRMED },
+      });
+      expect(promoted).not.toBeNull();
+
+      const entry = await prisma.waitlistEntry.findFirst({ where: { slotId: slot.id, userId: first.id } });
+      expect(entry?.status).toBe(WaitlistStatus.PROMOTED);
+      expect(entry?.bookingId).toBe(promoted?.id);
+
+      const updatedSlot = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(updatedSlot?.status).toBe(SlotStatus.BOOKED);
+    });
+
+    it('should promote only one guest when the same booking is cancelled twice at once', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const first = await createTestUser({ name: 'First' });
+      const second = await createTestUser({ name: 'Second' });
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(booker.id, slot.id);
+
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', first.id);
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', second.id);
+
+      const results = await Promise.allSettled([
+        bookingService.cancelBooking(booker.id, booking.id),
+        bookingService.cancelBooking(booker.id, booking.id),
+      ]);
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(await prisma.booking.count({
+        where: { slotId: slot.id, status: { in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] } },
+      })).toBe(1);
+      expect(await prisma.outboxEvent.count({ where: { eventType: 'booking.cancelled' } })).toBe(1);
+
+      const secondEntry = await prisma.waitlistEntry.findFirst({ where: { slotId: slot.id, userId: second.id } });
+      expect(secondEntry?.status).toBe(WaitlistStatus.WAITING);
+    });
+
+    it('should skip guests who have become ineligible', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const busy = await createTestUser({ name: 'Busy' });
+      const next = await createTestUser({ name: 'Next' });
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(booker.id, slot.id);
+
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', busy.id);
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', next.id);
+
+      // Busy books another slot with the same host while waiting
+      const otherSlot = await createTestSlot(host.id, {
+        startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+      });
+      await createTestBooking(busy.id, otherSlot.id);
+
+      await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', booker.id);
+
+      const busyEntry = await prisma.waitlistEntry.findFirst({ where: { slotId: slot.id, userId: busy.id } });
+      expect(busyEntry?.status).toBe(WaitlistStatus.WAITING);
+
+      const nextEntry = await prisma.waitlistEntry.findFirst({ where: { slotId: slot.id, userId: next.id } });
+      expect(nextEntry?.status).toBe(WaitlistStatus.PROMOTED);
+    });
+
+    it('should free the slot when nobody on the waitlist is eligible', async () => {
+      const host = await createTestHost({ name: 'Host' });
+      const booker = await createTestUser({ name: 'Booker' });
+      const busy = await createTestUser({ name: 'Busy' });
+      const slot = await createTestSlot(host.id);
+      const booking = await createTestBooking(booker.id, slot.id);
+
+      await request(app).post(`/api/slots/${slot.id}/waitlist`).set('x-user-id', busy.id);
+
+      const otherSlot = await createTestSlot(host.id, {
+        startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+      });
+      await createTestBooking(busy.id, otherSlot.id);
+
+      await request(app)
+        .delete(`/api/bookings/${booking.id}`)
+        .set('x-user-id', booker.id);
+
+      const updatedSlot = await prisma.slot.findUnique({ where: { id: slot.id } });
+      expect(updatedSlot?.status).toBe(SlotStatus.AVAILABLE);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import request from 'supertest';
+import app from '../../src/index';
+import { createTestAdmin, createTestHost, createTestUser, createTestSlot, prisma } from '../helpers';
+import { webhookQueue } from '../../src/queues';
+import { webhookService } from '../../src/services';
+import {
+  startOutboxRelay,
+  startOutboxWorker,
+  startWebhookWorker,
+  stopOutboxRelay,
+  stopOutboxWorker,
+  stopWebhookWorker,
+} from '../../src/workers';
+
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  rawBody: string;
+  body: any;
+}
+
+describe('Webhooks', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+  });
+
+  describe('subscriptions', () => {
+    it('should create a subscription and return its secret once', async () => {
+      const created = await request(app)
+        .post('/api/webhooks')
+        .set('x-user-id', admin.id)
+        .send({ url: 'https://crm.example.com/hooks', eventTypes: ['booking.created'] });
+
+      expect(created.status).toBe(201);
+      expect(created.body.data.secret).toEqual(expect.any(String));
+      expect(created.body.data.eventTypes).toEqual(['booking.created']);
+
+      const list = await request(app)
+        .get('/api/webhooks')
+        .set('x-user-id', admin.id);
+
+      expect(list.status).toBe(200);
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0].secret).toBeUndefined();
+    });
+
+    it('should reject unknown event types', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('x-user-id', admin.id)
+        .send({ url: 'https://crm.example.com/hooks', eventTypes: ['auth.magic_link_requested'] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should require the ADMIN role', async () => {
+      const host = await createTestHost();
+
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('x-user-id', host.id)
+        .send({ url: 'https://crm.example.com/hooks', eventTypes: ['booking.created'] });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should delete a subscription', async () => {
+      const created = await request(app)
+        .post('/api/webhooks')
+        .set('x-user-id', admin.id)
+        .send({ url: 'https://crm.example.com/hooks', eventTypes: ['slot.created'] });
+
+      const deleted = await request(app)
+        .delete(`/api/webhooks/${created.body.data.id}`)
+        .set('x-user-id', admin.id);
+
+      expect(deleted.status).toBe(200);
+
+      const deliveries = await request(app)
+        .get(`/api/webhooks/${created.body.data.id}/deliveries`)
+        .set('x-user-id', admin.id);
+
+      expect(deliveries.status).toBe(404);
+    });
+  });
+
+  /**
+   * Requirements:
+   * - Redis must be running on localhost:6379
+   */
+  describe('delivery', () => {
+    let isRedisAvailable = true;
+    let server: http.Server;
+    let receiverUrl: string;
+    let received: ReceivedWebhook[];
+    // Status codes to answer with, in order; 200 once exhausted
+    let responseStatuses: number[];
+
+    // Wait until the receiver got `count` requests
+    async function waitForWebhooks(count: number): Promise<ReceivedWebhook[]> {
+      for (let attempt = 0; attempt < 100 && received.length < count; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      return received;
+    }
+
+    // Poll the delivery log until its latest entry matches `status`
+    async function waitForDelivery(subscriptionId: string, status: string) {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const response = await request(app)
+          .get(`/api/webhooks/${subscriptionId}/deliveries`)
+          .set('x-user-id', admin.id);
+        const [delivery] = response.body.data;
+        if (delivery?.status === status) {
+          return delivery;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      throw new Error(`No ${status} delivery for subscription ${subscriptionId}`);
+    }
+
+    async function subscribe(eventTypes: string[]) {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('x-user-id', admin.id)
+        .send({ url: receiverUrl, eventTypes });
+      return response.body.data;
+    }
+
+    beforeAll(async () => {
+      try {
+        await webhookQueue.getJobCounts();
+        // Events reach the dispatcher through the outbox
+        startOutboxRelay();
+        startOutboxWorker();
+        startWebhookWorker();
+      } catch {
+        isRedisAvailable = false;
+        console.warn('Redis not available - skipping webhook delivery tests');
+        return;
+      }
+
+      server = http.createServer((req, res) => {
+        let rawBody = '';
+        req.on('data', (chunk) => {
+          rawBody += chunk;
+        });
+        req.on('end', () => {
+          received.push({ headers: req.headers, rawBody, body: JSON.parse(rawBody) });
+          res.statusCode = responseStatuses.shift() ?? 200;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    }, 10000);
+
+    afterAll(async () => {
+      if (isRedisAvailable) {
+        await stopOutboxRelay();
+        await stopOutboxWorker();
+        await stopWebhookWorker();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    }, 10000);
+
+    beforeEach(() => {
+      received = [];
+      responseStatuses = [];
+    });
+
+    it('should deliver a signed booking.created event', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const subscription = await subscribe(['booking.created']);
+      const host = await createTestHost();
+      const slot = await createTestSlot(host.id);
+      const guest = await createTestUser();
+
+      const booking = await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: slot.id });
+
+      const [webhook] = await waitForWebhooks(1);
+
+      const event = await prisma.outboxEvent.findFirst({ where: { eventType: 'booking.created' } });
+
+      expect(webhook.headers['x-webhook-event']).toBe('booking.created');
+      expect(webhook.body.type).toBe('booking.created');
+      expect(webhook.body.id).toBe(event?.id);
+      expect(webhook.body.data).toMatchObject({
+        bookingId: booking.body.data.id,
+        slotId: slot.id,
+        guestId: guest.id,
+        hostId: host.id,
+      });
+
+      const timestamp = webhook.headers['x-webhook-timestamp'];
+      const expected = createHmac('sha256', subscription.secret)
+        .update(`${timestamp}.${webhook.rawBody}`)
+        .digest('hex');
+      expect(webhook.headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+
+      const delivery = await waitForDelivery(subscription.id, 'SUCCEEDED');
+      expect(delivery.attempts).toBe(1);
+      expect(delivery.responseStatus).toBe(200);
+    });
+
+    it('should only deliver subscribed event types', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      await subscribe(['slot.deleted']);
+      const host = await createTestHost();
+      const [booked, unbooked] = await Promise.all([
+        createTestSlot(host.id),
+        createTestSlot(host.id, {
+          startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+          endTime: new Date(Date.now() + 49 * 60 * 60 * 1000),
+        }),
+      ]);
+      const guest = await createTestUser();
+
+      await request(app)
+        .post('/api/bookings')
+        .set('x-user-id', guest.id)
+        .send({ slotId: booked.id });
+
+      await request(app)
+        .delete(`/api/slots/${unbooked.id}`)
+        .set('x-user-id', host.id);
+
+      const webhooks = await waitForWebhooks(1);
+
+      expect(webhooks).toHaveLength(1);
+      expect(webhooks[0].body.type).toBe('slot.deleted');
+      expect(webhooks[0].body.data).toEqual({ slotId: unbooked.id, hostId: host.id });
+    });
+
+    it('should retry failed deliveries', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      responseStatuses = [500];
+      const subscription = await subscribe(['slot.created']);
+      const host = await createTestHost();
+      const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      await request(app)
+        .post('/api/slots')
+        .set('x-user-id', host.id)
+        .send({ startTime, endTime: new Date(startTime.getTime() + 60 * 60 * 1000) });
+
+      const webhooks = await waitForWebhooks(2);
+
+      expect(webhooks).toHaveLength(2);
+      expect(webhooks[1].headers['x-webhook-id']).toBe(webhooks[0].headers['x-webhook-id']);
+
+      const delivery = await waitForDelivery(subscription.id, 'SUCCEEDED');
+      expect(delivery.attempts).toBe(2);
+    }, 15000);
+
+    it('should record one delivery per subscription when an event is emitted again', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const subscription = await subscribe(['slot.deleted']);
+      const event = { slotId: 'slot-1', hostId: 'host-1' };
+
+      await webhookService.dispatch('slot.deleted', event, 'event-1');
+      await webhookService.dispatch('slot.deleted', event, 'event-1');
+
+      await waitForDelivery(subscription.id, 'SUCCEEDED');
+      expect(await prisma.webhookDelivery.count({ where: { subscriptionId: subscription.id } })).toBe(1);
+      expect(received.map((webhook) => webhook.body.id)).toEqual(['event-1']);
+    });
+
+    it('should replay a delivery with the same event', async () => {
+      if (!isRedisAvailable) {
+        console.log('Skipping: Redis not available');
+        return;
+      }
+
+      const subscription = await subscribe(['slot.created']);
+      const host = await createTestHost();
+      const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      await request(app)
+        .post('/api/slots')
+        .set('x-user-id', host.id)
+        .send({ startTime, endTime: new Date(startTime.getTime() + 60 * 60 * 1000) });
+
+      const delivery = await waitForDelivery(subscription.id, 'SUCCEEDED');
+
+      const replay = await request(app)
+        .post(`/api/webhooks/deliveries/${delivery.id}/replay`)
+        .set('x-user-id', admin.id);
+
+      expect(replay.status).toBe(202);
+
+      const webhooks = await waitForWebhooks(2);
+
+      expect(webhooks).toHaveLength(2);
+      expect(webhooks[1].body.id).toBe(webhooks[0].body.id);
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 
+// Tests authenticate with the x-user-id header unless they exercise tokens
+process.env.AUTH_ALLOW_USER_ID_HEADER = 'true';
+
 const prisma = new PrismaClient();
 
 // Clean up database before all tests
@@ -11,8 +14,22 @@ beforeAll(async () => {
 // Clean up database after each test
 afterEach(async () => {
   // Delete all data in reverse order of dependencies
+  await prisma.outboxEvent.deleteMany();
+  await prisma.notificationLog.deleteMany();
+  await prisma.webhookDelivery.deleteMany();
+  await prisma.webhookSubscription.deleteMany();
+  await prisma.slotChangeRequest.deleteMany();
+  await prisma.waitlistEntry.deleteMany();
+  await prisma.bookingAnswer.deleteMany();
   await prisma.booking.deleteMany();
+  await prisma.intakeQuestion.deleteMany();
   await prisma.slot.deleteMany();
+  await prisma.slotSeries.deleteMany();
+  await prisma.availabilityRule.deleteMany();
+  await prisma.busyBlock.deleteMany();
+  await prisma.hostPolicy.deleteMany();
+  await prisma.authSession.deleteMany();
+  await prisma.magicLinkToken.deleteMany();
   await prisma.user.deleteMany();
 });
 